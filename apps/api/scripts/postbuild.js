@@ -1,14 +1,27 @@
 const fs = require('fs');
 const path = require('path');
 
-const src = path.join(process.cwd(), 'src/services/email/templates');
-const dist = path.join(process.cwd(), 'dist/services/email/templates');
+// Non-TS assets that tsc does not emit: email templates and the PDF renderer fonts
+const copies = [
+    { label: 'email templates', from: 'src/services/email/templates', to: 'dist/services/email/templates' },
+    { label: 'PDF fonts', from: 'src/assets/fonts', to: 'dist/assets/fonts' }
+];
 
-console.log('🚀 Starting postbuild: Copying email templates...');
-console.log(`📂 Source: ${src}`);
-console.log(`📂 Destination: ${dist}`);
+console.log('🚀 Starting postbuild: Copying static assets...');
+
+copies.forEach(({ label, from, to }) => {
+    const src = path.join(process.cwd(), from);
+    const dist = path.join(process.cwd(), to);
+
+    console.log(`📦 ${label}`);
+    console.log(`📂 Source: ${src}`);
+    console.log(`📂 Destination: ${dist}`);
+
+    if (!fs.existsSync(src)) {
+        console.log(`⚠️ Source directory not found. Skipping ${label} copy.`);
+        return;
+    }
 
-if (fs.existsSync(src)) {
     if (!fs.existsSync(dist)) {
         console.log('📁 Creating destination directory...');
         fs.mkdirSync(dist, { recursive: true });
@@ -23,8 +36,6 @@ if (fs.existsSync(src)) {
         console.log(`  - Copying: ${file}`);
         fs.copyFileSync(srcFile, distFile);
     });
+});
 
-    console.log('✅ Postbuild completed successfully.');
-} else {
-    console.log('⚠️ Source directory not found. Skipping template copy.');
-}
+console.log('✅ Postbuild completed successfully.');
@@ -0,0 +1,84 @@
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('ethers');
+
+// Bundled offline signature registry (see src/services/classifier/infrastructure/SignatureRegistry.ts)
+//
+// Usage: npm run signatures:update -- [abi.json ...]
+// Each file holds an ABI array (JSON or human-readable fragments) or an artifact with an `abi` field
+// (Etherscan, Hardhat, Foundry). Their functions and events are merged into the bundle; with no
+// arguments the bundle is only re-validated and re-sorted.
+const BUNDLE = path.join(__dirname, '../src/services/classifier/data/signatures.json');
+
+const readAbi = (file) => {
+    const json = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const abi = Array.isArray(json) ? json : json.abi;
+    if (!Array.isArray(abi)) throw new Error(`${file}: no ABI array found`);
+    return abi;
+};
+
+// Same selector / topic can carry several layouts (ERC20 vs ERC721 Transfer); keep one per layout
+const layoutKey = (fragment) => fragment.type === 'event'
+    ? `${fragment.format('sighash')}|${fragment.inputs.map(i => (i.indexed ? 1 : 0)).join('')}`
+    : fragment.format('sighash');
+
+const bundle = fs.existsSync(BUNDLE)
+    ? JSON.parse(fs.readFileSync(BUNDLE, 'utf8'))
+    : { functions: {}, events: {} };
+
+const functions = new Map();
+const events = new Map();
+let added = 0;
+
+const add = (fragment) => {
+    if (fragment.type !== 'function' && fragment.type !== 'event') return;
+    const key = fragment.type === 'function' ? fragment.selector : fragment.topicHash;
+    const target = fragment.type === 'function' ? functions : events;
+
+    const entries = target.get(key) || new Map();
+    if (!entries.has(layoutKey(fragment))) {
+        entries.set(layoutKey(fragment), fragment.format('full'));
+        added++;
+    }
+    target.set(key, entries);
+};
+
+// Existing entries are re-parsed, so a hand-edited selector that does not match its fragment is dropped
+for (const [section, expectedType] of [['functions', 'function'], ['events', 'event']]) {
+    for (const [key, fragments] of Object.entries(bundle[section] || {})) {
+        for (const text of fragments) {
+            const fragment = ethers.Fragment.from(text);
+            const actual = expectedType === 'function' ? fragment.selector : fragment.topicHash;
+            if (fragment.type !== expectedType || actual !== key) {
+                console.log(`⚠️ Dropping ${text}: expected ${key}, got ${actual}`);
+                continue;
+            }
+            add(fragment);
+        }
+    }
+}
+const existing = added;
+
+// Fragments are parsed one by one: ethers.Interface keeps only one event per topic
+for (const file of process.argv.slice(2)) {
+    for (const item of readAbi(file)) {
+        try {
+            add(ethers.Fragment.from(item));
+        } catch (err) {
+            console.log(`⚠️ ${file}: skipping ${JSON.stringify(item)} (${err.message})`);
+        }
+    }
+    console.log(`📄 ${file}`);
+}
+
+const sorted = (map) => Object.fromEntries(
+    [...map.keys()].sort().map(key => [key, [...map.get(key).values()]])
+);
+
+fs.writeFileSync(BUNDLE, JSON.stringify({
+    version: new Date().toISOString().slice(0, 10),
+    functions: sorted(functions),
+    events: sorted(events)
+}, null, 2) + '\n');
+
+console.log(`✅ ${functions.size} selectors, ${events.size} event topics (${added - existing} new fragments)`);
@@ -24,3 +24,17 @@ export const ERC1155_ABI = [
     "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
     "function uri(uint256 id) view returns (string)"
 ];
+
+// Safe (Gnosis Safe) owner-side state
+export const SAFE_ABI = [
+    "function nonce() view returns (uint256)",
+    "function getThreshold() view returns (uint256)"
+];
+
+// DEX pools: tokens (Uniswap V2 / V3) and swap fee
+export const SWAP_POOL_ABI = [
+    "function token0() view returns (address)",
+    "function token1() view returns (address)",
+    "function fee() view returns (uint256)", // Uniswap V3: millionths (uint24); Curve: 1e10 = 100%
+    "function getSwapFeePercentage() view returns (uint256)" // Balancer: 1e18 = 100%
+];
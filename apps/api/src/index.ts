@@ -11,8 +11,14 @@ import { SoftQueueService } from './services/SoftQueueService';
 import { WebhookService } from './services/WebhookService';
 import { ContributionService } from './services/ContributionService';
 import { EmailQueueService } from './services/EmailQueueService';
+import { FinalityTrackerService } from './services/FinalityTrackerService';
+import { ReclassificationService } from './services/ReclassificationService';
 import { logger, createComponentLogger } from './lib/logger';
 import { supabase } from './lib/supabase';
+import { SUPPORTED_CURRENCIES } from './services/fx';
+import { chainRegistry } from './services/chains';
+import { contractAbis } from './services/signatures';
+import { rulePacks } from './services/rulePacks';
 
 // Security Middleware
 import { hybridAuth, hybridAuthWithTracking } from './middleware/hybridAuth';
@@ -24,6 +30,8 @@ import { usageTrackingMiddleware } from './middleware/UsageTrackingMiddleware';
 import contributionsRouter from './routes/contributions';
 import tokensRouter from './routes/tokens';
 import pdfsRouter from './routes/v1/pdfs';
+import statementsRouter from './routes/v1/statements';
+import classifyRouter from './routes/v1/classify';
 import adminRouter from './routes/v1/adminRouter';
 import webhooksRouter from './routes/v1/webhooks'; // [NEW]
 import templatesRouter from './routes/v1/templates'; // [NEW]
@@ -109,6 +117,8 @@ app.use('/api/v1/tokens', tokensRouter);
 
 // SaaS Platform Routes
 app.use('/api/v1/pdfs', pdfsRouter);
+app.use('/api/v1/statements', statementsRouter);
+app.use('/api/v1/classify', classifyRouter);
 app.use('/api/v1/webhooks', webhooksRouter); // [NEW]
 app.use('/api/v1/templates', templatesRouter); // [NEW]
 app.use('/api/v1/usage', usageRouter); // [NEW]
@@ -132,6 +142,11 @@ const setupPublicRoutes = (app: express.Application) => {
     // 3. Serve Generated PDFs (Public Storage Read ONLY)
     app.get('/bills/:fileName', publicRateLimiter, async (req: Request, res: Response) => {
         const { fileName } = req.params;
+        // Statements are private (GET /api/v1/statements/:jobId/pdf checks the requester)
+        if (fileName.toUpperCase().startsWith('STMT-')) {
+            res.status(404).send('Receipt not found. Please regenerate via dashboard.');
+            return;
+        }
         try {
             // [HARDENING] Removed Self-Healing (Regen). 
             // Public users can only read. If missing, they must use/authed flow.
@@ -156,6 +171,10 @@ const setupPublicRoutes = (app: express.Application) => {
     // 4. Get Bill JSON Data (Public with Rate Limiting)
     app.get('/api/v1/bills/:billId/data', publicRateLimiter, async (req: Request, res: Response) => {
         const { billId } = req.params;
+        if (billId.toUpperCase().startsWith('STMT-')) {
+            res.status(404).json({ code: 'NOT_FOUND', error: 'Receipt not found. Please generate it first via the dashboard.' });
+            return;
+        }
         // Normalization: Canonical ID is uppercase BILL-
         // Windows Dev environments or some browsers might lowercase the URL
         let jsonKey = billId;
@@ -192,7 +211,8 @@ const setupPublicRoutes = (app: express.Application) => {
 const billGenerateSchema = z.object({
     txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid Transaction Hash format"),
     chainId: z.number().int().positive("Chain ID must be a positive integer"),
-    connectedWallet: z.string().optional()
+    connectedWallet: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid wallet address").optional(), // Receipt perspective
+    currency: z.enum(SUPPORTED_CURRENCIES).optional()
 });
 
 const setupPrivateRoutes = (app: express.Application) => {
@@ -205,14 +225,14 @@ const setupPrivateRoutes = (app: express.Application) => {
                 return;
             }
 
-            const { txHash, chainId, connectedWallet } = validation.data;
+            const { txHash, chainId, connectedWallet, currency } = validation.data;
             const apiKeyId = (req as any).auth?.id; // Public API Context
             const userId = (req as any).user?.id;   // Internal User Context
 
-            logger.info('Enqueueing bill request', { txHash, chainId, apiKeyId, userId });
+            logger.info('Enqueueing bill request', { txHash, chainId, apiKeyId, userId, currency });
 
             // Pass apiKeyId OR userId to enqueue for robust worker checking
-            const job = await softQueueService.enqueue(txHash, chainId, { connectedWallet, apiKeyId, userId });
+            const job = await softQueueService.enqueue(txHash, chainId, { connectedWallet, apiKeyId, userId, currency });
 
             setImmediate(() => softQueueService.processNext().catch(e => logger.error('Queue processing error', { error: e.message })));
 
@@ -230,7 +250,7 @@ const setupPrivateRoutes = (app: express.Application) => {
     app.get('/api/v1/bills/job/:id', saasMiddleware, async (req: Request, res: Response, next: NextFunction) => {
         try {
             const status = await softQueueService.getJobStatus(req.params.id);
-            if (!status) {
+            if (!status || status.type === 'statement') {
                 res.status(404).json({ code: 'JOB_NOT_FOUND', error: 'Job not found' });
                 return;
             }
@@ -362,6 +382,15 @@ app.listen(port, () => {
         env: process.env.NODE_ENV || 'development'
     });
 
+    // Warm chain registry cache (built-ins serve until the chains table is read)
+    chainRegistry.refresh().catch(err => logger.error('Chain registry load failed', { error: err.message }));
+
+    // Load admin-uploaded contract ABIs into the signature registry (bundled signatures serve until then)
+    contractAbis.refresh().catch(err => logger.error('Contract ABI load failed', { error: err.message }));
+
+    // Load declarative rule packs (built-in rules classify until then)
+    rulePacks.refresh().catch(err => logger.error('Rule pack load failed', { error: err.message }));
+
     // Start webhook delivery worker
     webhookService.startDeliveryWorker();
 
@@ -378,4 +407,13 @@ app.listen(port, () => {
         });
     }, 60 * 1000);
     logger.info('Contribution worker started');
+
+    // Start Finality Tracker (re-issues bills whose source block was reorged)
+    const finalityTracker = new FinalityTrackerService();
+    finalityTracker.startWorker();
+    logger.info('Finality tracker started');
+
+    // Resume reclassification jobs interrupted by a restart
+    const reclassificationService = new ReclassificationService();
+    reclassificationService.resume().catch(err => logger.error('Reclassification resume failed', { error: err.message }));
 });
\ No newline at end of file
@@ -43,11 +43,15 @@ function extractCoreData(billData: any): any {
         adUrl,
         adId,
         QR_CODE_DATA_URL,
+        ISSUED_CONFIRMATIONS,
 
         // Keep all transaction data
         ...coreData
     } = billData;
 
+    // CONFIRMATIONS is refreshed after issue (FinalityTrackerService); the proof covers the issued count
+    if (ISSUED_CONFIRMATIONS !== undefined) coreData.CONFIRMATIONS = ISSUED_CONFIRMATIONS;
+
     return coreData;
 }
 
@@ -8,6 +8,7 @@ const router = Router();
 const tokenSchema = z.object({
     symbol: z.string().min(1).max(10).transform(s => s.toUpperCase()),
     address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address format"),
+    chain_id: z.number().int().positive().default(8453), // Chain the address lives on (Base contributions)
     name: z.string().min(1),
     decimals: z.number().int().min(0).max(18),
     is_native: z.boolean().default(false),
@@ -5,6 +5,12 @@ import { ApiKeyService } from '../../services/ApiKeyService';
 import { AuditService } from '../../services/AuditService';
 import { EmailService } from '../../services/EmailService';
 import { EmailQueueService } from '../../services/EmailQueueService';
+import { chainRegistry, ChainDefinitionSchema, ChainDefinitionUpdateSchema } from '../../services/chains';
+import { rpcPools } from '../../services/rpc';
+import { contractAbis, ContractAbiSchema } from '../../services/signatures';
+import { signatureRegistry, RulePackSchema } from '../../services/classifier';
+import { rulePacks } from '../../services/rulePacks';
+import { ReclassificationService, MAX_RECLASSIFICATION_BILLS } from '../../services/ReclassificationService';
 import { logger } from '../../lib/logger';
 import { generateRandomToken, hashToken } from '../../lib/cryptography';
 import { z } from 'zod';
@@ -14,6 +20,7 @@ const keyService = new ApiKeyService();
 const auditService = new AuditService();
 const emailService = new EmailService();
 const emailQueueService = new EmailQueueService();
+const reclassificationService = new ReclassificationService();
 
 // Note: verifyAdmin middleware is applied in index.ts for the /api/v1/admin base path
 
@@ -836,6 +843,419 @@ router.post('/users/:id/send-verification', async (req: Request, res: Response)
 
 
 
+/**
+ * CHAIN REGISTRY
+ * ============================================================================
+ */
+
+const chainIdParam = z.coerce.number().int().positive();
+
+/**
+ * GET /api/v1/admin/chains
+ * List registry chains (including deactivated ones)
+ */
+router.get('/chains', async (req: Request, res: Response) => {
+    try {
+        await chainRegistry.refresh();
+        res.json(chainRegistry.list({ includeInactive: true }));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+/**
+ * GET /api/v1/admin/chains/:chainId
+ */
+router.get('/chains/:chainId', async (req: Request, res: Response) => {
+    try {
+        const chainId = chainIdParam.parse(req.params.chainId);
+        await chainRegistry.refresh();
+        const chain = chainRegistry.list({ includeInactive: true }).find(c => c.chainId === chainId);
+        if (!chain) return res.status(404).json({ error: 'Chain not found' });
+        res.json(chain);
+    } catch (e: any) {
+        res.status(400).json({ error: e.message });
+    }
+});
+
+/**
+ * POST /api/v1/admin/chains
+ * Add a new EVM chain (takes effect without a deploy; other instances pick it up within the cache TTL)
+ */
+router.post('/chains', async (req: Request, res: Response) => {
+    try {
+        const input = ChainDefinitionSchema.parse(req.body);
+        await chainRegistry.refresh();
+        if (chainRegistry.list({ includeInactive: true }).some(c => c.chainId === input.chainId)) {
+            return res.status(409).json({ error: `Chain ${input.chainId} already exists. Use PUT to update it.` });
+        }
+
+        const chain = await chainRegistry.save(input);
+
+        await auditService.log({
+            actorId: (req as any).user?.address || 'admin',
+            action: 'CHAIN_CREATE',
+            targetId: String(chain.chainId),
+            metadata: { name: chain.name },
+            ip: req.ip
+        });
+
+        res.status(201).json(chain);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid chain definition' : e.message, details: e.issues });
+    }
+});
+
+/**
+ * PUT /api/v1/admin/chains/:chainId
+ * Update a chain (partial; unspecified fields keep their current value)
+ */
+router.put('/chains/:chainId', async (req: Request, res: Response) => {
+    try {
+        const chainId = chainIdParam.parse(req.params.chainId);
+        await chainRegistry.refresh();
+        const current = chainRegistry.list({ includeInactive: true }).find(c => c.chainId === chainId);
+        if (!current) return res.status(404).json({ error: 'Chain not found' });
+
+        const updates = ChainDefinitionUpdateSchema.parse(req.body);
+        const chain = await chainRegistry.save({ ...current, ...updates, chainId });
+
+        await auditService.log({
+            actorId: (req as any).user?.address || 'admin',
+            action: 'CHAIN_UPDATE',
+            targetId: String(chainId),
+            metadata: { fields: Object.keys(updates) },
+            ip: req.ip
+        });
+
+        res.json(chain);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid chain definition' : e.message, details: e.issues });
+    }
+});
+
+/**
+ * DELETE /api/v1/admin/chains/:chainId
+ * Deactivate a chain (new bills are rejected; existing bills are untouched)
+ */
+router.delete('/chains/:chainId', async (req: Request, res: Response) => {
+    try {
+        const chainId = chainIdParam.parse(req.params.chainId);
+        const found = await chainRegistry.deactivate(chainId);
+        if (!found) return res.status(404).json({ error: 'Chain not found' });
+
+        await auditService.log({
+            actorId: (req as any).user?.address || 'admin',
+            action: 'CHAIN_DEACTIVATE',
+            targetId: String(chainId),
+            ip: req.ip
+        });
+
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+const addressParam = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format');
+
+/**
+ * GET /api/v1/admin/abis
+ * List uploaded contract ABIs (without the ABI bodies)
+ */
+router.get('/abis', async (req: Request, res: Response) => {
+    try {
+        await contractAbis.refresh();
+        res.json({ registryVersion: signatureRegistry.version, contracts: contractAbis.list() });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+/**
+ * GET /api/v1/admin/abis/:chainId/:address
+ */
+router.get('/abis/:chainId/:address', async (req: Request, res: Response) => {
+    try {
+        const chainId = chainIdParam.parse(req.params.chainId);
+        const address = addressParam.parse(req.params.address);
+        const contract = await contractAbis.get(chainId, address);
+        if (!contract) return res.status(404).json({ error: 'No ABI uploaded for this contract' });
+        res.json(contract);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e.message, details: e.issues });
+    }
+});
+
+/**
+ * POST /api/v1/admin/abis
+ * Upload (or replace) a verified contract ABI. Calls to and logs from the contract decode exactly from then on.
+ */
+router.post('/abis', async (req: Request, res: Response) => {
+    try {
+        const input = ContractAbiSchema.parse(req.body);
+        const actorId = (req as any).user?.address || 'admin';
+        const contract = await contractAbis.save(input, actorId);
+
+        await auditService.log({
+            actorId,
+            action: 'ABI_UPLOAD',
+            targetId: `${contract.chainId}:${contract.address}`,
+            metadata: { name: contract.name, source: contract.source, functions: contract.functions, events: contract.events },
+            ip: req.ip
+        });
+
+        res.status(201).json(contract);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid contract ABI' : e.message, details: e.issues });
+    }
+});
+
+/**
+ * DELETE /api/v1/admin/abis/:chainId/:address
+ * Remove an uploaded ABI (decoding falls back to the bundled signature registry)
+ */
+router.delete('/abis/:chainId/:address', async (req: Request, res: Response) => {
+    try {
+        const chainId = chainIdParam.parse(req.params.chainId);
+        const address = addressParam.parse(req.params.address).toLowerCase();
+        const found = await contractAbis.remove(chainId, address);
+        if (!found) return res.status(404).json({ error: 'No ABI uploaded for this contract' });
+
+        await auditService.log({
+            actorId: (req as any).user?.address || 'admin',
+            action: 'ABI_DELETE',
+            targetId: `${chainId}:${address}`,
+            ip: req.ip
+        });
+
+        res.json({ success: true });
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e.message, details: e.issues });
+    }
+});
+
+/**
+ * GET /api/v1/admin/signatures/:hash
+ * Registry lookup: a 4-byte selector returns function fragments, a 32-byte topic returns event fragments
+ */
+router.get('/signatures/:hash', (req: Request, res: Response) => {
+    const hash = req.params.hash.toLowerCase();
+    if (/^0x[0-9a-f]{8}$/.test(hash)) return res.json({ selector: hash, fragments: signatureRegistry.lookupFunction(hash) });
+    if (/^0x[0-9a-f]{64}$/.test(hash)) return res.json({ topic: hash, fragments: signatureRegistry.lookupEvent(hash) });
+    res.status(400).json({ error: 'Expected a 4-byte selector or a 32-byte event topic' });
+});
+
+/**
+ * GET /api/v1/admin/rule-packs
+ * List declarative rule packs (including inactive and invalid ones)
+ */
+router.get('/rule-packs', async (req: Request, res: Response) => {
+    try {
+        await rulePacks.refresh();
+        res.json(rulePacks.list());
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+/**
+ * GET /api/v1/admin/rule-packs/:name
+ */
+router.get('/rule-packs/:name', async (req: Request, res: Response) => {
+    try {
+        await rulePacks.refresh();
+        const pack = rulePacks.get(req.params.name);
+        if (!pack) return res.status(404).json({ error: 'Rule pack not found' });
+        res.json(pack);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+/**
+ * POST /api/v1/admin/rule-packs/validate
+ * Dry run: validate a pack and return the compiled rule ids without saving it
+ */
+router.post('/rule-packs/validate', (req: Request, res: Response) => {
+    const result = RulePackSchema.safeParse(req.body);
+    if (!result.success) {
+        return res.status(400).json({ valid: false, error: 'Invalid rule pack', details: result.error.issues });
+    }
+    res.json({ valid: true, rules: result.data.rules.map(r => ({ id: `${result.data.name}:${r.id}`, type: r.type, priority: r.priority })) });
+});
+
+/**
+ * POST /api/v1/admin/rule-packs
+ * Add a rule pack (evaluated from the next classification; other instances pick it up within the cache TTL)
+ */
+router.post('/rule-packs', async (req: Request, res: Response) => {
+    try {
+        const input = RulePackSchema.parse(req.body);
+        await rulePacks.refresh();
+        if (rulePacks.get(input.name)) {
+            return res.status(409).json({ error: `Rule pack ${input.name} already exists. Use PUT to update it.` });
+        }
+
+        const actorId = (req as any).user?.address || 'admin';
+        const pack = await rulePacks.save(req.body, actorId);
+
+        await auditService.log({
+            actorId,
+            action: 'RULE_PACK_CREATE',
+            targetId: pack.name,
+            metadata: { version: pack.version, rules: pack.rules },
+            ip: req.ip
+        });
+
+        res.status(201).json(pack);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid rule pack' : e.message, details: e.issues });
+    }
+});
+
+/**
+ * PUT /api/v1/admin/rule-packs/:name
+ * Replace a rule pack (also re-activates a deactivated one)
+ */
+router.put('/rule-packs/:name', async (req: Request, res: Response) => {
+    try {
+        const name = req.params.name;
+        await rulePacks.refresh();
+        const current = rulePacks.get(name);
+        if (!current) return res.status(404).json({ error: 'Rule pack not found' });
+
+        const input = { ...req.body, name };
+        RulePackSchema.parse(input);
+
+        const actorId = (req as any).user?.address || 'admin';
+        const pack = await rulePacks.save(input, actorId);
+
+        await auditService.log({
+            actorId,
+            action: 'RULE_PACK_UPDATE',
+            targetId: name,
+            metadata: { previousVersion: current.version, version: pack.version, rules: pack.rules },
+            ip: req.ip
+        });
+
+        res.json(pack);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid rule pack' : e.message, details: e.issues });
+    }
+});
+
+/**
+ * DELETE /api/v1/admin/rule-packs/:name
+ * Deactivate a rule pack (the row is kept; PUT re-enables it)
+ */
+router.delete('/rule-packs/:name', async (req: Request, res: Response) => {
+    try {
+        const actorId = (req as any).user?.address || 'admin';
+        const found = await rulePacks.deactivate(req.params.name, actorId);
+        if (!found) return res.status(404).json({ error: 'Rule pack not found' });
+
+        await auditService.log({
+            actorId,
+            action: 'RULE_PACK_DEACTIVATE',
+            targetId: req.params.name,
+            ip: req.ip
+        });
+
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const reclassificationSchema = z.object({
+    chainId: z.number().int().positive().optional(),
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+    outdatedOnly: z.boolean().default(true), // Skip bills already issued by the current classifier version
+    limit: z.number().int().min(1).max(MAX_RECLASSIFICATION_BILLS).default(1000),
+    after: z.string().min(1).max(200).optional(), // next_cursor of a previous job
+    reissue: z.boolean().default(false) // Regenerate the receipts whose TYPE / PROTOCOL_TAG changed
+}).refine(d => !d.since || !d.until || d.since <= d.until, { message: '`since` must not be after `until`', path: ['since'] });
+
+/**
+ * GET /api/v1/admin/reclassifications
+ * Recent reclassification jobs (without reports)
+ */
+router.get('/reclassifications', async (req: Request, res: Response) => {
+    try {
+        res.json(await reclassificationService.list());
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+/**
+ * GET /api/v1/admin/reclassifications/:id
+ * Job progress plus the diff report of changed TYPE / PROTOCOL_TAG
+ */
+router.get('/reclassifications/:id', async (req: Request, res: Response) => {
+    try {
+        const id = z.string().uuid().parse(req.params.id);
+        const job = await reclassificationService.get(id);
+        if (!job) return res.status(404).json({ error: 'Reclassification job not found' });
+        res.json(job);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid job id' : e.message });
+    }
+});
+
+/**
+ * POST /api/v1/admin/reclassifications
+ * Rerun the current classifier over stored bills; optionally reissue the changed receipts
+ */
+router.post('/reclassifications', async (req: Request, res: Response) => {
+    try {
+        const { reissue, ...filters } = reclassificationSchema.parse(req.body);
+        const actorId = (req as any).user?.address || 'admin';
+        const job = await reclassificationService.enqueue(filters, reissue, actorId);
+
+        await auditService.log({
+            actorId,
+            action: 'RECLASSIFICATION_START',
+            targetId: job.id,
+            metadata: { filters, reissue },
+            ip: req.ip
+        });
+
+        res.status(202).json(job);
+    } catch (e: any) {
+        const status = e instanceof z.ZodError ? 400 : 500;
+        res.status(status).json({ error: e instanceof z.ZodError ? 'Invalid reclassification request' : e.message, details: e.issues });
+    }
+});
+
+/**
+ * GET /api/v1/admin/rpc/health
+ * Per-chain RPC endpoint health (latency, error rate, circuit state). Pools appear once a chain has been used.
+ */
+router.get('/rpc/health', (req: Request, res: Response) => {
+    const pools = rpcPools.getHealth();
+    const degraded = pools.filter(p => p.endpoints.every(e => e.circuit === 'open')).map(p => p.chainId);
+
+    res.json({
+        status: degraded.length > 0 ? 'degraded' : 'ok',
+        degradedChains: degraded,
+        pools,
+        checked_at: new Date().toISOString()
+    });
+});
+
 /**
  * EMAIL OPERATIONS
  * ============================================================================
@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ClassificationService, ClassificationError } from '../../services/ClassificationService';
+import { UsageService } from '../../services/UsageService';
+import { saasMiddleware, AuthenticatedRequest } from '../../middleware/saasAuth';
+
+const router = Router();
+const classificationService = new ClassificationService();
+const usageService = new UsageService();
+
+const MAX_BATCH_SIZE = parseInt(process.env.CLASSIFY_BATCH_MAX || '25', 10);
+
+// Apply SaaS Authentication & Rate Limiting
+router.use(saasMiddleware);
+
+const classifySchema = z.object({
+    txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid Transaction Hash format"),
+    chainId: z.number().int().positive()
+});
+
+const batchSchema = z.object({
+    transactions: z.array(classifySchema).min(1).max(MAX_BATCH_SIZE, `Batch size cannot exceed ${MAX_BATCH_SIZE}`)
+});
+
+/**
+ * POST /api/v1/classify
+ * Classify one transaction (no receipt is generated). Returns the result, rule trace, execution details and token flow.
+ */
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const validation = classifySchema.safeParse(req.body);
+        if (!validation.success) {
+            return res.status(400).json({ error: 'Invalid Input', details: validation.error.issues });
+        }
+
+        const report = await classificationService.classify(validation.data);
+        res.json({ ok: true, ...report });
+
+    } catch (error) {
+        if (error instanceof ClassificationError) {
+            const status = error.code === 'TRANSACTION_NOT_FOUND' ? 404 : error.code === 'CHAIN_NOT_SUPPORTED' ? 400 : 500;
+            return res.status(status).json({ code: error.code, error: error.message });
+        }
+        console.error('API Error:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+/**
+ * POST /api/v1/classify/batch
+ * Classify up to CLASSIFY_BATCH_MAX transactions. Items succeed or fail independently, in request order.
+ */
+router.post('/batch', async (req: Request, res: Response) => {
+    try {
+        const validation = batchSchema.safeParse(req.body);
+        if (!validation.success) {
+            return res.status(400).json({ error: 'Invalid Input', details: validation.error.issues });
+        }
+
+        const { transactions } = validation.data;
+        const apiKeyId = (req as AuthenticatedRequest).apiKeyId!;
+
+        // saasMiddleware already charged 1 unit; each additional transaction costs one more
+        if (transactions.length > 1) {
+            const quota = await usageService.incrementApiKeyUsage(apiKeyId, transactions.length - 1);
+            if (!quota.allowed) {
+                return res.status(429).json({ code: 'QUOTA_EXCEEDED', error: 'Monthly quota exceeded. Upgrade your plan.' });
+            }
+        }
+
+        const results = await classificationService.classifyBatch(transactions);
+
+        res.json({
+            ok: true,
+            total: results.length,
+            classified: results.filter(r => r.ok).length,
+            results
+        });
+
+    } catch (error) {
+        console.error('API Error:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
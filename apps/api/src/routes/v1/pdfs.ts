@@ -1,10 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { SoftQueueService } from '../../services/SoftQueueService';
+import { BatchArchiveService } from '../../services/BatchArchiveService';
+import { UsageService } from '../../services/UsageService';
 import { saasMiddleware, AuthenticatedRequest } from '../../middleware/saasAuth';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '../../services/fx';
 
 const router = Router();
 const queueService = new SoftQueueService();
+const archiveService = new BatchArchiveService();
+const usageService = new UsageService();
+
+const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || '100', 10);
 
 // Apply SaaS Authentication & Rate Limiting
 router.use(saasMiddleware);
@@ -12,7 +19,12 @@ router.use(saasMiddleware);
 const jobSchema = z.object({
     txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid Transaction Hash format"),
     chainId: z.number().int().positive(),
-    connectedWallet: z.string().optional()
+    connectedWallet: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid wallet address").optional(), // Receipt perspective
+    currency: z.enum(SUPPORTED_CURRENCIES).optional() // Falls back to the API key template, then USD
+});
+
+const batchSchema = z.object({
+    items: z.array(jobSchema).min(1).max(MAX_BATCH_SIZE, `Batch size cannot exceed ${MAX_BATCH_SIZE}`)
 });
 
 /**
@@ -26,7 +38,7 @@ router.post('/', async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Invalid Input', details: validation.error.issues });
         }
 
-        const { txHash, chainId, connectedWallet } = validation.data;
+        const { txHash, chainId, connectedWallet, currency } = validation.data;
         const auth = (req as AuthenticatedRequest).auth!;
 
         // Plan-based Priority
@@ -34,6 +46,7 @@ router.post('/', async (req: Request, res: Response) => {
 
         const result = await queueService.enqueue(txHash, chainId, {
             connectedWallet,
+            currency,
             apiKeyId: auth.id,
             priority
         });
@@ -54,6 +67,108 @@ router.post('/', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/v1/pdfs/batch
+ * Create a Batch of PDF Generation Jobs
+ */
+router.post('/batch', async (req: Request, res: Response) => {
+    try {
+        const validation = batchSchema.safeParse(req.body);
+        if (!validation.success) {
+            return res.status(400).json({ error: 'Invalid Input', details: validation.error.issues });
+        }
+
+        const { items } = validation.data;
+        const auth = (req as AuthenticatedRequest).auth!;
+
+        // saasMiddleware already charged 1 unit; each additional item costs one more
+        if (items.length > 1) {
+            const quota = await usageService.incrementApiKeyUsage(auth.id, items.length - 1);
+            if (!quota.allowed) {
+                return res.status(429).json({ code: 'QUOTA_EXCEEDED', error: 'Monthly quota exceeded. Upgrade your plan.' });
+            }
+        }
+
+        const result = await queueService.enqueueBatch(items, {
+            apiKeyId: auth.id,
+            priority: auth.plan.priority_level
+        });
+
+        // Trigger Worker
+        setImmediate(() => queueService.processNext().catch(console.error));
+
+        res.status(202).json({
+            ok: true,
+            batchId: result.batchId,
+            total: result.total,
+            statusUrl: `${req.protocol}://${req.get('host')}/api/v1/pdfs/batch/${result.batchId}`
+        });
+
+    } catch (error) {
+        console.error('API Error:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+/**
+ * GET /api/v1/pdfs/batch/:batchId
+ * Poll Aggregate Batch Progress
+ */
+router.get('/batch/:batchId', async (req: Request, res: Response) => {
+    try {
+        const batch = await queueService.getBatchStatus(req.params.batchId);
+
+        if (!batch || batch.apiKeyId !== (req as AuthenticatedRequest).apiKeyId) {
+            return res.status(404).json({ error: 'Batch not found' });
+        }
+
+        if (batch.state === 'processing') {
+            setImmediate(() => queueService.processNext().catch(console.error));
+        }
+
+        const { apiKeyId, ...publicStatus } = batch;
+        res.json({
+            ...publicStatus,
+            archiveUrl: batch.state === 'completed'
+                ? `${req.protocol}://${req.get('host')}/api/v1/pdfs/batch/${batch.id}/archive`
+                : null
+        });
+
+    } catch (error) {
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+/**
+ * GET /api/v1/pdfs/batch/:batchId/archive
+ * Download ZIP (receipt JSON + PDF per item, plus manifest.json)
+ */
+router.get('/batch/:batchId/archive', async (req: Request, res: Response) => {
+    try {
+        const batch = await queueService.getBatchStatus(req.params.batchId);
+
+        if (!batch || batch.apiKeyId !== (req as AuthenticatedRequest).apiKeyId) {
+            return res.status(404).json({ error: 'Batch not found' });
+        }
+
+        if (batch.state !== 'completed') {
+            return res.status(409).json({ error: 'Batch is still processing', progress: batch.progress });
+        }
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="txproof-batch-${batch.id}.zip"`);
+        await archiveService.pipeArchive(batch, res);
+
+    } catch (error) {
+        console.error('Archive Error:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Internal Server Error' });
+        } else {
+            res.destroy();
+        }
+    }
+});
+
 /**
  * GET /api/v1/pdfs/:jobId
  * Poll Job Status
@@ -63,11 +178,17 @@ router.get('/:jobId', async (req: Request, res: Response) => {
         const jobId = req.params.jobId;
         const status = await queueService.getJobStatus(jobId);
 
-        if (!status) {
+        // Statement jobs are only readable through /statements/:jobId, which checks the requester
+        if (!status || status.type === 'statement') {
             return res.status(404).json({ error: 'Job not found' });
         }
 
-        res.json(status);
+        // Absolute URL of the server-rendered PDF (served via GET /bills/:fileName)
+        const pdfUrl = status.result?.pdfUrl
+            ? `${req.protocol}://${req.get('host')}${status.result.pdfUrl}`
+            : null;
+
+        res.json({ ...status, pdfUrl });
 
     } catch (error) {
         res.status(500).json({ error: 'Internal Server Error' });
@@ -93,6 +214,11 @@ router.get('/by-tx/:txHash', async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Missing chainId query parameter' });
         }
 
+        const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : undefined;
+        if (currency && !isSupportedCurrency(currency)) {
+            return res.status(400).json({ error: `Unsupported currency. Use one of: ${SUPPORTED_CURRENCIES.join(', ')}` });
+        }
+
         // We can reuse queueService.enqueue logic to find existing or start new
         // But GET should be read-only.
         // Let's check bill_jobs directly or bills table.
@@ -103,6 +229,7 @@ router.get('/by-tx/:txHash', async (req: Request, res: Response) => {
         // Better: SoftQueueService check.
 
         const result = await queueService.enqueue(txHash, chainId, {
+            currency
             // apiKeyId: auth.id // Should GET requests consume quota? 
             // Usually lookups are free or cheap. Let's assume free for lookup.
         });
@@ -0,0 +1,135 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { SoftQueueService } from '../../services/SoftQueueService';
+import { StatementService } from '../../services/StatementService';
+import { saasMiddleware, AuthenticatedRequest } from '../../middleware/saasAuth';
+
+const router = Router();
+const queueService = new SoftQueueService();
+const statementService = new StatementService();
+
+const MAX_STATEMENT_DAYS = parseInt(process.env.MAX_STATEMENT_DAYS || '366', 10);
+
+// Apply SaaS Authentication & Rate Limiting
+router.use(saasMiddleware);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const statementSchema = z.object({
+    address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address format"),
+    chainIds: z.array(z.number().int().positive()).min(1).max(10),
+    from: isoDate,
+    to: isoDate
+}).refine(d => d.from <= d.to, { message: '`from` must not be after `to`', path: ['from'] })
+    .refine(d => d.to <= new Date().toISOString().slice(0, 10), { message: '`to` cannot be in the future', path: ['to'] })
+    .refine(d => (Date.parse(d.to) - Date.parse(d.from)) / 86400000 < MAX_STATEMENT_DAYS, {
+        message: `Statement period cannot exceed ${MAX_STATEMENT_DAYS} days`,
+        path: ['to']
+    });
+
+/**
+ * POST /api/v1/statements
+ * Create a Wallet Statement Job (address + chains + date range)
+ */
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const validation = statementSchema.safeParse(req.body);
+        if (!validation.success) {
+            return res.status(400).json({ error: 'Invalid Input', details: validation.error.issues });
+        }
+
+        const { address, chainIds, from, to } = validation.data;
+        const auth = (req as AuthenticatedRequest).auth!;
+
+        const result = await queueService.enqueueStatement({
+            address,
+            chainIds,
+            periodStart: from,
+            periodEnd: to
+        }, {
+            apiKeyId: auth.id,
+            priority: auth.plan.priority_level
+        });
+
+        // Trigger Worker
+        setImmediate(() => queueService.processNext().catch(console.error));
+
+        res.status(202).json({
+            ok: true,
+            jobId: result.jobId,
+            statementId: result.statementId,
+            status: result.status,
+            statusUrl: `${req.protocol}://${req.get('host')}/api/v1/statements/${result.jobId}`
+        });
+
+    } catch (error) {
+        console.error('API Error:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+/**
+ * GET /api/v1/statements/:jobId
+ * Poll Statement Job Status
+ */
+router.get('/:jobId', async (req: Request, res: Response) => {
+    try {
+        // Statements expose a wallet's full activity: only keys that requested this one may read it
+        const auth = (req as AuthenticatedRequest).auth!;
+        if (!(await queueService.isStatementRequester(req.params.jobId, auth.id))) {
+            return res.status(404).json({ error: 'Statement job not found' });
+        }
+
+        const status = await queueService.getJobStatus(req.params.jobId);
+
+        if (!status || status.type !== 'statement') {
+            return res.status(404).json({ error: 'Statement job not found' });
+        }
+
+        const pdfUrl = status.result?.pdfUrl
+            ? `${req.protocol}://${req.get('host')}${status.result.pdfUrl}`
+            : null;
+
+        res.json({
+            id: status.id,
+            state: status.state,
+            statement: status.result?.billData || null,
+            pdfUrl,
+            error: status.error,
+            queuePosition: status.queuePosition,
+            estimatedWaitMs: status.estimatedWaitMs
+        });
+
+    } catch (error) {
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+/**
+ * GET /api/v1/statements/:jobId/pdf
+ * Download the statement PDF (requesting API keys only)
+ */
+router.get('/:jobId/pdf', async (req: Request, res: Response) => {
+    try {
+        const auth = (req as AuthenticatedRequest).auth!;
+        if (!(await queueService.isStatementRequester(req.params.jobId, auth.id))) {
+            return res.status(404).json({ error: 'Statement job not found' });
+        }
+
+        const status = await queueService.getJobStatus(req.params.jobId);
+        const statementId = status?.result?.billData?.STATEMENT_ID;
+        const pdf = statementId && status?.result?.pdfUrl ? await statementService.downloadPdf(statementId) : null;
+        if (!pdf) {
+            return res.status(404).json({ error: 'Statement PDF not available' });
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${statementId}.pdf"`);
+        res.send(pdf);
+
+    } catch (error) {
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
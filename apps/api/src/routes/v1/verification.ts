@@ -5,43 +5,102 @@ import { logger } from '../../lib/logger';
 
 const router = Router();
 
+/**
+ * Load the stored JSON + hash for a receipt id.
+ * Bills (BILL-...) live in `bills`; wallet statements (STMT-...) in `statements`.
+ * The receipt's perspective (PERSPECTIVE_ADDRESS, or ADDRESS for statements) is part of the hashed JSON.
+ */
+async function loadReceiptProof(id: string): Promise<{ json: any, receipt_hash: string | null, hash_algo: string | null } | null> {
+    if (id.startsWith('STMT-')) {
+        const { data, error } = await supabase
+            .from('statements')
+            .select('statement_json, receipt_hash, hash_algo')
+            .eq('statement_id', id)
+            .single();
+        if (error || !data) return null;
+        return { json: data.statement_json, receipt_hash: data.receipt_hash, hash_algo: data.hash_algo };
+    }
+
+    const { data, error } = await supabase
+        .from('bills')
+        .select('bill_json, receipt_hash, hash_algo')
+        .eq('bill_id', id)
+        .single();
+    if (error || !data) return null;
+    return { json: data.bill_json, receipt_hash: data.receipt_hash, hash_algo: data.hash_algo };
+}
+
+/**
+ * Latest reorg record for a bill id (see FinalityTrackerService).
+ * When expectedHash is given, only a record whose superseded receipt had that hash matches,
+ * so a bill re-issued under the same BILL_ID still resolves old copies.
+ */
+async function findSupersession(billId: string, expectedHash?: string): Promise<{ supersededBy: string | null, dropped: boolean, detectedAt: string } | null> {
+    if (billId.startsWith('STMT-')) return null;
+
+    let query = supabase
+        .from('bill_reorgs')
+        .select('new_bill_id, dropped, detected_at')
+        .eq('bill_id', billId);
+    if (expectedHash) query = query.eq('old_receipt_hash', expectedHash);
+
+    const { data } = await query.order('detected_at', { ascending: false }).limit(1).maybeSingle();
+    if (!data) return null;
+    return { supersededBy: data.new_bill_id, dropped: !!data.dropped, detectedAt: data.detected_at };
+}
+
 /**
  * POST /v1/verify/receipt
  * Verifies the cryptographic integrity of a receipt
  */
 router.post('/receipt', async (req: Request, res: Response) => {
     try {
-        const { billId, expectedHash } = req.body;
+        const { billId, expectedHash, perspective } = req.body;
 
         if (!billId) {
             return res.status(400).json({ error: 'billId is required' });
         }
 
-        // Fetch bill data from database
-        const { data: bill, error } = await supabase
-            .from('bills')
-            .select('bill_json, receipt_hash, hash_algo')
-            .eq('bill_id', billId)
-            .single();
+        // Fetch bill (or statement) data from database
+        const bill = await loadReceiptProof(billId);
 
-        if (error || !bill) {
+        if (!bill) {
+            const supersession = await findSupersession(billId);
+            if (supersession) {
+                return res.status(404).json({ error: 'Bill superseded after chain reorganization', superseded: true, ...supersession });
+            }
             return res.status(404).json({ error: 'Bill not found' });
         }
 
-        if (!bill.bill_json) {
+        if (!bill.json) {
             return res.status(400).json({ error: 'Bill data not available' });
         }
 
         // Compute hash from stored data
-        const computedHash = computeReceiptHash(bill.bill_json);
+        const computedHash = computeReceiptHash(bill.json);
         const storedHash = bill.receipt_hash;
 
         // Verify against expected hash if provided
         const hashToVerify = expectedHash || storedHash;
 
+        // Perspective is inside the hashed payload; optionally assert it matches the caller's wallet
+        const receiptPerspective: string | null = bill.json.PERSPECTIVE_ADDRESS || bill.json.ADDRESS || null;
+        const perspectiveMatch = perspective
+            ? !!receiptPerspective && receiptPerspective === String(perspective).toLowerCase()
+            : null;
+
+        // A hash that no longer matches may belong to a copy issued before a reorg
+        const supersession = expectedHash && expectedHash !== computedHash
+            ? await findSupersession(billId, expectedHash)
+            : null;
+
         const result = {
-            valid: computedHash === hashToVerify,
+            valid: computedHash === hashToVerify && perspectiveMatch !== false,
             billId,
+            superseded: !!supersession,
+            supersededBy: supersession?.supersededBy ?? null,
+            perspective: receiptPerspective,
+            perspectiveMatch,
             computedHash,
             storedHash,
             expectedHash: expectedHash || null,
@@ -71,26 +130,27 @@ router.get('/receipt/:billId', async (req: Request, res: Response) => {
     try {
         const { billId } = req.params;
 
-        const { data: bill, error } = await supabase
-            .from('bills')
-            .select('bill_json, receipt_hash, hash_algo')
-            .eq('bill_id', billId)
-            .single();
+        const bill = await loadReceiptProof(billId);
 
-        if (error || !bill) {
+        if (!bill) {
+            const supersession = await findSupersession(billId);
+            if (supersession) {
+                return res.status(404).json({ error: 'Bill superseded after chain reorganization', superseded: true, ...supersession });
+            }
             return res.status(404).json({ error: 'Bill not found' });
         }
 
-        if (!bill.bill_json || !bill.receipt_hash) {
+        if (!bill.json || !bill.receipt_hash) {
             return res.status(400).json({ error: 'Receipt proof not available for this bill' });
         }
 
-        const computedHash = computeReceiptHash(bill.bill_json);
+        const computedHash = computeReceiptHash(bill.json);
         const valid = computedHash === bill.receipt_hash;
 
         res.json({
             valid,
             billId,
+            perspective: bill.json.PERSPECTIVE_ADDRESS || bill.json.ADDRESS || null,
             hash: bill.receipt_hash,
             algorithm: bill.hash_algo || 'keccak256',
             verified_at: new Date().toISOString()
@@ -0,0 +1,76 @@
+import archiver from 'archiver';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import type { BatchStatus } from './SoftQueueService';
+
+/**
+ * Builds the downloadable ZIP for a finished batch.
+ * Layout: `manifest.json` at the root, then `receipts/{billId}.json` and `receipts/{billId}.pdf`
+ * for every completed item. Files are read from the `receipts` bucket and streamed, never buffered as a whole.
+ */
+export class BatchArchiveService {
+
+    async pipeArchive(batch: BatchStatus, output: NodeJS.WritableStream): Promise<void> {
+        const archive = archiver('zip', { zlib: { level: 6 } });
+
+        archive.on('warning', (err) => logger.warn('[BatchArchive] Archive warning', { batchId: batch.id, error: err.message }));
+        archive.pipe(output);
+
+        const manifestItems = [];
+
+        for (const item of batch.items) {
+            const files: string[] = [];
+            let receiptHash: string | null = null;
+
+            if (item.state === 'completed' && item.billId) {
+                const json = await this.download(`${item.billId}.json`);
+                if (json) {
+                    archive.append(json, { name: `receipts/${item.billId}.json` });
+                    files.push(`receipts/${item.billId}.json`);
+                    try {
+                        receiptHash = JSON.parse(json.toString('utf-8')).RECEIPT_HASH || null;
+                    } catch {
+                        receiptHash = null;
+                    }
+                }
+
+                const pdf = await this.download(`${item.billId}.pdf`);
+                if (pdf) {
+                    archive.append(pdf, { name: `receipts/${item.billId}.pdf` });
+                    files.push(`receipts/${item.billId}.pdf`);
+                }
+            }
+
+            manifestItems.push({
+                position: item.position,
+                txHash: item.txHash,
+                chainId: item.chainId,
+                jobId: item.jobId,
+                state: item.state,
+                billId: item.billId,
+                receiptHash,
+                files,
+                error: item.error
+            });
+        }
+
+        const manifest = {
+            batchId: batch.id,
+            generatedAt: new Date().toISOString(),
+            completedAt: batch.completedAt,
+            total: batch.total,
+            completed: batch.completed,
+            failed: batch.failed,
+            items: manifestItems
+        };
+
+        archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+        await archive.finalize();
+    }
+
+    private async download(key: string): Promise<Buffer | null> {
+        const { data, error } = await supabase.storage.from('receipts').download(key);
+        if (error || !data) return null;
+        return Buffer.from(await data.arrayBuffer());
+    }
+}
@@ -3,10 +3,22 @@ import fs from 'fs';
 import path from 'path';
 import { PriceOracleService } from './PriceOracleService';
 import { TemplateService } from './TemplateService'; // [NEW]
-import { transactionClassifier, ClassificationResult, ExecutionType, TransactionEnvelopeType } from './TransactionClassifier';
+import { PdfRenderService } from './PdfRenderService';
+import { FeeCalculator, FeeBreakdown, FeeModel } from './fees';
+import { BASE_CURRENCY, CURRENCY_SYMBOLS, CURRENCY_DECIMALS, FiatCurrency } from './fx';
+import { chainRegistry } from './chains';
+import { contractAbis } from './signatures';
+import { rulePacks } from './rulePacks';
+import { rpcPools, RpcPoolProvider } from './rpc';
+import { revertReasons, RevertKind } from './revert';
+import { bridgeCorrelation, BridgeLink, BridgeLinkStatus } from './bridges';
+import { mevAnalysis, MevAnalysis, MevPattern, PoolModel } from './mev';
+import { transactionClassifier, ClassificationResult, ExecutionType, TransactionEnvelopeType, TransactionType } from './TransactionClassifier';
+import { classificationStore } from './classifications';
+import type { ApprovalStandard, TokenApproval, LiquidityPosition, SwapExecution, SwapHop, UserOperationDetails, SafeDetails, ClassifiedAction, RiskKind, RiskSeverity } from './classifier';
 import { AdminService } from './AdminService';
 import { UserService } from './UserService';
-import { ERC20_ABI, ERC721_ABI, ERC1155_ABI } from '../abis/Common';
+import { ERC20_ABI, ERC721_ABI, ERC1155_ABI, SAFE_ABI, SWAP_POOL_ABI } from '../abis/Common';
 import QRCode from 'qrcode';
 import { supabase } from '../lib/supabase';
 import { createHash } from 'crypto';
@@ -18,15 +30,36 @@ import { logger, createComponentLogger } from '../lib/logger';
 export interface BillRequest {
     txHash: string;
     chainId: number;
-    connectedWallet?: string;
+    connectedWallet?: string; // Perspective address: direction/isIn and net change are computed for this wallet
     apiKeyId?: string; // Public API Context
     userId?: string;   // Internal User Context
     forceRegenerate?: boolean; // New flag for Self-Healing
+    currency?: string; // ISO 4217 reporting currency (default USD)
+    supersedes?: string; // Internal: BILL_ID being re-issued after a reorg (FinalityTrackerService)
 }
 
 export interface BillResponse {
     pdfPath: string;
     billData: BillViewModel;
+    pdfStored: boolean; // Server-rendered PDF is in storage (served via GET /bills/{BILL_ID}.pdf)
+}
+
+export interface DiscoveredTransaction {
+    hash: string;
+    blockNumber: number;
+    timestamp: string; // ISO
+}
+
+export interface AddressActivity {
+    chainId: number;
+    chainName: string;
+    nativeSymbol: string;
+    fromBlock: number;
+    toBlock: number;
+    openingBalance: string | null; // Native balance before fromBlock (null if the node has no archive state)
+    closingBalance: string | null; // Native balance at toBlock
+    transactions: DiscoveredTransaction[];
+    truncated: boolean;
 }
 
 export interface TokenItemViewModel {
@@ -39,6 +72,7 @@ export interface TokenItemViewModel {
     toShort: string;
     amountFormatted: string;
     usdValue: string; // Display Value (Current)
+    fiatValue?: string; // Historic value in the bill currency
 }
 
 export interface InternalTxViewModel {
@@ -51,9 +85,174 @@ export interface InternalTxViewModel {
     isError: boolean;
 }
 
+export interface FeeLineViewModel {
+    key: 'execution' | 'l1_data' | 'blob';
+    label: string;
+    amount: string; // Native units
+    amountUsd: string;
+    amountFiat?: string;
+}
+
+export interface FailedReasonViewModel {
+    kind: RevertKind;
+    message: string;
+    selector?: string;
+    signature?: string;
+    args?: string[];
+    source?: 'trace' | 'replay';
+    intendedAction: string; // Readable label of the action decoded from calldata
+}
+
+export interface GasBurnedViewModel {
+    amount: string; // Native units (equals TOTAL_FEE)
+    amountUsd: string;
+    amountFiat?: string;
+    gasUsed: string;
+    gasLimit: string;
+}
+
+export interface ApprovalViewModel {
+    standard: ApprovalStandard;
+    token: string;
+    tokenSymbol: string;
+    spender: string;
+    amount: string; // Formatted allowance, 'Unlimited', '#tokenId' or 'All tokens'
+    unlimited: boolean;
+    revoke: boolean;
+    spenderIsContract: boolean;
+    expiresAt?: string; // Permit2 allowance expiry (ISO)
+}
+
+export interface LiquidityViewModel {
+    action: 'add' | 'remove';
+    protocol: string;
+    pool: string;
+    tokens: { token: string, tokenSymbol: string, amount: string }[]; // Formatted underlying amounts
+    lpToken?: string;
+    lpSymbol?: string;
+    lpAmount?: string;
+    positionId?: string; // V3 position NFT id
+    tickLower?: number;
+    tickUpper?: number;
+}
+
+export interface SwapHopViewModel {
+    step: number;
+    pool: string;
+    protocol: string;
+    tokenInSymbol: string;
+    amountIn: string;
+    tokenOutSymbol: string;
+    amountOut: string;
+    feeTier?: string; // e.g. '0.05%'
+    fee?: string; // Pool fee charged on this hop (in feeSymbol)
+    feeSymbol?: string; // Input token; output token for Curve, which charges on the output
+}
+
+export interface SwapDetailsViewModel {
+    tokenIn: string;
+    tokenInSymbol: string;
+    amountIn: string;
+    tokenOut: string;
+    tokenOutSymbol: string;
+    amountOut: string;
+    route: string; // e.g. 'USDC → WETH → PEPE'
+    hops: SwapHopViewModel[];
+    executionPrice: string; // e.g. '1 WETH = 2,012.5 USDC'
+    executionPriceInverse: string;
+    oraclePrice?: string; // Same pair at the historical oracle prices of the swap's block
+    priceDifference?: string; // Execution vs oracle price, e.g. '-0.42%' (negative = received less)
+    slippageCostUsd?: string; // Oracle value of the input minus that of the output, when positive
+    slippageCostFiat?: string;
+}
+
+export interface AccountAbstractionViewModel {
+    smartAccount: string;
+    entryPoint: string;
+    entryPointVersion?: string;
+    bundler: string;
+    userOpHash: string;
+    success: boolean;
+    paymaster?: string;
+    sponsored: boolean; // Gas paid by the paymaster, not the smart account
+    actualGasUsed: string;
+    actualGasCost: string; // Native units charged for this user operation
+    actualGasCostUsd: string;
+    actualGasCostFiat?: string;
+    bundleSize: number; // User operations in the bundle transaction
+}
+
+export interface ActionViewModel {
+    step: number; // 1-based execution order
+    type: string;
+    label: string; // Readable type, e.g. 'Swap'
+    method: string;
+    target: string;
+    protocol?: string;
+    tokensIn: { tokenSymbol: string, amount: string }[];
+    tokensOut: { tokenSymbol: string, amount: string }[];
+}
+
+export interface SafeViewModel {
+    address: string;
+    executor: string; // Owner / relayer that submitted execTransaction and paid the network fee
+    nonce?: string;
+    threshold?: number;
+    safeTxHash?: string;
+    outcome: 'ExecutionSuccess' | 'ExecutionFailure' | 'Unknown';
+    payment?: string; // Gas refund paid by the Safe to the executor (native units)
+    calls: { to: string, operation: 'call' | 'delegatecall', value: string, method: string, action?: string }[];
+}
+
+export interface RiskFindingViewModel {
+    kind: RiskKind;
+    severity: RiskSeverity;
+    message: string;
+    address?: string; // Suspicious counterparty, token or spender
+}
+
+export interface LinkedTransferViewModel {
+    protocol: string;
+    direction: 'OUTBOUND' | 'INBOUND'; // OUTBOUND = this receipt sends, the counterpart receives
+    messageId: string; // Deposit source hash, withdrawal hash or relayer deposit id
+    counterpartChainId: number;
+    counterpartChain: string;
+    counterpartTxHash?: string; // Absent until the other side exists (or when it could not be found)
+    counterpartExplorerUrl?: string;
+    status: BridgeLinkStatus;
+    statusLabel: string; // e.g. 'Pending finalization'
+}
+
+export interface MevFindingViewModel {
+    pattern: MevPattern;
+    label: string; // 'Sandwich attack' | 'Back-run'
+    pool: string;
+    poolLabel: string; // e.g. 'Uniswap V3-style pool'
+    attacker: string;
+    attackerContract?: string;
+    frontRunTx?: string;
+    backRunTx: string;
+    tokenOut?: string;
+    tokenOutSymbol?: string;
+    lossAmount?: string; // Estimated output lost to the front-run (token units)
+    lossUsd?: string;
+    lossFiat?: string;
+    lossPercent?: string; // Share of the output the swap would have returned without the front-run
+}
+
+export interface MevAnalysisViewModel {
+    verdict: 'SANDWICHED' | 'BACK_RUN' | 'NONE';
+    verdictLabel: string;
+    analyzedPools: number;
+    findings: MevFindingViewModel[];
+    totalLossUsd?: string;
+    totalLossFiat?: string;
+}
+
 export interface BillViewModel {
     BILL_ID: string;
     BILL_VERSION: string;
+    CLASSIFIER_VERSION?: string; // Classifier (engine + rule packs) that produced TYPE / PROTOCOL_TAG
     GENERATED_AT: string;
     STATUS: string;
     STATUS_CONFIRMED: boolean;
@@ -77,9 +276,11 @@ export interface BillViewModel {
     TRANSACTION_HASH: string;
     BLOCK_NUMBER: string;
     BLOCK_HASH_SHORT: string;
+    BLOCK_HASH?: string; // Full hash of the block the receipt was built from (finality tracking)
     TIMESTAMP: string;
     TIMESTAMP_RELATIVE: string;
     CONFIRMATIONS: number;
+    ISSUED_CONFIRMATIONS?: number; // Count at issue, kept once CONFIRMATIONS is refreshed (the receipt hash covers this one)
 
     // Classification
     TYPE: string;
@@ -89,6 +290,7 @@ export interface BillViewModel {
     IS_SMART_ACCOUNT: boolean;
     ENVELOPE_LABEL: string;
     PROTOCOL_TAG?: string;
+    METHOD_SIGNATURE?: string; // Decoded from the signature registry, e.g. transfer(address,uint256)
 
     // Participants
     FROM_ADDRESS: string;
@@ -109,6 +311,46 @@ export interface BillViewModel {
     GAS_PRICE_GWEI: string;
     TOTAL_FEE: string;
     TOTAL_FEE_USD: string;
+    FEE_MODEL?: FeeModel;
+    FEE_BREAKDOWN?: FeeLineViewModel[]; // Execution / L1 data / blob lines; sums to TOTAL_FEE
+    HAS_FEE_BREAKDOWN?: boolean;
+
+    // Failed transactions (STATUS = 'FAILED'): why it reverted and what the attempt cost
+    FAILED_REASON?: FailedReasonViewModel;
+    HAS_FAILED_REASON?: boolean;
+    GAS_BURNED_ON_FAILURE?: GasBurnedViewModel;
+
+    // Allowance changes (approve / permit / Permit2)
+    APPROVALS?: ApprovalViewModel[];
+    HAS_APPROVALS?: boolean;
+
+    // ERC-4337 user operation (receipt is issued from the smart account's point of view)
+    ACCOUNT_ABSTRACTION?: AccountAbstractionViewModel;
+    HAS_ACCOUNT_ABSTRACTION?: boolean;
+
+    // Batched transaction (multicall / Universal Router / Multicall3 / MultiSend), step by step
+    ACTIONS?: ActionViewModel[];
+    HAS_ACTIONS?: boolean;
+
+    // Safe multisig execution (receipt is issued from the Safe's point of view)
+    SAFE?: SafeViewModel;
+    HAS_SAFE?: boolean;
+
+    // Cross-chain bridge transfer: the receipt of the other side and how far the transfer got
+    LINKED_TRANSFER?: LinkedTransferViewModel;
+    HAS_LINKED_TRANSFER?: boolean;
+
+    // Swaps: sandwich / back-run by neighbouring transactions on the same pools, with the estimated loss
+    MEV_ANALYSIS?: MevAnalysisViewModel;
+    HAS_MEV_ANALYSIS?: boolean;
+
+    // Pool deposit / withdrawal (V2 pair, V3 position, Curve, Balancer)
+    LIQUIDITY?: LiquidityViewModel;
+    HAS_LIQUIDITY?: boolean;
+
+    // Swap execution: route, effective price vs oracle price, pool fee tiers
+    SWAP_DETAILS?: SwapDetailsViewModel;
+    HAS_SWAP_DETAILS?: boolean;
 
     // Enterprise Classification Extras
     CONFIDENCE_LEVEL: 'Confirmed' | 'High' | 'Likely' | 'Complex';
@@ -116,6 +358,8 @@ export interface BillViewModel {
     SECONDARY_ACTIONS: string[];
     EXECUTION_TYPE_LABEL: string;
     RISK_WARNINGS: string[];
+    RISK_FINDINGS?: RiskFindingViewModel[]; // Scam / spoofing signals with severity (also listed in RISK_WARNINGS)
+    HAS_RISK_FINDINGS?: boolean;
 
     // Totals
     TOTAL_IN_USD: string;
@@ -126,6 +370,22 @@ export interface BillViewModel {
     NET_CHANGE_SIGN: string;
     NET_CHANGE_POSITIVE: boolean;
 
+    // Perspective (whose receipt this is; part of the hashed payload)
+    PERSPECTIVE_ADDRESS?: string;
+    PERSPECTIVE_IS_PARTICIPANT?: boolean;
+    FEE_PAID_BY_PERSPECTIVE?: boolean;
+
+    // Reporting Currency (historical FX on the tx date). *_USD fields stay the canonical base values.
+    CURRENCY?: string;
+    CURRENCY_SYMBOL?: string;
+    FX_RATE?: string; // 1 USD = FX_RATE CURRENCY
+    FX_SOURCE?: string;
+    FX_RATE_DATE?: string;
+    TOTAL_FEE_FIAT?: string;
+    TOTAL_IN_FIAT?: string;
+    TOTAL_OUT_FIAT?: string;
+    NET_CHANGE_FIAT?: string;
+
     // Audit
     RPC_PROVIDER: string;
     CONFIDENCE_PERCENT: number;
@@ -135,6 +395,7 @@ export interface BillViewModel {
     PRICE_SOURCE: string;
     CLASSIFICATION_METHOD: string;
     REORG_DETECTED: boolean;
+    SUPERSEDES_BILL_ID?: string; // Receipt replaced by this one after a reorg
     CONFIDENCE: number;
     CURRENT_YEAR: number;
     FRONTEND_URL: string;
@@ -194,50 +455,85 @@ const formatUsd = (val: number): string => {
     return val.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 };
 
-const getChainIcon = (chainId: number): string => {
-    switch (chainId) {
-        case 1: return "🔷"; // Ethereum
-        case 8453: return "🔵"; // Base
-        case 137: return "🟣"; // Polygon
-        case 10: return "🔴"; // Optimism
-        case 42161: return "💙"; // Arbitrum
-        case 56: return "🟡"; // BSC
-        case 43114: return "🔺"; // Avalanche
-        default: return "⛓️";
-    }
+// Exchange rates span many magnitudes: 4 significant digits below 1, 4 decimals above
+const formatRate = (val: number): string => {
+    if (!Number.isFinite(val) || val <= 0) return "0";
+    if (val >= 1) return val.toLocaleString('en-US', { maximumFractionDigits: 4 });
+    return val.toFixed(Math.min(20, 3 - Math.floor(Math.log10(val))));
+};
+
+const formatFiat = (val: number, currency: string): string => {
+    const decimals = CURRENCY_DECIMALS[currency as FiatCurrency] ?? 2;
+    if (val === 0) return (0).toFixed(decimals);
+    const smallest = 1 / 10 ** decimals;
+    if (val < smallest) return `< ${smallest.toFixed(decimals)}`;
+    return val.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+const RISK_SEVERITY_LABELS: Record<RiskSeverity, string> = {
+    HIGH: 'High risk',
+    MEDIUM: 'Medium risk',
+    LOW: 'Low risk'
+};
+
+// Pool fee readers: raw value -> millionths of the amount (Uniswap V2 has no getter; its pairs charge 0.30%)
+const SWAP_FEE_READERS: Record<string, { method: 'fee' | 'getSwapFeePercentage', divisor: number }> = {
+    'Uniswap V3': { method: 'fee', divisor: 1 },
+    'Balancer V2': { method: 'getSwapFeePercentage', divisor: 1e12 },
+    'Curve': { method: 'fee', divisor: 1e4 }
+};
+const UNISWAP_V2_FEE_PPM = 3000;
+
+const BRIDGE_STATUS_LABELS: Record<BridgeLinkStatus, string> = {
+    PENDING: 'Pending',
+    PENDING_PROOF: 'Pending proof',
+    PENDING_FINALIZATION: 'Pending finalization',
+    COMPLETED: 'Completed',
+    FAILED: 'Failed',
+    EXPIRED: 'Expired (refund on source chain)',
+    UNKNOWN: 'Unknown'
+};
+
+const MEV_PATTERN_LABELS: Record<MevPattern, string> = {
+    SANDWICH: 'Sandwich attack',
+    BACK_RUN: 'Back-run'
+};
+
+const MEV_VERDICT_LABELS: Record<MevAnalysisViewModel['verdict'], string> = {
+    SANDWICHED: 'Sandwiched',
+    BACK_RUN: 'Back-run',
+    NONE: 'No sandwich or back-run detected'
+};
+
+const MEV_POOL_LABELS: Record<PoolModel, string> = {
+    UNISWAP_V2: 'Uniswap V2-style pool',
+    UNISWAP_V3: 'Uniswap V3-style pool'
 };
 
 // --- Service ---
 
 export class BillService {
     private oracle: PriceOracleService;
+    private feeCalculator: FeeCalculator;
     private adminService: AdminService;
     private templateService: TemplateService; // [NEW]
-
-    private rpcs: { [key: number]: string } = {
-        1: 'https://eth.llamarpc.com',
-        8453: 'https://mainnet.base.org',
-        137: 'https://polygon-rpc.com',
-        11155111: 'https://rpc.sepolia.org',
-        42161: 'https://arb1.arbitrum.io/rpc',
-        10: 'https://mainnet.optimism.io',
-        56: 'https://bsc-dataseed.binance.org',
-        43114: 'https://api.avax.network/ext/bc/C/rpc'
-    };
+    private pdfRenderer: PdfRenderService;
 
     private alchemyCallsMade = false;
 
     constructor() {
         this.oracle = new PriceOracleService();
+        this.feeCalculator = new FeeCalculator();
         this.adminService = new AdminService();
         this.templateService = new TemplateService();
+        this.pdfRenderer = new PdfRenderService();
     }
 
 
 
     /**
      * Regenerate a bill from its ID string (Self-Healing).
-     * ID Format: BILL-{chainId}-{blockNumber}-{shortHash}
+     * ID Format: BILL-{chainId}-{blockNumber}-{shortHash}[-{currency}][-{perspective}]
      */
     async regenerateFromId(billId: string): Promise<string> {
         logger.info('Attempting bill regeneration', { billId });
@@ -251,6 +547,10 @@ export class BillService {
         const chainId = parseInt(parts[1]);
         const blockNumber = parseInt(parts[2]);
         const shortHash = parts[3]; // "0x" + 4 chars defined in generateBill
+        // Optional suffixes: 3-letter currency (non-USD) and full perspective address (explicit perspective)
+        const suffixes = parts.slice(4);
+        const currency = suffixes.find(p => /^[A-Z]{3}$/.test(p)) || BASE_CURRENCY;
+        const perspective = suffixes.find(p => ethers.isAddress(p));
 
         if (isNaN(chainId) || isNaN(blockNumber) || !shortHash) {
             throw new Error('Invalid params extracted from Bill ID');
@@ -283,7 +583,9 @@ export class BillService {
         await this.generateBill({
             txHash: foundHash,
             chainId: chainId,
-            forceRegenerate: true
+            forceRegenerate: true,
+            currency,
+            connectedWallet: perspective
             // We don't have connected wallet here, so it will be "Unclaimed" in DB for now
             // or resolve from 'from' address.
         });
@@ -297,8 +599,10 @@ export class BillService {
      */
     async generateBill(request: BillRequest): Promise<BillResponse> {
         const { txHash, chainId } = request;
+        const currency = (request.currency || BASE_CURRENCY).toUpperCase();
+        let perspective = BillService.perspectiveKey(request.connectedWallet);
         const billLogger = createComponentLogger('BillService');
-        billLogger.info('Generating bill', { txHash, chainId });
+        billLogger.info('Generating bill', { txHash, chainId, currency, perspective: perspective || 'default' });
 
         // 0. Hard Idempotency Check (Enterprise Reliability)
         // Check DB before ANY RPC calls
@@ -307,6 +611,8 @@ export class BillService {
             .select('bill_id, bill_json, status')
             .eq('tx_hash', txHash)
             .eq('chain_id', chainId)
+            .eq('currency', currency)
+            .eq('perspective', perspective)
             .eq('status', 'COMPLETED') // Ensure it's a valid completed bill
             .single();
 
@@ -314,10 +620,16 @@ export class BillService {
             billLogger.info('Cache hit (hard idempotency)', { txHash, billId: existingBill.bill_id });
             return {
                 pdfPath: `/print/bill/${existingBill.bill_id}`,
-                billData: existingBill.bill_json as BillViewModel
+                billData: existingBill.bill_json as BillViewModel,
+                pdfStored: await this.ensurePdf(existingBill.bill_json as BillViewModel)
             };
         }
 
+        await Promise.all([chainRegistry.ensureLoaded(), contractAbis.ensureLoaded(), rulePacks.ensureLoaded()]);
+        if (chainRegistry.isDisabled(chainId)) {
+            throw new Error(`Chain ${chainId} is not supported`);
+        }
+
         try {
             // 1. Fetch Basic Info first (Cost: 1 RPC Call) to derive the ID
             // We need Block Number to construct the standard Bill ID
@@ -326,10 +638,19 @@ export class BillService {
 
             if (!receipt) throw new Error('Transaction Receipt not found');
 
+            // A perspective naming the sender is the default receipt: share its key, ID and hash
+            if (perspective && await this.isDefaultPerspective(perspective, txHash, receipt, chainId, currency)) {
+                perspective = '';
+                request = { ...request, connectedWallet: undefined };
+            }
+
             // Construct Readable Bill ID
-            // Format: BILL-{chainId}-{blockNumber}-{txHashShort}
+            // Format: BILL-{chainId}-{blockNumber}-{txHashShort}[-{currency}][-{perspective}]
+            // USD / default perspective keep the legacy ID so existing links and hashes stay valid
             const shortHash = txHash.slice(0, 6).toLowerCase();
-            const billId = `BILL-${chainId}-${receipt.blockNumber}-${shortHash}`;
+            let billId = `BILL-${chainId}-${receipt.blockNumber}-${shortHash}`;
+            if (currency !== BASE_CURRENCY) billId += `-${currency}`;
+            if (perspective) billId += `-${perspective}`;
 
             const jsonKey = `${billId}.json`;
             const pdfKey = `${billId}.pdf`;
@@ -344,17 +665,20 @@ export class BillService {
                 .select('bill_json, status')
                 .eq('tx_hash', txHash)
                 .eq('chain_id', chainId)
+                .eq('currency', currency)
+                .eq('perspective', perspective)
                 .single();
 
             if (dbBill && dbBill.bill_json && !request.forceRegenerate) {
                 billLogger.info('DB cache hit', { billId });
 
                 // Sliding Window: Reset deletion timer on access
-                this.touchBill(txHash, chainId).catch(err => console.error("Touch failed", err));
+                this.touchBill(txHash, chainId, currency, perspective).catch(err => console.error("Touch failed", err));
 
                 return {
                     pdfPath: publicPath,
-                    billData: dbBill.bill_json as BillViewModel
+                    billData: dbBill.bill_json as BillViewModel,
+                    pdfStored: await this.ensurePdf(dbBill.bill_json as BillViewModel)
                 };
             }
 
@@ -374,17 +698,27 @@ export class BillService {
                 const cachedViewModel = JSON.parse(jsonString);
 
                 // Background: Migrate to DB & Reset Timer
-                this.saveToDb(txHash, chainId, request.connectedWallet || '', cachedViewModel, true);
+                this.saveToDb(txHash, chainId, request.connectedWallet || '', cachedViewModel, true, undefined, perspective);
 
                 return {
                     pdfPath: publicPath,
-                    billData: cachedViewModel
+                    billData: cachedViewModel,
+                    pdfStored: await this.ensurePdf(cachedViewModel)
                 };
             }
 
             // 3. Cache Miss - Resume Generation
             billLogger.info('Cache miss, fetching full transaction data', { billId, txHash });
 
+            // Critical read: optionally require several RPC endpoints to agree on the receipt
+            const quorum = rpcPools.getQuorum(chainId);
+            if (quorum > 1) {
+                const agreed = await provider.getReceiptWithQuorum(txHash, quorum);
+                if (!agreed || agreed.blockHash !== receipt.blockHash || agreed.status !== receipt.status) {
+                    throw new Error(`RPC endpoints disagree on the receipt for ${txHash}`);
+                }
+            }
+
             // Fetch remaining data (Tx, Block, Timestamp) - Receipt is already fetched
             // We can reuse the provider but we need to match the signature of fetchTransactionData or call it fully.
             // For simplicity and robustness, we can call fetchTransactionData but pass the known receipt if we refactored.
@@ -401,11 +735,37 @@ export class BillService {
             // Resolve ENS
             const { fromName, toName } = await this.resolveNames(classification.details?.sender || tx.from, tx.to, chainId);
 
+            // Allowance changes decoded by the approval rule
+            const approvals = await this.resolveApprovals(classification.details?.approvals || [], provider);
+
+            // Pool position change decoded by the liquidity rule
+            const liquidity = classification.details?.liquidity
+                ? await this.resolveLiquidity(classification.details.liquidity, chainId, provider)
+                : undefined;
+
+            // Swap route, execution price and pool fees decoded by the swap rule
+            const swapDetails = classification.details?.swap
+                ? await this.resolveSwap(classification.details.swap, chainId, receipt.blockNumber, timestamp, provider)
+                : undefined;
+
+            // Safe execTransaction: wrapped calls, outcome and nonce
+            const safe = classification.details?.safe
+                ? await this.resolveSafe(classification.details.safe, chainId, receipt.blockNumber, provider)
+                : undefined;
+
+            // Bridge transfers: counterpart transaction on the other chain
+            const linkedTransfer = await this.resolveLinkedTransfer(chainId, tx, receipt, provider);
+
+            // Swaps: neighbouring transactions that sandwiched or back-ran this one
+            const mev = classification.functionalType === TransactionType.SWAP && receipt.status === 1
+                ? await this.resolveMev(chainId, tx, receipt, timestamp, provider)
+                : undefined;
+
             // Raw Token Parsing
             const rawMovements = await this.parseRawMovements(receipt.logs, chainId, provider);
 
-            // Add Native Transfer if exists
-            if (tx.value > BigInt(0)) {
+            // Add Native Transfer if exists (a reverted call never moves its value)
+            if (tx.value > BigInt(0) && receipt.status === 1) {
                 rawMovements.push({
                     type: 'NATIVE',
                     address: 'native',
@@ -417,6 +777,9 @@ export class BillService {
                 });
             }
 
+            // Batch steps with their share of the token flow
+            const actions = this.resolveActions(classification.actions || [], rawMovements, chainId);
+
             // Apply Pricing & Direction
             const pricedMovements = await this.applyPricingAndDirection(
                 rawMovements,
@@ -432,13 +795,21 @@ export class BillService {
             const internalTxs = await this.fetchInternalTransactions(txHash, chainId, receipt.blockNumber);
 
             // Fees
-            const feeData = await this.calculateFees(receipt, chainId, timestamp);
+            const feeData = await this.calculateFees(provider, tx, receipt, chainId, timestamp);
+
+            // Failed transactions: recover the revert reason (gas is still charged)
+            const revertReason = receipt.status === 0
+                ? await revertReasons.getReason(provider, tx, receipt)
+                : null;
+
+            // Reporting Currency (historical rate on the tx date; fails the bill rather than mislabel USD)
+            const fx = await this.oracle.getHistoricalFxRate({ currency, txTimestamp: timestamp });
 
             // View Model construction
             const billData = await this.buildBillViewModel({
                 request, tx, receipt, timestamp, classification,
                 userAddress, fromName, toName,
-                pricedMovements, internalTxs, feeData,
+                pricedMovements, internalTxs, feeData, fx, revertReason, approvals, liquidity, swapDetails, safe, actions, linkedTransfer, mev,
                 // Pass derived ID to ensure consistency
                 forcedBillId: billId
             });
@@ -502,15 +873,27 @@ export class BillService {
                     upsert: true
                 });
 
-            // Save to DB with hash (ensures immutability and consistency)
-            await this.saveToDb(txHash, chainId, userAddress, billData, receipt.status === 1, receiptHash);
+            // Upload PDF next to the JSON (served by GET /bills/:fileName).
+            // A render failure must not lose the bill: the print route still works from JSON.
+            let pdfStored = true;
+            try {
+                await this.storePdf(billData);
+            } catch (e: any) {
+                pdfStored = false;
+                billLogger.error('PDF render/upload failed', { billId, error: e.message });
+            }
+
+            // Save to DB with hash (ensures immutability and consistency).
+            // A failed transaction still gets a completed receipt; the outcome lives in STATUS.
+            await this.saveToDb(txHash, chainId, userAddress, billData, true, receiptHash, perspective,
+                { number: receipt.blockNumber, hash: receipt.blockHash });
 
             // Trigger Cleanup (Async/Fire-and-forget)
             this.cleanupOldBills().catch(err => logger.error('Bill cleanup failed', { error: err.message }));
 
             billLogger.info('Bill generated and cached', { billId, txHash });
             // Return Frontend URL path instead of PDF path
-            return { pdfPath: `/print/bill/${billId}`, billData };
+            return { pdfPath: `/print/bill/${billId}`, billData, pdfStored };
 
         } catch (error: any) {
             billLogger.error('Bill generation failed', { txHash, chainId, error: error.message });
@@ -518,6 +901,86 @@ export class BillService {
         }
     }
 
+    /**
+     * Discover every transaction touching `address` on a chain within [fromTs, toTs] (unix seconds).
+     * Used by statements; requires Alchemy (alchemy_getAssetTransfers) for the chain.
+     */
+    async discoverAddressActivity(address: string, chainId: number, fromTs: number, toTs: number, limit: number): Promise<AddressActivity> {
+        const url = this.getAlchemyUrl(chainId);
+        if (!url) throw new Error(`Transaction discovery not available for chain ${chainId}`);
+
+        const provider = this.getRpcProvider(chainId);
+        const [fromBlock, toBlock] = await Promise.all([
+            this.findBlockByTimestamp(provider, fromTs, 'after'),
+            this.findBlockByTimestamp(provider, toTs, 'before')
+        ]);
+
+        const categories = ['external', 'erc20', 'erc721', 'erc1155'];
+        if (chainRegistry.get(chainId)?.alchemyInternalTransfers) categories.push('internal');
+
+        const seen = new Map<string, DiscoveredTransaction>();
+        for (const direction of ['fromAddress', 'toAddress']) {
+            let pageKey: string | undefined;
+            do {
+                const res = await fetch(url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        jsonrpc: '2.0',
+                        id: 1,
+                        method: 'alchemy_getAssetTransfers',
+                        params: [{
+                            fromBlock: `0x${fromBlock.toString(16)}`,
+                            toBlock: `0x${toBlock.toString(16)}`,
+                            [direction]: address,
+                            category: categories,
+                            withMetadata: true,
+                            excludeZeroValue: false,
+                            order: 'asc',
+                            ...(pageKey ? { pageKey } : {})
+                        }]
+                    })
+                });
+                const data = await res.json();
+                if (data.error) throw new Error(`Transaction discovery failed: ${data.error.message}`);
+
+                for (const t of data.result?.transfers || []) {
+                    const hash = (t.hash as string).toLowerCase();
+                    if (!seen.has(hash)) {
+                        seen.set(hash, {
+                            hash,
+                            blockNumber: parseInt(t.blockNum, 16),
+                            timestamp: t.metadata?.blockTimestamp || ''
+                        });
+                    }
+                }
+                pageKey = data.result?.pageKey;
+            } while (pageKey && seen.size <= limit);
+        }
+
+        const transactions = [...seen.values()].sort((a, b) => a.blockNumber - b.blockNumber);
+
+        const balanceAt = async (block: number) => {
+            try { return ethers.formatEther(await provider.getBalance(address, block)); } catch { return null; }
+        };
+        const [openingBalance, closingBalance] = await Promise.all([
+            balanceAt(Math.max(fromBlock - 1, 0)),
+            balanceAt(toBlock)
+        ]);
+
+        return {
+            chainId,
+            chainName: this.getChainName(chainId),
+            nativeSymbol: this.getNativeSymbol(chainId),
+            fromBlock,
+            toBlock,
+            openingBalance,
+            closingBalance,
+            transactions: transactions.slice(0, limit),
+            truncated: transactions.length > limit
+        };
+    }
+
     // --- Data Fetching ---
 
     private async fetchTransactionData(txHash: string, chainId: number) {
@@ -549,8 +1012,52 @@ export class BillService {
         return { provider, tx, receipt, block, timestamp: block.timestamp };
     }
 
+    /**
+     * Cache/identity key for a requested perspective: lowercase address, or '' for the default
+     * (sender) perspective. Invalid wallets fall back to the default rather than creating junk keys.
+     * generateBill folds an explicit perspective equal to the sender into '' once the receipt is known.
+     */
+    static perspectiveKey(wallet?: string): string {
+        return wallet && ethers.isAddress(wallet) ? wallet.toLowerCase() : '';
+    }
+
+    /**
+     * PROTOCOL_TAG shown on the receipt (also compared by the reclassification job).
+     */
+    static protocolTag(classification: ClassificationResult): string | undefined {
+        return classification.protocol?.toUpperCase() || classification.details.protocol?.toUpperCase();
+    }
+
+    /**
+     * Whether `perspective` is who the default receipt is written for: the smart account or Safe
+     * for relayed executions (classification details.sender), otherwise tx.from.
+     * Reuses the stored classification; without one, a receipt already kept under this perspective
+     * is served as is rather than classifying the transaction for a cache hit.
+     */
+    private async isDefaultPerspective(perspective: string, txHash: string, receipt: ethers.TransactionReceipt, chainId: number, currency: string): Promise<boolean> {
+        let classification = await classificationStore.get(chainId, receipt.hash, transactionClassifier.version);
+        if (!classification) {
+            const { data: existing } = await supabase
+                .from('bills')
+                .select('id')
+                .eq('tx_hash', txHash)
+                .eq('chain_id', chainId)
+                .eq('currency', currency)
+                .eq('perspective', perspective)
+                .maybeSingle();
+            if (existing) return false;
+
+            const tx = await receipt.provider.getTransaction(receipt.hash);
+            if (!tx) return false;
+            classification = await transactionClassifier.classify(receipt, tx, chainId);
+        }
+
+        return (classification.details?.sender || receipt.from).toLowerCase() === perspective;
+    }
+
     private resolveUserIdentity(request: BillRequest, tx: ethers.TransactionResponse, classification: ClassificationResult): string {
-        if (request.connectedWallet) return request.connectedWallet.toLowerCase();
+        const perspective = BillService.perspectiveKey(request.connectedWallet);
+        if (perspective) return perspective;
         if (classification.details?.sender) return classification.details.sender.toLowerCase();
         return tx.from.toLowerCase();
     }
@@ -638,17 +1145,405 @@ export class BillService {
         return movements;
     }
 
-    // --- Valuation & Direction (Enterprise Layer) ---
+    /**
+     * Enrich decoded allowance changes with token metadata and whether the spender is a contract.
+     */
+    private async resolveApprovals(approvals: TokenApproval[], provider: ethers.Provider): Promise<ApprovalViewModel[]> {
+        const tokenCache: Record<string, { symbol: string, decimals: number }> = {};
+        const codeCache: Record<string, boolean> = {};
+        const resolved: ApprovalViewModel[] = [];
+
+        for (const approval of approvals) {
+            if (!tokenCache[approval.token]) {
+                const c = new ethers.Contract(approval.token, ERC20_ABI, provider);
+                try {
+                    const isNft = approval.standard === 'ERC721' || approval.standard === 'ERC721_ALL';
+                    const [s, d] = await Promise.all([c.symbol(), isNft ? 0 : c.decimals()]);
+                    tokenCache[approval.token] = { symbol: s, decimals: Number(d) };
+                } catch { tokenCache[approval.token] = { symbol: 'TOKEN', decimals: 18 }; }
+            }
 
-    private providerCache: Map<number, ethers.JsonRpcProvider> = new Map();
+            // Revocations are harmless whoever the spender is; skip the lookup
+            if (!approval.revoke && codeCache[approval.spender] === undefined) {
+                try {
+                    codeCache[approval.spender] = (await provider.getCode(approval.spender)) !== '0x';
+                } catch { codeCache[approval.spender] = true; } // Unknown: do not raise a false alarm
+            }
 
-    private getRpcProvider(chainId: number): ethers.JsonRpcProvider {
-        if (!this.providerCache.has(chainId)) {
-            const url = this.getRpcUrl(chainId);
-            // Use static network to avoid automatic network detection overhead
-            this.providerCache.set(chainId, new ethers.JsonRpcProvider(url, undefined, { staticNetwork: true }));
+            const { symbol, decimals } = tokenCache[approval.token];
+            const amount = approval.revoke ? '0'
+                : approval.standard === 'ERC721' ? `#${approval.amount}`
+                    : approval.standard === 'ERC721_ALL' ? 'All tokens'
+                        : approval.unlimited ? 'Unlimited'
+                            : formatEth(ethers.formatUnits(approval.amount, decimals));
+
+            resolved.push({
+                standard: approval.standard,
+                token: approval.token,
+                tokenSymbol: symbol,
+                spender: approval.spender,
+                amount,
+                unlimited: approval.unlimited,
+                revoke: approval.revoke,
+                spenderIsContract: approval.revoke ? true : codeCache[approval.spender],
+                expiresAt: approval.expiration ? new Date(approval.expiration * 1000).toISOString() : undefined
+            });
         }
-        return this.providerCache.get(chainId)!;
+
+        return resolved;
+    }
+
+    /**
+     * Format a decoded liquidity change with token symbols and decimals.
+     */
+    private async resolveLiquidity(liquidity: LiquidityPosition, chainId: number, provider: ethers.Provider): Promise<LiquidityViewModel> {
+        const tokenCache: Record<string, { symbol: string, decimals: number }> = {};
+        const metadata = async (token: string) => {
+            if (token === 'native') return { symbol: this.getNativeSymbol(chainId), decimals: 18 };
+            if (!tokenCache[token]) {
+                const c = new ethers.Contract(token, ERC20_ABI, provider);
+                try {
+                    const [s, d] = await Promise.all([c.symbol(), c.decimals()]);
+                    tokenCache[token] = { symbol: s, decimals: Number(d) };
+                } catch { tokenCache[token] = { symbol: 'TOKEN', decimals: 18 }; }
+            }
+            return tokenCache[token];
+        };
+
+        const tokens: LiquidityViewModel['tokens'] = [];
+        for (const t of liquidity.tokens) {
+            const { symbol, decimals } = await metadata(t.token);
+            tokens.push({ token: t.token, tokenSymbol: symbol, amount: formatEth(ethers.formatUnits(t.amount, decimals)) });
+        }
+
+        const lp = liquidity.lpToken ? await metadata(liquidity.lpToken) : undefined;
+
+        return {
+            action: liquidity.action,
+            protocol: liquidity.protocol,
+            pool: liquidity.pool,
+            tokens,
+            lpToken: liquidity.lpToken,
+            lpSymbol: lp?.symbol,
+            lpAmount: lp && liquidity.lpAmount ? formatEth(ethers.formatUnits(liquidity.lpAmount, lp.decimals)) : undefined,
+            positionId: liquidity.positionId,
+            tickLower: liquidity.tickLower,
+            tickUpper: liquidity.tickUpper
+        };
+    }
+
+    /**
+     * Format a decoded swap: route with per-pool fee tiers, execution price and its difference to the
+     * oracle's historical price. Pool reads are made at the swap's block; failures leave fields unknown.
+     */
+    private async resolveSwap(
+        swap: SwapExecution,
+        chainId: number,
+        blockNumber: number,
+        timestamp: number,
+        provider: ethers.Provider
+    ): Promise<SwapDetailsViewModel & { slippageCostUsdNum?: number }> {
+        const tokenCache: Record<string, { symbol: string, decimals: number }> = {};
+        const metadata = async (token?: string) => {
+            if (!token) return { symbol: 'TOKEN', decimals: 18 };
+            if (token === 'native') return { symbol: this.getNativeSymbol(chainId), decimals: 18 };
+            if (!tokenCache[token]) {
+                const c = new ethers.Contract(token, ERC20_ABI, provider);
+                try {
+                    const [s, d] = await Promise.all([c.symbol(), c.decimals()]);
+                    tokenCache[token] = { symbol: s, decimals: Number(d) };
+                } catch { tokenCache[token] = { symbol: 'TOKEN', decimals: 18 }; }
+            }
+            return tokenCache[token];
+        };
+
+        const hops: SwapHopViewModel[] = [];
+        const path: (string | undefined)[] = [];
+        for (const [i, hop] of swap.hops.entries()) {
+            const { tokenIn, tokenOut } = await this.resolveHopTokens(hop, blockNumber, provider);
+            const [inMeta, outMeta] = await Promise.all([metadata(tokenIn), metadata(tokenOut)]);
+            const ppm = await this.readSwapFee(hop, blockNumber, provider);
+
+            // Curve takes its fee from the output, the others from the input
+            const chargedOnOutput = hop.protocol === 'Curve';
+            const fee = ppm === undefined ? undefined : chargedOnOutput
+                ? BigInt(hop.amountOut) * BigInt(ppm) / BigInt(1e6 - ppm)
+                : BigInt(hop.amountIn) * BigInt(ppm) / BigInt(1e6);
+
+            hops.push({
+                step: i + 1,
+                pool: hop.pool,
+                protocol: hop.protocol,
+                tokenInSymbol: inMeta.symbol,
+                amountIn: formatEth(ethers.formatUnits(hop.amountIn, inMeta.decimals)),
+                tokenOutSymbol: outMeta.symbol,
+                amountOut: formatEth(ethers.formatUnits(hop.amountOut, outMeta.decimals)),
+                feeTier: ppm === undefined ? undefined
+                    : `${(ppm / 1e4).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}%`,
+                fee: fee === undefined ? undefined : formatEth(ethers.formatUnits(fee, chargedOnOutput ? outMeta.decimals : inMeta.decimals)),
+                feeSymbol: fee === undefined ? undefined : chargedOnOutput ? outMeta.symbol : inMeta.symbol
+            });
+            if (i === 0 || path[path.length - 1] !== tokenIn) path.push(tokenIn);
+            path.push(tokenOut);
+        }
+
+        const [inMeta, outMeta] = await Promise.all([metadata(swap.tokenIn), metadata(swap.tokenOut)]);
+        const amountIn = parseFloat(ethers.formatUnits(swap.amountIn, inMeta.decimals));
+        const amountOut = parseFloat(ethers.formatUnits(swap.amountOut, outMeta.decimals));
+        const rate = amountIn > 0 ? amountOut / amountIn : 0;
+
+        // Hops chaining output to input form a single path; anything else is a split route
+        const linear = path.length === swap.hops.length + 1 && path.every(Boolean);
+        const route = linear
+            ? (await Promise.all(path.map(async t => (await metadata(t)).symbol))).join(' → ')
+            : `${inMeta.symbol} → ${outMeta.symbol}${swap.hops.length > 1 ? ` (split across ${swap.hops.length} pools)` : ''}`;
+
+        const [pIn, pOut] = await Promise.all([swap.tokenIn, swap.tokenOut].map(tokenAddress =>
+            this.oracle.getAccountingPrice({ chainId, tokenAddress, blockNumber, txTimestamp: timestamp })
+                .then(p => p.price)
+                .catch(() => 0)
+        ));
+
+        let oraclePrice: string | undefined;
+        let priceDifference: string | undefined;
+        let slippageCostUsdNum: number | undefined;
+        if (pIn > 0 && pOut > 0 && rate > 0) {
+            const oracleRate = pIn / pOut;
+            const difference = (rate / oracleRate - 1) * 100;
+            oraclePrice = `1 ${inMeta.symbol} = ${formatRate(oracleRate)} ${outMeta.symbol}`;
+            priceDifference = `${difference >= 0 ? '+' : ''}${difference.toFixed(2)}%`;
+            const cost = amountIn * pIn - amountOut * pOut;
+            if (cost > 0) slippageCostUsdNum = cost;
+        }
+
+        return {
+            tokenIn: swap.tokenIn,
+            tokenInSymbol: inMeta.symbol,
+            amountIn: formatEth(ethers.formatUnits(swap.amountIn, inMeta.decimals)),
+            tokenOut: swap.tokenOut,
+            tokenOutSymbol: outMeta.symbol,
+            amountOut: formatEth(ethers.formatUnits(swap.amountOut, outMeta.decimals)),
+            route,
+            hops,
+            executionPrice: `1 ${inMeta.symbol} = ${formatRate(rate)} ${outMeta.symbol}`,
+            executionPriceInverse: `1 ${outMeta.symbol} = ${formatRate(rate > 0 ? 1 / rate : 0)} ${inMeta.symbol}`,
+            oraclePrice,
+            priceDifference,
+            slippageCostUsd: slippageCostUsdNum !== undefined ? formatUsd(slippageCostUsdNum) : undefined,
+            slippageCostUsdNum
+        };
+    }
+
+    /** V2 / V3 hops whose transfers did not match: the pool's other token completes the pair. */
+    private async resolveHopTokens(hop: SwapHop, blockNumber: number, provider: ethers.Provider): Promise<{ tokenIn?: string, tokenOut?: string }> {
+        if (hop.tokenIn && hop.tokenOut) return { tokenIn: hop.tokenIn, tokenOut: hop.tokenOut };
+        if ((hop.protocol !== 'Uniswap V2' && hop.protocol !== 'Uniswap V3') || (!hop.tokenIn && !hop.tokenOut)) {
+            return { tokenIn: hop.tokenIn, tokenOut: hop.tokenOut };
+        }
+
+        try {
+            const c = new ethers.Contract(hop.pool, SWAP_POOL_ABI, provider);
+            const [t0, t1] = (await Promise.all([c.token0({ blockTag: blockNumber }), c.token1({ blockTag: blockNumber })]))
+                .map((t: string) => t.toLowerCase());
+            const other = (t: string) => t === t0 ? t1 : t === t1 ? t0 : undefined;
+            return hop.tokenIn ? { tokenIn: hop.tokenIn, tokenOut: other(hop.tokenIn) } : { tokenIn: other(hop.tokenOut!), tokenOut: hop.tokenOut };
+        } catch {
+            return { tokenIn: hop.tokenIn, tokenOut: hop.tokenOut };
+        }
+    }
+
+    /** Swap fee of a hop's pool in millionths of the traded amount. */
+    private async readSwapFee(hop: SwapHop, blockNumber: number, provider: ethers.Provider): Promise<number | undefined> {
+        if (hop.protocol === 'Uniswap V2') return UNISWAP_V2_FEE_PPM;
+
+        const reader = SWAP_FEE_READERS[hop.protocol];
+        if (!reader) return undefined;
+        try {
+            const raw = await new ethers.Contract(hop.pool, SWAP_POOL_ABI, provider)[reader.method]({ blockTag: blockNumber });
+            const ppm = Math.round(Number(raw) / reader.divisor);
+            return ppm > 0 && ppm < 1e6 ? ppm : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Format batch steps, reusing the symbols and decimals already fetched for the receipt's movements.
+     */
+    private resolveActions(actions: ClassifiedAction[], rawMovements: RawTokenMovement[], chainId: number): ActionViewModel[] {
+        const format = (m: ClassifiedAction['incoming'][number]) => {
+            const raw = rawMovements.find(r => r.address.toLowerCase() === m.asset);
+            if (m.type === 'ERC721' || m.type === 'ERC1155') {
+                return { tokenSymbol: raw?.symbol || 'NFT', amount: m.type === 'ERC1155' ? `${m.amount} × #${m.tokenId}` : `#${m.tokenId}` };
+            }
+            const symbol = m.asset === 'native' ? this.getNativeSymbol(chainId) : raw?.symbol || 'TOKEN';
+            return { tokenSymbol: symbol, amount: formatEth(ethers.formatUnits(m.amount, raw?.decimals ?? 18)) };
+        };
+
+        return actions.map(action => ({
+            step: action.index + 1,
+            type: action.type,
+            label: transactionClassifier.getTypeLabel(action.type),
+            method: action.method,
+            target: action.target,
+            protocol: action.protocol,
+            tokensIn: action.incoming.map(format),
+            tokensOut: action.outgoing.map(format)
+        }));
+    }
+
+    /**
+     * Format a decoded Safe execution. L1 Safes do not log their nonce, so it is read from the
+     * contract around the execution block (execTransaction increments it by exactly one).
+     */
+    private async resolveSafe(safe: SafeDetails, chainId: number, blockNumber: number, provider: ethers.Provider): Promise<SafeViewModel> {
+        let nonce = safe.nonce;
+        let threshold = safe.threshold;
+        if (nonce === undefined || threshold === undefined) {
+            const c = new ethers.Contract(safe.safe, SAFE_ABI, provider);
+            try {
+                const [before, after, t] = await Promise.all([
+                    c.nonce({ blockTag: blockNumber - 1 }),
+                    c.nonce({ blockTag: blockNumber }),
+                    c.getThreshold({ blockTag: blockNumber })
+                ]);
+                // Several executions in one block make the pre-block value ambiguous
+                if (nonce === undefined && BigInt(after) - BigInt(before) === BigInt(1)) nonce = before.toString();
+                threshold = threshold ?? Number(t);
+            } catch {
+                // Pruned node without historical state; leave unknown
+            }
+        }
+
+        return {
+            address: safe.safe,
+            executor: safe.executor,
+            nonce,
+            threshold,
+            safeTxHash: safe.safeTxHash,
+            outcome: safe.success === undefined ? 'Unknown' : safe.success ? 'ExecutionSuccess' : 'ExecutionFailure',
+            payment: safe.payment && safe.payment !== '0' ? formatEth(ethers.formatEther(safe.payment)) : undefined,
+            calls: safe.calls.map(c => ({
+                to: c.to,
+                operation: c.operation,
+                value: formatEth(ethers.formatEther(c.value)),
+                method: c.method || (c.data.length >= 10 ? c.data.slice(0, 10) : 'transfer'),
+                action: c.intent ? transactionClassifier.getTypeLabel(c.intent) : undefined
+            }))
+        };
+    }
+
+    /**
+     * Link a bridge deposit / withdrawal to its counterpart on the other chain. Lookup failures
+     * never fail the bill; the link is then shown with an unknown status.
+     */
+    private async resolveLinkedTransfer(chainId: number, tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt, provider: RpcPoolProvider): Promise<LinkedTransferViewModel | undefined> {
+        let link: BridgeLink | null;
+        try {
+            link = await bridgeCorrelation.link(chainId, tx, receipt, provider);
+        } catch (e: any) {
+            logger.warn('[BillService] Bridge linking failed', { txHash: receipt.hash, error: e.message });
+            return undefined;
+        }
+        if (!link) return undefined;
+
+        return {
+            protocol: link.protocol,
+            direction: link.direction,
+            messageId: link.messageId,
+            counterpartChainId: link.counterpartChainId,
+            counterpartChain: chainRegistry.getName(link.counterpartChainId),
+            counterpartTxHash: link.counterpartTxHash,
+            counterpartExplorerUrl: link.counterpartTxHash && chainRegistry.get(link.counterpartChainId)
+                ? this.getExplorerUrl(link.counterpartChainId, link.counterpartTxHash)
+                : undefined,
+            status: link.status,
+            statusLabel: BRIDGE_STATUS_LABELS[link.status]
+        };
+    }
+
+    /**
+     * Sandwich / back-run findings of a swap, with the estimated loss priced at the swap's block.
+     * Lookup failures never fail the bill; the section is then omitted.
+     */
+    private async resolveMev(
+        chainId: number,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        timestamp: number,
+        provider: RpcPoolProvider
+    ): Promise<(MevAnalysisViewModel & { findings: (MevFindingViewModel & { lossUsdNum?: number })[] }) | undefined> {
+        let analysis: MevAnalysis | null;
+        try {
+            analysis = await mevAnalysis.analyze(provider, chainId, tx, receipt);
+        } catch (e: any) {
+            logger.warn('[BillService] MEV analysis failed', { txHash: receipt.hash, error: e.message });
+            return undefined;
+        }
+        if (!analysis) return undefined;
+
+        const tokenCache: Record<string, { symbol: string, decimals: number }> = {};
+        const metadata = async (token: string) => {
+            if (!tokenCache[token]) {
+                const c = new ethers.Contract(token, ERC20_ABI, provider);
+                try {
+                    const [s, d] = await Promise.all([c.symbol(), c.decimals()]);
+                    tokenCache[token] = { symbol: s, decimals: Number(d) };
+                } catch { tokenCache[token] = { symbol: 'TOKEN', decimals: 18 }; }
+            }
+            return tokenCache[token];
+        };
+
+        const findings: (MevFindingViewModel & { lossUsdNum?: number })[] = [];
+        for (const f of analysis.findings) {
+            const token = f.tokenOut ? await metadata(f.tokenOut) : undefined;
+            let lossAmount: string | undefined;
+            let lossUsdNum: number | undefined;
+            if (f.tokenOut && token && f.lossAmount) {
+                const amount = ethers.formatUnits(f.lossAmount, token.decimals);
+                lossAmount = formatEth(amount);
+                const { price } = await this.oracle.getAccountingPrice({ chainId, tokenAddress: f.tokenOut, blockNumber: receipt.blockNumber, txTimestamp: timestamp })
+                    .catch(() => ({ price: 0 }));
+                if (price > 0) lossUsdNum = parseFloat(amount) * price;
+            }
+
+            findings.push({
+                pattern: f.pattern,
+                label: MEV_PATTERN_LABELS[f.pattern],
+                pool: f.pool,
+                poolLabel: MEV_POOL_LABELS[f.model],
+                attacker: f.attacker,
+                attackerContract: f.attackerContract,
+                frontRunTx: f.frontRunTx,
+                backRunTx: f.backRunTx,
+                tokenOut: f.tokenOut,
+                tokenOutSymbol: token?.symbol,
+                lossAmount,
+                lossUsd: lossUsdNum !== undefined ? formatUsd(lossUsdNum) : undefined,
+                lossUsdNum,
+                lossPercent: f.lossBps !== undefined ? `${(f.lossBps / 100).toFixed(2)}%` : undefined
+            });
+        }
+
+        const verdict: MevAnalysisViewModel['verdict'] = findings.some(f => f.pattern === 'SANDWICH') ? 'SANDWICHED'
+            : findings.length > 0 ? 'BACK_RUN' : 'NONE';
+        const priced = findings.filter(f => f.lossUsdNum !== undefined);
+        const totalLossUsdNum = priced.reduce((sum, f) => sum + (f.lossUsdNum as number), 0);
+
+        return {
+            verdict,
+            verdictLabel: MEV_VERDICT_LABELS[verdict],
+            analyzedPools: analysis.analyzedPools,
+            findings,
+            totalLossUsd: priced.length > 0 ? formatUsd(totalLossUsdNum) : undefined
+        };
+    }
+
+    // --- Valuation & Direction (Enterprise Layer) ---
+
+    // Failover pool per chain (shared process-wide, see services/rpc)
+    getRpcProvider(chainId: number): RpcPoolProvider {
+        return rpcPools.getProvider(chainId);
     }
 
     // --- Valuation & Direction (Enterprise Layer) ---
@@ -718,14 +1613,17 @@ export class BillService {
         return Promise.all(pricingPromises);
     }
 
-    private async calculateFees(receipt: ethers.TransactionReceipt, chainId: number, timestamp: number) {
-        const gasUsed = receipt.gasUsed;
-        const gasPrice = receipt.gasPrice || BigInt(0);
-        const feeWei = gasUsed * gasPrice;
-        const feeEth = ethers.formatEther(feeWei);
-        const feeEthNum = parseFloat(feeEth);
+    private async calculateFees(
+        provider: ethers.JsonRpcProvider,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        chainId: number,
+        timestamp: number
+    ) {
+        const breakdown: FeeBreakdown = await this.feeCalculator.calculate(provider, tx, receipt, chainId);
+        const feeEth = ethers.formatEther(breakdown.totalFee);
 
-        let feeUsdNum = 0;
+        let nativePrice = 0;
         try {
             const price = await this.oracle.getAccountingPrice({
                 chainId,
@@ -733,19 +1631,49 @@ export class BillService {
                 blockNumber: receipt.blockNumber,
                 txTimestamp: timestamp
             });
-            feeUsdNum = feeEthNum * price.price;
+            nativePrice = price.price;
         } catch (e) { console.warn('Fee pricing failed'); }
 
-        const feeUSD = formatUsd(feeUsdNum).replace('< 0.01', '< $0.01'); // Ad-hoc fix for prefix
+        const toUsdLabel = (usd: number) => formatUsd(usd).replace('< 0.01', '< $0.01'); // Ad-hoc fix for prefix
+        const feeUsdNum = parseFloat(feeEth) * nativePrice;
+
+        // Execution line is always present; L1 data / blob only when charged
+        const components: [FeeLineViewModel['key'], string, bigint][] = [
+            ['execution', breakdown.model === 'L1' ? 'Execution Fee' : 'L2 Execution Fee', breakdown.executionFee],
+            ['l1_data', 'L1 Data Fee', breakdown.l1DataFee],
+            ['blob', 'Blob Fee', breakdown.blobFee]
+        ];
+        const lines: (FeeLineViewModel & { amountUsdNum: number })[] = components
+            .filter(([key, , wei]) => key === 'execution' || wei > BigInt(0))
+            .map(([key, label, wei]) => {
+                const amount = ethers.formatEther(wei);
+                const amountUsdNum = parseFloat(amount) * nativePrice;
+                return {
+                    key,
+                    label,
+                    amount: formatEth(amount),
+                    amountUsd: toUsdLabel(amountUsdNum),
+                    amountUsdNum
+                };
+            });
 
-        return { gasUsed, gasPrice, feeEth, feeUSD, feeUsdNum };
+        return {
+            gasUsed: breakdown.gasUsed,
+            gasPrice: breakdown.gasPrice,
+            feeEth,
+            feeUSD: toUsdLabel(feeUsdNum),
+            feeUsdNum,
+            nativePrice,
+            model: breakdown.model,
+            lines
+        };
     }
 
     // --- Internal Txs ---
 
     private async fetchInternalTransactions(txHash: string, chainId: number, blockNumber: number): Promise<InternalTxViewModel[]> {
         try {
-            if (this.isAlchemySupported(chainId)) {
+            if (chainRegistry.get(chainId)?.alchemyNetwork) {
                 const alc = await this.fetchInternalFromAlchemy(txHash, chainId, blockNumber);
                 if (alc.length > 0) return alc;
             }
@@ -753,20 +1681,38 @@ export class BillService {
         } catch { return []; }
     }
 
-    private async fetchInternalFromAlchemy(txHash: string, chainId: number, blockNumber: number): Promise<InternalTxViewModel[]> {
-        const key = process.env.ALCHEMY_API_KEY;
-        if (!key) return [];
-        let url = '';
-        switch (chainId) {
-            case 1: url = `https://eth-mainnet.g.alchemy.com/v2/${key}`; break;
-            case 8453: url = `https://base-mainnet.g.alchemy.com/v2/${key}`; break;
-            case 137: url = `https://polygon-mainnet.g.alchemy.com/v2/${key}`; break;
-            case 42161: url = `https://arb-mainnet.g.alchemy.com/v2/${key}`; break;
-            case 10: url = `https://opt-mainnet.g.alchemy.com/v2/${key}`; break;
-            case 11155111: url = `https://eth-sepolia.g.alchemy.com/v2/${key}`; break;
-            default: return [];
+    private getAlchemyUrl(chainId: number): string | null {
+        return chainRegistry.getAlchemyUrl(chainId);
+    }
+
+    /**
+     * Binary search for the first block at/after (or last block at/before) a unix timestamp.
+     */
+    private async findBlockByTimestamp(provider: ethers.JsonRpcProvider, ts: number, mode: 'after' | 'before'): Promise<number> {
+        const latest = await provider.getBlock('latest');
+        if (!latest) throw new Error('Latest block not available');
+        if (ts >= latest.timestamp) return latest.number;
+
+        let lo = 0;
+        let hi = latest.number;
+        while (lo < hi) {
+            const mid = Math.floor((lo + hi) / 2);
+            const block = await provider.getBlock(mid);
+            if (!block) throw new Error(`Block ${mid} not found`);
+            if (block.timestamp < ts) lo = mid + 1;
+            else hi = mid;
         }
 
+        // lo = first block with timestamp >= ts
+        if (mode === 'after') return lo;
+        const block = await provider.getBlock(lo);
+        return block && block.timestamp > ts ? Math.max(lo - 1, 0) : lo;
+    }
+
+    private async fetchInternalFromAlchemy(txHash: string, chainId: number, blockNumber: number): Promise<InternalTxViewModel[]> {
+        const url = this.getAlchemyUrl(chainId);
+        if (!url) return [];
+
         try {
             const hexBlock = `0x${blockNumber.toString(16)}`;
             const res = await fetch(url, {
@@ -799,10 +1745,8 @@ export class BillService {
     }
 
     private async fetchInternalTransactionsFromBlockscout(txHash: string, chainId: number): Promise<InternalTxViewModel[]> {
-        let domain = '';
-        if (chainId === 8453) domain = 'https://base.blockscout.com';
-        else if (chainId === 10) domain = 'https://optimism.blockscout.com';
-        else return [];
+        const domain = chainRegistry.get(chainId)?.blockscoutUrl;
+        if (!domain) return [];
 
         try {
             const res = await fetch(`${domain}/api/v2/transactions/${txHash}/internal-transactions`);
@@ -827,7 +1771,9 @@ export class BillService {
     // --- ViewModel ---
 
     private async buildBillViewModel(data: any): Promise<BillViewModel> {
-        const { request, tx, receipt, timestamp, classification, userAddress, fromName, toName, pricedMovements, internalTxs, feeData, forcedBillId } = data;
+        const { request, tx, receipt, timestamp, classification, userAddress, fromName, toName, pricedMovements, internalTxs, feeData, fx, revertReason, approvals, liquidity, swapDetails, safe, actions, linkedTransfer, mev, forcedBillId } = data;
+        const currency: string = fx.currency;
+        const toFiat = (usd: number) => formatFiat(usd * fx.rate, currency);
         const chainId = request.chainId;
         const now = new Date();
         const txDate = new Date(timestamp * 1000);
@@ -861,11 +1807,45 @@ export class BillService {
                 fromShort: `${m.from.slice(0, 6)}...${m.from.slice(-4)}`,
                 toShort: `${m.to.slice(0, 6)}...${m.to.slice(-4)}`,
                 amountFormatted: formatEth(ethers.formatUnits(m.amount, m.decimals)), // Clean decimals
-                usdValue: `$${formatUsd(m.currentValueUsd)}`
+                usdValue: `$${formatUsd(m.currentValueUsd)}`,
+                fiatValue: toFiat(m.historicValueUsd)
             };
         });
 
-        const netChange = totalIn - (totalOut + feeData.feeUsdNum);
+        // ERC-4337: the smart account is charged its operation's actual gas cost (nothing if a paymaster sponsored it);
+        // the bundle's transaction fee belongs to the bundler.
+        const aaDetails = classification.details?.accountAbstraction;
+        const userOps: UserOperationDetails[] = aaDetails?.userOperations || [];
+        const userOp = userOps.find(op => op.sender === userAddress) || userOps[0];
+        const userOpCostUsd = userOp ? parseFloat(ethers.formatEther(userOp.actualGasCost)) * feeData.nativePrice : 0;
+        const accountAbstraction: AccountAbstractionViewModel | undefined = userOp ? {
+            smartAccount: userOp.sender,
+            entryPoint: aaDetails.entryPoint,
+            entryPointVersion: aaDetails.entryPointVersion,
+            bundler: aaDetails.bundler,
+            userOpHash: userOp.userOpHash,
+            success: userOp.success,
+            paymaster: userOp.paymaster,
+            sponsored: !!userOp.paymaster,
+            actualGasUsed: formatGasUsed(BigInt(userOp.actualGasUsed)),
+            actualGasCost: formatEth(ethers.formatEther(userOp.actualGasCost)),
+            actualGasCostUsd: formatUsd(userOpCostUsd),
+            actualGasCostFiat: toFiat(userOpCostUsd),
+            bundleSize: userOps.length
+        } : undefined;
+        const isSmartAccount = !!userOp && userAddress === userOp.sender;
+
+        // Only the payer's net change includes the network fee (payee receipts must not be charged for it).
+        // A Safe acts as the sender, but the executor that submitted execTransaction paid the gas.
+        const payer = (safe ? tx.from : classification.details?.sender || tx.from).toLowerCase();
+        const feePaid = isSmartAccount ? !userOp.paymaster
+            : userAddress === payer || userAddress === tx.from.toLowerCase();
+        const feePaidUsd = isSmartAccount ? userOpCostUsd : feeData.feeUsdNum;
+        const isParticipant = feePaid
+            || isSmartAccount
+            || userAddress === tx.to?.toLowerCase()
+            || pricedMovements.some((m: PricedTokenMovement) => m.from === userAddress || m.to === userAddress);
+        const netChange = totalIn - (totalOut + (feePaid ? feePaidUsd : 0));
 
         const randomAd = await this.adminService.getRandomAd('pdf');
         const qrCodeDataUrl = await QRCode.toDataURL(this.getExplorerUrl(chainId, tx.hash));
@@ -905,15 +1885,68 @@ export class BillService {
             !r.includes(classification.functionalType) // Don't repeat primary type
         );
 
-        // 4. Risk Warnings
-        const risks: string[] = [];
+        // 4. Risk Warnings (classifier findings first, most severe first)
+        const riskFindings: RiskFindingViewModel[] = (classification.risks || []).map(({ kind, severity, message, address }: RiskFindingViewModel) => ({ kind, severity, message, address }));
+        const risks: string[] = riskFindings.map(f => `${RISK_SEVERITY_LABELS[f.severity]}: ${f.message}`);
         if (classification.confidence.score < 0.5) risks.push("Low confidence classification - Verify manually");
         if (tx.data.length > 2 && tx.to === null) risks.push("Contract Creation");
+        if (accountAbstraction && !accountAbstraction.success) {
+            risks.push(`User operation reverted inside the bundle; ${accountAbstraction.sponsored ? 'the paymaster' : 'the smart account'} was still charged for gas`);
+        }
+        if (safe?.outcome === 'ExecutionFailure') {
+            risks.push(`Safe transaction failed (ExecutionFailure); the nonce was consumed but none of the ${safe.calls.length} call(s) took effect`);
+        }
+        if (safe?.calls.some((c: SafeViewModel['calls'][number]) => c.operation === 'delegatecall')) {
+            risks.push('Safe executed a delegatecall - the target code ran with full control of the Safe');
+        }
+        for (const approval of (approvals || []) as ApprovalViewModel[]) {
+            if (approval.revoke) continue;
+            if (approval.unlimited) {
+                risks.push(approval.standard === 'ERC721_ALL'
+                    ? `Operator ${approval.spender} can transfer every ${approval.tokenSymbol} you own`
+                    : `Unlimited ${approval.tokenSymbol} allowance granted to ${approval.spender}`);
+            }
+            const freshSpender = riskFindings.some(f => f.kind === 'APPROVAL_TO_FRESH_EOA' && f.address === approval.spender.toLowerCase());
+            if (!approval.spenderIsContract && !freshSpender) {
+                risks.push(`${approval.tokenSymbol} approval granted to an externally owned account (${approval.spender}) - verify the recipient`);
+            }
+        }
+        for (const f of (mev?.findings || []) as (MevFindingViewModel & { lossUsdNum?: number })[]) {
+            if (f.pattern === 'SANDWICH') {
+                const value = [f.lossUsdNum !== undefined ? `${toFiat(f.lossUsdNum)} ${currency}` : undefined, f.lossPercent].filter(Boolean).join(', ');
+                const loss = f.lossAmount ? `; estimated loss ${f.lossAmount} ${f.tokenOutSymbol}${value ? ` (${value})` : ''}` : '';
+                risks.push(`Sandwich attack: ${f.attacker} traded the same way right before this swap and reversed it right after on ${f.pool}${loss}`);
+            } else {
+                risks.push(`Swap was back-run by ${f.attacker} in the next transaction on ${f.pool} (arbitrage of this swap's price impact)`);
+            }
+        }
         // Add specific protocol warnings if available in future
 
+        // Swap details: the oracle value given up, in the reporting currency
+        let swapView: SwapDetailsViewModel | undefined;
+        if (swapDetails) {
+            const { slippageCostUsdNum, ...rest } = swapDetails;
+            swapView = { ...rest, slippageCostFiat: slippageCostUsdNum !== undefined ? toFiat(slippageCostUsdNum) : undefined };
+        }
+
+        // 5. Failure details: the intended action and the gas that was burned anyway
+        const typeLabel = transactionClassifier.getTypeLabel(classification.functionalType);
+        const failedReason: FailedReasonViewModel | undefined = revertReason ? {
+            ...revertReason,
+            intendedAction: classification.details?.intendedAction ? typeLabel : 'Unknown'
+        } : undefined;
+        const gasBurned: GasBurnedViewModel | undefined = receipt.status === 0 ? {
+            amount: formatEth(feeData.feeEth),
+            amountUsd: feeData.feeUSD,
+            amountFiat: toFiat(feeData.feeUsdNum),
+            gasUsed: formatGasUsed(feeData.gasUsed),
+            gasLimit: formatGasUsed(tx.gasLimit)
+        } : undefined;
+
         return {
             BILL_ID: forcedBillId || `BILL-${chainId}-${receipt.blockNumber}-${tx.hash.slice(0, 6)}`,
             BILL_VERSION: "2.0 (Enterprise)",
+            CLASSIFIER_VERSION: classification.classifierVersion,
             GENERATED_AT: now.toISOString(),
             STATUS: receipt.status === 1 ? 'COMPLETED' : 'FAILED',
             STATUS_CONFIRMED: receipt.status === 1,
@@ -924,27 +1957,31 @@ export class BillService {
             SECONDARY_ACTIONS: secondaryActions,
             EXECUTION_TYPE_LABEL: execLabel,
             RISK_WARNINGS: risks,
+            RISK_FINDINGS: riskFindings.length > 0 ? riskFindings : undefined,
+            HAS_RISK_FINDINGS: riskFindings.length > 0,
 
             CHAIN_NAME: this.getChainName(chainId),
             CHAIN_ID: chainId,
             CHAIN_SYMBOL: this.getNativeSymbol(chainId),
             CONTRACT_ADDRESS: "0x...", // populated if needed or generic
             DATE: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
-            CHAIN_ICON: getChainIcon(chainId),
+            CHAIN_ICON: chainRegistry.getIcon(chainId),
             HOME_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
             TRANSACTION_HASH: tx.hash,
             BLOCK_NUMBER: receipt.blockNumber.toLocaleString(),
             BLOCK_HASH_SHORT: `${receipt.blockHash.slice(0, 10)}...`,
+            BLOCK_HASH: receipt.blockHash,
             TIMESTAMP: txDate.toLocaleString('en-US', { timeZoneName: 'short' }),
             TIMESTAMP_RELATIVE: this.getRelativeTime(txDate),
-            CONFIRMATIONS: 12,
+            CONFIRMATIONS: await receipt.confirmations(),
             TYPE: classification.functionalType,
-            TYPE_READABLE: transactionClassifier.getTypeLabel(classification.functionalType),
+            TYPE_READABLE: typeLabel,
             TYPE_ICON: "", // Removed Emoji
             IS_MULTISIG: classification.executionType === ExecutionType.MULTISIG,
             IS_SMART_ACCOUNT: classification.executionType === ExecutionType.ACCOUNT_ABSTRACTION,
             ENVELOPE_LABEL: tx.type !== undefined ? this.getEnvelopeLabel(tx.type) : 'LEGACY',
-            PROTOCOL_TAG: classification.protocol?.toUpperCase() || classification.details.protocol?.toUpperCase(),
+            PROTOCOL_TAG: BillService.protocolTag(classification),
+            METHOD_SIGNATURE: classification.details.decodedMethod,
             FROM_ADDRESS: classification.details?.sender || tx.from,
             FROM_ENS: fromName,
             FROM_AVATAR: this.getAvatar(classification.details?.sender || tx.from, fromName),
@@ -959,6 +1996,40 @@ export class BillService {
             GAS_PRICE_GWEI: ethers.formatUnits(feeData.gasPrice, 'gwei'),
             TOTAL_FEE: formatEth(feeData.feeEth),
             TOTAL_FEE_USD: feeData.feeUSD,
+            FEE_MODEL: feeData.model,
+            FEE_BREAKDOWN: feeData.lines.map((line: FeeLineViewModel & { amountUsdNum: number }) => {
+                const { amountUsdNum, ...rest } = line;
+                return { ...rest, amountFiat: toFiat(amountUsdNum) };
+            }),
+            HAS_FEE_BREAKDOWN: feeData.lines.length > 1,
+            FAILED_REASON: failedReason,
+            HAS_FAILED_REASON: !!failedReason,
+            GAS_BURNED_ON_FAILURE: gasBurned,
+            APPROVALS: approvals && approvals.length > 0 ? approvals : undefined,
+            HAS_APPROVALS: !!approvals && approvals.length > 0,
+            ACCOUNT_ABSTRACTION: accountAbstraction,
+            HAS_ACCOUNT_ABSTRACTION: !!accountAbstraction,
+            ACTIONS: actions && actions.length > 0 ? actions : undefined,
+            HAS_ACTIONS: !!actions && actions.length > 0,
+            SAFE: safe,
+            HAS_SAFE: !!safe,
+            LINKED_TRANSFER: linkedTransfer,
+            HAS_LINKED_TRANSFER: !!linkedTransfer,
+            MEV_ANALYSIS: mev ? {
+                ...mev,
+                findings: mev.findings.map((f: MevFindingViewModel & { lossUsdNum?: number }) => {
+                    const { lossUsdNum, ...rest } = f;
+                    return { ...rest, lossFiat: lossUsdNum !== undefined ? toFiat(lossUsdNum) : undefined };
+                }),
+                totalLossFiat: mev.totalLossUsd !== undefined
+                    ? toFiat(mev.findings.reduce((sum: number, f: { lossUsdNum?: number }) => sum + (f.lossUsdNum || 0), 0))
+                    : undefined
+            } : undefined,
+            HAS_MEV_ANALYSIS: !!mev,
+            LIQUIDITY: liquidity,
+            HAS_LIQUIDITY: !!liquidity,
+            SWAP_DETAILS: swapView,
+            HAS_SWAP_DETAILS: !!swapDetails,
             TOTAL_IN_USD: formatUsd(totalIn),
             TOTAL_OUT_USD: formatUsd(totalOut),
             TOKENS_IN_COUNT: countIn,
@@ -966,6 +2037,18 @@ export class BillService {
             NET_CHANGE_USD: formatUsd(Math.abs(netChange)),
             NET_CHANGE_SIGN: netChange >= 0 ? "+" : "-",
             NET_CHANGE_POSITIVE: netChange >= 0,
+            PERSPECTIVE_ADDRESS: userAddress,
+            PERSPECTIVE_IS_PARTICIPANT: isParticipant,
+            FEE_PAID_BY_PERSPECTIVE: feePaid,
+            CURRENCY: currency,
+            CURRENCY_SYMBOL: CURRENCY_SYMBOLS[currency as FiatCurrency],
+            FX_RATE: fx.rate.toString(),
+            FX_SOURCE: fx.source,
+            FX_RATE_DATE: fx.rateDate,
+            TOTAL_FEE_FIAT: toFiat(feeData.feeUsdNum),
+            TOTAL_IN_FIAT: toFiat(totalIn),
+            TOTAL_OUT_FIAT: toFiat(totalOut),
+            NET_CHANGE_FIAT: toFiat(Math.abs(netChange)),
             RPC_PROVIDER: "Enterprise RPC",
             CONFIDENCE_PERCENT: Math.round(classification.confidence.score * 100),
             QR_CODE_DATA_URL: qrCodeDataUrl,
@@ -977,7 +2060,8 @@ export class BillService {
             INCLUDE_AUDIT: true,
             PRICE_SOURCE: 'Combined Oracle (Hist+Curr)',
             CLASSIFICATION_METHOD: 'Determinisitic Rule Engine',
-            REORG_DETECTED: false,
+            REORG_DETECTED: !!request.supersedes,
+            SUPERSEDES_BILL_ID: request.supersedes,
             CONFIDENCE: Math.round(classification.confidence.score * 100),
             CURRENT_YEAR: new Date().getFullYear(),
             FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
@@ -988,52 +2072,53 @@ export class BillService {
 
     // --- Render ---
 
-    // --- Render (REMOVED) ---
-    // private async renderPdfBuffer(data: BillViewModel): Promise<Uint8Array> { ... }
+    /**
+     * Render the finalized view model to PDF and store it as `{BILL_ID}.pdf` in the receipts bucket.
+     */
+    private async storePdf(data: BillViewModel) {
+        const pdfBuffer = await this.pdfRenderer.render(data);
+        const { error } = await supabase.storage
+            .from('receipts')
+            .upload(`${data.BILL_ID}.pdf`, pdfBuffer, {
+                contentType: 'application/pdf',
+                upsert: true
+            });
+        if (error) throw new Error(`PDF upload failed: ${error.message}`);
+    }
+
+    /**
+     * Backfill the PDF for bills cached before server-side rendering (or whose render failed).
+     * Resolves to whether the PDF is in storage; failures are logged, never thrown.
+     */
+    private async ensurePdf(data: BillViewModel): Promise<boolean> {
+        const pdfKey = `${data.BILL_ID}.pdf`;
+        try {
+            const { data: files } = await supabase.storage.from('receipts').list('', { search: pdfKey, limit: 1 });
+            if (files && files.length > 0) return true;
+            await this.storePdf(data);
+            return true;
+        } catch (err: any) {
+            logger.warn('PDF backfill failed', { billId: data.BILL_ID, error: err.message });
+            return false;
+        }
+    }
 
     // --- Helpers (Private) ---
 
     private getRpcUrl(chainId: number): string {
-        const k = process.env.ALCHEMY_API_KEY;
-        if (k && this.isAlchemySupported(chainId)) {
-            switch (chainId) {
-                case 8453: return `https://base-mainnet.g.alchemy.com/v2/${k}`;
-                case 137: return `https://polygon-mainnet.g.alchemy.com/v2/${k}`;
-                case 42161: return `https://arb-mainnet.g.alchemy.com/v2/${k}`;
-                case 10: return `https://opt-mainnet.g.alchemy.com/v2/${k}`;
-                case 11155111: return `https://eth-sepolia.g.alchemy.com/v2/${k}`;
-                default: return `https://eth-mainnet.g.alchemy.com/v2/${k}`;
-            }
-        }
-        if (chainId === 1) return 'https://eth.llamarpc.com';
-        return this.rpcs[chainId] || 'https://eth.llamarpc.com';
+        return chainRegistry.getRpcUrl(chainId);
     }
 
-    private isAlchemySupported(chainId: number) { return [1, 137, 8453, 10, 42161, 11155111].includes(chainId); }
-
     private getChainName(chainId: number) {
-        if (chainId === 1) return 'Ethereum Mainnet';
-        if (chainId === 8453) return 'Base Mainnet';
-        if (chainId === 137) return 'Polygon';
-        if (chainId === 42161) return 'Arbitrum One';
-        if (chainId === 10) return 'Optimism';
-        return 'Chain ' + chainId;
+        return chainRegistry.getName(chainId);
     }
 
     private getNativeSymbol(chainId: number) {
-        if (chainId === 137) return 'MATIC';
-        if (chainId === 56) return 'BNB';
-        if (chainId === 43114) return 'AVAX';
-        return 'ETH';
+        return chainRegistry.getNativeSymbol(chainId);
     }
 
     private getExplorerUrl(chainId: number, hash: string) {
-        let domain = 'etherscan.io';
-        if (chainId === 8453) domain = 'basescan.org';
-        if (chainId === 10) domain = 'optimistic.etherscan.io';
-        if (chainId === 137) domain = 'polygonscan.com';
-        if (chainId === 42161) domain = 'arbiscan.io';
-        return `https://${domain}/tx/${hash}`;
+        return chainRegistry.getExplorerTxUrl(chainId, hash);
     }
 
     private async resolveNames(from: string, to: string | null, chain: number) {
@@ -1058,7 +2143,7 @@ export class BillService {
         if (t === 3) return 'EIP-4844';
         return 'Legacy';
     }
-    private async saveToDb(txHash: string, chainId: number, wallet: string, data: BillViewModel, isConfirmed: boolean, receiptHash?: string) {
+    private async saveToDb(txHash: string, chainId: number, wallet: string, data: BillViewModel, isConfirmed: boolean, receiptHash?: string, perspective: string = '', block?: { number: number, hash: string }) {
         let userId: string | null = null;
 
         try {
@@ -1074,13 +2159,13 @@ export class BillService {
         }
 
         try {
-            await this.performUpsert(txHash, chainId, userId, data, isConfirmed, receiptHash);
+            await this.performUpsert(txHash, chainId, userId, data, isConfirmed, receiptHash, perspective, block);
         } catch (e: any) {
             console.error('[BillService] Bill save failed', e);
         }
     }
 
-    private async performUpsert(txHash: string, chainId: number, userId: string | null, data: BillViewModel, isConfirmed: boolean, receiptHash?: string) {
+    private async performUpsert(txHash: string, chainId: number, userId: string | null, data: BillViewModel, isConfirmed: boolean, receiptHash?: string, perspective: string = '', block?: { number: number, hash: string }) {
         const payload: any = {
             bill_id: data.BILL_ID, // Required JSON ID
             tx_hash: txHash,
@@ -1088,22 +2173,36 @@ export class BillService {
             bill_json: data,
             status: isConfirmed ? 'COMPLETED' : 'PENDING',
             receipt_hash: receiptHash || null,
+            classifier_version: data.CLASSIFIER_VERSION || null,
+            currency: data.CURRENCY || BASE_CURRENCY,
+            perspective,
             updated_at: new Date().toISOString(),
             user_id: userId // [NEW] Canonical Link
         };
 
         // Removed legacy 'wallet_address' assignment as column is dropped
 
-        const { error } = await supabase.from('bills').upsert(payload, { onConflict: 'tx_hash,chain_id' });
+        // Finality tracking: a fresh build restarts the confirmation watch (FinalityTrackerService)
+        if (block) {
+            payload.block_number = block.number;
+            payload.block_hash = block.hash;
+            payload.confirmations = data.CONFIRMATIONS;
+            payload.finalized = false;
+            payload.finalized_at = null;
+        }
+
+        const { error } = await supabase.from('bills').upsert(payload, { onConflict: 'tx_hash,chain_id,currency,perspective' });
         if (error) throw error;
     }
-    private async touchBill(txHash: string, chainId: number) {
+    private async touchBill(txHash: string, chainId: number, currency: string, perspective: string) {
         // Just update updated_at to now
         await supabase
             .from('bills')
             .update({ updated_at: new Date().toISOString() })
             .eq('tx_hash', txHash)
-            .eq('chain_id', chainId);
+            .eq('chain_id', chainId)
+            .eq('currency', currency)
+            .eq('perspective', perspective);
     }
 
     private async cleanupOldBills() {
@@ -1113,7 +2212,7 @@ export class BillService {
 
         const { data: expiredBills } = await supabase
             .from('bills')
-            .select('tx_hash, chain_id, bill_json')
+            .select('tx_hash, chain_id, currency, perspective, bill_json')
             .eq('status', 'COMPLETED')
             .lt('updated_at', thirtyDaysAgo)
             .limit(50); // Batch size to limit memory/execution time
@@ -1147,7 +2246,9 @@ export class BillService {
                     .from('bills')
                     .delete()
                     .eq('tx_hash', bill.tx_hash)
-                    .eq('chain_id', bill.chain_id);
+                    .eq('chain_id', bill.chain_id)
+                    .eq('currency', bill.currency)
+                    .eq('perspective', bill.perspective);
             }
         }
 
@@ -0,0 +1,94 @@
+import { rpcPools } from './rpc';
+import { chainRegistry } from './chains';
+import { contractAbis } from './signatures';
+import { rulePacks } from './rulePacks';
+import { transactionClassifier, ClassificationResult, RuleTraceEntry } from './TransactionClassifier';
+import { TokenFlow } from './classifier';
+import { ExecutionDetails } from './classifier/infrastructure/ExecutionResolver';
+import { createComponentLogger } from '../lib/logger';
+
+const classifyLogger = createComponentLogger('ClassificationService');
+
+// Transactions fetched and classified at once in batch mode (each costs a few RPC calls)
+const BATCH_CONCURRENCY = parseInt(process.env.CLASSIFY_BATCH_CONCURRENCY || '4', 10);
+
+export type ClassificationFailureCode = 'CHAIN_NOT_SUPPORTED' | 'TRANSACTION_NOT_FOUND' | 'CLASSIFICATION_FAILED';
+
+export class ClassificationError extends Error {
+    constructor(public code: ClassificationFailureCode, message: string) {
+        super(message);
+        this.name = 'ClassificationError';
+    }
+}
+
+export interface ClassificationRequest {
+    txHash: string;
+    chainId: number;
+}
+
+export interface ClassificationReport {
+    txHash: string;
+    chainId: number;
+    result: ClassificationResult;
+    trace: RuleTraceEntry[]; // Every rule in evaluation order (matched, confidence, reasons, evidence)
+    execution: ExecutionDetails;
+    flow: TokenFlow;
+}
+
+export type BatchClassificationItem =
+    | ({ ok: true } & ClassificationReport)
+    | { ok: false; txHash: string; chainId: number; code: ClassificationFailureCode; error: string };
+
+/**
+ * Classifies transactions without generating a receipt (POST /api/v1/classify).
+ *
+ * Loads the same chain, ABI and rule pack state as BillService so both paths classify identically,
+ * but always returns the full rule trace instead of the cached result.
+ */
+export class ClassificationService {
+    async classify(request: ClassificationRequest): Promise<ClassificationReport> {
+        const { txHash, chainId } = request;
+
+        await Promise.all([chainRegistry.ensureLoaded(), contractAbis.ensureLoaded(), rulePacks.ensureLoaded()]);
+        if (!chainRegistry.get(chainId)) {
+            throw new ClassificationError('CHAIN_NOT_SUPPORTED', `Chain ${chainId} is not supported`);
+        }
+
+        const provider = rpcPools.getProvider(chainId);
+        const [tx, receipt] = await Promise.all([
+            provider.getTransaction(txHash),
+            provider.getTransactionReceipt(txHash)
+        ]);
+        if (!tx || !receipt) {
+            throw new ClassificationError('TRANSACTION_NOT_FOUND', `Transaction ${txHash} not found on chain ${chainId}`);
+        }
+
+        const { result, trace, execution, flow } = await transactionClassifier.inspect(receipt, tx, chainId);
+        return { txHash, chainId, result, trace, execution, flow };
+    }
+
+    /**
+     * Classifies every item independently; one failure never fails the batch. Results keep request order.
+     */
+    async classifyBatch(requests: ClassificationRequest[]): Promise<BatchClassificationItem[]> {
+        const results: BatchClassificationItem[] = new Array(requests.length);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < requests.length) {
+                const index = next++;
+                const { txHash, chainId } = requests[index];
+                try {
+                    results[index] = { ok: true, ...(await this.classify(requests[index])) };
+                } catch (err: any) {
+                    const code: ClassificationFailureCode = err instanceof ClassificationError ? err.code : 'CLASSIFICATION_FAILED';
+                    if (code === 'CLASSIFICATION_FAILED') classifyLogger.warn('Batch item failed', { txHash, chainId, error: err.message });
+                    results[index] = { ok: false, txHash, chainId, code, error: err.message };
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, requests.length) }, worker));
+        return results;
+    }
+}
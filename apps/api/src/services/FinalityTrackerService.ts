@@ -0,0 +1,294 @@
+import { supabase } from '../lib/supabase';
+import { createComponentLogger } from '../lib/logger';
+import { BillService, BillViewModel } from './BillService';
+import { WebhookService } from './WebhookService';
+import { getChainConfig } from './classifier';
+import { rpcPools } from './rpc';
+import { transactionClassifier } from './TransactionClassifier';
+
+const finalityLogger = createComponentLogger('FinalityTracker');
+
+const CHECK_INTERVAL_MS = parseInt(process.env.FINALITY_CHECK_INTERVAL_MS || '60000', 10);
+const BATCH_SIZE = parseInt(process.env.FINALITY_BATCH_SIZE || '50', 10);
+
+interface TrackedBill {
+    id: string;
+    bill_id: string;
+    tx_hash: string;
+    chain_id: number;
+    currency: string;
+    perspective: string;
+    api_key_id: string | null;
+    block_number: number;
+    block_hash: string;
+    receipt_hash: string | null;
+    reorg_count: number | null;
+}
+
+/**
+ * Finality Tracker
+ *
+ * Bills are built from whatever block the RPC reports at generation time. Until that
+ * block is `finalityDepth` deep (per ChainConfig) we periodically compare the stored
+ * block hash with the canonical one. On mismatch the bill is superseded: a `bill_reorgs`
+ * row is written, the bill is regenerated from the new canonical receipt and a
+ * `bill.reorged` webhook is dispatched to every API key that requested it.
+ */
+export class FinalityTrackerService {
+    private billService: BillService;
+    private webhookService: WebhookService;
+    private isRunning = false;
+
+    constructor() {
+        this.billService = new BillService();
+        this.webhookService = new WebhookService();
+    }
+
+    /**
+     * Start the periodic finality check (should be called on server start)
+     */
+    startWorker() {
+        setInterval(() => {
+            this.checkPending().catch(err => finalityLogger.error('Finality check failed', { error: err.message }));
+        }, CHECK_INTERVAL_MS);
+    }
+
+    /**
+     * Recheck the least recently checked unfinalized bills.
+     */
+    async checkPending(): Promise<void> {
+        if (this.isRunning) return;
+        this.isRunning = true;
+
+        try {
+            // Tracked by source block, not status: receipts of failed transactions can be reorged too
+            const { data: bills, error } = await supabase
+                .from('bills')
+                .select('id, bill_id, tx_hash, chain_id, currency, perspective, api_key_id, block_number, block_hash, receipt_hash, reorg_count')
+                .eq('finalized', false)
+                .not('block_number', 'is', null)
+                .not('block_hash', 'is', null)
+                .order('finality_checked_at', { ascending: true, nullsFirst: true })
+                .limit(BATCH_SIZE);
+
+            if (error) throw new Error(error.message);
+            if (!bills || bills.length === 0) return;
+
+            // One head lookup per chain per run
+            const heads = new Map<number, number>();
+
+            for (const bill of bills as TrackedBill[]) {
+                try {
+                    await this.checkBill(bill, heads);
+                } catch (err: any) {
+                    finalityLogger.warn('Bill finality check failed', { billId: bill.bill_id, error: err.message });
+                    await supabase
+                        .from('bills')
+                        .update({ finality_checked_at: new Date().toISOString() })
+                        .eq('id', bill.id);
+                }
+            }
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    private async checkBill(bill: TrackedBill, heads: Map<number, number>): Promise<void> {
+        const provider = this.billService.getRpcProvider(bill.chain_id);
+
+        let head = heads.get(bill.chain_id);
+        if (head === undefined) {
+            head = await provider.getBlockNumber();
+            heads.set(bill.chain_id, head);
+        }
+
+        // Reorg and finality decisions use the quorum read when the chain requires one
+        const canonicalHash = await provider.getBlockHashWithQuorum(Number(bill.block_number), rpcPools.getQuorum(bill.chain_id));
+        if (!canonicalHash) {
+            // Node is behind the block we built from; try again next round
+            finalityLogger.debug('Source block not yet visible', { billId: bill.bill_id, blockNumber: bill.block_number });
+            return;
+        }
+
+        if (canonicalHash.toLowerCase() !== bill.block_hash.toLowerCase()) {
+            await this.handleReorg(bill, canonicalHash, head);
+            return;
+        }
+
+        const confirmations = head - Number(bill.block_number) + 1;
+        const finalized = confirmations >= getChainConfig(bill.chain_id).finalityDepth;
+        const now = new Date().toISOString();
+        const billJson = finalized ? await this.refreshedBillJson(bill, confirmations) : undefined;
+
+        await supabase
+            .from('bills')
+            .update({
+                confirmations,
+                finality_checked_at: now,
+                ...(finalized ? { finalized: true, finalized_at: now, bill_json: billJson } : {})
+            })
+            .eq('id', bill.id);
+
+        if (billJson) {
+            // The public data route serves the storage copy first
+            const { error } = await supabase.storage
+                .from('receipts')
+                .upload(`${bill.bill_id}.json`, Buffer.from(JSON.stringify(billJson)), {
+                    contentType: 'application/json',
+                    upsert: true
+                });
+            if (error) finalityLogger.warn('Finalized receipt upload failed', { billId: bill.bill_id, error: error.message });
+        }
+
+        if (finalized) {
+            finalityLogger.info('Bill finalized', { billId: bill.bill_id, confirmations });
+        }
+    }
+
+    /**
+     * Stored receipt with its final confirmation count. The issued count is kept alongside,
+     * so the receipt hash (and copies handed out before finality) still verify.
+     */
+    private async refreshedBillJson(bill: TrackedBill, confirmations: number): Promise<BillViewModel | undefined> {
+        const { data } = await supabase
+            .from('bills')
+            .select('bill_json')
+            .eq('id', bill.id)
+            .single();
+
+        const billJson = data?.bill_json as BillViewModel | undefined;
+        if (!billJson) return undefined;
+
+        return {
+            ...billJson,
+            CONFIRMATIONS: confirmations,
+            ISSUED_CONFIRMATIONS: billJson.ISSUED_CONFIRMATIONS ?? billJson.CONFIRMATIONS
+        };
+    }
+
+    private async handleReorg(bill: TrackedBill, canonicalHash: string, head: number): Promise<void> {
+        finalityLogger.warn('Reorg detected', {
+            billId: bill.bill_id,
+            chainId: bill.chain_id,
+            blockNumber: bill.block_number,
+            storedHash: bill.block_hash,
+            canonicalHash
+        });
+
+        const provider = this.billService.getRpcProvider(bill.chain_id);
+        const quorum = rpcPools.getQuorum(bill.chain_id);
+        const receipt = quorum > 1
+            ? await provider.getReceiptWithQuorum(bill.tx_hash, quorum)
+            : await provider.getTransactionReceipt(bill.tx_hash);
+        const dropped = !receipt;
+
+        // A reorged-out tx is usually re-mined a few blocks later: only call it dropped once
+        // its original block would have been final, and retry until then
+        if (dropped && head - Number(bill.block_number) + 1 < getChainConfig(bill.chain_id).finalityDepth) {
+            finalityLogger.info('Reorged transaction not yet re-mined, retrying', { billId: bill.bill_id, txHash: bill.tx_hash });
+            await supabase
+                .from('bills')
+                .update({ finality_checked_at: new Date().toISOString() })
+                .eq('id', bill.id);
+            return;
+        }
+
+        // Requesting API keys are resolved before bill_jobs is re-pointed
+        const { data: jobs } = await supabase
+            .from('bill_jobs')
+            .select('id, api_key_id')
+            .eq('bill_id', bill.bill_id);
+
+        let newBillId: string | null = null;
+        let newBlockHash: string | null = null;
+
+        if (dropped) {
+            // Transaction no longer on the canonical chain; the receipt is void
+            await supabase
+                .from('bills')
+                .update({
+                    status: 'FAILED',
+                    finalized: true,
+                    finality_checked_at: new Date().toISOString(),
+                    reorg_count: (bill.reorg_count || 0) + 1
+                })
+                .eq('id', bill.id);
+        } else {
+            // The re-mined receipt may carry different logs; classify it from scratch
+            await transactionClassifier.invalidate(bill.chain_id, bill.tx_hash);
+
+            const { billData } = await this.billService.generateBill({
+                txHash: bill.tx_hash,
+                chainId: bill.chain_id,
+                currency: bill.currency,
+                connectedWallet: bill.perspective || undefined,
+                apiKeyId: bill.api_key_id || undefined,
+                forceRegenerate: true,
+                supersedes: bill.bill_id
+            });
+            newBillId = billData.BILL_ID;
+            newBlockHash = billData.BLOCK_HASH || receipt.blockHash;
+
+            // Upsert keeps the row (tx_hash, chain_id, currency, perspective); only the counter is ours
+            await supabase
+                .from('bills')
+                .update({ reorg_count: (bill.reorg_count || 0) + 1 })
+                .eq('id', bill.id);
+
+            if (newBillId !== bill.bill_id) {
+                await supabase
+                    .from('bill_jobs')
+                    .update({ bill_id: newBillId, updated_at: new Date().toISOString() })
+                    .eq('bill_id', bill.bill_id);
+            }
+        }
+
+        const { data: reorg, error } = await supabase
+            .from('bill_reorgs')
+            .insert({
+                bill_id: bill.bill_id,
+                new_bill_id: newBillId,
+                tx_hash: bill.tx_hash,
+                chain_id: bill.chain_id,
+                currency: bill.currency,
+                perspective: bill.perspective,
+                old_block_number: bill.block_number,
+                old_block_hash: bill.block_hash,
+                old_receipt_hash: bill.receipt_hash,
+                canonical_block_hash: canonicalHash,
+                new_block_hash: newBlockHash,
+                dropped
+            })
+            .select('id')
+            .single();
+
+        if (error || !reorg) throw new Error(`Reorg record failed: ${error?.message}`);
+
+        // [Webhook] Notify every key that requested this receipt
+        const apiKeyIds = new Set<string>();
+        if (bill.api_key_id) apiKeyIds.add(bill.api_key_id);
+        for (const job of jobs || []) {
+            if (job.api_key_id) apiKeyIds.add(job.api_key_id);
+        }
+
+        for (const apiKeyId of apiKeyIds) {
+            this.webhookService.dispatch('bill.reorged', {
+                id: reorg.id,
+                bill_id: newBillId,
+                previous_bill_id: bill.bill_id,
+                tx_hash: bill.tx_hash,
+                transaction_hash: bill.tx_hash,
+                chain_id: bill.chain_id,
+                old_block_number: Number(bill.block_number),
+                old_block_hash: bill.block_hash,
+                new_block_hash: newBlockHash,
+                dropped,
+                // Maintain camelCase for top-level spread in WebhookService
+                txHash: bill.tx_hash,
+                billId: newBillId || bill.bill_id
+            }, apiKeyId).catch(err => finalityLogger.error('Webhook dispatch error', { error: err.message }));
+        }
+
+        finalityLogger.info('Bill superseded', { billId: bill.bill_id, newBillId, dropped });
+    }
+}
@@ -0,0 +1,662 @@
+import PDFDocument from 'pdfkit';
+import path from 'path';
+import fs from 'fs';
+import axios from 'axios';
+import type { BillViewModel } from './BillService';
+import type { StatementViewModel } from './StatementService';
+import { logger } from '../lib/logger';
+
+const FONT_DIR = path.join(__dirname, '..', 'assets', 'fonts');
+
+const FONTS = {
+    regular: 'Inter-Regular.ttf',
+    medium: 'Inter-Medium.ttf',
+    semibold: 'Inter-SemiBold.ttf',
+    bold: 'Inter-Bold.ttf',
+    mono: 'JetBrainsMono-Regular.ttf',
+    monoMedium: 'JetBrainsMono-Medium.ttf'
+} as const;
+
+type FontKey = keyof typeof FONTS;
+
+const DEFAULT_PRIMARY = '#0f172a';
+const DEFAULT_ACCENT = '#2563eb';
+const TEXT_PRIMARY = '#0f172a';
+const TEXT_SECONDARY = '#64748b';
+const BORDER = '#e2e8f0';
+const POSITIVE = '#059669';
+const NEGATIVE = '#dc2626';
+
+// The bundled JetBrains Mono has a truncated ligature glyph that fontkit cannot shape
+// ('...', '//', '->'), so contextual alternates and ligatures stay off for mono text.
+const MONO_SAFE = { features: { calt: false, liga: false } } as unknown as PDFKit.Mixins.TextOptions;
+
+const PAGE_MARGIN = 40;
+const LOGO_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Server-side PDF renderer for receipts.
+ * Mirrors the sections of the web print route (BillPrintClient) so the PDF
+ * and the browser-printed receipt carry the same information.
+ */
+export class PdfRenderService {
+    private fontCache = new Map<FontKey, Buffer>();
+
+    /**
+     * Render a finalized BillViewModel (including BRANDING) into PDF bytes.
+     */
+    async render(data: BillViewModel): Promise<Buffer> {
+        const logo = data.BRANDING?.logoUrl ? await this.fetchLogo(data.BRANDING.logoUrl) : null;
+
+        const { doc, done } = this.createDocument({
+            Title: `Transaction Receipt ${data.BILL_ID}`,
+            Author: 'TxProof',
+            Subject: data.TRANSACTION_HASH,
+            Keywords: data.RECEIPT_HASH || ''
+        });
+
+        const primary = this.safeColor(data.BRANDING?.primaryColor, DEFAULT_PRIMARY);
+        const accent = this.safeColor(data.BRANDING?.accentColor, DEFAULT_ACCENT);
+        const bodyFont: FontKey = data.BRANDING?.font === 'mono' ? 'mono' : 'regular';
+
+        this.drawHeader(doc, data, primary, logo);
+        this.drawOverview(doc, data, bodyFont, accent);
+        this.drawFailure(doc, data, bodyFont);
+        this.drawParticipants(doc, data, bodyFont);
+        this.drawSafe(doc, data, bodyFont);
+        this.drawLinkedTransfer(doc, data, bodyFont);
+        this.drawActions(doc, data, accent);
+        this.drawItems(doc, data, accent);
+        this.drawSwapDetails(doc, data, bodyFont, accent);
+        this.drawMevAnalysis(doc, data, bodyFont);
+        this.drawLiquidity(doc, data, bodyFont);
+        this.drawApprovals(doc, data, accent);
+        this.drawInternalTxs(doc, data);
+        this.drawFeesAndTotals(doc, data);
+        this.drawClassification(doc, data, bodyFont);
+        this.drawAudit(doc, data);
+        this.drawFooter(doc, data);
+
+        doc.end();
+        return done;
+    }
+
+    /**
+     * Render a period statement (see StatementService) into PDF bytes.
+     */
+    async renderStatement(data: StatementViewModel): Promise<Buffer> {
+        const { doc, done } = this.createDocument({
+            Title: `Statement ${data.STATEMENT_ID}`,
+            Author: 'TxProof',
+            Subject: data.ADDRESS,
+            Keywords: data.RECEIPT_HASH || ''
+        });
+
+        // Header
+        doc.rect(0, 0, doc.page.width, 6).fill(DEFAULT_PRIMARY);
+        doc.font('bold').fontSize(20).fillColor(DEFAULT_PRIMARY).text('TxProof', PAGE_MARGIN, PAGE_MARGIN);
+        const rightX = doc.page.width - PAGE_MARGIN - 220;
+        doc.font('semibold').fontSize(14).fillColor(TEXT_PRIMARY)
+            .text('Wallet Statement', rightX, PAGE_MARGIN, { width: 220, align: 'right' });
+        doc.font('mono').fontSize(9).fillColor(TEXT_SECONDARY)
+            .text(data.STATEMENT_ID, rightX, doc.y + 2, { width: 220, align: 'right', ...MONO_SAFE });
+        doc.x = PAGE_MARGIN;
+        doc.y = PAGE_MARGIN + 52;
+        this.divider(doc);
+
+        this.sectionTitle(doc, 'Account');
+        this.keyValue(doc, 'Address', data.ADDRESS, 'mono');
+        this.keyValue(doc, 'Period', `${data.PERIOD_START} to ${data.PERIOD_END} (UTC)`, 'regular');
+        this.keyValue(doc, 'Transactions', `${data.LINES_COUNT}${data.TRUNCATED ? ' (truncated)' : ''}`, 'regular');
+
+        this.sectionTitle(doc, 'Opening / Closing');
+        for (const chain of data.CHAINS) {
+            const opening = chain.OPENING_BALANCE !== null ? `${chain.OPENING_BALANCE} ${chain.CHAIN_SYMBOL}` : 'Unavailable';
+            const closing = chain.CLOSING_BALANCE !== null ? `${chain.CLOSING_BALANCE} ${chain.CHAIN_SYMBOL}` : 'Unavailable';
+            this.keyValue(doc, chain.CHAIN_NAME,
+                `Opening #${chain.OPENING_BLOCK}: ${opening}\nClosing #${chain.CLOSING_BLOCK}: ${closing}\nFees: ${chain.TOTAL_FEE} ${chain.CHAIN_SYMBOL} ($${chain.TOTAL_FEE_USD})`,
+                'mono');
+        }
+
+        this.sectionTitle(doc, 'Transactions');
+        for (const line of data.LINES) {
+            this.ensureSpace(doc, 40 + line.ITEMS.length * 12);
+            const y = doc.y;
+            doc.font('semibold').fontSize(8.5).fillColor(TEXT_PRIMARY)
+                .text(`${line.TIMESTAMP.slice(0, 10)}  ${line.TYPE_READABLE}`, PAGE_MARGIN, y, { width: 300 });
+            doc.font('mono').fontSize(8).fillColor(line.NET_CHANGE_SIGN === '+' ? POSITIVE : NEGATIVE)
+                .text(`${line.NET_CHANGE_SIGN}$${line.NET_CHANGE_USD}`, PAGE_MARGIN + 300, y, { width: doc.page.width - PAGE_MARGIN * 2 - 300, align: 'right', ...MONO_SAFE });
+            doc.font('mono').fontSize(7).fillColor(TEXT_SECONDARY)
+                .text(`${line.CHAIN_NAME} · ${line.TRANSACTION_HASH}${line.PAID_FEE ? ` · fee $${line.TOTAL_FEE_USD}` : ''}`, PAGE_MARGIN, doc.y + 1, MONO_SAFE);
+            for (const item of line.ITEMS) {
+                doc.font('mono').fontSize(7.5).fillColor(item.isIn ? POSITIVE : NEGATIVE)
+                    .text(`${item.isIn ? '+' : '-'}${item.amountFormatted} ${item.tokenSymbol}  ${item.usdValue}`, PAGE_MARGIN + 12, doc.y + 1, MONO_SAFE);
+            }
+            doc.x = PAGE_MARGIN;
+            doc.moveDown(0.6);
+        }
+
+        if (data.FAILED_LINES.length > 0) {
+            this.sectionTitle(doc, 'Not Included');
+            for (const failed of data.FAILED_LINES) {
+                this.keyValue(doc, `Chain ${failed.CHAIN_ID}`, `${failed.TRANSACTION_HASH}\n${failed.ERROR}`, 'mono', NEGATIVE);
+            }
+        }
+
+        this.sectionTitle(doc, 'Summary');
+        this.keyValue(doc, 'Total In', `$${data.TOTAL_IN_USD}`, 'mono');
+        this.keyValue(doc, 'Total Out', `$${data.TOTAL_OUT_USD}`, 'mono');
+        this.keyValue(doc, 'Fees Paid', `$${data.TOTAL_FEES_USD}`, 'mono');
+        this.keyValue(doc, 'Net Change', `${data.NET_CHANGE_SIGN}$${data.NET_CHANGE_USD}`, 'monoMedium',
+            data.NET_CHANGE_POSITIVE ? POSITIVE : NEGATIVE);
+
+        this.sectionTitle(doc, 'Verification');
+        if (data.RECEIPT_HASH) {
+            this.keyValue(doc, `Statement Hash (${data.HASH_ALGO || 'keccak256'})`, data.RECEIPT_HASH, 'mono');
+        }
+        this.keyValue(doc, 'Generated', data.GENERATED_AT, 'mono');
+
+        this.divider(doc);
+        doc.font('regular').fontSize(7.5).fillColor(TEXT_SECONDARY)
+            .text(`© ${new Date(data.GENERATED_AT).getUTCFullYear()} TxProof. Each line is backed by its own verifiable receipt.`, PAGE_MARGIN, doc.y, { align: 'center' });
+
+        doc.end();
+        return done;
+    }
+
+    // --- Sections ---
+
+    private drawHeader(doc: PDFKit.PDFDocument, data: BillViewModel, primary: string, logo: Buffer | null) {
+        const width = doc.page.width;
+        doc.rect(0, 0, width, 6).fill(primary);
+
+        let titleX = PAGE_MARGIN;
+        const top = PAGE_MARGIN;
+
+        if (logo) {
+            try {
+                doc.image(logo, PAGE_MARGIN, top, { fit: [120, 36] });
+                titleX = PAGE_MARGIN + 132;
+            } catch (e: any) {
+                // Unsupported image format (pdfkit only embeds PNG/JPEG)
+                logger.warn('[PdfRender] Logo could not be embedded', { billId: data.BILL_ID, error: e.message });
+            }
+        }
+
+        if (titleX === PAGE_MARGIN) {
+            doc.font('bold').fontSize(20).fillColor(primary).text('TxProof', PAGE_MARGIN, top);
+        }
+
+        const rightX = width - PAGE_MARGIN - 220;
+        doc.font('semibold').fontSize(14).fillColor(TEXT_PRIMARY)
+            .text('Transaction Receipt', rightX, top, { width: 220, align: 'right' });
+        doc.font('mono').fontSize(9).fillColor(TEXT_SECONDARY)
+            .text(data.BILL_ID, rightX, doc.y + 2, { width: 220, align: 'right', ...MONO_SAFE });
+        doc.font('regular').fontSize(8)
+            .text(data.DATE, rightX, doc.y + 2, { width: 220, align: 'right' });
+
+        doc.x = PAGE_MARGIN;
+        doc.y = Math.max(doc.y, top + 40) + 12;
+
+        const status = data.STATUS_CONFIRMED ? 'CONFIRMED' : data.STATUS;
+        const statusColor = data.STATUS_CONFIRMED ? POSITIVE : NEGATIVE;
+        doc.font('semibold').fontSize(9).fillColor(statusColor)
+            .text(`${status}  ·  ${data.CHAIN_NAME} (${data.CHAIN_ID})  ·  ${data.EXECUTION_TYPE_LABEL}  ·  ${data.CONFIDENCE_LABEL.toUpperCase()}`, PAGE_MARGIN);
+
+        this.divider(doc);
+    }
+
+    private drawOverview(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey, accent: string) {
+        this.sectionTitle(doc, 'Transaction');
+        this.keyValue(doc, 'Timestamp', `${data.TIMESTAMP} (${data.TIMESTAMP_RELATIVE})`, bodyFont);
+        this.keyValue(doc, 'Block', `#${data.BLOCK_NUMBER}`, 'mono', accent);
+        this.keyValue(doc, 'Transaction Hash', data.TRANSACTION_HASH, 'mono', accent);
+        this.keyValue(doc, 'Envelope', data.ENVELOPE_LABEL, bodyFont);
+        if (data.PROTOCOL_TAG) this.keyValue(doc, 'Protocol', data.PROTOCOL_TAG, bodyFont);
+        if (data.METHOD_SIGNATURE) this.keyValue(doc, 'Function', data.METHOD_SIGNATURE, 'mono');
+    }
+
+    private drawFailure(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        if (!data.HAS_FAILED_REASON || !data.FAILED_REASON) return;
+
+        const failure = data.FAILED_REASON;
+        this.sectionTitle(doc, 'Failure Reason');
+        this.keyValue(doc, 'Intended Action', failure.intendedAction, bodyFont);
+        this.keyValue(doc, 'Reason', failure.message, bodyFont, NEGATIVE);
+        if (failure.signature) this.keyValue(doc, 'Error', failure.signature, 'mono');
+        if (failure.kind === 'raw' && failure.selector) this.keyValue(doc, 'Error Selector', failure.selector, 'mono');
+    }
+
+    private drawParticipants(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        this.sectionTitle(doc, 'Participants');
+        this.keyValue(doc, data.FROM_ENS || 'Sender', data.FROM_ADDRESS, 'mono');
+        this.keyValue(doc, data.TO_ENS || 'Recipient', data.TO_ADDRESS, data.TO_ADDRESS.startsWith('0x') ? 'mono' : bodyFont);
+        if (data.PERSPECTIVE_ADDRESS) {
+            const note = data.PERSPECTIVE_IS_PARTICIPANT === false ? ' (not a participant; sender view shown)' : '';
+            this.keyValue(doc, 'Receipt Perspective', `${data.PERSPECTIVE_ADDRESS}${note}`, 'mono');
+        }
+        if (data.HAS_ACCOUNT_ABSTRACTION && data.ACCOUNT_ABSTRACTION) {
+            const aa = data.ACCOUNT_ABSTRACTION;
+            this.keyValue(doc, 'Smart Account', aa.smartAccount, 'mono');
+            this.keyValue(doc, 'Bundler', aa.bundler, 'mono');
+            this.keyValue(doc, 'EntryPoint', `${aa.entryPoint}${aa.entryPointVersion ? ` (${aa.entryPointVersion})` : ''}`, 'mono');
+            this.keyValue(doc, 'UserOp Hash', aa.userOpHash, 'mono');
+            if (aa.bundleSize > 1) this.keyValue(doc, 'Bundle', `${aa.bundleSize} user operations`, bodyFont);
+        }
+    }
+
+    private drawSafe(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        if (!data.HAS_SAFE || !data.SAFE) return;
+
+        const safe = data.SAFE;
+        this.sectionTitle(doc, 'Safe Transaction');
+        this.keyValue(doc, 'Safe', safe.address, 'mono');
+        this.keyValue(doc, 'Executor', safe.executor, 'mono');
+        if (safe.nonce !== undefined) this.keyValue(doc, 'Nonce', safe.nonce, 'mono');
+        if (safe.threshold !== undefined) this.keyValue(doc, 'Threshold', `${safe.threshold} signature(s)`, bodyFont);
+        this.keyValue(doc, 'Outcome', safe.outcome, bodyFont,
+            safe.outcome === 'ExecutionSuccess' ? POSITIVE : safe.outcome === 'ExecutionFailure' ? NEGATIVE : undefined);
+        if (safe.safeTxHash) this.keyValue(doc, 'Safe Tx Hash', safe.safeTxHash, 'mono');
+        if (safe.payment) this.keyValue(doc, 'Gas Refund', `${safe.payment} ${data.CHAIN_SYMBOL}`, 'mono');
+        safe.calls.forEach((call, i) => {
+            const label = safe.calls.length > 1 ? `Call ${i + 1}` : 'Call';
+            const value = call.value !== '0' ? ` · ${call.value} ${data.CHAIN_SYMBOL}` : '';
+            const kind = call.operation === 'delegatecall' ? ' (delegatecall)' : '';
+            this.keyValue(doc, label, `${call.method}${kind} → ${call.to}${value}`, 'mono', call.operation === 'delegatecall' ? NEGATIVE : undefined);
+        });
+    }
+
+    private drawLinkedTransfer(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        if (!data.HAS_LINKED_TRANSFER || !data.LINKED_TRANSFER) return;
+
+        const link = data.LINKED_TRANSFER;
+        this.sectionTitle(doc, 'Linked Bridge Transfer');
+        this.keyValue(doc, 'Bridge', link.protocol, bodyFont);
+        this.keyValue(doc, link.direction === 'OUTBOUND' ? 'Destination' : 'Source', `${link.counterpartChain} (${link.counterpartChainId})`, bodyFont);
+        this.keyValue(doc, 'Status', link.statusLabel, bodyFont,
+            link.status === 'COMPLETED' ? POSITIVE : link.status === 'FAILED' || link.status === 'EXPIRED' ? NEGATIVE : undefined);
+        this.keyValue(doc, 'Message ID', link.messageId, 'mono');
+        this.keyValue(doc, 'Counterpart Tx', link.counterpartTxHash || 'Not found yet', link.counterpartTxHash ? 'mono' : bodyFont);
+    }
+
+    private drawSwapDetails(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey, accent: string) {
+        if (!data.HAS_SWAP_DETAILS || !data.SWAP_DETAILS) return;
+
+        const swap = data.SWAP_DETAILS;
+        this.sectionTitle(doc, 'Swap Details');
+        this.keyValue(doc, 'Route', swap.route, bodyFont);
+        this.keyValue(doc, 'Execution Price', `${swap.executionPrice}  (${swap.executionPriceInverse})`, 'mono');
+        if (swap.oraclePrice) this.keyValue(doc, 'Oracle Price', swap.oraclePrice, 'mono');
+        if (swap.priceDifference) {
+            this.keyValue(doc, 'Vs Oracle', swap.priceDifference, 'mono', swap.priceDifference.startsWith('-') ? NEGATIVE : POSITIVE);
+        }
+        if (swap.slippageCostUsd !== undefined) {
+            this.keyValue(doc, 'Slippage Cost', this.isFiatBill(data) ? `${swap.slippageCostFiat} ${data.CURRENCY}` : `$${swap.slippageCostUsd}`, 'mono', NEGATIVE);
+        }
+        if (swap.hops.length === 0) return;
+
+        doc.moveDown(0.3);
+        const cols = [PAGE_MARGIN, PAGE_MARGIN + 30, PAGE_MARGIN + 130, PAGE_MARGIN + 330];
+        this.tableHeader(doc, ['#', 'Pool', 'In → Out', 'Fee'], cols);
+
+        for (const hop of swap.hops) {
+            this.ensureSpace(doc, 26);
+            const y = doc.y;
+            doc.font('semibold').fontSize(8).fillColor(TEXT_SECONDARY).text(String(hop.step), cols[0], y);
+            doc.font('medium').fillColor(accent).text(hop.protocol, cols[1], y, { width: 95, ellipsis: true });
+            doc.font('mono').fontSize(6.5).fillColor(TEXT_SECONDARY).text(hop.pool, cols[1], y + 10, { width: 95, ellipsis: true });
+            doc.font('mono').fontSize(8).fillColor(TEXT_PRIMARY)
+                .text(`${hop.amountIn} ${hop.tokenInSymbol} → ${hop.amountOut} ${hop.tokenOutSymbol}`, cols[2], y, { width: 195, ...MONO_SAFE });
+            const fee = hop.feeTier ? (hop.fee ? `${hop.feeTier} · ${hop.fee} ${hop.feeSymbol}` : hop.feeTier) : '-';
+            doc.text(fee, cols[3], y, { width: doc.page.width - PAGE_MARGIN - cols[3], align: 'right', ...MONO_SAFE });
+            doc.x = PAGE_MARGIN;
+            doc.y = y + 22;
+        }
+        doc.moveDown(0.5);
+    }
+
+    private drawMevAnalysis(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        if (!data.HAS_MEV_ANALYSIS || !data.MEV_ANALYSIS) return;
+
+        const mev = data.MEV_ANALYSIS;
+        this.sectionTitle(doc, 'MEV Analysis');
+        this.keyValue(doc, 'Result', mev.verdictLabel, bodyFont, mev.verdict === 'SANDWICHED' ? NEGATIVE : mev.verdict === 'NONE' ? POSITIVE : undefined);
+        this.keyValue(doc, 'Pools Checked', String(mev.analyzedPools), bodyFont);
+        if (mev.totalLossUsd !== undefined) {
+            this.keyValue(doc, 'Estimated Loss', this.isFiatBill(data) ? `${mev.totalLossFiat} ${data.CURRENCY}` : `$${mev.totalLossUsd}`, bodyFont, NEGATIVE);
+        }
+
+        for (const f of mev.findings) {
+            this.keyValue(doc, f.label, `${f.poolLabel} ${f.pool}`, 'mono');
+            this.keyValue(doc, 'Attacker', f.attackerContract ? `${f.attacker} via ${f.attackerContract}` : f.attacker, 'mono');
+            if (f.frontRunTx) this.keyValue(doc, 'Front-run Tx', f.frontRunTx, 'mono');
+            this.keyValue(doc, 'Back-run Tx', f.backRunTx, 'mono');
+            if (f.lossAmount) {
+                this.keyValue(doc, 'Lost Output', `${f.lossAmount} ${f.tokenOutSymbol}${f.lossPercent ? ` (${f.lossPercent})` : ''}`, bodyFont, NEGATIVE);
+            }
+        }
+    }
+
+    private drawActions(doc: PDFKit.PDFDocument, data: BillViewModel, accent: string) {
+        if (!data.HAS_ACTIONS || !data.ACTIONS) return;
+
+        this.sectionTitle(doc, 'Actions');
+        const cols = [PAGE_MARGIN, PAGE_MARGIN + 30, PAGE_MARGIN + 130, PAGE_MARGIN + 300];
+        this.tableHeader(doc, ['#', 'Action', 'Method / Protocol', 'Assets'], cols);
+
+        for (const action of data.ACTIONS) {
+            const assets = [
+                ...action.tokensOut.map(t => `-${t.amount} ${t.tokenSymbol}`),
+                ...action.tokensIn.map(t => `+${t.amount} ${t.tokenSymbol}`)
+            ].join('  ');
+            this.ensureSpace(doc, 18);
+            const y = doc.y;
+            doc.font('semibold').fontSize(8).fillColor(TEXT_SECONDARY).text(String(action.step), cols[0], y);
+            doc.font('medium').fillColor(accent).text(action.label, cols[1], y, { width: 95, ellipsis: true });
+            doc.font('mono').fontSize(7.5).fillColor(TEXT_SECONDARY)
+                .text(action.protocol ? `${action.method} · ${action.protocol}` : action.method, cols[2], y, { width: 165, ...MONO_SAFE });
+            doc.font('mono').fontSize(8).fillColor(TEXT_PRIMARY)
+                .text(assets || '-', cols[3], y, { width: doc.page.width - PAGE_MARGIN - cols[3], align: 'right', ...MONO_SAFE });
+            doc.x = PAGE_MARGIN;
+            doc.y = y + 14;
+        }
+        doc.moveDown(0.5);
+    }
+
+    private drawItems(doc: PDFKit.PDFDocument, data: BillViewModel, accent: string) {
+        this.sectionTitle(doc, 'Token Movements');
+
+        if (data.ITEMS.length === 0) {
+            doc.font('regular').fontSize(9).fillColor(TEXT_SECONDARY).text('No token movements detected.', PAGE_MARGIN);
+            doc.moveDown(0.5);
+            return;
+        }
+
+        const cols = [PAGE_MARGIN, PAGE_MARGIN + 40, PAGE_MARGIN + 150, PAGE_MARGIN + 330, PAGE_MARGIN + 430];
+        this.tableHeader(doc, ['Dir', 'Asset', 'From → To', 'Amount', 'Value'], cols);
+
+        for (const item of data.ITEMS) {
+            this.ensureSpace(doc, 18);
+            const y = doc.y;
+            const sign = item.isIn ? '+' : '-';
+            doc.font('semibold').fontSize(8).fillColor(item.isIn ? POSITIVE : NEGATIVE).text(item.isIn ? 'IN' : 'OUT', cols[0], y);
+            doc.font('medium').fillColor(accent).text(item.tokenSymbol, cols[1], y, { width: 105, ellipsis: true });
+            doc.font('mono').fontSize(7.5).fillColor(TEXT_SECONDARY).text(`${item.fromShort} → ${item.toShort}`, cols[2], y, { width: 175, ...MONO_SAFE });
+            doc.font('mono').fontSize(8).fillColor(TEXT_PRIMARY).text(`${sign}${item.amountFormatted}`, cols[3], y, { width: 95, ...MONO_SAFE });
+            doc.text(this.isFiatBill(data) ? `${item.fiatValue} ${data.CURRENCY}` : item.usdValue, cols[4], y, { width: doc.page.width - PAGE_MARGIN - cols[4], align: 'right', ...MONO_SAFE });
+            doc.x = PAGE_MARGIN;
+            doc.y = y + 14;
+        }
+        doc.moveDown(0.5);
+    }
+
+    private drawLiquidity(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        if (!data.HAS_LIQUIDITY || !data.LIQUIDITY) return;
+
+        const liquidity = data.LIQUIDITY;
+        this.sectionTitle(doc, liquidity.action === 'add' ? 'Liquidity Added' : 'Liquidity Removed');
+        this.keyValue(doc, 'Protocol', liquidity.protocol, bodyFont);
+        this.keyValue(doc, 'Pool', liquidity.pool, 'mono');
+        if (liquidity.positionId) this.keyValue(doc, 'Position', `#${liquidity.positionId}`, 'mono');
+        if (liquidity.tickLower !== undefined && liquidity.tickUpper !== undefined) {
+            this.keyValue(doc, 'Tick Range', `${liquidity.tickLower} to ${liquidity.tickUpper}`, 'mono');
+        }
+        for (const t of liquidity.tokens) {
+            this.keyValue(doc, t.tokenSymbol, `${liquidity.action === 'add' ? '-' : '+'}${t.amount}`, 'mono', liquidity.action === 'add' ? NEGATIVE : POSITIVE);
+        }
+        if (liquidity.lpSymbol && liquidity.lpAmount) {
+            this.keyValue(doc, `LP Token (${liquidity.lpSymbol})`, `${liquidity.action === 'add' ? '+' : '-'}${liquidity.lpAmount}`, 'mono');
+        }
+    }
+
+    private drawApprovals(doc: PDFKit.PDFDocument, data: BillViewModel, accent: string) {
+        if (!data.HAS_APPROVALS || !data.APPROVALS) return;
+
+        this.sectionTitle(doc, 'Approvals');
+        const cols = [PAGE_MARGIN, PAGE_MARGIN + 60, PAGE_MARGIN + 150, PAGE_MARGIN + 400];
+        this.tableHeader(doc, ['Action', 'Token', 'Spender', 'Allowance'], cols);
+
+        for (const approval of data.APPROVALS) {
+            this.ensureSpace(doc, 18);
+            const y = doc.y;
+            doc.font('semibold').fontSize(8).fillColor(approval.revoke ? POSITIVE : NEGATIVE).text(approval.revoke ? 'REVOKE' : 'GRANT', cols[0], y);
+            doc.font('medium').fillColor(accent).text(approval.tokenSymbol, cols[1], y, { width: 85, ellipsis: true });
+            doc.font('mono').fontSize(7.5).fillColor(TEXT_SECONDARY).text(approval.spender, cols[2], y, { width: 245, ...MONO_SAFE });
+            doc.font('mono').fontSize(8).fillColor(approval.unlimited ? NEGATIVE : TEXT_PRIMARY)
+                .text(approval.amount, cols[3], y, { width: doc.page.width - PAGE_MARGIN - cols[3], align: 'right', ...MONO_SAFE });
+            doc.x = PAGE_MARGIN;
+            doc.y = y + 14;
+        }
+        doc.moveDown(0.5);
+    }
+
+    private drawInternalTxs(doc: PDFKit.PDFDocument, data: BillViewModel) {
+        if (!data.HAS_INTERNAL_TXS) return;
+
+        this.sectionTitle(doc, 'Internal Execution');
+        const cols = [PAGE_MARGIN, PAGE_MARGIN + 110, PAGE_MARGIN + 220, PAGE_MARGIN + 400];
+        this.tableHeader(doc, ['From', 'To', 'Amount', 'Status'], cols);
+
+        for (const tx of data.INTERNAL_TXS) {
+            this.ensureSpace(doc, 18);
+            const y = doc.y;
+            doc.font('mono').fontSize(7.5).fillColor(TEXT_SECONDARY).text(tx.fromShort, cols[0], y, MONO_SAFE);
+            doc.text(tx.toShort, cols[1], y, MONO_SAFE);
+            doc.fontSize(8).fillColor(TEXT_PRIMARY).text(`${tx.amount} ${tx.symbol}`, cols[2], y, { width: 170, ...MONO_SAFE });
+            doc.font('semibold').fillColor(tx.isError ? NEGATIVE : POSITIVE).text(tx.isError ? 'Failed' : 'Success', cols[3], y);
+            doc.x = PAGE_MARGIN;
+            doc.y = y + 14;
+        }
+        doc.moveDown(0.5);
+    }
+
+    private drawFeesAndTotals(doc: PDFKit.PDFDocument, data: BillViewModel) {
+        this.sectionTitle(doc, 'Network Fees');
+        this.keyValue(doc, 'Gas Price', `${data.GAS_PRICE_GWEI} Gwei`, 'mono');
+        this.keyValue(doc, 'Gas Used', data.GAS_USED, 'mono');
+        if (data.HAS_FEE_BREAKDOWN && data.FEE_BREAKDOWN) {
+            for (const line of data.FEE_BREAKDOWN) {
+                const value = this.isFiatBill(data) ? `${line.amountFiat} ${data.CURRENCY}` : `$${line.amountUsd}`;
+                this.keyValue(doc, line.label, `${line.amount} ${data.CHAIN_SYMBOL} (${value})`, 'mono');
+            }
+        }
+        if (data.HAS_ACCOUNT_ABSTRACTION && data.ACCOUNT_ABSTRACTION) {
+            const aa = data.ACCOUNT_ABSTRACTION;
+            const value = this.isFiatBill(data) ? `${aa.actualGasCostFiat} ${data.CURRENCY}` : `$${aa.actualGasCostUsd}`;
+            this.keyValue(doc, 'User Operation Gas', `${aa.actualGasCost} ${data.CHAIN_SYMBOL} (${value}) · ${aa.actualGasUsed} gas`, 'mono');
+            if (aa.sponsored && aa.paymaster) {
+                this.keyValue(doc, 'Gas Sponsored By', `Paymaster ${aa.paymaster}`, 'mono', POSITIVE);
+            }
+        }
+        if (data.GAS_BURNED_ON_FAILURE) {
+            const burned = data.GAS_BURNED_ON_FAILURE;
+            const value = this.isFiatBill(data) ? `${burned.amountFiat} ${data.CURRENCY}` : `$${burned.amountUsd}`;
+            this.keyValue(doc, 'Gas Burned on Failure', `${burned.amount} ${data.CHAIN_SYMBOL} (${value}) · ${burned.gasUsed} / ${burned.gasLimit} gas`, 'mono', NEGATIVE);
+        }
+        this.keyValue(doc, 'Total Fee', `${data.TOTAL_FEE} ${data.CHAIN_SYMBOL}`, 'mono');
+        this.keyValue(doc, 'Total Fee (USD)', `$${data.TOTAL_FEE_USD}`, 'mono');
+
+        // Reporting currency: ISO code suffix instead of symbols (mono font lacks some, e.g. ₹)
+        if (this.isFiatBill(data)) {
+            const ccy = data.CURRENCY;
+            this.keyValue(doc, `Total Fee (${ccy})`, `${data.TOTAL_FEE_FIAT} ${ccy}`, 'mono');
+
+            this.sectionTitle(doc, `Summary (${ccy})`);
+            this.keyValue(doc, 'Total In', `${data.TOTAL_IN_FIAT} ${ccy}`, 'mono');
+            this.keyValue(doc, 'Total Out', `${data.TOTAL_OUT_FIAT} ${ccy}`, 'mono');
+            this.keyValue(doc, 'Net Change', `${data.NET_CHANGE_SIGN}${data.NET_CHANGE_FIAT} ${ccy}`, 'monoMedium',
+                data.NET_CHANGE_POSITIVE ? POSITIVE : NEGATIVE);
+            return;
+        }
+
+        this.sectionTitle(doc, 'Summary');
+        this.keyValue(doc, 'Total In', `$${data.TOTAL_IN_USD}`, 'mono');
+        this.keyValue(doc, 'Total Out', `$${data.TOTAL_OUT_USD}`, 'mono');
+        this.keyValue(doc, 'Net Change', `${data.NET_CHANGE_SIGN}$${data.NET_CHANGE_USD}`, 'monoMedium',
+            data.NET_CHANGE_POSITIVE ? POSITIVE : NEGATIVE);
+    }
+
+    private drawClassification(doc: PDFKit.PDFDocument, data: BillViewModel, bodyFont: FontKey) {
+        this.sectionTitle(doc, 'Classification');
+        this.keyValue(doc, 'Type', data.TYPE_READABLE, 'semibold');
+        this.keyValue(doc, 'Confidence', `${data.CONFIDENCE_LABEL} (${data.CONFIDENCE_PERCENT}%)`, bodyFont);
+
+        if (data.SECONDARY_ACTIONS.length > 0) {
+            this.keyValue(doc, 'Secondary Actions', data.SECONDARY_ACTIONS.join('\n'), bodyFont);
+        }
+
+        if (data.RISK_WARNINGS.length > 0) {
+            this.ensureSpace(doc, 20 + data.RISK_WARNINGS.length * 12);
+            doc.font('semibold').fontSize(9).fillColor(NEGATIVE).text('Warning', PAGE_MARGIN);
+            doc.font('regular').fontSize(8.5);
+            for (const warning of data.RISK_WARNINGS) {
+                doc.text(`• ${warning}`, PAGE_MARGIN + 8);
+            }
+            doc.x = PAGE_MARGIN;
+            doc.moveDown(0.5);
+        }
+    }
+
+    private drawAudit(doc: PDFKit.PDFDocument, data: BillViewModel) {
+        this.ensureSpace(doc, 150);
+        this.sectionTitle(doc, 'Verification & Audit Trail');
+
+        const qrSize = 72;
+        const qrX = doc.page.width - PAGE_MARGIN - qrSize;
+        const qrY = doc.y;
+        const qr = this.dataUrlToBuffer(data.QR_CODE_DATA_URL);
+        if (qr) {
+            doc.image(qr, qrX, qrY, { width: qrSize, height: qrSize });
+        }
+
+        const textWidth = qrX - PAGE_MARGIN - 12;
+        this.keyValue(doc, 'Price Source', data.PRICE_SOURCE, 'regular', undefined, textWidth);
+        if (this.isFiatBill(data)) {
+            this.keyValue(doc, 'FX Rate', `1 USD = ${data.FX_RATE} ${data.CURRENCY} (${data.FX_SOURCE}, ${data.FX_RATE_DATE})`, 'regular', undefined, textWidth);
+        }
+        this.keyValue(doc, 'Method', data.CLASSIFICATION_METHOD, 'regular', undefined, textWidth);
+        this.keyValue(doc, 'Reorg Check', data.REORG_DETECTED ? 'Detected' : 'Passed', 'regular', undefined, textWidth);
+        if (data.RECEIPT_HASH) {
+            this.keyValue(doc, `Receipt Hash (${data.HASH_ALGO || 'keccak256'})`, data.RECEIPT_HASH, 'mono', undefined, textWidth);
+        }
+        this.keyValue(doc, 'Explorer', data.EXPLORER_URL, 'mono', undefined, textWidth);
+
+        doc.y = Math.max(doc.y, qrY + qrSize + 8);
+    }
+
+    private drawFooter(doc: PDFKit.PDFDocument, data: BillViewModel) {
+        this.divider(doc);
+        const footer = data.BRANDING?.footerText || `© ${data.CURRENT_YEAR} TxProof. Data from ${data.CHAIN_NAME}.`;
+        doc.font('regular').fontSize(7.5).fillColor(TEXT_SECONDARY)
+            .text(footer, PAGE_MARGIN, doc.y, { align: 'center' });
+        doc.text(`Ref: ${data.BILL_ID}`, { align: 'center' });
+    }
+
+    // --- Layout Primitives ---
+
+    private sectionTitle(doc: PDFKit.PDFDocument, title: string) {
+        this.ensureSpace(doc, 40);
+        doc.moveDown(0.4);
+        doc.font('bold').fontSize(10).fillColor(TEXT_PRIMARY).text(title.toUpperCase(), PAGE_MARGIN, doc.y, { characterSpacing: 0.5 });
+        doc.moveDown(0.3);
+    }
+
+    private keyValue(doc: PDFKit.PDFDocument, label: string, value: string, font: FontKey, color: string = TEXT_PRIMARY, width?: number) {
+        const labelWidth = 130;
+        const valueWidth = (width ?? doc.page.width - PAGE_MARGIN * 2) - labelWidth;
+
+        doc.font(font).fontSize(8.5);
+        const height = Math.max(doc.heightOfString(value, { width: valueWidth, ...MONO_SAFE }), 10);
+        this.ensureSpace(doc, height + 4);
+
+        const y = doc.y;
+        doc.font('medium').fontSize(8.5).fillColor(TEXT_SECONDARY).text(label, PAGE_MARGIN, y, { width: labelWidth - 8 });
+        doc.font(font).fontSize(8.5).fillColor(color).text(value, PAGE_MARGIN + labelWidth, y, { width: valueWidth, ...MONO_SAFE });
+        doc.x = PAGE_MARGIN;
+        doc.y = y + height + 4;
+    }
+
+    private tableHeader(doc: PDFKit.PDFDocument, labels: string[], cols: number[]) {
+        this.ensureSpace(doc, 20);
+        const y = doc.y;
+        doc.font('semibold').fontSize(7.5).fillColor(TEXT_SECONDARY);
+        labels.forEach((label, i) => {
+            const isLast = i === labels.length - 1;
+            doc.text(label.toUpperCase(), cols[i], y, isLast
+                ? { width: doc.page.width - PAGE_MARGIN - cols[i], align: 'right' }
+                : undefined);
+        });
+        doc.x = PAGE_MARGIN;
+        doc.y = y + 12;
+        doc.moveTo(PAGE_MARGIN, doc.y).lineTo(doc.page.width - PAGE_MARGIN, doc.y).lineWidth(0.5).strokeColor(BORDER).stroke();
+        doc.y += 4;
+    }
+
+    private divider(doc: PDFKit.PDFDocument) {
+        doc.moveDown(0.6);
+        doc.moveTo(PAGE_MARGIN, doc.y).lineTo(doc.page.width - PAGE_MARGIN, doc.y).lineWidth(0.5).strokeColor(BORDER).stroke();
+        doc.moveDown(0.6);
+    }
+
+    private ensureSpace(doc: PDFKit.PDFDocument, needed: number) {
+        if (doc.y + needed > doc.page.height - PAGE_MARGIN) {
+            doc.addPage();
+        }
+    }
+
+    // --- Helpers ---
+
+    private createDocument(info: PDFKit.DocumentInfo) {
+        const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info });
+        this.registerFonts(doc);
+
+        const chunks: Buffer[] = [];
+        const done = new Promise<Buffer>((resolve, reject) => {
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+        });
+
+        return { doc, done };
+    }
+
+    private registerFonts(doc: PDFKit.PDFDocument) {
+        for (const key of Object.keys(FONTS) as FontKey[]) {
+            let font = this.fontCache.get(key);
+            if (!font) {
+                font = fs.readFileSync(path.join(FONT_DIR, FONTS[key]));
+                this.fontCache.set(key, font);
+            }
+            doc.registerFont(key, font);
+        }
+    }
+
+    private isFiatBill(data: BillViewModel): data is BillViewModel & { CURRENCY: string } {
+        return !!data.CURRENCY && data.CURRENCY !== 'USD';
+    }
+
+    private safeColor(color: string | undefined, fallback: string): string {
+        return color && /^#[0-9a-fA-F]{6}$/.test(color) ? color : fallback;
+    }
+
+    private dataUrlToBuffer(dataUrl: string): Buffer | null {
+        const match = /^data:image\/(png|jpeg);base64,(.+)$/.exec(dataUrl || '');
+        return match ? Buffer.from(match[2], 'base64') : null;
+    }
+
+    private async fetchLogo(url: string): Promise<Buffer | null> {
+        if (!url.startsWith('https://')) return null;
+        try {
+            const res = await axios.get<ArrayBuffer>(url, {
+                responseType: 'arraybuffer',
+                timeout: LOGO_TIMEOUT_MS,
+                maxContentLength: MAX_LOGO_BYTES
+            });
+            return Buffer.from(res.data);
+        } catch (e: any) {
+            logger.warn('[PdfRender] Failed to fetch branding logo', { url, error: e.message });
+            return null;
+        }
+    }
+}
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { chainRegistry } from './chains';
+import { FrankfurterFxProvider, FixtureFxProvider, FxRateProvider, FiatCurrency, BASE_CURRENCY, isSupportedCurrency } from './fx';
 
 // Make Redis optional - will gracefully degrade to no caching if not available
 type RedisClient = any;
@@ -13,7 +15,9 @@ export type PriceFailureCode =
     | 'CURRENT_PRICE_UNAVAILABLE'
     | 'INVALID_MODE_USAGE'
     | 'PROVIDER_UNSUPPORTED'
-    | 'MISSING_API_KEY';
+    | 'MISSING_API_KEY'
+    | 'UNSUPPORTED_CURRENCY'
+    | 'FX_RATE_UNAVAILABLE';
 
 export class PriceOracleError extends Error {
     constructor(public code: PriceFailureCode, message: string) {
@@ -68,6 +72,19 @@ export interface DisplayPriceParams {
     tokenAddress: string;
 }
 
+export interface HistoricalFxParams {
+    currency: string;
+    txTimestamp: number;
+}
+
+export interface FxRateResult {
+    currency: FiatCurrency;
+    rate: number; // 1 USD = rate * currency
+    source: string;
+    rateDate: string; // YYYY-MM-DD of the published rate
+    requestTimestamp: number;
+}
+
 /**
  * Enterprise-grade Price Oracle with strict separation of Historical vs Current capabilities.
  * Includes Caching, Mandatory Audit Logging, and Explicit Error Contracts.
@@ -78,6 +95,7 @@ export class PriceOracleService {
     private readonly coincapUrl = 'https://api.coincap.io/v2';
 
     private redis: RedisClient | null = null;
+    private readonly fxProvider: FxRateProvider;
 
     // DETERMINISTIC ORDER: Provider selection priority is strictly defined by this array order.
     private readonly providers: PriceSourceCapabilities[] = [
@@ -86,7 +104,7 @@ export class PriceOracleService {
             supportsHistorical: true,
             supportsCurrent: false,
             minGranularitySeconds: 3600, // 1h buckets
-            supportedChains: [1, 137, 10, 42161, 8453, 11155111],
+            supportedChains: [], // Chains with an alchemyNetwork in the chain registry
             supportedAssets: 'both'
         },
         {
@@ -107,7 +125,11 @@ export class PriceOracleService {
         }
     ];
 
-    constructor() {
+    constructor(options: { fxProvider?: FxRateProvider } = {}) {
+        // FX: FX_PROVIDER=fixture switches to the offline table (tests / air-gapped installs)
+        this.fxProvider = options.fxProvider
+            || (process.env.FX_PROVIDER === 'fixture' ? new FixtureFxProvider() : new FrankfurterFxProvider());
+
         // Redis is optional - if not available, caching is disabled
         // This allows the service to work without Redis dependency
         try {
@@ -161,6 +183,62 @@ export class PriceOracleService {
         });
     }
 
+    /**
+     * Historical FX for Accounting/Tax: USD -> `currency` at the rate published for the tx date (UTC).
+     * USD short-circuits to an identity rate so every bill carries the same FX fields.
+     */
+    async getHistoricalFxRate(params: HistoricalFxParams): Promise<FxRateResult> {
+        const currency = params.currency.toUpperCase();
+        if (!isSupportedCurrency(currency)) {
+            throw new PriceOracleError('UNSUPPORTED_CURRENCY', `Currency ${params.currency} is not supported.`);
+        }
+
+        const date = new Date(params.txTimestamp * 1000).toISOString().slice(0, 10);
+        if (currency === BASE_CURRENCY) {
+            return { currency, rate: 1, source: 'Identity', rateDate: date, requestTimestamp: params.txTimestamp };
+        }
+
+        // CACHE: Rates are immutable once published, keyed per provider so fixtures never leak into live data
+        const cacheKey = `fx:historical:${this.fxProvider.name}:${currency}:${date}`;
+        const cached = await this.getFromCache<FxRateResult>(cacheKey);
+        if (cached) return cached;
+
+        const startTime = Date.now();
+        let result: FxRateResult;
+        try {
+            const quote = await this.fxProvider.getUsdRate(currency, date);
+            result = {
+                currency,
+                rate: quote.rate,
+                source: this.fxProvider.name,
+                rateDate: quote.rateDate,
+                requestTimestamp: params.txTimestamp
+            };
+        } catch (error: any) {
+            console.log(JSON.stringify({
+                event: 'FX_ORACLE_ACCESS',
+                timestamp: new Date().toISOString(),
+                params: { currency, date },
+                success: false,
+                error: 'FX_RATE_UNAVAILABLE',
+                durationMs: Date.now() - startTime
+            }));
+            throw new PriceOracleError('FX_RATE_UNAVAILABLE', `${this.fxProvider.name}: ${error.message}`);
+        }
+
+        console.log(JSON.stringify({
+            event: 'FX_ORACLE_ACCESS',
+            timestamp: new Date().toISOString(),
+            params: { currency, date },
+            success: true,
+            result,
+            durationMs: Date.now() - startTime
+        }));
+
+        await this.setInCache(cacheKey, result, 3600 * 24 * 30);
+        return result;
+    }
+
     /**
      * Internal Entrypoint.
      * PRIVATE to prevent cross-usage by API design.
@@ -294,10 +372,11 @@ export class PriceOracleService {
             } catch (e: any) { errors.push(`Coingecko: ${e.message}`); }
         }
 
-        // 3. CoinCap (Fallback for ETH mainnet only)
-        if (!result && tokenAddress === 'native' && chainId === 1) {
+        // 3. CoinCap (native fallback on chains with a registry asset id)
+        const coincapAssetId = this.getCoincapAssetId(chainId);
+        if (!result && tokenAddress === 'native' && coincapAssetId) {
             try {
-                const ccPrice = await this.getCoinCapPrice(tokenAddress);
+                const ccPrice = await this.getCoinCapPrice(coincapAssetId);
                 result = this.formatResult(ccPrice.price, PriceMode.CURRENT, 'CoinCap', ccPrice.timestamp, now, 0.7);
             } catch (e: any) { errors.push(`CoinCap: ${e.message}`); }
         }
@@ -319,7 +398,7 @@ export class PriceOracleService {
         return `price:historical:${chainId}:${token}:time:${timeBucket}`;
     }
 
-    private async getFromCache(key: string): Promise<PriceResult | null> {
+    private async getFromCache<T = PriceResult>(key: string): Promise<T | null> {
         try {
             if (this.redis && this.redis.status === 'ready') {
                 const data = await this.redis.get(key);
@@ -331,7 +410,7 @@ export class PriceOracleService {
         return null;
     }
 
-    private async setInCache(key: string, data: PriceResult, ttlSeconds: number): Promise<void> {
+    private async setInCache(key: string, data: PriceResult | FxRateResult, ttlSeconds: number): Promise<void> {
         try {
             if (this.redis && this.redis.status === 'ready') {
                 await this.redis.set(key, JSON.stringify(data), 'EX', ttlSeconds);
@@ -455,68 +534,36 @@ export class PriceOracleService {
         };
     }
 
-    private async getCoinCapPrice(tokenAddress: string): Promise<{ price: number, timestamp: number }> {
-        const url = `${this.coincapUrl}/assets/ethereum`;
+    private async getCoinCapPrice(assetId: string): Promise<{ price: number, timestamp: number }> {
+        const url = `${this.coincapUrl}/assets/${assetId}`;
         const response = await axios.get(url);
         const price = parseFloat(response.data.data.priceUsd);
         return { price, timestamp: Math.floor(Date.now() / 1000) };
     }
 
+    // Provider ids come from the chain registry; unknown chains price against Ethereum ids
+
     private getAlchemyNetwork(chainId: number): string | null {
-        switch (chainId) {
-            case 1: return 'eth-mainnet';
-            case 137: return 'polygon-mainnet';
-            case 10: return 'opt-mainnet';
-            case 42161: return 'arb-mainnet';
-            case 8453: return 'base-mainnet';
-            case 11155111: return 'eth-sepolia';
-            default: return null;
-        }
+        return chainRegistry.get(chainId)?.alchemyNetwork || null;
+    }
+
+    private getCoincapAssetId(chainId: number): string | null {
+        return chainRegistry.get(chainId)?.coincapAssetId || null;
     }
 
     private getCoingeckoNativeId(chainId: number): string {
-        switch (chainId) {
-            case 137: return 'matic-network';
-            case 56: return 'binancecoin';
-            case 43114: return 'avalanche-2';
-            case 1: case 8453: case 10: case 42161: default: return 'ethereum';
-        }
+        return chainRegistry.get(chainId)?.coingeckoNativeId || 'ethereum';
     }
 
     private getCoingeckoPlatform(chainId: number): string {
-        switch (chainId) {
-            case 1: return 'ethereum';
-            case 8453: return 'base';
-            case 137: return 'polygon-pos';
-            case 10: return 'optimistic-ethereum';
-            case 42161: return 'arbitrum-one';
-            case 56: return 'binance-smart-chain';
-            case 43114: return 'avalanche';
-            default: return 'ethereum';
-        }
+        return chainRegistry.get(chainId)?.coingeckoPlatform || 'ethereum';
     }
 
     private getDefiLlamaChain(chainId: number): string {
-        switch (chainId) {
-            case 1: return 'ethereum';
-            case 8453: return 'base';
-            case 137: return 'polygon';
-            case 10: return 'optimism';
-            case 42161: return 'arbitrum';
-            case 56: return 'bsc';
-            case 43114: return 'avax';
-            default: return 'ethereum';
-        }
+        return chainRegistry.get(chainId)?.defillamaChain || 'ethereum';
     }
 
     private getWrappedNativeAddress(chainId: number): string | null {
-        switch (chainId) {
-            case 1: return '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'; // WETH
-            case 8453: return '0x4200000000000000000000000000000000000006'; // WETH (Base)
-            case 137: return '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270'; // WMATIC
-            case 10: return '0x4200000000000000000000000000000000000006'; // WETH (Optimism)
-            case 42161: return '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1'; // WETH (Arbitrum)
-            default: return null;
-        }
+        return chainRegistry.get(chainId)?.wrappedNativeAddress || null;
     }
 }
@@ -0,0 +1,336 @@
+import { supabase } from '../lib/supabase';
+import { createComponentLogger } from '../lib/logger';
+import { BillService } from './BillService';
+import { WebhookService } from './WebhookService';
+import { transactionClassifier, ClassificationResult } from './TransactionClassifier';
+import { classificationStore } from './classifications';
+import { chainRegistry } from './chains';
+import { contractAbis } from './signatures';
+import { rulePacks } from './rulePacks';
+import { rpcPools } from './rpc';
+
+const reclassifyLogger = createComponentLogger('Reclassification');
+
+export const MAX_RECLASSIFICATION_BILLS = parseInt(process.env.MAX_RECLASSIFICATION_BILLS || '5000', 10);
+// Counters are flushed to the job row every N bills so progress can be polled
+const PROGRESS_EVERY = 25;
+
+export type ReclassificationStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+export interface ReclassificationFilters {
+    chainId?: number;
+    since?: string; // ISO date, bills created on or after
+    until?: string; // ISO date, bills created on or before
+    outdatedOnly: boolean; // Skip bills already issued by the current classifier version
+    limit: number;
+    after?: string; // Cursor: only bills whose BILL_ID sorts after this one (a previous job's next_cursor)
+}
+
+/** One bill whose TYPE or PROTOCOL_TAG changed (or could not be reclassified). */
+export interface ReclassificationDiff {
+    billId: string;
+    txHash: string;
+    chainId: number;
+    previousVersion: string | null;
+    before: { type: string | null, protocol: string | null };
+    after?: { type: string, protocol: string | null };
+    reissued: boolean;
+    previousReceiptHash?: string | null;
+    receiptHash?: string;
+    error?: string;
+}
+
+export interface ReclassificationJob {
+    id: string;
+    status: ReclassificationStatus;
+    classifier_version: string | null;
+    filters: ReclassificationFilters;
+    reissue: boolean;
+    requested_by: string | null;
+    total: number;
+    processed: number;
+    changed: number;
+    reissued: number;
+    failed: number;
+    report: ReclassificationDiff[];
+    error: string | null;
+    next_cursor: string | null; // Set when `limit` cut the selection short: pass as `after` to continue
+    started_at: string | null;
+    completed_at: string | null;
+    created_at: string;
+}
+
+interface StoredBill {
+    bill_id: string;
+    tx_hash: string;
+    chain_id: number;
+    currency: string;
+    perspective: string;
+    api_key_id: string | null;
+    receipt_hash: string | null;
+    classifier_version: string | null;
+    bill_type: string | null;
+    protocol_tag: string | null;
+}
+
+const JOB_SUMMARY_COLUMNS = 'id, status, classifier_version, filters, reissue, requested_by, total, processed, changed, reissued, failed, error, next_cursor, started_at, completed_at, created_at';
+
+/**
+ * Reclassification Jobs
+ *
+ * Receipts keep whatever the classifier said when they were issued. A job reruns the current
+ * classifier over stored bills and reports every bill whose TYPE or PROTOCOL_TAG would change.
+ * With `reissue`, changed bills are regenerated (new receipt hash; the old one is kept in the
+ * report) and a `bill.reclassified` webhook goes to every API key that requested the bill.
+ * Jobs run one at a time in this process; interrupted jobs are resumed on startup.
+ */
+export class ReclassificationService {
+    private billService: BillService;
+    private webhookService: WebhookService;
+    private isRunning = false;
+
+    constructor() {
+        this.billService = new BillService();
+        this.webhookService = new WebhookService();
+    }
+
+    async enqueue(filters: ReclassificationFilters, reissue: boolean, requestedBy?: string): Promise<ReclassificationJob> {
+        const { data, error } = await supabase
+            .from('reclassification_jobs')
+            .insert({ filters, reissue, requested_by: requestedBy || null })
+            .select(JOB_SUMMARY_COLUMNS)
+            .single();
+
+        if (error || !data) throw new Error(`Reclassification job creation failed: ${error?.message}`);
+
+        setImmediate(() => this.processNext().catch(err => reclassifyLogger.error('Reclassification worker failed', { error: err.message })));
+        return data as ReclassificationJob;
+    }
+
+    async list(limit = 20): Promise<Omit<ReclassificationJob, 'report'>[]> {
+        const { data, error } = await supabase
+            .from('reclassification_jobs')
+            .select(JOB_SUMMARY_COLUMNS)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) throw new Error(error.message);
+        return (data || []) as Omit<ReclassificationJob, 'report'>[];
+    }
+
+    async get(id: string): Promise<ReclassificationJob | null> {
+        const { data, error } = await supabase
+            .from('reclassification_jobs')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        return data as ReclassificationJob | null;
+    }
+
+    /**
+     * Requeue jobs a restart interrupted, then work through the queue (should be called on server start).
+     */
+    async resume(): Promise<void> {
+        await supabase
+            .from('reclassification_jobs')
+            .update({ status: 'PENDING' })
+            .eq('status', 'PROCESSING');
+
+        await this.processNext();
+    }
+
+    /**
+     * Run pending jobs oldest first until none are left.
+     */
+    async processNext(): Promise<void> {
+        if (this.isRunning) return;
+        this.isRunning = true;
+
+        try {
+            while (true) {
+                const { data: next } = await supabase
+                    .from('reclassification_jobs')
+                    .select('id')
+                    .eq('status', 'PENDING')
+                    .order('created_at', { ascending: true })
+                    .limit(1)
+                    .maybeSingle();
+                if (!next) return;
+
+                // Claim (another instance may have taken it in between)
+                const { data: job } = await supabase
+                    .from('reclassification_jobs')
+                    .update({ status: 'PROCESSING', started_at: new Date().toISOString() })
+                    .eq('id', next.id)
+                    .eq('status', 'PENDING')
+                    .select(JOB_SUMMARY_COLUMNS)
+                    .maybeSingle();
+                if (!job) continue;
+
+                try {
+                    await this.run(job as ReclassificationJob);
+                } catch (err: any) {
+                    reclassifyLogger.error('Reclassification job failed', { jobId: job.id, error: err.message });
+                    await supabase
+                        .from('reclassification_jobs')
+                        .update({ status: 'FAILED', error: err.message, completed_at: new Date().toISOString() })
+                        .eq('id', job.id);
+                }
+            }
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    private async run(job: ReclassificationJob): Promise<void> {
+        await Promise.all([chainRegistry.ensureLoaded(), contractAbis.ensureLoaded(), rulePacks.ensureLoaded()]);
+        const version = transactionClassifier.version;
+        const { bills, nextCursor } = await this.selectBills(job.filters, version);
+
+        reclassifyLogger.info('Reclassification started', { jobId: job.id, version, bills: bills.length, reissue: job.reissue });
+
+        const counters = { total: bills.length, processed: 0, changed: 0, reissued: 0, failed: 0 };
+        const report: ReclassificationDiff[] = [];
+        await supabase.from('reclassification_jobs').update({ classifier_version: version, total: counters.total, next_cursor: nextCursor }).eq('id', job.id);
+
+        // Currency / perspective variants of one transaction share a classification
+        const results = new Map<string, Promise<ClassificationResult>>();
+
+        for (const bill of bills) {
+            const before = { type: bill.bill_type, protocol: bill.protocol_tag };
+            const diff: ReclassificationDiff = {
+                billId: bill.bill_id,
+                txHash: bill.tx_hash,
+                chainId: bill.chain_id,
+                previousVersion: bill.classifier_version,
+                before,
+                reissued: false
+            };
+
+            try {
+                const key = `${bill.chain_id}:${bill.tx_hash.toLowerCase()}`;
+                if (!results.has(key)) results.set(key, this.classify(bill.chain_id, bill.tx_hash, version));
+                const result = await results.get(key)!;
+
+                const after = { type: result.functionalType as string, protocol: BillService.protocolTag(result) || null };
+                if (after.type !== before.type || after.protocol !== (before.protocol || null)) {
+                    diff.after = after;
+                    counters.changed++;
+                    if (job.reissue) await this.reissue(bill, diff, job.id);
+                    if (diff.reissued) counters.reissued++;
+                    report.push(diff);
+                }
+            } catch (err: any) {
+                counters.failed++;
+                report.push({ ...diff, error: err.message });
+            }
+
+            counters.processed++;
+            if (counters.processed % PROGRESS_EVERY === 0) {
+                await supabase.from('reclassification_jobs').update(counters).eq('id', job.id);
+            }
+        }
+
+        await supabase
+            .from('reclassification_jobs')
+            .update({ ...counters, report, status: 'COMPLETED', completed_at: new Date().toISOString() })
+            .eq('id', job.id);
+
+        reclassifyLogger.info('Reclassification completed', { jobId: job.id, ...counters });
+    }
+
+    /**
+     * Bills matching the filters in BILL_ID order, at most `limit` of them. The cursor is keyed on the
+     * unique BILL_ID so it stays valid while reissues take bills out of the outdated set.
+     */
+    private async selectBills(filters: ReclassificationFilters, version: string): Promise<{ bills: StoredBill[], nextCursor: string | null }> {
+        const limit = Math.min(filters.limit, MAX_RECLASSIFICATION_BILLS);
+        let query = supabase
+            .from('bills')
+            .select('bill_id, tx_hash, chain_id, currency, perspective, api_key_id, receipt_hash, classifier_version, bill_type:bill_json->>TYPE, protocol_tag:bill_json->>PROTOCOL_TAG')
+            .eq('status', 'COMPLETED')
+            .not('bill_json', 'is', null)
+            .order('bill_id', { ascending: true })
+            .limit(limit);
+
+        if (filters.after) query = query.gt('bill_id', filters.after);
+        if (filters.chainId) query = query.eq('chain_id', filters.chainId);
+        if (filters.since) query = query.gte('created_at', filters.since);
+        if (filters.until) query = query.lt('created_at', new Date(Date.parse(filters.until) + 86400000).toISOString());
+        if (filters.outdatedOnly) query = query.or(`classifier_version.is.null,classifier_version.neq."${version}"`);
+
+        const { data, error } = await query;
+        if (error) throw new Error(`Bill selection failed: ${error.message}`);
+
+        const bills = (data || []) as unknown as StoredBill[];
+        return { bills, nextCursor: bills.length === limit ? bills[bills.length - 1].bill_id : null };
+    }
+
+    /**
+     * Current classification of a stored transaction. The store answers without RPC calls when
+     * this version has already seen the transaction.
+     */
+    private async classify(chainId: number, txHash: string, version: string): Promise<ClassificationResult> {
+        const stored = await classificationStore.get(chainId, txHash, version);
+        if (stored) return stored;
+
+        const provider = rpcPools.getProvider(chainId);
+        const [tx, receipt] = await Promise.all([
+            provider.getTransaction(txHash),
+            provider.getTransactionReceipt(txHash)
+        ]);
+        if (!tx || !receipt) throw new Error('Transaction not found');
+
+        return transactionClassifier.classify(receipt, tx, chainId);
+    }
+
+    private async reissue(bill: StoredBill, diff: ReclassificationDiff, jobId: string): Promise<void> {
+        // Requesting API keys come from the jobs that produced this bill
+        const { data: jobs } = await supabase
+            .from('bill_jobs')
+            .select('api_key_id')
+            .eq('bill_id', bill.bill_id);
+
+        const { billData } = await this.billService.generateBill({
+            txHash: bill.tx_hash,
+            chainId: bill.chain_id,
+            currency: bill.currency,
+            connectedWallet: bill.perspective || undefined,
+            apiKeyId: bill.api_key_id || undefined,
+            forceRegenerate: true
+        });
+
+        diff.reissued = true;
+        diff.previousReceiptHash = bill.receipt_hash;
+        diff.receiptHash = billData.RECEIPT_HASH;
+
+        // [Webhook] Tell every requesting key its receipt changed
+        const apiKeyIds = new Set<string>();
+        if (bill.api_key_id) apiKeyIds.add(bill.api_key_id);
+        for (const job of jobs || []) {
+            if (job.api_key_id) apiKeyIds.add(job.api_key_id);
+        }
+
+        for (const apiKeyId of apiKeyIds) {
+            this.webhookService.dispatch('bill.reclassified', {
+                id: `${jobId}:${bill.bill_id}`,
+                bill_id: billData.BILL_ID,
+                tx_hash: bill.tx_hash,
+                transaction_hash: bill.tx_hash,
+                chain_id: bill.chain_id,
+                previous_type: diff.before.type,
+                previous_protocol: diff.before.protocol,
+                type: billData.TYPE,
+                protocol: billData.PROTOCOL_TAG || null,
+                previous_receipt_hash: bill.receipt_hash,
+                receipt_hash: diff.receiptHash,
+                classifier_version: billData.CLASSIFIER_VERSION,
+                // Maintain camelCase for top-level spread in WebhookService
+                txHash: bill.tx_hash,
+                billId: billData.BILL_ID
+            }, apiKeyId).catch(err => reclassifyLogger.error('Webhook dispatch error', { error: err.message }));
+        }
+    }
+}
@@ -1,32 +1,87 @@
 import { supabase } from '../lib/supabase';
 import { BillService } from './BillService';
 import { WebhookService } from './WebhookService'; // [NEW] Import
+import { StatementService, StatementRequest } from './StatementService';
+import { TemplateService } from './TemplateService';
+import { BASE_CURRENCY } from './fx';
 
 const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS || '2', 10);
 const PROCESSING_TIMEOUT_MINS = parseInt(process.env.JOB_PROCESSING_TIMEOUT_MINUTES || '5', 10);
 
+export interface BatchItemInput {
+    txHash: string;
+    chainId: number;
+    connectedWallet?: string;
+    currency?: string;
+}
+
+export interface BatchItemStatus {
+    position: number;
+    txHash: string;
+    chainId: number;
+    jobId: string;
+    state: string;
+    billId: string | null;
+    error: string | null;
+}
+
+export interface BatchStatus {
+    id: string;
+    apiKeyId: string | null;
+    state: 'processing' | 'completed';
+    total: number;
+    completed: number;
+    failed: number;
+    pending: number;
+    processing: number;
+    progress: number; // 0-100, finished (completed + failed) / total
+    items: BatchItemStatus[];
+    createdAt: string;
+    completedAt: string | null;
+}
+
 export class SoftQueueService {
     private billService: BillService;
     private webhookService: WebhookService; // [NEW] Dependency
+    private statementService: StatementService;
+    private templateService: TemplateService;
     private processingSlots = 0;
 
     constructor() {
         this.billService = new BillService();
         this.webhookService = new WebhookService();
+        this.statementService = new StatementService();
+        this.templateService = new TemplateService();
+    }
+
+    private async resolveCurrency(requested?: string, apiKeyId?: string): Promise<string> {
+        if (requested) return requested.toUpperCase();
+        if (apiKeyId) {
+            const template = await this.templateService.getTemplate(apiKeyId).catch(() => null);
+            if (template?.currency) return template.currency;
+        }
+        return BASE_CURRENCY;
     }
 
     /**
      * Enqueue a job (Wait-Free / Idempotent).
      */
-    async enqueue(txHash: string, chainId: number, options: { connectedWallet?: string, apiKeyId?: string, userId?: string, priority?: number } = {}) {
+    async enqueue(txHash: string, chainId: number, options: { connectedWallet?: string, apiKeyId?: string, userId?: string, priority?: number, currency?: string } = {}) {
         const { connectedWallet, apiKeyId, userId, priority = 0 } = options;
 
+        // Reporting currency is part of the job identity: explicit request > API key template > USD
+        const currency = await this.resolveCurrency(options.currency, apiKeyId);
+        // So is the perspective: payer and payee get separate receipts for the same tx
+        const perspective = BillService.perspectiveKey(connectedWallet);
+
         // 1. Check existing
         const { data: existing } = await supabase
             .from('bill_jobs')
             .select('*')
             .eq('tx_hash', txHash)
             .eq('chain_id', chainId)
+            .eq('currency', currency)
+            .eq('perspective', perspective)
             .single();
 
         if (existing) {
@@ -73,8 +128,10 @@ export class SoftQueueService {
             .insert({
                 tx_hash: txHash,
                 chain_id: chainId,
+                currency,
+                perspective,
                 status: 'pending',
-                metadata: connectedWallet ? { connectedWallet } : {},
+                metadata: perspective ? { connectedWallet: perspective } : {},
                 api_key_id: apiKeyId || null,
                 user_id: userId || null,
                 priority: priority // 0 for free/anon, 10+ for paid
@@ -90,6 +147,8 @@ export class SoftQueueService {
                     .select('*')
                     .eq('tx_hash', txHash)
                     .eq('chain_id', chainId)
+                    .eq('currency', currency)
+                    .eq('perspective', perspective)
                     .single();
                 return { jobId: raceExisting?.id, status: raceExisting?.status || 'pending' };
             }
@@ -150,6 +209,8 @@ export class SoftQueueService {
                             })
                             .eq('id', job.id);
 
+                        this.refreshBatchesForJob(job.id).catch(err => console.error('[SoftQueue] Batch progress error:', err));
+
                         this.processingSlots--;
                         return; // SKUIP PROCESSING
                     }
@@ -163,12 +224,18 @@ export class SoftQueueService {
             }, 10000);
 
             try {
+                if (job.job_type === 'statement') {
+                    await this.processStatementJob(job, startTime);
+                    return;
+                }
+
                 const wallet = job.metadata?.connectedWallet;
 
                 const result = await this.billService.generateBill({
                     txHash: job.tx_hash,
                     chainId: job.chain_id,
-                    connectedWallet: wallet
+                    connectedWallet: wallet,
+                    currency: job.currency
                 });
 
                 const duration = Date.now() - startTime;
@@ -185,12 +252,15 @@ export class SoftQueueService {
                         updated_at: new Date().toISOString(),
                         finished_at: new Date().toISOString(),
                         duration_ms: duration,
-                        cache_hit: isCacheHit
+                        cache_hit: isCacheHit,
+                        pdf_stored: result.pdfStored
                     })
                     .eq('id', job.id);
 
                 console.log(`[SoftQueue] Job ${job.id} Completed in ${duration}ms.`);
 
+                this.refreshBatchesForJob(job.id).catch(err => console.error('[SoftQueue] Batch progress error:', err));
+
                 // [Webhook] Dispatch Success
                 if (job.api_key_id) {
                     this.webhookService.dispatch('bill.completed', {
@@ -220,9 +290,11 @@ export class SoftQueueService {
                     })
                     .eq('id', job.id);
 
+                this.refreshBatchesForJob(job.id).catch(err => console.error('[SoftQueue] Batch progress error:', err));
+
                 // [Webhook] Dispatch Failure
                 if (job.api_key_id) {
-                    this.webhookService.dispatch('bill.failed', {
+                    this.webhookService.dispatch(job.job_type === 'statement' ? 'statement.failed' : 'bill.failed', {
                         id: job.id,
                         tx_hash: job.tx_hash,
                         transaction_hash: job.tx_hash,
@@ -245,6 +317,355 @@ export class SoftQueueService {
         }
     }
 
+    /**
+     * Enqueue a wallet statement job (job_type = 'statement').
+     * Statement jobs reuse bill_jobs: tx_hash holds the deterministic STATEMENT_ID and chain_id is 0,
+     * so the (tx_hash, chain_id) unique index gives the same idempotency as bills.
+     * Every API key that requests the statement is recorded in metadata.apiKeyIds; only those keys may read it.
+     * A failed job, or one whose period reaches today (activity may still be arriving), is regenerated in place.
+     */
+    async enqueueStatement(params: Omit<StatementRequest, 'apiKeyId'>, options: { apiKeyId?: string, userId?: string, priority?: number } = {}) {
+        const { apiKeyId, userId, priority = 0 } = options;
+        const statementId = StatementService.buildStatementId(params.address, params.chainIds, params.periodStart, params.periodEnd);
+
+        const { data: existing } = await supabase
+            .from('bill_jobs')
+            .select('id, status, bill_id, duration_ms, api_key_id, metadata')
+            .eq('tx_hash', statementId)
+            .eq('chain_id', 0)
+            .single();
+
+        if (existing) {
+            await this.addStatementRequester(existing, apiKeyId);
+
+            const periodOpen = params.periodEnd >= new Date().toISOString().slice(0, 10);
+            if (existing.status === 'failed' || (existing.status === 'completed' && periodOpen)) {
+                // Guard on the observed status so concurrent requests requeue the job once
+                const { data: requeued } = await supabase
+                    .from('bill_jobs')
+                    .update({ status: 'pending', error: null, updated_at: new Date().toISOString() })
+                    .eq('id', existing.id)
+                    .eq('status', existing.status)
+                    .select('id');
+
+                console.log(`[SoftQueue] Regenerating statement job ${existing.id} (was ${existing.status})`);
+                return { jobId: existing.id, status: requeued?.length ? 'pending' : existing.status, statementId };
+            }
+
+            // [ENTERPRISE] Instant Webhook on Cache Hit, once per API key
+            if (existing.status === 'completed' && apiKeyId) {
+                const alreadyDelivered = await this.webhookService.hasDelivery(apiKeyId, existing.id, 'statement.completed');
+
+                if (!alreadyDelivered) {
+                    console.log(`[SoftQueue] Catch-up statement webhook for apiKey ${apiKeyId} on job ${existing.id}`);
+
+                    const { data: statementRecord } = await supabase
+                        .from('statements')
+                        .select('receipt_hash')
+                        .eq('statement_id', existing.bill_id)
+                        .single();
+
+                    await this.webhookService.dispatch('statement.completed', {
+                        id: existing.id,
+                        statement_id: existing.bill_id,
+                        address: existing.metadata?.address,
+                        chain_ids: existing.metadata?.chainIds,
+                        period_start: existing.metadata?.periodStart,
+                        period_end: existing.metadata?.periodEnd,
+                        status: 'completed',
+                        receipt_hash: statementRecord?.receipt_hash,
+                        duration_ms: existing.duration_ms || 0,
+                        synthetic: true // Internal flag
+                    }, apiKeyId);
+
+                    await this.webhookService.recordDelivery(apiKeyId, existing.id, 'statement.completed');
+                }
+            }
+
+            return { jobId: existing.id, status: existing.status, statementId };
+        }
+
+        const { data, error } = await supabase
+            .from('bill_jobs')
+            .insert({
+                tx_hash: statementId,
+                chain_id: 0,
+                job_type: 'statement',
+                status: 'pending',
+                metadata: {
+                    address: params.address.toLowerCase(),
+                    chainIds: params.chainIds,
+                    periodStart: params.periodStart,
+                    periodEnd: params.periodEnd,
+                    apiKeyIds: apiKeyId ? [apiKeyId] : []
+                },
+                api_key_id: apiKeyId || null,
+                user_id: userId || null,
+                priority
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('[SoftQueue] Statement Enqueue DB Error:', JSON.stringify(error, null, 2));
+            if (error.code === '23505') {
+                const { data: raceExisting } = await supabase
+                    .from('bill_jobs')
+                    .select('id, status, api_key_id, metadata')
+                    .eq('tx_hash', statementId)
+                    .eq('chain_id', 0)
+                    .single();
+                if (raceExisting) await this.addStatementRequester(raceExisting, apiKeyId);
+                return { jobId: raceExisting?.id, status: raceExisting?.status || 'pending', statementId };
+            }
+            throw new Error(`DB Error: ${error.message} (Code: ${error.code})`);
+        }
+
+        return { jobId: data.id, status: 'pending', statementId };
+    }
+
+    /**
+     * Whether the API key requested this statement job.
+     * Jobs enqueued before requesters were tracked only carry the creating key in api_key_id.
+     */
+    async isStatementRequester(jobId: string, apiKeyId: string): Promise<boolean> {
+        const { data: job } = await supabase
+            .from('bill_jobs')
+            .select('job_type, api_key_id, metadata')
+            .eq('id', jobId)
+            .single();
+
+        return !!job && job.job_type === 'statement' && this.statementRequesters(job).includes(apiKeyId);
+    }
+
+    private statementRequesters(job: { api_key_id?: string | null, metadata?: any }): string[] {
+        const keys: string[] = job.metadata?.apiKeyIds || [];
+        return job.api_key_id ? [job.api_key_id, ...keys] : keys;
+    }
+
+    private async addStatementRequester(job: { id: string, api_key_id?: string | null, metadata?: any }, apiKeyId?: string) {
+        if (!apiKeyId || this.statementRequesters(job).includes(apiKeyId)) return;
+
+        const metadata = { ...(job.metadata || {}), apiKeyIds: [...(job.metadata?.apiKeyIds || []), apiKeyId] };
+        const { error } = await supabase.from('bill_jobs').update({ metadata }).eq('id', job.id);
+        if (error) console.error('[SoftQueue] Failed to record statement requester:', error.message);
+        job.metadata = metadata;
+    }
+
+    /**
+     * Enqueue many (txHash, chainId) pairs as one batch.
+     * Each pair goes through the regular idempotent enqueue, so existing jobs are reused.
+     */
+    async enqueueBatch(items: BatchItemInput[], options: { apiKeyId?: string, userId?: string, priority?: number } = {}) {
+        const { apiKeyId, userId, priority = 0 } = options;
+
+        const { data: batch, error } = await supabase
+            .from('bill_batches')
+            .insert({
+                api_key_id: apiKeyId || null,
+                user_id: userId || null,
+                status: 'processing',
+                total_items: items.length
+            })
+            .select()
+            .single();
+
+        if (error || !batch) {
+            console.error('[SoftQueue] Batch Create DB Error:', JSON.stringify(error, null, 2));
+            throw new Error(`DB Error: ${error?.message} (Code: ${error?.code})`);
+        }
+
+        // Any failure (queue full, DB error) removes the batch; jobs already enqueued stand on their own
+        try {
+            const rows = [];
+            for (const [position, item] of items.entries()) {
+                const job = await this.enqueue(item.txHash, item.chainId, {
+                    connectedWallet: item.connectedWallet,
+                    currency: item.currency,
+                    apiKeyId,
+                    userId,
+                    priority
+                });
+                rows.push({
+                    batch_id: batch.id,
+                    position,
+                    job_id: job.jobId,
+                    tx_hash: item.txHash,
+                    chain_id: item.chainId
+                });
+            }
+
+            const { error: itemsError } = await supabase.from('bill_batch_items').insert(rows);
+            if (itemsError) throw new Error(`DB Error: ${itemsError.message} (Code: ${itemsError.code})`);
+        } catch (err) {
+            await supabase.from('bill_batches').delete().eq('id', batch.id);
+            throw err;
+        }
+
+        console.log(`[SoftQueue] Batch ${batch.id} enqueued with ${items.length} items.`);
+
+        // Items may already be finished (cache hits), so the batch can complete immediately
+        await this.refreshBatchProgress(batch.id);
+
+        return { batchId: batch.id as string, total: items.length };
+    }
+
+    /**
+     * Aggregate progress of a batch from its underlying jobs.
+     */
+    async getBatchStatus(batchId: string): Promise<BatchStatus | null> {
+        const { data: batch, error } = await supabase
+            .from('bill_batches')
+            .select('*')
+            .eq('id', batchId)
+            .single();
+
+        if (error || !batch) return null;
+
+        const { data: members } = await supabase
+            .from('bill_batch_items')
+            .select('position, job_id, tx_hash, chain_id')
+            .eq('batch_id', batchId)
+            .order('position', { ascending: true });
+
+        const jobIds = (members || []).map(m => m.job_id);
+        const { data: jobs } = jobIds.length > 0
+            ? await supabase.from('bill_jobs').select('id, status, bill_id, error').in('id', jobIds)
+            : { data: [] as any[] };
+
+        const jobsById = new Map((jobs || []).map(j => [j.id, j]));
+        const items: BatchItemStatus[] = (members || []).map(m => {
+            const job = jobsById.get(m.job_id);
+            return {
+                position: m.position,
+                txHash: m.tx_hash,
+                chainId: m.chain_id,
+                jobId: m.job_id,
+                state: job?.status || 'failed',
+                billId: job?.bill_id || null,
+                error: job ? job.error : 'Job no longer exists'
+            };
+        });
+
+        const count = (state: string) => items.filter(i => i.state === state).length;
+        const completed = count('completed');
+        const failed = count('failed');
+        const total = batch.total_items;
+
+        return {
+            id: batch.id,
+            apiKeyId: batch.api_key_id,
+            state: batch.status,
+            total,
+            completed,
+            failed,
+            pending: count('pending'),
+            processing: count('processing'),
+            progress: total > 0 ? Math.floor(((completed + failed) / total) * 100) : 100,
+            items,
+            createdAt: batch.created_at,
+            completedAt: batch.completed_at
+        };
+    }
+
+    private async refreshBatchesForJob(jobId: string) {
+        const { data: memberships } = await supabase
+            .from('bill_batch_items')
+            .select('batch_id')
+            .eq('job_id', jobId);
+
+        if (!memberships || memberships.length === 0) return;
+
+        const batchIds = [...new Set(memberships.map(m => m.batch_id))];
+        for (const batchId of batchIds) {
+            await this.refreshBatchProgress(batchId);
+        }
+    }
+
+    /**
+     * Close the batch once every job is terminal and emit `batch.completed` exactly once.
+     */
+    private async refreshBatchProgress(batchId: string) {
+        const status = await this.getBatchStatus(batchId);
+        if (!status || status.state !== 'processing') return;
+        if (status.completed + status.failed < status.total) return;
+
+        // Conditional transition: only one worker wins the processing -> completed update
+        const { data: closed } = await supabase
+            .from('bill_batches')
+            .update({
+                status: 'completed',
+                completed_count: status.completed,
+                failed_count: status.failed,
+                completed_at: new Date().toISOString()
+            })
+            .eq('id', batchId)
+            .eq('status', 'processing')
+            .select('id');
+
+        if (!closed || closed.length === 0) return;
+
+        console.log(`[SoftQueue] Batch ${batchId} Completed (${status.completed} ok, ${status.failed} failed).`);
+
+        if (status.apiKeyId) {
+            this.webhookService.dispatch('batch.completed', {
+                id: batchId,
+                batch_id: batchId,
+                status: 'completed',
+                total: status.total,
+                completed: status.completed,
+                failed: status.failed,
+                archive_path: `/api/v1/pdfs/batch/${batchId}/archive`,
+                batchId
+            }, status.apiKeyId).catch(err => console.error('[Webhook] Dispatch Error:', err));
+        }
+    }
+
+    private async processStatementJob(job: any, startTime: number) {
+        const { address, chainIds, periodStart, periodEnd } = job.metadata || {};
+
+        const result = await this.statementService.generateStatement({
+            address,
+            chainIds,
+            periodStart,
+            periodEnd,
+            apiKeyId: job.api_key_id || undefined
+        });
+
+        const duration = Date.now() - startTime;
+
+        await supabase
+            .from('bill_jobs')
+            .update({
+                status: 'completed',
+                bill_id: result.statementId,
+                updated_at: new Date().toISOString(),
+                finished_at: new Date().toISOString(),
+                duration_ms: duration,
+                pdf_stored: result.pdfStored
+            })
+            .eq('id', job.id);
+
+        console.log(`[SoftQueue] Statement Job ${job.id} Completed in ${duration}ms.`);
+
+        // Every requester is notified: a regenerated statement replaces what they received before
+        for (const apiKeyId of this.statementRequesters(job)) {
+            this.webhookService.dispatch('statement.completed', {
+                id: job.id,
+                statement_id: result.statementId,
+                address,
+                chain_ids: chainIds,
+                period_start: periodStart,
+                period_end: periodEnd,
+                status: 'completed',
+                receipt_hash: result.statementData.RECEIPT_HASH,
+                duration_ms: duration
+            }, apiKeyId)
+                .then(() => this.webhookService.recordDelivery(apiKeyId, job.id, 'statement.completed'))
+                .catch(err => console.error('[Webhook] Dispatch Error:', err));
+        }
+    }
+
     private async recoverStaleJobs() {
         const staleTime = new Date(Date.now() - PROCESSING_TIMEOUT_MINS * 60 * 1000).toISOString();
         const { data: stuckJobs } = await supabase
@@ -298,12 +719,19 @@ export class SoftQueueService {
             }
         }
 
-        if (job.status === 'completed') {
+        if (job.status === 'completed' && job.job_type === 'statement') {
+            const { data: statementRecord } = await supabase
+                .from('statements')
+                .select('statement_json')
+                .eq('statement_id', job.bill_id)
+                .single();
+
+            billData = statementRecord?.statement_json || { STATEMENT_ID: job.bill_id, STATUS: 'completed' };
+        } else if (job.status === 'completed') {
             const { data: billRecord } = await supabase
                 .from('bills')
                 .select('bill_json')
-                .eq('tx_hash', job.tx_hash)
-                .eq('chain_id', job.chain_id)
+                .eq('bill_id', job.bill_id)
                 .single();
 
             if (billRecord && billRecord.bill_json) {
@@ -315,10 +743,14 @@ export class SoftQueueService {
 
         return {
             id: job.id,
+            type: (job.job_type || 'bill') as 'bill' | 'statement',
             state: job.status,
             result: job.status === 'completed' ? {
                 billData: billData,
-                pdfPath: `/print/bill/${job.bill_id}`,
+                pdfPath: job.job_type === 'statement' ? (job.pdf_stored ? `/api/v1/statements/${job.id}/pdf` : null) : `/print/bill/${job.bill_id}`,
+                // Only advertised once the render and upload succeeded (storage failures do not fail the job).
+                // Statement PDFs are private and served by the authenticated statements route.
+                pdfUrl: !job.pdf_stored ? null : job.job_type === 'statement' ? `/api/v1/statements/${job.id}/pdf` : `/bills/${job.bill_id}.pdf`,
                 duration_ms: job.duration_ms
             } : null,
             error: job.error,
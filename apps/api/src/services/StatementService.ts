@@ -0,0 +1,296 @@
+import { ethers } from 'ethers';
+import { BillService, TokenItemViewModel, AddressActivity } from './BillService';
+import { PdfRenderService } from './PdfRenderService';
+import { supabase } from '../lib/supabase';
+import { computeReceiptHash } from '../lib/cryptography';
+import { createComponentLogger } from '../lib/logger';
+
+const MAX_STATEMENT_TXS = parseInt(process.env.MAX_STATEMENT_TXS || '250', 10);
+// Private bucket: statement IDs are derivable from a wallet address, so files are only served
+// through the authenticated statements route (never the public receipts bucket)
+const STATEMENTS_BUCKET = 'statements';
+
+export interface StatementRequest {
+    address: string;
+    chainIds: number[];
+    periodStart: string; // ISO date (inclusive)
+    periodEnd: string;   // ISO date (inclusive)
+    apiKeyId?: string;
+}
+
+export interface StatementLineViewModel {
+    BILL_ID: string;
+    CHAIN_ID: number;
+    CHAIN_NAME: string;
+    TRANSACTION_HASH: string;
+    BLOCK_NUMBER: string;
+    TIMESTAMP: string;
+    STATUS: string;
+    TYPE: string;
+    TYPE_READABLE: string;
+    PAID_FEE: boolean; // Fee counted only when the statement address sent the transaction
+    ITEMS: TokenItemViewModel[];
+    TOTAL_FEE: string;
+    TOTAL_FEE_USD: string;
+    TOTAL_IN_USD: string;
+    TOTAL_OUT_USD: string;
+    NET_CHANGE_USD: string;
+    NET_CHANGE_SIGN: string;
+}
+
+export interface StatementChainContext {
+    CHAIN_ID: number;
+    CHAIN_NAME: string;
+    CHAIN_SYMBOL: string;
+    OPENING_BLOCK: number;
+    CLOSING_BLOCK: number;
+    OPENING_BALANCE: string | null;
+    CLOSING_BALANCE: string | null;
+    TX_COUNT: number;
+    TOTAL_FEE: string; // Native units, fees paid by the address
+    TOTAL_FEE_USD: string;
+}
+
+export interface StatementViewModel {
+    STATEMENT_ID: string;
+    STATEMENT_VERSION: string;
+    GENERATED_AT: string;
+    ADDRESS: string;
+    PERIOD_START: string;
+    PERIOD_END: string;
+
+    CHAINS: StatementChainContext[];
+    LINES: StatementLineViewModel[];
+    LINES_COUNT: number;
+    FAILED_LINES: { CHAIN_ID: number; TRANSACTION_HASH: string; ERROR: string }[];
+    TRUNCATED: boolean;
+
+    TOTAL_IN_USD: string;
+    TOTAL_OUT_USD: string;
+    TOTAL_FEES_USD: string;
+    NET_CHANGE_USD: string;
+    NET_CHANGE_SIGN: string;
+    NET_CHANGE_POSITIVE: boolean;
+
+    // Enterprise Integrity
+    RECEIPT_HASH?: string;
+    HASH_ALGO?: string;
+}
+
+export interface StatementResponse {
+    statementId: string;
+    statementData: StatementViewModel;
+    pdfStored: boolean; // Server-rendered PDF is in the private bucket (served via GET /api/v1/statements/:jobId/pdf)
+}
+
+const formatUsd = (val: number): string => {
+    if (val === 0) return "0.00";
+    if (val < 0.01) return "< 0.01";
+    return val.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+// View-model amounts are display strings ("1,234.56", "< 0.01", "< $0.01")
+const parseUsd = (val: string | undefined): number => {
+    if (!val || val.includes('<')) return 0;
+    const num = parseFloat(val.replace(/[$,]/g, ''));
+    return isNaN(num) ? 0 : num;
+};
+
+const toDay = (iso: string) => iso.slice(0, 10).replace(/-/g, '');
+
+/**
+ * Period statements: one consolidated, hash-verifiable document for an address
+ * across a chain set and date range. Each transaction is produced through
+ * BillService so lines match the individual receipts exactly.
+ */
+export class StatementService {
+    private billService: BillService;
+    private pdfRenderer: PdfRenderService;
+
+    constructor() {
+        this.billService = new BillService();
+        this.pdfRenderer = new PdfRenderService();
+    }
+
+    /**
+     * Stored statement PDF, or null if it was never uploaded.
+     * Callers must check the requester first (SoftQueueService.isStatementRequester).
+     */
+    async downloadPdf(statementId: string): Promise<Buffer | null> {
+        const { data, error } = await supabase.storage.from(STATEMENTS_BUCKET).download(`${statementId}.pdf`);
+        if (error || !data) return null;
+        return Buffer.from(await data.arrayBuffer());
+    }
+
+    /**
+     * Deterministic ID so the same (address, chains, period) request is idempotent in the queue.
+     * Format: STMT-{yyyymmdd}-{yyyymmdd}-{hash8}
+     */
+    static buildStatementId(address: string, chainIds: number[], periodStart: string, periodEnd: string): string {
+        const chains = [...new Set(chainIds)].sort((a, b) => a - b).join(',');
+        const digest = ethers.keccak256(ethers.toUtf8Bytes(`${address.toLowerCase()}|${chains}|${periodStart}|${periodEnd}`));
+        return `STMT-${toDay(periodStart)}-${toDay(periodEnd)}-${digest.slice(2, 10)}`;
+    }
+
+    async generateStatement(request: StatementRequest): Promise<StatementResponse> {
+        const address = request.address.toLowerCase();
+        const chainIds = [...new Set(request.chainIds)].sort((a, b) => a - b);
+        const statementId = StatementService.buildStatementId(address, chainIds, request.periodStart, request.periodEnd);
+        const stmtLogger = createComponentLogger('StatementService');
+
+        const fromTs = Math.floor(new Date(`${request.periodStart.slice(0, 10)}T00:00:00Z`).getTime() / 1000);
+        const toTs = Math.floor(new Date(`${request.periodEnd.slice(0, 10)}T23:59:59Z`).getTime() / 1000);
+
+        stmtLogger.info('Generating statement', { statementId, address, chainIds });
+
+        // 1. Discover activity per chain (sequential to stay gentle on RPC limits)
+        const activity: AddressActivity[] = [];
+        let remaining = MAX_STATEMENT_TXS;
+        let truncated = false;
+        for (const chainId of chainIds) {
+            const chainActivity = await this.billService.discoverAddressActivity(address, chainId, fromTs, toTs, Math.max(remaining, 0));
+            activity.push(chainActivity);
+            remaining -= chainActivity.transactions.length;
+            truncated = truncated || chainActivity.truncated;
+        }
+
+        // 2. Produce each line through the bill pipeline (cached bills are reused)
+        const lines: StatementLineViewModel[] = [];
+        const failedLines: StatementViewModel['FAILED_LINES'] = [];
+        const ordered = activity
+            .flatMap(a => a.transactions.map(t => ({ ...t, chainId: a.chainId })))
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+        for (const tx of ordered) {
+            try {
+                const { billData } = await this.billService.generateBill({
+                    txHash: tx.hash,
+                    chainId: tx.chainId,
+                    connectedWallet: address,
+                    apiKeyId: request.apiKeyId
+                });
+
+                const paidFee = billData.FROM_ADDRESS?.toLowerCase() === address;
+                const totalIn = parseUsd(billData.TOTAL_IN_USD);
+                const totalOut = parseUsd(billData.TOTAL_OUT_USD);
+                const net = totalIn - totalOut - (paidFee ? parseUsd(billData.TOTAL_FEE_USD) : 0);
+
+                lines.push({
+                    BILL_ID: billData.BILL_ID,
+                    CHAIN_ID: tx.chainId,
+                    CHAIN_NAME: billData.CHAIN_NAME,
+                    TRANSACTION_HASH: billData.TRANSACTION_HASH,
+                    BLOCK_NUMBER: billData.BLOCK_NUMBER,
+                    TIMESTAMP: tx.timestamp || billData.TIMESTAMP,
+                    STATUS: billData.STATUS,
+                    TYPE: billData.TYPE,
+                    TYPE_READABLE: billData.TYPE_READABLE,
+                    PAID_FEE: paidFee,
+                    ITEMS: billData.ITEMS,
+                    TOTAL_FEE: paidFee ? billData.TOTAL_FEE : '0',
+                    TOTAL_FEE_USD: paidFee ? billData.TOTAL_FEE_USD : '0.00',
+                    TOTAL_IN_USD: billData.TOTAL_IN_USD,
+                    TOTAL_OUT_USD: billData.TOTAL_OUT_USD,
+                    NET_CHANGE_USD: formatUsd(Math.abs(net)),
+                    NET_CHANGE_SIGN: net >= 0 ? '+' : '-'
+                });
+            } catch (e: any) {
+                stmtLogger.warn('Statement line failed', { statementId, txHash: tx.hash, chainId: tx.chainId, error: e.message });
+                failedLines.push({ CHAIN_ID: tx.chainId, TRANSACTION_HASH: tx.hash, ERROR: e.message });
+            }
+        }
+
+        // 3. Totals
+        let totalIn = 0;
+        let totalOut = 0;
+        let totalFees = 0;
+        for (const line of lines) {
+            totalIn += parseUsd(line.TOTAL_IN_USD);
+            totalOut += parseUsd(line.TOTAL_OUT_USD);
+            totalFees += parseUsd(line.TOTAL_FEE_USD);
+        }
+        const net = totalIn - totalOut - totalFees;
+
+        const chains: StatementChainContext[] = activity.map(a => {
+            const chainLines = lines.filter(l => l.CHAIN_ID === a.chainId);
+            const feeNative = chainLines.reduce((sum, l) => sum + (parseFloat(l.TOTAL_FEE) || 0), 0);
+            const feeUsd = chainLines.reduce((sum, l) => sum + parseUsd(l.TOTAL_FEE_USD), 0);
+            return {
+                CHAIN_ID: a.chainId,
+                CHAIN_NAME: a.chainName,
+                CHAIN_SYMBOL: a.nativeSymbol,
+                OPENING_BLOCK: a.fromBlock,
+                CLOSING_BLOCK: a.toBlock,
+                OPENING_BALANCE: a.openingBalance,
+                CLOSING_BALANCE: a.closingBalance,
+                TX_COUNT: chainLines.length,
+                TOTAL_FEE: parseFloat(feeNative.toFixed(6)).toString(),
+                TOTAL_FEE_USD: formatUsd(feeUsd)
+            };
+        });
+
+        const statementData: StatementViewModel = {
+            STATEMENT_ID: statementId,
+            STATEMENT_VERSION: '1.0',
+            GENERATED_AT: new Date().toISOString(),
+            ADDRESS: address,
+            PERIOD_START: request.periodStart.slice(0, 10),
+            PERIOD_END: request.periodEnd.slice(0, 10),
+            CHAINS: chains,
+            LINES: lines,
+            LINES_COUNT: lines.length,
+            FAILED_LINES: failedLines,
+            TRUNCATED: truncated,
+            TOTAL_IN_USD: formatUsd(totalIn),
+            TOTAL_OUT_USD: formatUsd(totalOut),
+            TOTAL_FEES_USD: formatUsd(totalFees),
+            NET_CHANGE_USD: formatUsd(Math.abs(net)),
+            NET_CHANGE_SIGN: net >= 0 ? '+' : '-',
+            NET_CHANGE_POSITIVE: net >= 0
+        };
+
+        // 4. Cryptographic Proof (same scheme as bills)
+        const receiptHash = computeReceiptHash(statementData);
+        statementData.RECEIPT_HASH = receiptHash;
+        statementData.HASH_ALGO = 'keccak256';
+        Object.freeze(statementData);
+
+        // 5. Store JSON + PDF in the private statements bucket
+        await supabase.storage
+            .from(STATEMENTS_BUCKET)
+            .upload(`${statementId}.json`, Buffer.from(JSON.stringify(statementData)), {
+                contentType: 'application/json',
+                upsert: true
+            });
+
+        let pdfStored = true;
+        try {
+            const pdf = await this.pdfRenderer.renderStatement(statementData);
+            const { error: uploadError } = await supabase.storage
+                .from(STATEMENTS_BUCKET)
+                .upload(`${statementId}.pdf`, pdf, { contentType: 'application/pdf', upsert: true });
+            if (uploadError) throw new Error(`PDF upload failed: ${uploadError.message}`);
+        } catch (e: any) {
+            pdfStored = false;
+            stmtLogger.error('Statement PDF render/upload failed', { statementId, error: e.message });
+        }
+
+        const { error } = await supabase.from('statements').upsert({
+            statement_id: statementId,
+            api_key_id: request.apiKeyId || null,
+            address,
+            chain_ids: chainIds,
+            period_start: statementData.PERIOD_START,
+            period_end: statementData.PERIOD_END,
+            statement_json: statementData,
+            receipt_hash: receiptHash,
+            hash_algo: 'keccak256',
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'statement_id' });
+
+        if (error) throw new Error(`Statement save failed: ${error.message}`);
+
+        stmtLogger.info('Statement generated', { statementId, lines: lines.length, failed: failedLines.length });
+        return { statementId, statementData, pdfStored };
+    }
+}
@@ -2,6 +2,7 @@ import { supabase } from '../lib/supabase';
 import { z } from 'zod';
 import DOMPurify from 'isomorphic-dompurify';
 import { logger } from '../lib/logger';
+import { SUPPORTED_CURRENCIES } from './fx';
 
 // Hardened validation schema with security constraints
 const TemplateSchema = z.object({
@@ -21,7 +22,8 @@ const TemplateSchema = z.object({
     footer_text: z.string()
         .max(200, 'Footer text too long')
         .optional(),
-    font_variant: z.enum(['inter', 'roboto', 'mono']).optional()
+    font_variant: z.enum(['inter', 'roboto', 'mono']).optional(),
+    currency: z.enum(SUPPORTED_CURRENCIES).optional() // Default reporting currency for this key's bills
 });
 
 // Allowed MIME types for logo images
@@ -41,6 +43,7 @@ export interface ReceiptTemplate {
     accent_color?: string;
     footer_text?: string;
     font_variant?: string;
+    currency?: string;
 }
 
 /**
@@ -126,7 +129,8 @@ export class TemplateService {
             primary_color: data.primary_color,
             accent_color: data.accent_color,
             footer_text: data.footer_text,
-            font_variant: data.font_variant
+            font_variant: data.font_variant,
+            currency: data.currency
         };
     }
 
@@ -152,6 +156,7 @@ export class TemplateService {
                 accent_color: parsed.accent_color || null,
                 footer_text: sanitizedFooter || null,
                 font_variant: parsed.font_variant || 'inter',
+                currency: parsed.currency || 'USD',
                 updated_at: new Date().toISOString()
             }, { onConflict: 'api_key_id' });
 
@@ -1,11 +1,16 @@
-import { ClassificationEngine } from './classifier/core/Engine';
-import { TransactionType, ExecutionType, ClassificationResult, TransactionEnvelopeType } from './classifier/core/types';
+import { ClassificationEngine, ClassificationInspection } from './classifier/core/Engine';
+import { TransactionType, ExecutionType, ClassificationResult, TransactionEnvelopeType, RuleTraceEntry } from './classifier/core/types';
+import { classificationStore } from './classifications';
+import { riskAnalysis } from './risk';
+import { rpcPools } from './rpc';
+import { createComponentLogger } from '../lib/logger';
 
 // Re-export types for consumers
 export { TransactionType, ExecutionType, TransactionEnvelopeType };
-export type { ClassificationResult };
+export type { ClassificationResult, ClassificationInspection, RuleTraceEntry };
 
 const engine = new ClassificationEngine();
+const classifierLogger = createComponentLogger('TransactionClassifier');
 
 export class TransactionClassifierService {
     /**
@@ -16,10 +21,60 @@ export class TransactionClassifierService {
         transaction: any,
         chainId: number,
     ): Promise<ClassificationResult> {
+        // 0. Persistent store (same classifier version = same result)
+        const stored = await classificationStore.get(chainId, transaction.hash, engine.version);
+        if (stored) return stored;
+
         // 1. Safety & Orchestration: Explicit Engine Call
         // We pass chainId and txHash (via transaction object) to ensure cache correctness logic in Engine triggers correctly.
-        const result = await engine.classify(transaction, receipt, chainId);
+        const result = this.guard(await this.withChainRisks(await engine.classify(transaction, receipt, chainId), receipt, chainId));
+        await classificationStore.save(chainId, transaction.hash, result);
+        return result;
+    }
+
+    /**
+     * Version of the active rule set (engine release + loaded rule packs).
+     */
+    get version(): string {
+        return engine.version;
+    }
+
+    /**
+     * Forget cached and stored results for a transaction whose receipt changed (reorg).
+     */
+    async invalidate(chainId: number, txHash: string): Promise<void> {
+        engine.evict(chainId, txHash.toLowerCase());
+        await classificationStore.invalidate(chainId, txHash);
+    }
+
+    /**
+     * Classification plus the per-rule trace, execution details and token flow (classification API).
+     * The result passes the same output guards as classify.
+     */
+    async inspect(
+        receipt: any,
+        transaction: any,
+        chainId: number,
+    ): Promise<ClassificationInspection> {
+        const inspection = await engine.inspect(transaction, receipt, chainId);
+        return { ...inspection, result: this.guard(await this.withChainRisks(inspection.result, receipt, chainId)) };
+    }
+
+    /**
+     * Adds the risk checks that need chain state (impersonating tokens, fresh-EOA spenders).
+     * Returns a copy: the engine's cached result keeps only its offline findings.
+     */
+    private async withChainRisks(result: ClassificationResult, receipt: any, chainId: number): Promise<ClassificationResult> {
+        try {
+            const risks = await riskAnalysis.analyze(rpcPools.getProvider(chainId), chainId, result, receipt);
+            return risks.length > 0 ? { ...result, risks } : result;
+        } catch (err: any) {
+            classifierLogger.warn('Risk analysis failed', { chainId, txHash: receipt?.hash, error: err.message });
+            return result;
+        }
+    }
 
+    private guard(result: ClassificationResult): ClassificationResult {
         // 2. Final Output Guards
         // If Engine returned UNCLASSIFIED_COMPLEX, propagate immediately.
         if (result.functionalType === TransactionType.UNCLASSIFIED_COMPLEX) {
@@ -53,8 +108,11 @@ export class TransactionClassifierService {
         const typeMap: Record<string, string> = {
             [TransactionType.TOKEN_TRANSFER]: 'Token Transfer',
             [TransactionType.TOKEN_APPROVAL]: 'Token Approval',
+            [TransactionType.TOKEN_REVOKE]: 'Revoke Approval',
             [TransactionType.TOKEN_MINT]: 'Token Mint',
             [TransactionType.TOKEN_BURN]: 'Token Burn',
+            [TransactionType.WRAP]: 'Wrap',
+            [TransactionType.UNWRAP]: 'Unwrap',
             [TransactionType.SWAP]: 'Swap',
             [TransactionType.ADD_LIQUIDITY]: 'Add Liquidity',
             [TransactionType.REMOVE_LIQUIDITY]: 'Remove Liquidity',
@@ -100,8 +158,11 @@ export class TransactionClassifierService {
         const iconMap: Record<string, string> = {
             [TransactionType.TOKEN_TRANSFER]: '↔',
             [TransactionType.TOKEN_APPROVAL]: '✓',
+            [TransactionType.TOKEN_REVOKE]: '×',
             [TransactionType.TOKEN_MINT]: '+',
             [TransactionType.TOKEN_BURN]: '×',
+            [TransactionType.WRAP]: '↻',
+            [TransactionType.UNWRAP]: '↺',
             [TransactionType.SWAP]: '↔',
             [TransactionType.ADD_LIQUIDITY]: '+',
             [TransactionType.REMOVE_LIQUIDITY]: '-',
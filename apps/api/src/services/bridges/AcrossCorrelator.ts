@@ -0,0 +1,90 @@
+// src/services/bridges/AcrossCorrelator.ts
+import { ethers } from 'ethers';
+import { BridgeCorrelator, BridgeMessage, BridgeResolution } from './types';
+import { estimateBlockAt, scanLogs } from './LogSearch';
+
+// Across SpokePool per chain (deposits and relayer fills are both emitted here)
+const SPOKE_POOLS: Record<number, string> = {
+    1: '0x5c7bcd6e7de5423a257d81b442095a1a6ced35c5',
+    10: '0x6f26bf09b1c792e3228e5467807a900a503c0281',
+    137: '0x9295ee1d8c5b022be115a2ad3c30c72e34e7f096',
+    8453: '0x09aea4b2242abc8bb4bb78d537a67a245a7bec64',
+    42161: '0xe35e9842fceaca96570b734083f4a58e8f7c5f2a'
+};
+
+// V3 events and their bytes32-address successors; destination/origin chain is topic 1, deposit id topic 2 in both
+const DEPOSIT_TOPICS = [
+    ethers.id('V3FundsDeposited(address,address,uint256,uint256,uint256,uint32,uint32,uint32,uint32,address,address,address,bytes)'),
+    ethers.id('FundsDeposited(bytes32,bytes32,uint256,uint256,uint256,uint256,uint32,uint32,uint32,bytes32,bytes32,bytes32,bytes)')
+];
+const FILL_TOPICS = [
+    ethers.id('FilledV3Relay(address,address,uint256,uint256,uint256,uint256,uint32,uint32,uint32,address,address,address,address,bytes,(address,bytes,uint256,uint8))'),
+    ethers.id('FilledRelay(bytes32,bytes32,uint256,uint256,uint256,uint256,uint256,uint32,uint32,bytes32,bytes32,bytes32,bytes32,bytes32,(bytes32,bytes32,uint256,uint8))')
+];
+
+// fillDeadline is the 6th non-indexed word of both deposit events
+const FILL_DEADLINE_WORD = 5;
+// Slack around the estimated counterpart block (block time estimates drift)
+const SEARCH_MARGIN_SECONDS = 600;
+
+/**
+ * Across Protocol: a deposit on the origin SpokePool is filled by a relayer on the destination
+ * SpokePool, usually within seconds. Both sides carry (chain id, deposit id).
+ */
+export class AcrossCorrelator implements BridgeCorrelator {
+    readonly protocol = 'Across';
+
+    async identify(
+        chainId: number,
+        _tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        provider: ethers.JsonRpcProvider
+    ): Promise<BridgeMessage | null> {
+        const spokePool = SPOKE_POOLS[chainId];
+        if (!spokePool) return null;
+
+        const log = receipt.logs.find(l =>
+            l.address.toLowerCase() === spokePool &&
+            (DEPOSIT_TOPICS.includes(l.topics[0]) || FILL_TOPICS.includes(l.topics[0]))
+        );
+        if (!log) return null;
+
+        const block = await provider.getBlock(receipt.blockNumber);
+        const isDeposit = DEPOSIT_TOPICS.includes(log.topics[0]);
+
+        return {
+            protocol: this.protocol,
+            direction: isDeposit ? 'OUTBOUND' : 'INBOUND',
+            messageId: BigInt(log.topics[2]).toString(),
+            chainId,
+            txHash: receipt.hash,
+            counterpartChainId: Number(BigInt(log.topics[1])),
+            timestamp: block?.timestamp ?? Math.floor(Date.now() / 1000),
+            context: isDeposit
+                ? { fillDeadline: Number(BigInt(ethers.dataSlice(log.data, FILL_DEADLINE_WORD * 32, (FILL_DEADLINE_WORD + 1) * 32))) }
+                : undefined
+        };
+    }
+
+    async resolve(message: BridgeMessage, counterpart: ethers.JsonRpcProvider): Promise<BridgeResolution> {
+        const spokePool = SPOKE_POOLS[message.counterpartChainId];
+        if (!spokePool) return { status: message.direction === 'INBOUND' ? 'COMPLETED' : 'UNKNOWN' };
+
+        const depositId = ethers.toBeHex(BigInt(message.messageId), 32);
+        const thisChain = ethers.toBeHex(message.chainId, 32);
+
+        if (message.direction === 'OUTBOUND') {
+            const fromBlock = await estimateBlockAt(counterpart, message.timestamp - SEARCH_MARGIN_SECONDS);
+            const fill = await scanLogs(counterpart, { address: spokePool, topics: [FILL_TOPICS, thisChain, depositId] }, fromBlock, 'FORWARD');
+            if (fill) return { status: 'COMPLETED', counterpartTxHash: fill.transactionHash };
+
+            const deadline = message.context?.fillDeadline as number | undefined;
+            return { status: deadline && deadline < Date.now() / 1000 ? 'EXPIRED' : 'PENDING' };
+        }
+
+        // A fill exists, so the transfer is complete; find the deposit it settled
+        const fromBlock = await estimateBlockAt(counterpart, message.timestamp + SEARCH_MARGIN_SECONDS);
+        const deposit = await scanLogs(counterpart, { address: spokePool, topics: [DEPOSIT_TOPICS, thisChain, depositId] }, fromBlock, 'BACKWARD');
+        return { status: 'COMPLETED', counterpartTxHash: deposit?.transactionHash };
+    }
+}
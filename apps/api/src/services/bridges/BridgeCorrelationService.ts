@@ -0,0 +1,72 @@
+// src/services/bridges/BridgeCorrelationService.ts
+import { ethers } from 'ethers';
+import { chainRegistry } from '../chains';
+import { rpcPools } from '../rpc';
+import { createComponentLogger } from '../../lib/logger';
+import { BridgeCorrelator, BridgeLink } from './types';
+import { OpStackCorrelator } from './OpStackCorrelator';
+import { AcrossCorrelator } from './AcrossCorrelator';
+
+const bridgeLogger = createComponentLogger('BridgeCorrelation');
+
+// Counterpart lookups may scan many blocks; receipts are never held up longer than this
+const LINK_TIMEOUT_MS = parseInt(process.env.BRIDGE_LINK_TIMEOUT_MS || '15000', 10);
+
+/**
+ * Links the two receipts of a cross-chain transfer.
+ *
+ * Each correlator recognises one bridge from the receipt alone (message or deposit id), then looks up
+ * the other side on the counterpart chain. Lookups that fail, time out or target an unsupported chain
+ * still return the link with status UNKNOWN, so the receipt shows which transfer it belongs to.
+ */
+export class BridgeCorrelationService {
+    private readonly correlators: BridgeCorrelator[] = [
+        new OpStackCorrelator(),
+        new AcrossCorrelator()
+    ];
+
+    async link(
+        chainId: number,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        provider: ethers.JsonRpcProvider
+    ): Promise<BridgeLink | null> {
+        for (const correlator of this.correlators) {
+            let message;
+            try {
+                message = await correlator.identify(chainId, tx, receipt, provider);
+            } catch (err: any) {
+                bridgeLogger.warn('Bridge identification failed', { protocol: correlator.protocol, chainId, txHash: receipt.hash, error: err.message });
+                continue;
+            }
+            if (!message) continue;
+
+            const link: BridgeLink = {
+                protocol: message.protocol,
+                direction: message.direction,
+                messageId: message.messageId,
+                counterpartChainId: message.counterpartChainId,
+                counterpartTxHash: message.counterpartTxHash,
+                status: 'UNKNOWN'
+            };
+            if (!chainRegistry.get(message.counterpartChainId)) return link;
+
+            let timer: NodeJS.Timeout | undefined;
+            try {
+                const resolution = await Promise.race([
+                    correlator.resolve(message, rpcPools.getProvider(message.counterpartChainId)),
+                    new Promise<never>((_, reject) => {
+                        timer = setTimeout(() => reject(new Error(`Timed out after ${LINK_TIMEOUT_MS}ms`)), LINK_TIMEOUT_MS);
+                    })
+                ]);
+                return { ...link, ...resolution, counterpartTxHash: resolution.counterpartTxHash || link.counterpartTxHash };
+            } catch (err: any) {
+                bridgeLogger.warn('Bridge counterpart lookup failed', { protocol: message.protocol, chainId, txHash: receipt.hash, error: err.message });
+                return link;
+            } finally {
+                clearTimeout(timer);
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,57 @@
+// src/services/bridges/LogSearch.ts
+import { ethers } from 'ethers';
+
+// Block range per eth_getLogs call (most providers cap ranges around 10k blocks)
+const LOG_CHUNK = parseInt(process.env.BRIDGE_LOG_CHUNK || '10000', 10);
+// Upper bound on blocks scanned for one counterpart lookup
+const SCAN_BLOCKS = parseInt(process.env.BRIDGE_SCAN_BLOCKS || '100000', 10);
+// Blocks sampled to measure the average block time
+const SAMPLE_BLOCKS = 10000;
+
+export type ScanDirection = 'FORWARD' | 'BACKWARD';
+
+/**
+ * Block on `provider`'s chain produced at (or just before) `timestamp`, estimated from the
+ * average block time of recent blocks. Good enough to start a bounded log scan.
+ */
+export async function estimateBlockAt(provider: ethers.JsonRpcProvider, timestamp: number): Promise<number> {
+    const latest = await provider.getBlock('latest');
+    if (!latest) throw new Error('Latest block unavailable');
+    if (timestamp >= latest.timestamp) return latest.number;
+
+    const sample = await provider.getBlock(Math.max(0, latest.number - SAMPLE_BLOCKS));
+    const span = sample ? latest.number - sample.number : 0;
+    const blockTime = sample && span > 0 ? Math.max((latest.timestamp - sample.timestamp) / span, 0.1) : 12;
+
+    return Math.max(0, latest.number - Math.ceil((latest.timestamp - timestamp) / blockTime));
+}
+
+/**
+ * First matching log walking away from `fromBlock` (oldest match going forward, newest going backward),
+ * scanning at most `maxBlocks` blocks in LOG_CHUNK-sized windows. Null when nothing matches.
+ */
+export async function scanLogs(
+    provider: ethers.JsonRpcProvider,
+    filter: { address: string, topics: (string | string[] | null)[] },
+    fromBlock: number,
+    direction: ScanDirection,
+    maxBlocks: number = SCAN_BLOCKS
+): Promise<ethers.Log | null> {
+    const head = await provider.getBlockNumber();
+    const limit = direction === 'FORWARD'
+        ? Math.min(head, fromBlock + maxBlocks)
+        : Math.max(0, fromBlock - maxBlocks);
+
+    let cursor = Math.min(fromBlock, head);
+    while (direction === 'FORWARD' ? cursor <= limit : cursor >= limit) {
+        const [start, end] = direction === 'FORWARD'
+            ? [cursor, Math.min(cursor + LOG_CHUNK - 1, limit)]
+            : [Math.max(cursor - LOG_CHUNK + 1, limit), cursor];
+
+        const logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end });
+        if (logs.length > 0) return direction === 'FORWARD' ? logs[0] : logs[logs.length - 1];
+
+        cursor = direction === 'FORWARD' ? end + 1 : start - 1;
+    }
+    return null;
+}
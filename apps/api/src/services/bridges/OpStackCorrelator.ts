@@ -0,0 +1,302 @@
+// src/services/bridges/OpStackCorrelator.ts
+import { ethers } from 'ethers';
+import { chainRegistry } from '../chains';
+import { getChainConfig, RollupStack } from '../classifier';
+import { BridgeCorrelator, BridgeMessage, BridgeResolution } from './types';
+import { estimateBlockAt, scanLogs } from './LogSearch';
+
+// Predeploy on every OP Stack chain
+const MESSAGE_PASSER = '0x4200000000000000000000000000000000000016';
+const DEPOSIT_TX_TYPE = 0x7e;
+// Sender of the per-block L1 attributes deposit (a system tx, not a user transfer)
+const L1_INFO_DEPOSITOR = '0xdeaddeaddeaddeaddeaddeaddeaddeaddead0001';
+
+const TOPICS = {
+    TRANSACTION_DEPOSITED: ethers.id('TransactionDeposited(address,address,uint256,bytes)'),
+    MESSAGE_PASSED: ethers.id('MessagePassed(uint256,address,address,uint256,uint256,bytes,bytes32)'),
+    WITHDRAWAL_PROVEN: ethers.id('WithdrawalProven(bytes32,address,address)'),
+    WITHDRAWAL_PROVEN_EXTENSION: ethers.id('WithdrawalProvenExtension1(bytes32,address)'),
+    WITHDRAWAL_FINALIZED: ethers.id('WithdrawalFinalized(bytes32,bool)')
+};
+
+const WITHDRAWAL_TUPLE = '(uint256 nonce, address sender, address target, uint256 value, uint256 gasLimit, bytes data)';
+const PORTAL_ABI = [
+    'function finalizedWithdrawals(bytes32) view returns (bool)',
+    // Output-oracle portal: one proof per withdrawal, against an L2OutputOracle output index
+    'function provenWithdrawals(bytes32) view returns (bytes32 outputRoot, uint128 timestamp, uint128 l2OutputIndex)',
+    'function l2Oracle() view returns (address)',
+    // Fault-proof portal: proofs are kept per submitter, against a dispute game
+    'function provenWithdrawals(bytes32, address) view returns (address disputeGameProxy, uint64 timestamp)',
+    `function proveWithdrawalTransaction(${WITHDRAWAL_TUPLE} _tx, uint256 _l2OutputIndex, (bytes32 version, bytes32 stateRoot, bytes32 messagePasserStorageRoot, bytes32 latestBlockhash) _outputRootProof, bytes[] _withdrawalProof)`,
+    `function finalizeWithdrawalTransaction(${WITHDRAWAL_TUPLE} _tx)`,
+    `function finalizeWithdrawalTransactionExternalProof(${WITHDRAWAL_TUPLE} _tx, address _proofSubmitter)`
+];
+const portalInterface = new ethers.Interface(PORTAL_ABI);
+const OUTPUT_ORACLE_ABI = ['function getL2Output(uint256) view returns ((bytes32 outputRoot, uint128 timestamp, uint128 l2BlockNumber))'];
+const DISPUTE_GAME_ABI = ['function l2BlockNumber() view returns (uint256)'];
+
+// L1 block hash inside the L1 attributes deposit (first tx of every L2 block): same offset in the
+// Bedrock setL1BlockValues and Ecotone+ packed layouts
+const L1_INFO_HASH_OFFSET = 100;
+
+/**
+ * OP Stack canonical bridge (Optimism, Base, ...), correlated through the OptimismPortal on the parent chain.
+ *
+ * Deposits (L1 -> L2) are deterministic: the L2 deposit tx hash is derived from the L1 block hash and
+ * log index of `TransactionDeposited`, so no search is needed. Withdrawals (L2 -> L1) are keyed by the
+ * withdrawal hash from `MessagePassed` and go through proof and a challenge window before finalization.
+ */
+export class OpStackCorrelator implements BridgeCorrelator {
+    readonly protocol = 'OP Stack Bridge';
+
+    async identify(
+        chainId: number,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        provider: ethers.JsonRpcProvider
+    ): Promise<BridgeMessage | null> {
+        const base = async () => ({
+            protocol: this.protocol,
+            chainId,
+            txHash: receipt.hash,
+            timestamp: (await provider.getBlock(receipt.blockNumber))?.timestamp ?? Math.floor(Date.now() / 1000)
+        });
+
+        const config = getChainConfig(chainId);
+        if (config.rollupStack === RollupStack.OP_STACK && config.parentChainId && config.portal) {
+            // L2 side: deposit arrival or withdrawal initiation
+            if (tx.type === DEPOSIT_TX_TYPE && tx.from.toLowerCase() !== L1_INFO_DEPOSITOR) {
+                const raw = await provider.send('eth_getTransactionByHash', [receipt.hash]);
+                const l1BlockHash = await this.getL1OriginHash(provider, receipt.blockHash);
+                if (!raw?.sourceHash || !l1BlockHash) return null;
+
+                return {
+                    ...(await base()),
+                    direction: 'INBOUND',
+                    messageId: raw.sourceHash,
+                    counterpartChainId: config.parentChainId,
+                    context: { l1BlockHash, portal: config.portal, success: receipt.status === 1 }
+                };
+            }
+
+            const passed = receipt.logs.find(l => l.address.toLowerCase() === MESSAGE_PASSER && l.topics[0] === TOPICS.MESSAGE_PASSED);
+            if (passed) {
+                const [, , , withdrawalHash] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256', 'uint256', 'bytes', 'bytes32'], passed.data);
+                return {
+                    ...(await base()),
+                    direction: 'OUTBOUND',
+                    messageId: withdrawalHash,
+                    counterpartChainId: config.parentChainId,
+                    context: { portal: config.portal }
+                };
+            }
+            return null;
+        }
+
+        // Parent chain side: deposit initiation or withdrawal proof / finalization
+        const portals = this.childChains(chainId);
+        for (const log of receipt.logs) {
+            const l2ChainId = portals.get(log.address.toLowerCase());
+            if (!l2ChainId) continue;
+
+            if (log.topics[0] === TOPICS.TRANSACTION_DEPOSITED) {
+                const deposit = this.decodeDeposit(log);
+                return {
+                    ...(await base()),
+                    direction: 'OUTBOUND',
+                    messageId: deposit.sourceHash,
+                    counterpartChainId: l2ChainId,
+                    counterpartTxHash: deposit.l2TxHash
+                };
+            }
+
+            if (log.topics[0] === TOPICS.WITHDRAWAL_FINALIZED || log.topics[0] === TOPICS.WITHDRAWAL_PROVEN) {
+                const withdrawalHash = log.topics[1];
+                const finalized = receipt.logs.find(l => l.topics[0] === TOPICS.WITHDRAWAL_FINALIZED && l.topics[1] === withdrawalHash);
+                const portal = new ethers.Contract(log.address, PORTAL_ABI, provider);
+                const proof = await this.getProvenL2Block(portal, withdrawalHash, this.proofSubmitter(tx, receipt, withdrawalHash));
+
+                return {
+                    ...(await base()),
+                    direction: 'INBOUND',
+                    messageId: withdrawalHash,
+                    counterpartChainId: l2ChainId,
+                    context: {
+                        nonce: this.decodeWithdrawalNonce(tx.data, withdrawalHash),
+                        // A proof tx is only the first half: the withdrawal may have been finalized since
+                        finalized: finalized ? true : await portal.finalizedWithdrawals(withdrawalHash),
+                        success: finalized ? ethers.AbiCoder.defaultAbiCoder().decode(['bool'], finalized.data)[0] : undefined,
+                        ...proof
+                    }
+                };
+            }
+        }
+        return null;
+    }
+
+    async resolve(message: BridgeMessage, counterpart: ethers.JsonRpcProvider): Promise<BridgeResolution> {
+        const context = message.context || {};
+
+        if (message.direction === 'OUTBOUND' && message.counterpartTxHash) {
+            // L1 deposit: the L2 hash is known, it just may not be included yet
+            const receipt = await counterpart.getTransactionReceipt(message.counterpartTxHash);
+            if (!receipt) return { status: 'PENDING', counterpartTxHash: message.counterpartTxHash };
+            return { status: receipt.status === 1 ? 'COMPLETED' : 'FAILED', counterpartTxHash: receipt.hash };
+        }
+
+        if (message.direction === 'INBOUND' && context.l1BlockHash) {
+            // L2 deposit: the L1 tx is in the L1 origin block of this L2 block
+            const logs = await counterpart.getLogs({
+                blockHash: context.l1BlockHash as string,
+                address: context.portal as string,
+                topics: [TOPICS.TRANSACTION_DEPOSITED]
+            });
+            const source = logs.find(l => this.decodeDeposit(l).sourceHash === message.messageId);
+            return { status: context.success ? 'COMPLETED' : 'FAILED', counterpartTxHash: source?.transactionHash };
+        }
+
+        if (message.direction === 'OUTBOUND') {
+            // L2 withdrawal: proven and finalized on L1 in later transactions
+            const portal = new ethers.Contract(context.portal as string, PORTAL_ABI, counterpart);
+            const fromBlock = await estimateBlockAt(counterpart, message.timestamp);
+            const topics = (topic: string) => ({ address: context.portal as string, topics: [topic, message.messageId] });
+
+            if (await portal.finalizedWithdrawals(message.messageId)) {
+                const finalized = await scanLogs(counterpart, topics(TOPICS.WITHDRAWAL_FINALIZED), fromBlock, 'FORWARD');
+                const success = finalized ? ethers.AbiCoder.defaultAbiCoder().decode(['bool'], finalized.data)[0] : true;
+                return { status: success ? 'COMPLETED' : 'FAILED', counterpartTxHash: finalized?.transactionHash };
+            }
+
+            const proven = await scanLogs(counterpart, topics(TOPICS.WITHDRAWAL_PROVEN), fromBlock, 'FORWARD');
+            return proven
+                ? { status: 'PENDING_FINALIZATION', counterpartTxHash: proven.transactionHash }
+                : { status: 'PENDING_PROOF' };
+        }
+
+        // L1 proof / finalization: find the L2 withdrawal by its message nonce
+        const status = !context.finalized ? 'PENDING_FINALIZATION' : context.success === false ? 'FAILED' : 'COMPLETED';
+        if (context.nonce === undefined) return { status };
+
+        // The withdrawal is at or shortly before the L2 block it was proven against. Finalization comes a
+        // challenge period (7 days on mainnets) after the proof, so its own timestamp is far too late a start.
+        const fromBlock = context.l2Block !== undefined
+            ? context.l2Block as number
+            : await estimateBlockAt(counterpart, (context.provenAt as number | undefined) ?? message.timestamp);
+        const passed = await scanLogs(
+            counterpart,
+            { address: MESSAGE_PASSER, topics: [TOPICS.MESSAGE_PASSED, ethers.toBeHex(context.nonce as string, 32)] },
+            fromBlock,
+            'BACKWARD'
+        );
+        return { status, counterpartTxHash: passed?.transactionHash };
+    }
+
+    /** Portal address -> L2 chain id for every OP Stack chain settling on `chainId`. */
+    private childChains(chainId: number): Map<string, number> {
+        const portals = new Map<string, number>();
+        for (const chain of chainRegistry.list()) {
+            if (chain.parentChainId === chainId && chain.portalAddress) {
+                portals.set(chain.portalAddress.toLowerCase(), chain.chainId);
+            }
+        }
+        return portals;
+    }
+
+    /**
+     * Source hash and L2 tx hash of a user deposit (OP Stack deposit tx spec, source domain 0).
+     */
+    private decodeDeposit(log: ethers.Log): { sourceHash: string, l2TxHash: string } {
+        const sourceHash = ethers.keccak256(ethers.concat([
+            ethers.ZeroHash,
+            ethers.keccak256(ethers.concat([log.blockHash, ethers.toBeHex(log.index, 32)]))
+        ]));
+
+        // opaqueData = mint (32) | value (32) | gasLimit (8) | isCreation (1) | data
+        const [opaqueData] = ethers.AbiCoder.defaultAbiCoder().decode(['bytes'], log.data);
+        const quantity = (start: number, end: number) => ethers.hexlify(ethers.toBeArray(BigInt(ethers.dataSlice(opaqueData, start, end))));
+        const isCreation = ethers.dataSlice(opaqueData, 72, 73) !== '0x00';
+
+        const l2TxHash = ethers.keccak256(ethers.concat([
+            ethers.toBeHex(DEPOSIT_TX_TYPE),
+            ethers.encodeRlp([
+                sourceHash,
+                ethers.dataSlice(log.topics[1], 12), // from (already aliased by the portal for contract senders)
+                isCreation ? '0x' : ethers.dataSlice(log.topics[2], 12),
+                quantity(0, 32), // mint
+                quantity(32, 64), // value
+                quantity(64, 72), // gasLimit
+                '0x', // isSystemTx (always false since Regolith)
+                ethers.dataSlice(opaqueData, 73)
+            ])
+        ]));
+
+        return { sourceHash, l2TxHash };
+    }
+
+    private async getL1OriginHash(provider: ethers.JsonRpcProvider, blockHash: string): Promise<string | null> {
+        const block = await provider.getBlock(blockHash);
+        const infoTx = block?.transactions[0] ? await provider.getTransaction(block.transactions[0]) : null;
+        if (!infoTx || ethers.dataLength(infoTx.data) < L1_INFO_HASH_OFFSET + 32) return null;
+        return ethers.dataSlice(infoTx.data, L1_INFO_HASH_OFFSET, L1_INFO_HASH_OFFSET + 32);
+    }
+
+    /**
+     * Account the fault-proof portal filed the proof under: named by the proof's extension event or an
+     * external-proof finalization, otherwise the sender (exact for direct calls).
+     */
+    private proofSubmitter(tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt, withdrawalHash: string): string {
+        const extension = receipt.logs.find(l => l.topics[0] === TOPICS.WITHDRAWAL_PROVEN_EXTENSION && l.topics[1] === withdrawalHash);
+        if (extension) return ethers.dataSlice(extension.topics[2], 12);
+
+        const call = portalInterface.parseTransaction({ data: tx.data });
+        return call?.name === 'finalizeWithdrawalTransactionExternalProof' ? call.args[1] : tx.from;
+    }
+
+    /**
+     * L2 block the withdrawal was proven against (from the dispute game or the output oracle) and the
+     * proof time. Either may be missing when the portal version or the proof submitter is not recognized.
+     */
+    private async getProvenL2Block(
+        portal: ethers.Contract,
+        withdrawalHash: string,
+        submitter: string
+    ): Promise<{ l2Block?: number, provenAt?: number }> {
+        const runner = portal.runner;
+        try {
+            const [game, timestamp] = await portal['provenWithdrawals(bytes32,address)'](withdrawalHash, submitter);
+            if (game !== ethers.ZeroAddress) {
+                const l2Block = await new ethers.Contract(game, DISPUTE_GAME_ABI, runner).l2BlockNumber();
+                return { l2Block: Number(l2Block), provenAt: Number(timestamp) };
+            }
+        } catch {
+            // Not a fault-proof portal
+        }
+
+        try {
+            const [outputRoot, timestamp, outputIndex] = await portal['provenWithdrawals(bytes32)'](withdrawalHash);
+            if (outputRoot === ethers.ZeroHash) return {};
+
+            const oracle = new ethers.Contract(await portal.l2Oracle(), OUTPUT_ORACLE_ABI, runner);
+            const output = await oracle.getL2Output(outputIndex);
+            return { l2Block: Number(output.l2BlockNumber), provenAt: Number(timestamp) };
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Message nonce of a direct portal call, accepted only if the decoded withdrawal hashes to `withdrawalHash`
+     * (calls routed through a multisig or relayer carry different calldata).
+     */
+    private decodeWithdrawalNonce(data: string, withdrawalHash: string): string | undefined {
+        const call = portalInterface.parseTransaction({ data });
+        if (!call) return undefined;
+
+        const w = call.args[0];
+        const hash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint256', 'address', 'address', 'uint256', 'uint256', 'bytes'],
+            [w.nonce, w.sender, w.target, w.value, w.gasLimit, w.data]
+        ));
+        return hash === withdrawalHash ? w.nonce.toString() : undefined;
+    }
+}
@@ -0,0 +1,7 @@
+// src/services/bridges/index.ts
+import { BridgeCorrelationService } from './BridgeCorrelationService';
+
+export { BridgeCorrelationService } from './BridgeCorrelationService';
+export type { BridgeCorrelator, BridgeDirection, BridgeLink, BridgeLinkStatus, BridgeMessage, BridgeResolution } from './types';
+
+export const bridgeCorrelation = new BridgeCorrelationService();
@@ -0,0 +1,58 @@
+// src/services/bridges/types.ts
+import { ethers } from 'ethers';
+
+/**
+ * Lifecycle of a cross-chain transfer as seen from either side.
+ * - PENDING: source confirmed, destination not executed yet (deposits, relayer fills)
+ * - PENDING_PROOF / PENDING_FINALIZATION: OP Stack withdrawal waiting for its proof / challenge window
+ * - EXPIRED: relayer deadline passed without a fill (funds are refunded on the source chain)
+ * - UNKNOWN: counterpart chain unsupported or lookup failed / timed out
+ */
+export type BridgeLinkStatus =
+    | 'PENDING'
+    | 'PENDING_PROOF'
+    | 'PENDING_FINALIZATION'
+    | 'COMPLETED'
+    | 'FAILED'
+    | 'EXPIRED'
+    | 'UNKNOWN';
+
+export type BridgeDirection = 'OUTBOUND' | 'INBOUND';
+
+/** One side of a bridge transfer, identified from its own receipt without any cross-chain lookup. */
+export interface BridgeMessage {
+    protocol: string;
+    direction: BridgeDirection; // OUTBOUND = this tx starts the transfer, INBOUND = it completes it
+    messageId: string; // Deposit source hash, withdrawal hash or relayer deposit id
+    chainId: number;
+    txHash: string;
+    counterpartChainId: number;
+    timestamp: number; // Block timestamp (seconds), bounds the counterpart log search
+    counterpartTxHash?: string; // Known without a search (OP Stack deposits are deterministic)
+    context?: Record<string, unknown>; // Correlator-specific data needed by resolve()
+}
+
+export interface BridgeResolution {
+    status: BridgeLinkStatus;
+    counterpartTxHash?: string;
+}
+
+export interface BridgeLink extends BridgeResolution {
+    protocol: string;
+    direction: BridgeDirection;
+    messageId: string;
+    counterpartChainId: number;
+}
+
+export interface BridgeCorrelator {
+    readonly protocol: string;
+    /** Recognises this side of a transfer (null when the tx is not one this correlator handles). */
+    identify(
+        chainId: number,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        provider: ethers.JsonRpcProvider
+    ): Promise<BridgeMessage | null>;
+    /** Finds the other side on the counterpart chain. */
+    resolve(message: BridgeMessage, counterpart: ethers.JsonRpcProvider): Promise<BridgeResolution>;
+}
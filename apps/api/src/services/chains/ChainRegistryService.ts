@@ -0,0 +1,216 @@
+// src/services/chains/ChainRegistryService.ts
+import { supabase } from '../../lib/supabase';
+import { createComponentLogger } from '../../lib/logger';
+import { BUILTIN_CHAINS } from './builtinChains';
+import { ChainDefinition, ChainDefinitionInput, ChainDefinitionSchema, ChainRow } from './types';
+
+const registryLogger = createComponentLogger('ChainRegistry');
+
+const CACHE_TTL_MS = parseInt(process.env.CHAIN_REGISTRY_TTL_MS || '300000', 10);
+
+// Columns that live outside config_json
+const COLUMN_FIELDS = ['chainId', 'name', 'nativeSymbol', 'explorerUrl', 'isActive'] as const;
+
+/**
+ * Single source of chain knowledge (names, RPCs, explorers, pricing ids, rollup model).
+ *
+ * Backed by the `chains` table with an in-process cache. Lookups are synchronous so hot
+ * paths (classifier context, fee strategy, view-model building) never wait on the database;
+ * a stale cache schedules a background refresh and admin writes refresh immediately.
+ * Rows are merged over BUILTIN_CHAINS, so config_json only needs the fields it overrides.
+ */
+export class ChainRegistryService {
+    private chains = new Map<number, ChainDefinition>();
+    private loadedAt = 0;
+    private refreshing: Promise<void> | null = null;
+
+    constructor() {
+        for (const chain of BUILTIN_CHAINS) {
+            const parsed = ChainDefinitionSchema.parse(chain);
+            this.chains.set(parsed.chainId, parsed);
+        }
+    }
+
+    /**
+     * Active chain definition, or undefined for unknown / deactivated chains.
+     */
+    get(chainId: number): ChainDefinition | undefined {
+        this.refreshIfStale();
+        const chain = this.chains.get(chainId);
+        return chain && chain.isActive ? chain : undefined;
+    }
+
+    /**
+     * True only when an admin explicitly deactivated the chain (unknown chains are still attempted).
+     */
+    isDisabled(chainId: number): boolean {
+        const chain = this.chains.get(chainId);
+        return !!chain && !chain.isActive;
+    }
+
+    list(options: { includeInactive?: boolean } = {}): ChainDefinition[] {
+        this.refreshIfStale();
+        return [...this.chains.values()]
+            .filter(c => options.includeInactive || c.isActive)
+            .sort((a, b) => a.chainId - b.chainId);
+    }
+
+    // --- Derived lookups (shared by BillService, PriceOracleService, ...) ---
+
+    getName(chainId: number): string {
+        return this.get(chainId)?.name || `Chain ${chainId}`;
+    }
+
+    getNativeSymbol(chainId: number): string {
+        return this.get(chainId)?.nativeSymbol || 'ETH';
+    }
+
+    getIcon(chainId: number): string {
+        return this.get(chainId)?.icon || '⛓️';
+    }
+
+    getExplorerTxUrl(chainId: number, hash: string): string {
+        const base = this.get(chainId)?.explorerUrl || 'https://etherscan.io';
+        return `${base.replace(/\/+$/, '')}/tx/${hash}`;
+    }
+
+    getAlchemyUrl(chainId: number): string | null {
+        const key = process.env.ALCHEMY_API_KEY;
+        const network = this.get(chainId)?.alchemyNetwork;
+        if (!key || !network) return null;
+        return `https://${network}.g.alchemy.com/v2/${key}`;
+    }
+
+    /**
+     * RPC endpoints in preference order: Alchemy when configured for the chain, then the public RPCs.
+     */
+    getRpcUrls(chainId: number): string[] {
+        const alchemy = this.getAlchemyUrl(chainId);
+        const urls = [...(alchemy ? [alchemy] : []), ...(this.get(chainId)?.rpcUrls || [])];
+        return urls.length > 0 ? [...new Set(urls)] : ['https://eth.llamarpc.com'];
+    }
+
+    getRpcUrl(chainId: number): string {
+        return this.getRpcUrls(chainId)[0];
+    }
+
+    // --- Persistence ---
+
+    /**
+     * Reload from the `chains` table. Concurrent callers share one query.
+     */
+    async refresh(): Promise<void> {
+        if (this.refreshing) return this.refreshing;
+
+        this.refreshing = (async () => {
+            try {
+                const { data, error } = await supabase.from('chains').select('*');
+                if (error) throw new Error(error.message);
+
+                const next = new Map<number, ChainDefinition>();
+                for (const chain of BUILTIN_CHAINS) {
+                    next.set(chain.chainId, ChainDefinitionSchema.parse(chain));
+                }
+
+                for (const row of (data || []) as ChainRow[]) {
+                    const parsed = this.fromRow(row);
+                    if (parsed) next.set(parsed.chainId, parsed);
+                }
+
+                this.chains = next;
+                this.loadedAt = Date.now();
+                registryLogger.debug('Chain registry loaded', { chains: next.size });
+            } catch (err: any) {
+                // Keep serving the previous snapshot; retry on the next stale read
+                this.loadedAt = Date.now() - CACHE_TTL_MS / 2;
+                registryLogger.warn('Chain registry refresh failed', { error: err.message });
+            } finally {
+                this.refreshing = null;
+            }
+        })();
+
+        return this.refreshing;
+    }
+
+    /**
+     * Await a first load (cheap no-op when the cache is fresh).
+     */
+    async ensureLoaded(): Promise<void> {
+        if (Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+        await this.refresh();
+    }
+
+    /**
+     * Create or replace a chain. Fields not given fall back to the built-in definition (if any).
+     */
+    async save(input: ChainDefinitionInput): Promise<ChainDefinition> {
+        const builtin = BUILTIN_CHAINS.find(c => c.chainId === input.chainId);
+        const chain = ChainDefinitionSchema.parse({ ...builtin, ...input });
+
+        const { error } = await supabase
+            .from('chains')
+            .upsert(this.toRow(chain), { onConflict: 'chain_id' });
+
+        if (error) throw new Error(`Chain save failed: ${error.message}`);
+
+        await this.refresh();
+        return chain;
+    }
+
+    /**
+     * Deactivate a chain. Rows are kept so existing bills still resolve names/explorers in history.
+     */
+    async deactivate(chainId: number): Promise<boolean> {
+        const existing = this.chains.get(chainId);
+        if (!existing) return false;
+
+        const { error } = await supabase
+            .from('chains')
+            .upsert({ ...this.toRow(existing), is_active: false }, { onConflict: 'chain_id' });
+
+        if (error) throw new Error(`Chain deactivation failed: ${error.message}`);
+
+        await this.refresh();
+        return true;
+    }
+
+    private refreshIfStale() {
+        if (Date.now() - this.loadedAt >= CACHE_TTL_MS && !this.refreshing) {
+            this.refresh().catch(() => { /* logged in refresh */ });
+        }
+    }
+
+    private fromRow(row: ChainRow): ChainDefinition | null {
+        const builtin = BUILTIN_CHAINS.find(c => c.chainId === row.chain_id);
+        const result = ChainDefinitionSchema.safeParse({
+            ...builtin,
+            ...(row.config_json || {}),
+            chainId: row.chain_id,
+            name: row.name,
+            nativeSymbol: row.currency_symbol || builtin?.nativeSymbol,
+            explorerUrl: row.explorer_url || builtin?.explorerUrl,
+            isActive: row.is_active ?? true
+        });
+
+        if (!result.success) {
+            registryLogger.warn('Skipping invalid chain row', { chainId: row.chain_id, issues: result.error.issues.map(i => i.message) });
+            return null;
+        }
+        return result.data;
+    }
+
+    private toRow(chain: ChainDefinition) {
+        const config: Record<string, any> = { ...chain };
+        for (const field of COLUMN_FIELDS) delete config[field];
+
+        return {
+            chain_id: chain.chainId,
+            name: chain.name,
+            explorer_url: chain.explorerUrl,
+            currency_symbol: chain.nativeSymbol,
+            config_json: config,
+            is_active: chain.isActive,
+            updated_at: new Date().toISOString()
+        };
+    }
+}
@@ -0,0 +1,190 @@
+// src/services/chains/builtinChains.ts
+import { ChainDefinitionInput } from './types';
+
+const ERC4337_ENTRYPOINT_V06 = '0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789';
+
+/**
+ * Chains shipped with the API. Used until the `chains` table has been read
+ * (and as the base a row's config_json is merged over), so a cold start or a
+ * database outage never leaves the registry empty.
+ */
+export const BUILTIN_CHAINS: ChainDefinitionInput[] = [
+    {
+        chainId: 1,
+        name: 'Ethereum Mainnet',
+        nativeSymbol: 'ETH',
+        explorerUrl: 'https://etherscan.io',
+        icon: '🔷',
+        rpcUrls: ['https://eth.llamarpc.com'],
+        alchemyNetwork: 'eth-mainnet',
+        alchemyInternalTransfers: true,
+        wrappedNativeAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+        coingeckoPlatform: 'ethereum',
+        coingeckoNativeId: 'ethereum',
+        defillamaChain: 'ethereum',
+        coincapAssetId: 'ethereum',
+        type: 'L1',
+        finalityDepth: 64, // ~2 epochs
+        dustThreshold: '100000000000000', // 0.0001 ETH (Example high threshold for Mainnet)
+        entryPoint: ERC4337_ENTRYPOINT_V06,
+        canonicalBridges: [
+            '0x99c9fc46f92e8a1c0dec1b1747d010903e884be1', // Optimism
+            '0x8315177ab297ba92a06054ce80a67ed4dbd7ed3a', // Arbitrum
+            '0x3154cf16ccdb4c6d922629664174b904d80f2c35', // Base
+        ],
+        knownRouters: [
+            '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', // Uniswap V2
+            '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3
+        ],
+        knownLendingProtocols: [
+            '0x7d2768de32b0b80b7a3454c06bdac94a69ddc7a9', // Aave V2
+        ],
+        stakingContracts: {
+            '0xae7ab96520de3a18e5e111b5eaab095312d7fe84': 'Lido', // stETH
+            '0x889edc2edab5f40e902b864ad4d7ade8e412f9b1': 'Lido', // Withdrawal Queue (unstETH)
+            '0xdd3f50f8a6cafbe9b31a427582963f465e745af8': 'Rocket Pool', // Deposit Pool
+            '0xae78736cd615f374d3085123a210448e74fc6393': 'Rocket Pool', // rETH
+            '0xbafa44efe7901e04e39dad13167d089c559c1138': 'Frax Ether', // frxETHMinter
+            '0xac3e018457b222d93114458476f3e3416abbe38f': 'Frax Ether', // sfrxETH (ERC-4626)
+            '0x00000000219ab540356cbb839cbe05303d7705fa': 'Beacon Deposit Contract',
+        }
+    },
+    {
+        chainId: 8453,
+        name: 'Base Mainnet',
+        nativeSymbol: 'ETH',
+        explorerUrl: 'https://basescan.org',
+        icon: '🔵',
+        rpcUrls: ['https://mainnet.base.org'],
+        alchemyNetwork: 'base-mainnet',
+        blockscoutUrl: 'https://base.blockscout.com',
+        wrappedNativeAddress: '0x4200000000000000000000000000000000000006', // WETH (Base)
+        coingeckoPlatform: 'base',
+        coingeckoNativeId: 'ethereum',
+        defillamaChain: 'base',
+        type: 'L2',
+        rollupStack: 'OP_STACK',
+        parentChainId: 1,
+        portalAddress: '0x49048044D57e1C92A77f79988d21Fa8fAF74E97e',
+        finalityDepth: 900, // ~30 min at 2s blocks (L1 batch finality)
+        dustThreshold: '10000', // Lower on L2
+        entryPoint: ERC4337_ENTRYPOINT_V06,
+        canonicalBridges: [
+            '0x4200000000000000000000000000000000000010', // Standard Bridge
+        ],
+        knownRouters: [
+            '0x2626664c2603336e57b271c5c0b26f421741e481', // Uniswap Base
+        ]
+    },
+    {
+        chainId: 10,
+        name: 'Optimism',
+        nativeSymbol: 'ETH',
+        explorerUrl: 'https://optimistic.etherscan.io',
+        icon: '🔴',
+        rpcUrls: ['https://mainnet.optimism.io'],
+        alchemyNetwork: 'opt-mainnet',
+        blockscoutUrl: 'https://optimism.blockscout.com',
+        wrappedNativeAddress: '0x4200000000000000000000000000000000000006', // WETH (Optimism)
+        coingeckoPlatform: 'optimistic-ethereum',
+        coingeckoNativeId: 'ethereum',
+        defillamaChain: 'optimism',
+        type: 'L2',
+        rollupStack: 'OP_STACK',
+        parentChainId: 1,
+        portalAddress: '0xbEb5Fc579115071764c7423A4f12eDde41f106Ed',
+        finalityDepth: 900, // ~30 min at 2s blocks (L1 batch finality)
+        dustThreshold: '10000',
+        entryPoint: ERC4337_ENTRYPOINT_V06,
+        canonicalBridges: [
+            '0x4200000000000000000000000000000000000010', // Standard Bridge
+        ],
+        knownRouters: [
+            '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3
+        ]
+    },
+    {
+        chainId: 42161,
+        name: 'Arbitrum One',
+        nativeSymbol: 'ETH',
+        explorerUrl: 'https://arbiscan.io',
+        icon: '💙',
+        rpcUrls: ['https://arb1.arbitrum.io/rpc'],
+        alchemyNetwork: 'arb-mainnet',
+        wrappedNativeAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH (Arbitrum)
+        coingeckoPlatform: 'arbitrum-one',
+        coingeckoNativeId: 'ethereum',
+        defillamaChain: 'arbitrum',
+        type: 'L2',
+        rollupStack: 'ARBITRUM',
+        parentChainId: 1,
+        finalityDepth: 7200, // ~30 min at 250ms blocks (L1 batch finality)
+        dustThreshold: '10000',
+        entryPoint: ERC4337_ENTRYPOINT_V06,
+        canonicalBridges: [
+            '0x5288c571fd7ad117bea99bf60fe0846c4e84f933', // L2 Gateway Router
+        ],
+        knownRouters: [
+            '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3
+        ]
+    },
+    {
+        chainId: 137,
+        name: 'Polygon',
+        nativeSymbol: 'MATIC',
+        explorerUrl: 'https://polygonscan.com',
+        icon: '🟣',
+        rpcUrls: ['https://polygon-rpc.com'],
+        alchemyNetwork: 'polygon-mainnet',
+        alchemyInternalTransfers: true,
+        wrappedNativeAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WMATIC
+        coingeckoPlatform: 'polygon-pos',
+        coingeckoNativeId: 'matic-network',
+        defillamaChain: 'polygon'
+    },
+    {
+        chainId: 56,
+        name: 'BNB Smart Chain',
+        nativeSymbol: 'BNB',
+        explorerUrl: 'https://bscscan.com',
+        icon: '🟡',
+        rpcUrls: ['https://bsc-dataseed.binance.org'],
+        coingeckoPlatform: 'binance-smart-chain',
+        coingeckoNativeId: 'binancecoin',
+        defillamaChain: 'bsc'
+    },
+    {
+        chainId: 43114,
+        name: 'Avalanche C-Chain',
+        nativeSymbol: 'AVAX',
+        explorerUrl: 'https://snowtrace.io',
+        icon: '🔺',
+        rpcUrls: ['https://api.avax.network/ext/bc/C/rpc'],
+        coingeckoPlatform: 'avalanche',
+        coingeckoNativeId: 'avalanche-2',
+        defillamaChain: 'avax'
+    },
+    {
+        chainId: 11155111,
+        name: 'Sepolia',
+        nativeSymbol: 'ETH',
+        explorerUrl: 'https://sepolia.etherscan.io',
+        rpcUrls: ['https://rpc.sepolia.org'],
+        alchemyNetwork: 'eth-sepolia'
+    },
+    {
+        chainId: 84532,
+        name: 'Base Sepolia',
+        nativeSymbol: 'ETH',
+        explorerUrl: 'https://sepolia.basescan.org',
+        rpcUrls: ['https://sepolia.base.org'],
+        alchemyNetwork: 'base-sepolia',
+        blockscoutUrl: 'https://base-sepolia.blockscout.com',
+        type: 'L2',
+        rollupStack: 'OP_STACK',
+        parentChainId: 11155111,
+        portalAddress: '0x49f53e41452C74589E85cA1677426Ba426459e85',
+        finalityDepth: 900,
+        dustThreshold: '10000'
+    }
+];
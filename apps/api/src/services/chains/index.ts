@@ -0,0 +1,9 @@
+// src/services/chains/index.ts
+import { ChainRegistryService } from './ChainRegistryService';
+
+export { ChainRegistryService } from './ChainRegistryService';
+export { ChainDefinitionSchema, ChainDefinitionUpdateSchema } from './types';
+export type { ChainDefinition, ChainDefinitionInput, ChainRow } from './types';
+
+// Shared instance: every subsystem reads the same in-process cache
+export const chainRegistry = new ChainRegistryService();
@@ -0,0 +1,71 @@
+// src/services/chains/types.ts
+import { z } from 'zod';
+
+const address = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format');
+const httpsUrl = z.string().url().max(500).refine(val => val.startsWith('https://'), { message: 'URL must be HTTPS' });
+
+/**
+ * Everything the API needs to know about an EVM chain.
+ * Stored in `chains` (name, explorer_url, currency_symbol columns + the rest in config_json).
+ */
+const ChainDefinitionFields = z.object({
+    chainId: z.number().int().positive(),
+    name: z.string().min(1).max(50),
+    nativeSymbol: z.string().min(1).max(10),
+    explorerUrl: httpsUrl, // Base URL; tx links are {explorerUrl}/tx/{hash}
+    icon: z.string().max(8).default('⛓️'),
+    isActive: z.boolean().default(true),
+
+    // Connectivity
+    rpcUrls: z.array(httpsUrl).min(1), // Public RPCs in preference order
+    rpcQuorum: z.number().int().min(1).max(5).optional(), // Endpoints that must agree on receipts/block hashes (default RPC_QUORUM)
+    alchemyNetwork: z.string().regex(/^[a-z0-9-]+$/).optional(), // e.g. 'eth-mainnet' (RPC, prices, internal txs)
+    alchemyInternalTransfers: z.boolean().default(false), // alchemy_getAssetTransfers supports the 'internal' category here
+    blockscoutUrl: httpsUrl.optional(), // Internal-tx fallback
+
+    // Pricing
+    wrappedNativeAddress: address.optional(),
+    coingeckoPlatform: z.string().max(50).optional(),
+    coingeckoNativeId: z.string().max(50).optional(),
+    defillamaChain: z.string().max(50).optional(),
+    coincapAssetId: z.string().max(50).optional(), // Last-resort current native price (CoinCap asset id)
+
+    // Execution model
+    type: z.enum(['L1', 'L2']).default('L1'),
+    rollupStack: z.enum(['OP_STACK', 'ARBITRUM']).optional(), // Only for L2
+    parentChainId: z.number().int().positive().optional(), // Settlement chain of an L2 (canonical bridge counterpart)
+    portalAddress: address.optional(), // OP Stack: OptimismPortal on the parent chain (deposit / withdrawal linking)
+    finalityDepth: z.number().int().positive().default(64),
+    dustThreshold: z.string().regex(/^\d+$/, 'Wei amount as a decimal string').default('1000'),
+    entryPoint: address.optional(), // ERC-4337
+
+    // Protocol registries (classifier hints)
+    canonicalBridges: z.array(address).default([]),
+    knownRouters: z.array(address).default([]),
+    knownLendingProtocols: z.array(address).default([]),
+    stakingContracts: z.record(address, z.string().min(1).max(50)).default({}) // address -> protocol tag (Lido, Rocket Pool, ...)
+});
+
+export const ChainDefinitionSchema = ChainDefinitionFields.refine(
+    c => c.rpcQuorum === undefined || c.rpcQuorum <= c.rpcUrls.length,
+    { message: 'rpcQuorum cannot exceed the number of rpcUrls', path: ['rpcQuorum'] }
+);
+
+/** Partial update of an existing chain; the merged definition is validated again on save. */
+export const ChainDefinitionUpdateSchema = ChainDefinitionFields.partial().omit({ chainId: true });
+
+export type ChainDefinition = z.infer<typeof ChainDefinitionSchema>;
+export type ChainDefinitionInput = z.input<typeof ChainDefinitionSchema>;
+
+/** Row shape of the `chains` table. */
+export interface ChainRow {
+    id: number;
+    name: string;
+    chain_id: number;
+    explorer_url: string | null;
+    currency_symbol: string | null;
+    config_json: Record<string, any> | null;
+    is_active: boolean | null;
+    created_at: string;
+    updated_at: string;
+}
@@ -0,0 +1,65 @@
+// src/services/classifications/ClassificationStore.ts
+import { supabase } from '../../lib/supabase';
+import { createComponentLogger } from '../../lib/logger';
+import type { ClassificationResult } from '../classifier';
+import { ClassificationRow } from './types';
+
+const storeLogger = createComponentLogger('ClassificationStore');
+
+/**
+ * Classification results persisted in `classifications`, keyed by chain, tx hash and classifier version.
+ *
+ * Consulted before the engine runs: a restart or another instance reuses results instead of re-running
+ * the rules, and a new classifier version (code release or rule pack change) misses the store, so old
+ * rows never mask improved rules. Failures are logged and treated as a miss.
+ */
+export class ClassificationStore {
+    async get(chainId: number, txHash: string, version: string): Promise<ClassificationResult | null> {
+        try {
+            const { data, error } = await supabase
+                .from('classifications')
+                .select('result')
+                .eq('chain_id', chainId)
+                .eq('tx_hash', txHash.toLowerCase())
+                .eq('classifier_version', version)
+                .maybeSingle();
+
+            if (error) throw new Error(error.message);
+            return data ? (data as Pick<ClassificationRow, 'result'>).result : null;
+        } catch (err: any) {
+            storeLogger.warn('Classification lookup failed', { chainId, txHash, error: err.message });
+            return null;
+        }
+    }
+
+    async save(chainId: number, txHash: string, result: ClassificationResult): Promise<void> {
+        if (!result.classifierVersion) return;
+
+        const { error } = await supabase
+            .from('classifications')
+            .upsert({
+                chain_id: chainId,
+                tx_hash: txHash.toLowerCase(),
+                classifier_version: result.classifierVersion,
+                functional_type: result.functionalType,
+                protocol: result.protocol || result.details.protocol || null,
+                confidence: result.confidence.score,
+                result
+            }, { onConflict: 'chain_id,tx_hash,classifier_version' });
+
+        if (error) storeLogger.warn('Classification save failed', { chainId, txHash, error: error.message });
+    }
+
+    /**
+     * Forget every stored version of a transaction (its receipt changed, e.g. re-mined after a reorg).
+     */
+    async invalidate(chainId: number, txHash: string): Promise<void> {
+        const { error } = await supabase
+            .from('classifications')
+            .delete()
+            .eq('chain_id', chainId)
+            .eq('tx_hash', txHash.toLowerCase());
+
+        if (error) storeLogger.warn('Classification invalidation failed', { chainId, txHash, error: error.message });
+    }
+}
@@ -0,0 +1,8 @@
+// src/services/classifications/index.ts
+import { ClassificationStore } from './ClassificationStore';
+
+export { ClassificationStore } from './ClassificationStore';
+export type { ClassificationRow } from './types';
+
+// Shared instance: the classifier and the reclassification job read and write the same store
+export const classificationStore = new ClassificationStore();
@@ -0,0 +1,15 @@
+// src/services/classifications/types.ts
+import type { ClassificationResult } from '../classifier';
+
+/** Row shape of the `classifications` table. */
+export interface ClassificationRow {
+    id: string;
+    chain_id: number;
+    tx_hash: string;
+    classifier_version: string;
+    functional_type: string;
+    protocol: string | null;
+    confidence: number;
+    result: ClassificationResult;
+    created_at: string;
+}
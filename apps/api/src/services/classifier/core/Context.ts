@@ -1,6 +1,6 @@
 // src/services/classifier/core/Context.ts
 import { Transaction, Receipt, Address, TokenFlow, TokenMovement } from './types';
-import { ChainConfig, CHAIN_CONFIGS, DEFAULT_CHAIN_CONFIG } from '../infrastructure/ChainConfig';
+import { ChainConfig, getChainConfig } from '../infrastructure/ChainConfig';
 
 export class ClassificationContext {
     public readonly chain: ChainConfig;
@@ -17,7 +17,7 @@ export class ClassificationContext {
         executionDetails: { effectiveTo: Address, isProxy: boolean, implementation?: Address },
         internalTransactions: any[] = []
     ) {
-        this.chain = Object.freeze(CHAIN_CONFIGS[chainId] || { ...DEFAULT_CHAIN_CONFIG, chainId });
+        this.chain = Object.freeze(getChainConfig(chainId));
         this.effectiveTo = executionDetails.effectiveTo.toLowerCase();
         this.isProxy = executionDetails.isProxy;
         this.proxyImplementation = executionDetails.implementation?.toLowerCase();
@@ -4,29 +4,57 @@ import {
     Transaction,
     Receipt,
     TransactionType,
-    ExecutionType
+    ExecutionType,
+    TokenFlow,
+    RuleTraceEntry,
+    RiskFinding
 } from './types';
 import { ClassificationContext } from './Context';
 import { TokenFlowAnalyzer } from '../infrastructure/TokenFlow';
-import { ExecutionResolver } from '../infrastructure/ExecutionResolver';
+import { ExecutionResolver, ExecutionDetails } from '../infrastructure/ExecutionResolver';
+import { IntentDecoder } from '../infrastructure/IntentDecoder';
+import { BatchDecomposer } from '../infrastructure/BatchDecomposer';
+import { RiskAnalyzer } from '../infrastructure/RiskAnalyzer';
+import { SAFE_EXECUTION_EVENTS, SafeCall } from '../resolvers/MultisigResolver';
+import { Decoder } from '../utils';
+import { rulePackRegistry } from '../infrastructure/RulePackRegistry';
 import { ClassificationRule, RuleResult } from './Rule';
 
 // Import Rules
 import { SwapRule } from '../rules/dex/SwapRule';
+import { LiquidityRule } from '../rules/dex/LiquidityRule';
 import { NFTSaleRule } from '../rules/nft/NFTSaleRule';
 import { BridgeRule } from '../rules/bridge/BridgeRule';
 import { LendingRule } from '../rules/lending/LendingRule';
+import { StakingRule } from '../rules/staking/StakingRule';
+import { ApprovalRule } from '../rules/approval/ApprovalRule';
+import { WrapRule } from '../rules/token/WrapRule';
+import { SupplyRule } from '../rules/token/SupplyRule';
 import { TransferRule } from '../rules/transfer/TransferRule';
 import { ContractCreationRule } from '../rules/creation/ContractCreationRule';
 import { GovernanceRule } from '../rules/governance/GovernanceRule';
 
+// Bump whenever a built-in rule or resolver change can alter results (stored classifications are keyed by it)
+export const ENGINE_VERSION = '2.3.2';
+
 interface ExtendedRuleResult extends RuleResult {
     priority: number;
     ruleId: string;
 }
 
+/** Everything the engine saw and decided for one transaction (classification API). */
+export interface ClassificationInspection {
+    result: ClassificationResult;
+    trace: RuleTraceEntry[]; // Every rule in evaluation order; empty for failed transactions
+    execution: ExecutionDetails;
+    flow: TokenFlow; // Subject's view: wrapped call of a Safe / smart account
+}
+
 export class ClassificationEngine {
+    private builtinRules: ClassificationRule[] = [];
     private rules: ClassificationRule[] = [];
+    private rulePackVersion = -1;
+    private classifierVersion = ENGINE_VERSION;
     private resultCache = new Map<string, ClassificationResult>();
     // Cache size limit to prevent memory leaks
     private readonly MAX_CACHE_SIZE = 100;
@@ -43,14 +71,51 @@ export class ClassificationEngine {
             new ContractCreationRule(),
             new BridgeRule(),
             new LendingRule(),
+            new StakingRule(),
+            new ApprovalRule(),
+            new WrapRule(),
             new GovernanceRule(),
+            new LiquidityRule(),
             new SwapRule(),
             new NFTSaleRule(),
+            new SupplyRule(),
             new TransferRule()
         ];
 
-        // STRICT PRIORITY SORT: Higher Priority First
-        this.rules = rawRules.sort((a, b) => b.priority - a.priority);
+        this.builtinRules = rawRules;
+        this.syncRulePacks();
+    }
+
+    /**
+     * Merges declarative rule packs in after a (re)load. Cached results may come from
+     * the previous rule set, so they are dropped.
+     */
+    private syncRulePacks() {
+        if (this.rulePackVersion === rulePackRegistry.version) return;
+
+        // STRICT PRIORITY SORT: Higher Priority First (built-ins win ties)
+        const rules = [...this.builtinRules, ...rulePackRegistry.rules()];
+        this.rules = rules.sort((a, b) => b.priority - a.priority);
+        this.rulePackVersion = rulePackRegistry.version;
+        const packs = rulePackRegistry.fingerprint();
+        this.classifierVersion = packs ? `${ENGINE_VERSION}+packs.${packs}` : ENGINE_VERSION;
+        this.resultCache.clear();
+    }
+
+    /**
+     * Version of the active rule set, e.g. '2.1.0' or '2.1.0+packs.1a2b3c4d'.
+     * Same version + same transaction = same result.
+     */
+    public get version(): string {
+        this.syncRulePacks();
+        return this.classifierVersion;
+    }
+
+    /**
+     * Drops a cached result (e.g. the transaction was re-mined in another block after a reorg).
+     */
+    public evict(chainId: number, txHash: string) {
+        this.resultCache.delete(`${chainId}:${txHash}`);
     }
 
     /**
@@ -72,6 +137,8 @@ export class ClassificationEngine {
     }
 
     public async classify(tx: Transaction, receipt: Receipt, chainId: number): Promise<ClassificationResult> {
+        this.syncRulePacks();
+
         // 0. Check Cache (Deterministic Rule Engine Result Caching)
         // Caveat 1: Cache Key Must Include Chain ID
         const cacheKey = `${chainId}:${tx.hash}`;
@@ -79,42 +146,55 @@ export class ClassificationEngine {
             return this.resultCache.get(cacheKey)!;
         }
 
-        // --- PHASE 1: Normalization & Execution Resolution ---
-        // Resolves Proxies, Multisigs, and Contracts BEFORE any rule sees the tx.
-        const executionDetails = await ExecutionResolver.resolve(tx, receipt);
+        const { result } = await this.evaluate(tx, receipt, chainId);
+        result.classifierVersion = this.classifierVersion;
+        this.cacheResult(cacheKey, result);
+        return result;
+    }
 
-        // --- PHASE 2: Log Decoding & Token Flow ---
-        // Captures Native, ERC20, ERC721 movements
-        const flow = TokenFlowAnalyzer.analyze(receipt.logs, tx.value, tx.from, tx.to, []);
+    /**
+     * Same classification with the per-rule trace, execution details and token flow.
+     * Never served from (or written to) the result cache, so the trace is always complete.
+     */
+    public async inspect(tx: Transaction, receipt: Receipt, chainId: number): Promise<ClassificationInspection> {
+        this.syncRulePacks();
+        const inspection = await this.evaluate(tx, receipt, chainId);
+        inspection.result.classifierVersion = this.classifierVersion;
+        return inspection;
+    }
 
-        // --- PHASE 3: Context Assembly (Immutable/Frozen) ---
-        const ctx = new ClassificationContext(
-            tx,
-            receipt,
-            flow,
-            chainId,
-            executionDetails
-        );
-        // Enforce strict immutability
-        this.freezeContext(ctx);
+    private async evaluate(tx: Transaction, receipt: Receipt, chainId: number): Promise<ClassificationInspection> {
+        // --- PHASE 1: Normalization & Execution Resolution ---
+        // Resolves Proxies, Multisigs, and Contracts BEFORE any rule sees the tx.
+        const executionDetails = this.withBatchCall(tx, receipt, chainId, await ExecutionResolver.resolve(tx, receipt));
+        const safe = executionDetails.safe;
+
+        // --- PHASE 2 & 3: Token Flow and Context Assembly (Immutable/Frozen) ---
+        const { subjectTx, subjectReceipt, flow, ctx } = this.contextFor(tx, receipt, chainId, executionDetails);
+
+        // Spoofed transfers and look-alike counterparties (reported whatever the classification)
+        const risks = RiskAnalyzer.analyze(subjectReceipt.logs, subjectTx, flow);
+
+        // Reverted transactions moved nothing, so rules have no evidence to work with.
+        // Classify the intended action from calldata instead.
+        // A user operation or Safe transaction can revert inside a successful outer call; that is a failure for the account too.
+        if (receipt.status === 0 || executionDetails.accountAbstraction?.success === false || safe?.success === false) {
+            const failedResult = this.classifyFailed(subjectTx, receipt, executionDetails);
+            this.attachMethod(failedResult, subjectTx, chainId);
+            this.attachActions(failedResult, subjectTx, flow, executionDetails);
+            this.attachRisks(failedResult, risks);
+            return { result: failedResult, trace: [], execution: executionDetails, flow };
+        }
 
         // --- PHASE 4: Rule Evaluation (Evaluate All) ---
         const candidates: ExtendedRuleResult[] = [];
 
-        interface DebugTraceEntry {
-            rule: string;
-            priority: number;
-            matched: boolean;
-            classified: boolean;
-            confidence?: number;
-            error?: string;
-        }
-        const debugTrace: DebugTraceEntry[] = [];
-        const finalExecutionType = executionDetails.isProxy ? ExecutionType.RELAYED : ExecutionType.DIRECT;
+        const debugTrace: RuleTraceEntry[] = [];
+        const finalExecutionType = this.toExecutionType(executionDetails);
 
         // Loop Rules
         for (const rule of this.rules) {
-            const entry: DebugTraceEntry = {
+            const entry: RuleTraceEntry = {
                 rule: rule.id,
                 priority: rule.priority,
                 matched: false,
@@ -136,6 +216,7 @@ export class ClassificationEngine {
                     // Caveat 2: Contract Creation Bypass
                     if (res.type === TransactionType.CONTRACT_DEPLOYMENT) {
                         // Return Immediately - Deterministic Semantic
+                        debugTrace.push({ ...entry, classified: true, selected: true, type: res.type, confidence: 1.0, reasons: res.reasons });
                         const result: ClassificationResult = {
                             functionalType: TransactionType.CONTRACT_DEPLOYMENT,
                             executionType: finalExecutionType,
@@ -149,9 +230,9 @@ export class ClassificationEngine {
                                 debugTrace: process.env.DEBUG_CLASSIFIER ? debugTrace : undefined
                             }
                         };
+                        this.attachRisks(result, risks);
 
-                        this.cacheResult(cacheKey, result);
-                        return result;
+                        return { result, trace: debugTrace, execution: executionDetails, flow };
                     }
 
                     const normalizedScore = this.normalizeConfidence(res.confidence);
@@ -167,7 +248,11 @@ export class ClassificationEngine {
                     }
 
                     entry.classified = true;
+                    entry.type = res.type;
                     entry.confidence = normalizedScore;
+                    entry.breakdown = res.breakdown;
+                    entry.reasons = res.reasons;
+                    entry.evidence = res.evidence;
                     debugTrace.push(entry);
                 } else {
                     debugTrace.push(entry);
@@ -210,6 +295,8 @@ export class ClassificationEngine {
             // "Secondary Matches" (Non-breaking) - Keep other high-confidence matches
             // Caveat 3: Secondary Results Must Be Non-Recursive (mapToResult handles this)
             const secondaryMatches = candidates.slice(1).map(c => this.mapToResult(c, executionDetails, finalExecutionType));
+            const winner = debugTrace.find(e => e.rule === bestMatch.ruleId);
+            if (winner) winner.selected = true;
 
             finalResult = {
                 functionalType: bestMatch.type,
@@ -220,6 +307,7 @@ export class ClassificationEngine {
                 },
                 details: {
                     protocol: bestMatch.protocol,
+                    ...bestMatch.details,
                     ...executionDetails, // Include proxy details in output
                     debugTrace: process.env.DEBUG_CLASSIFIER ? debugTrace : undefined
                 },
@@ -227,52 +315,224 @@ export class ClassificationEngine {
                 secondary: secondaryMatches.length > 0 ? secondaryMatches : undefined
             };
         } else {
-            // Fallback Logic
-            if (receipt.status !== 0) {
-                // Transaction succeeded but no rule matched with high confidence
-                const topNearMisses = debugTrace.filter(e => e.matched).map(e => `${e.rule} (${e.confidence?.toFixed(2) || 'N/A'})`);
-
-                finalResult = {
-                    functionalType: TransactionType.UNCLASSIFIED_COMPLEX,
-                    executionType: finalExecutionType,
-                    confidence: {
-                        score: 0.3, // Low confidence fallback
-                        reasons: [
-                            'No rule met global confidence threshold',
-                            `Threshold: ${this.MIN_CONFIDENCE}`,
-                            `Candidates found: ${candidates.length}`,
-                            ...(topNearMisses.length > 0 ? [`Near misses: ${topNearMisses.join(', ')}`] : [])
-                        ]
-                    },
-                    details: {
-                        protocol: 'Unknown Protocol',
-                        ...executionDetails,
-                        debugTrace: process.env.DEBUG_CLASSIFIER ? debugTrace : undefined
-                    }
-                };
-            } else {
-                // Transaction Failed
-                finalResult = {
-                    functionalType: TransactionType.UNKNOWN,
-                    executionType: ExecutionType.UNKNOWN,
-                    confidence: {
-                        score: 0,
-                        reasons: [
-                            'Transaction Failed (Status 0)',
-                            `Execution: ${executionDetails.resolutionMethod}`
-                        ]
-                    },
-                    details: {
-                        ...executionDetails,
-                        debugTrace: process.env.DEBUG_CLASSIFIER ? debugTrace : undefined
-                    }
-                };
+            // Fallback Logic: no rule met the threshold
+            const topNearMisses = debugTrace.filter(e => e.matched).map(e => `${e.rule} (${e.confidence?.toFixed(2) || 'N/A'})`);
+
+            finalResult = {
+                functionalType: TransactionType.UNCLASSIFIED_COMPLEX,
+                executionType: finalExecutionType,
+                confidence: {
+                    score: 0.3, // Low confidence fallback
+                    reasons: [
+                        'No rule met global confidence threshold',
+                        `Threshold: ${this.MIN_CONFIDENCE}`,
+                        `Candidates found: ${candidates.length}`,
+                        ...(topNearMisses.length > 0 ? [`Near misses: ${topNearMisses.join(', ')}`] : [])
+                    ]
+                },
+                details: {
+                    protocol: 'Unknown Protocol',
+                    ...executionDetails,
+                    debugTrace: process.env.DEBUG_CLASSIFIER ? debugTrace : undefined
+                }
+            };
+        }
+
+        // --- PHASE 6: Decomposition ---
+        // Batched transactions also list their ordered steps, each with its own type and token flow
+        this.attachMethod(finalResult, subjectTx, chainId);
+        this.attachActions(finalResult, subjectTx, flow, executionDetails);
+        this.attachRisks(finalResult, risks);
+
+        return { result: finalResult, trace: debugTrace, execution: executionDetails, flow };
+    }
+
+    /**
+     * What the rules evaluate: the subject transaction and receipt, its token flow and the frozen context.
+     */
+    private contextFor(tx: Transaction, receipt: Receipt, chainId: number, executionDetails: ExecutionDetails) {
+        // Smart accounts and Safes: rules see the wrapped call from the account's side,
+        // not the bundler's handleOps or the owner's execTransaction.
+        const subjectTx = this.subjectOf(tx, executionDetails);
+        const subjectReceipt = this.subjectReceiptOf(receipt, executionDetails);
+
+        // Native value a Safe sends leaves from the Safe itself, one transfer per call in a batch
+        const safe = executionDetails.safe;
+        const safeTransfers = safe
+            ? safe.calls
+                .filter(c => c.operation === 'call' && BigInt(c.value) > BigInt(0))
+                .map(c => ({ from: safe.safe, to: c.to, value: c.value }))
+            : [];
+
+        // Captures Native, ERC20, ERC721 movements
+        const flow = TokenFlowAnalyzer.analyze(subjectReceipt.logs, safe ? '0' : subjectTx.value, subjectTx.from, subjectTx.to, safeTransfers);
+
+        const ctx = new ClassificationContext(
+            subjectTx,
+            subjectReceipt,
+            flow,
+            chainId,
+            executionDetails,
+            safeTransfers
+        );
+        // Enforce strict immutability
+        this.freezeContext(ctx);
+
+        return { subjectTx, subjectReceipt, flow, ctx };
+    }
+
+    /**
+     * Safe MultiSend: picks the call the rules classify with the highest confidence, approvals aside.
+     * Calls no rule recognises (reverted batch, unknown protocol) fall back to the last non-approval call.
+     */
+    private withBatchCall(tx: Transaction, receipt: Receipt, chainId: number, executionDetails: ExecutionDetails): ExecutionDetails {
+        const calls = executionDetails.safe?.calls || [];
+        if (calls.length < 2) return executionDetails;
+
+        let best: SafeCall | undefined;
+        let bestScore = 0;
+        for (const call of calls) {
+            const { ctx } = this.contextFor(tx, receipt, chainId, { ...executionDetails, innerCall: call, effectiveTo: call.to });
+            const score = this.topConfidence(ctx);
+            // Ties keep the earlier call: execution order, as BatchDecomposer lists the steps
+            if (score > bestScore) {
+                best = call;
+                bestScore = score;
+            }
+        }
+
+        const innerCall = best
+            || [...calls].reverse().find(c => c.intent !== TransactionType.TOKEN_APPROVAL)
+            || calls[calls.length - 1];
+        return { ...executionDetails, innerCall, effectiveTo: innerCall.to };
+    }
+
+    /**
+     * Highest confidence any rule gives a non-approval type, or 0 when none meets the threshold.
+     */
+    private topConfidence(ctx: ClassificationContext): number {
+        let top = 0;
+        for (const rule of this.rules) {
+            try {
+                if (!rule.matches(ctx)) continue;
+                const res = rule.classify(ctx);
+                if (!res || res.type === TransactionType.TOKEN_APPROVAL) continue;
+                top = Math.max(top, this.normalizeConfidence(res.confidence));
+            } catch {
+                // A failing rule is recorded in the trace of the main pass
             }
         }
+        return top >= this.MIN_CONFIDENCE ? top : 0;
+    }
 
-        this.cacheResult(cacheKey, finalResult);
+    /**
+     * Failed (status 0) transactions: the functional type is the *intended* action
+     * decoded from calldata, flagged with `details.failed` so consumers never treat it as executed.
+     */
+    private classifyFailed(tx: Transaction, receipt: Receipt, executionDetails: ExecutionDetails): ClassificationResult {
+        const intent = IntentDecoder.decode(tx);
+        const executionType = this.toExecutionType(executionDetails);
+        const failure = receipt.status === 0 ? 'Transaction Failed (Status 0)'
+            : executionDetails.safe ? 'Safe Transaction Failed (ExecutionFailure)'
+                : 'User Operation Reverted (bundle succeeded)';
+
+        if (!intent) {
+            return {
+                functionalType: TransactionType.UNKNOWN,
+                executionType: executionDetails.isAccountAbstraction || executionDetails.safe ? executionType : ExecutionType.UNKNOWN,
+                confidence: {
+                    score: 0,
+                    reasons: [
+                        failure,
+                        `Execution: ${executionDetails.resolutionMethod}`
+                    ]
+                },
+                details: {
+                    ...executionDetails,
+                    failed: true
+                }
+            };
+        }
 
-        return finalResult;
+        return {
+            functionalType: intent.type,
+            executionType,
+            confidence: {
+                // Selector match only: the call never completed, so nothing corroborates it
+                score: 0.6,
+                reasons: [
+                    failure,
+                    `Intended action decoded from calldata: ${intent.method} (${intent.selector})`,
+                    `Execution: ${executionDetails.resolutionMethod}`
+                ]
+            },
+            details: {
+                ...executionDetails,
+                method: intent.method,
+                failed: true,
+                intendedAction: intent.type
+            }
+        };
+    }
+
+    /**
+     * Names the called function from the signature registry when the matching rule did not.
+     */
+    private attachMethod(result: ClassificationResult, subjectTx: Transaction, chainId: number) {
+        const call = Decoder.decodeFunction(subjectTx.data, subjectTx.to, chainId);
+        if (!call) return;
+
+        result.details.method = result.details.method || call.name;
+        result.details.decodedMethod = call.signature;
+    }
+
+    /**
+     * Adds the batch steps (multicall, Universal Router, Multicall3, Safe MultiSend) when there are several.
+     */
+    private attachActions(result: ClassificationResult, subjectTx: Transaction, flow: TokenFlow, executionDetails: ExecutionDetails) {
+        const actions = BatchDecomposer.decompose(subjectTx, flow, executionDetails.safe?.calls);
+        if (actions.length > 0) result.actions = actions;
+    }
+
+    private attachRisks(result: ClassificationResult, risks: RiskFinding[]) {
+        if (risks.length > 0) result.risks = risks;
+    }
+
+    /**
+     * Result-level execution type, by the same specificity as ExecutionResolver.
+     */
+    private toExecutionType(executionDetails: ExecutionDetails): ExecutionType {
+        if (executionDetails.isAccountAbstraction) return ExecutionType.ACCOUNT_ABSTRACTION;
+        if (executionDetails.isMultisig) return ExecutionType.MULTISIG;
+        return executionDetails.isProxy ? ExecutionType.RELAYED : ExecutionType.DIRECT;
+    }
+
+    /**
+     * The transaction as the rules should see it: sent by the real initiator, calling the wrapped target.
+     */
+    private subjectOf(tx: Transaction, executionDetails: ExecutionDetails): Transaction {
+        if (!executionDetails.sender) return tx;
+
+        const inner = executionDetails.innerCall;
+        if (inner) {
+            return { ...tx, from: executionDetails.sender, to: inner.to, data: inner.data, value: inner.value };
+        }
+
+        // The bundler's handleOps call carries no value on the account's behalf
+        return { ...tx, from: executionDetails.sender, value: '0' };
+    }
+
+    /**
+     * Drops the Safe's own execution bookkeeping so rules only see the events of the wrapped action.
+     */
+    private subjectReceiptOf(receipt: Receipt, executionDetails: ExecutionDetails): Receipt {
+        const safe = executionDetails.safe?.safe;
+        if (!safe) return receipt;
+
+        return {
+            ...receipt,
+            logs: receipt.logs.filter(l => !(l.address.toLowerCase() === safe && SAFE_EXECUTION_EVENTS.includes(l.topics[0])))
+        };
     }
 
     private cacheResult(key: string, result: ClassificationResult) {
@@ -293,6 +553,7 @@ export class ClassificationEngine {
             },
             details: {
                 protocol: match.protocol,
+                ...match.details,
                 ...execDetails
             },
             protocol: match.protocol,
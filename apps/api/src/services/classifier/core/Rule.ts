@@ -10,6 +10,7 @@ export interface RuleResult {
     reasons: string[];
     secondary?: boolean;
     evidence?: string[];
+    details?: Record<string, any>; // Rule-specific structured output, merged into ClassificationResult.details
 }
 
 export interface ClassificationRule {
@@ -55,8 +55,11 @@ export enum TransactionType {
     NFT_BID = 'nft_bid',
     TOKEN_TRANSFER = 'token_transfer',
     TOKEN_APPROVAL = 'token_approval',
+    TOKEN_REVOKE = 'token_revoke', // Allowance set to zero / operator removed
     TOKEN_MINT = 'token_mint',
     TOKEN_BURN = 'token_burn',
+    WRAP = 'wrap', // Native -> wrapped native (WETH, WMATIC, WBNB, ...)
+    UNWRAP = 'unwrap',
     BULK_TRANSFER = 'bulk_transfer',
     LENDING_DEPOSIT = 'lending_deposit',
     LENDING_WITHDRAW = 'lending_withdraw',
@@ -122,6 +125,53 @@ export interface ClassificationResult {
     details: ClassificationDetails;
     protocol?: string; // e.g., 'Uniswap V3', 'Seaport', 'Gnosis Safe'
     secondary?: ClassificationResult[]; // High-confidence alternatives
+    actions?: ClassifiedAction[]; // Ordered steps of a batched transaction (multicall, Universal Router, MultiSend)
+    classifierVersion?: string; // Engine + rule pack version that produced this result
+    risks?: RiskFinding[]; // Scam / spoofing signals, most severe first
+}
+
+export type RiskSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type RiskKind =
+    | 'SPOOFED_TRANSFER' // Zero-value transfer out of an account that did not send the transaction
+    | 'DUST_TRANSFER' // Tiny unsolicited transfer (seeds a look-alike address into the history)
+    | 'ADDRESS_POISONING' // Two participants share the leading and trailing characters
+    | 'IMPERSONATION_TOKEN' // Unlisted token using the symbol of a supported token
+    | 'APPROVAL_TO_FRESH_EOA'; // Allowance granted to an account with no code and (almost) no history
+
+/** One risk signal found in a transaction (`ClassificationResult.risks`). */
+export interface RiskFinding {
+    kind: RiskKind;
+    severity: RiskSeverity;
+    message: string;
+    address?: Address; // The suspicious counterparty, token or spender
+    evidence?: string[];
+}
+
+/** One step of a batched transaction, with the subject's token movements attributed to it. */
+export interface ClassifiedAction {
+    index: number; // Execution order within the batch
+    type: TransactionType;
+    method: string; // Function name, Universal Router command, or raw selector when unknown
+    target: Address; // Contract the step called (the router itself for multicall / Universal Router steps)
+    protocol?: string;
+    incoming: TokenMovement[];
+    outgoing: TokenMovement[];
+}
+
+/** How one rule fared on a transaction (`ClassificationEngine.inspect`, `details.debugTrace`). */
+export interface RuleTraceEntry {
+    rule: string;
+    priority: number;
+    matched: boolean; // matches() accepted the transaction
+    classified: boolean; // classify() returned a result
+    selected?: boolean; // The winning rule
+    type?: TransactionType;
+    confidence?: number;
+    breakdown?: ConfidenceBreakdown;
+    reasons?: string[];
+    evidence?: string[];
+    error?: string;
 }
 
 export interface ClassificationDetails {
@@ -134,6 +184,58 @@ export interface ClassificationDetails {
     [key: string]: any;
 }
 
+export type ApprovalStandard = 'ERC20' | 'EIP2612' | 'ERC721' | 'ERC721_ALL' | 'PERMIT2';
+
+/** One allowance change decoded by the approval rule (`details.approvals`). */
+export interface TokenApproval {
+    standard: ApprovalStandard;
+    owner: Address;
+    token: Address;
+    spender: Address; // Spender / operator
+    amount: BigIntString; // Allowance; tokenId for ERC721; '1' / '0' for operator approvals
+    unlimited: boolean;
+    revoke: boolean;
+    expiration?: number; // Permit2 allowance expiry (unix seconds)
+}
+
+/** One side of a liquidity position change (`details.liquidity.tokens`). */
+export interface LiquidityTokenAmount {
+    token: Address; // 'native' for the chain's native asset
+    amount: BigIntString;
+}
+
+/** Pool deposit / withdrawal decoded by the liquidity rule (`details.liquidity`). */
+export interface LiquidityPosition {
+    action: 'add' | 'remove';
+    protocol: string;
+    pool: Address;
+    tokens: LiquidityTokenAmount[]; // Underlying assets the user paid in (add) or received (remove)
+    lpToken?: Address; // Fungible LP / pool share token (V2 pair, Curve LP, Balancer BPT)
+    lpAmount?: BigIntString;
+    positionId?: string; // Concentrated-liquidity position NFT (NonfungiblePositionManager tokenId)
+    tickLower?: number;
+    tickUpper?: number;
+}
+
+/** One pool a swap went through (`details.swap.hops`), in execution order. */
+export interface SwapHop {
+    pool: Address;
+    protocol: string; // 'Uniswap V2' | 'Uniswap V3' | 'Balancer V2' | 'Curve' (forks emit the same events)
+    tokenIn?: Address; // Matched to the receipt's transfers; absent when no transfer matches the amount
+    tokenOut?: Address;
+    amountIn: BigIntString;
+    amountOut: BigIntString;
+}
+
+/** Swap decoded by the swap rule (`details.swap`): the subject's net trade and the pools that filled it. */
+export interface SwapExecution {
+    tokenIn: Address; // 'native' for the chain's native asset
+    amountIn: BigIntString;
+    tokenOut: Address;
+    amountOut: BigIntString;
+    hops: SwapHop[];
+}
+
 // ==================== INTERFACES ====================
 
 export type FlowRole =
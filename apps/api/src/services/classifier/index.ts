@@ -16,12 +16,38 @@ export type {
     ConfidenceBreakdown,
     ClassificationResult,
     ClassificationDetails,
+    TokenApproval,
+    ApprovalStandard,
+    LiquidityPosition,
+    LiquidityTokenAmount,
+    SwapExecution,
+    SwapHop,
+    ClassifiedAction,
     TokenMovement,
     TokenFlow,
-    FlowRole
+    FlowRole,
+    RuleTraceEntry,
+    RiskFinding,
+    RiskKind,
+    RiskSeverity
 } from './core/types';
+export type { ClassificationInspection } from './core/Engine';
+
+// Chain Registry (read-only view for fee accounting etc.)
+export { ChainType, RollupStack, getChainConfig } from './infrastructure/ChainConfig';
+export type { ChainConfig } from './infrastructure/ChainConfig';
 
 // Export AA Details helper interface if public
-export type { AADetails } from './resolvers/AccountAbstractionResolver';
+export type { AADetails, UserOperationDetails } from './resolvers/AccountAbstractionResolver';
+export type { SafeDetails, SafeCall } from './resolvers/MultisigResolver';
+
+// Offline signature registry (bundled selectors / topics + admin-uploaded contract ABIs)
+export { signatureRegistry } from './infrastructure/SignatureRegistry';
+export type { DecodedCall, DecodedEvent, DecodedArgument } from './infrastructure/SignatureRegistry';
+
+// Declarative rule packs (loaded from the database next to the built-in rules)
+export { rulePackRegistry } from './infrastructure/RulePackRegistry';
+export { RulePackSchema } from './rules/declarative/RulePackSchema';
+export type { RulePack, RulePackInput, DeclarativeRuleDefinition } from './rules/declarative/RulePackSchema';
 
 // Do NOT export internal Engine, Rules, or Context.
@@ -0,0 +1,238 @@
+// src/services/classifier/infrastructure/BatchDecomposer.ts
+import { ethers } from 'ethers';
+import { Address, BigIntString, ClassifiedAction, HexString, TokenFlow, TokenMovement, Transaction, TransactionType } from '../core/types';
+import { IntentDecoder } from './IntentDecoder';
+import { signatureRegistry } from './SignatureRegistry';
+import { SafeCall } from '../resolvers/MultisigResolver';
+
+const batchInterface = new ethers.Interface([
+    'function multicall(bytes[] data)', // Uniswap V3 routers / position manager
+    'function multicall(uint256 deadline, bytes[] data)', // SwapRouter02
+    'function multicall(bytes32 previousBlockhash, bytes[] data)', // SwapRouter02
+    'function aggregate((address target, bytes callData)[] calls)', // Multicall / Multicall2 / Multicall3
+    'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls)',
+    'function aggregate3((address target, bool allowFailure, bytes callData)[] calls)',
+    'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls)',
+    'function execute(bytes commands, bytes[] inputs)', // Universal Router
+    'function execute(bytes commands, bytes[] inputs, uint256 deadline)'
+]);
+
+// Multicall items routers use to settle what the previous steps produced
+const ROUTER_STEPS: Record<string, { method: string, type: TransactionType, plumbing: boolean }> = {
+    '0x12210e8a': { method: 'refundETH', type: TransactionType.NATIVE_TRANSFER, plumbing: true },
+    '0xdf2ab5bb': { method: 'sweepToken', type: TransactionType.TOKEN_TRANSFER, plumbing: true },
+    '0xfc6f7865': { method: 'collect', type: TransactionType.CONTRACT_INTERACTION, plumbing: false }, // Position fees + withdrawn liquidity
+};
+
+type RouterCommand = { method: string, type: TransactionType, protocol?: string, plumbing?: boolean };
+
+// Universal Router command bytes (identical on v1.2 and v2)
+const UNIVERSAL_ROUTER_COMMANDS: Record<number, RouterCommand> = {
+    0x00: { method: 'V3_SWAP_EXACT_IN', type: TransactionType.SWAP, protocol: 'Uniswap V3' },
+    0x01: { method: 'V3_SWAP_EXACT_OUT', type: TransactionType.SWAP, protocol: 'Uniswap V3' },
+    0x02: { method: 'PERMIT2_TRANSFER_FROM', type: TransactionType.TOKEN_TRANSFER, protocol: 'Permit2', plumbing: true },
+    0x03: { method: 'PERMIT2_PERMIT_BATCH', type: TransactionType.TOKEN_APPROVAL, protocol: 'Permit2' },
+    0x04: { method: 'SWEEP', type: TransactionType.TOKEN_TRANSFER, plumbing: true },
+    0x05: { method: 'TRANSFER', type: TransactionType.TOKEN_TRANSFER, plumbing: true },
+    0x06: { method: 'PAY_PORTION', type: TransactionType.TOKEN_TRANSFER, plumbing: true },
+    0x08: { method: 'V2_SWAP_EXACT_IN', type: TransactionType.SWAP, protocol: 'Uniswap V2' },
+    0x09: { method: 'V2_SWAP_EXACT_OUT', type: TransactionType.SWAP, protocol: 'Uniswap V2' },
+    0x0a: { method: 'PERMIT2_PERMIT', type: TransactionType.TOKEN_APPROVAL, protocol: 'Permit2' },
+    0x0b: { method: 'WRAP_ETH', type: TransactionType.WRAP },
+    0x0c: { method: 'UNWRAP_WETH', type: TransactionType.UNWRAP },
+    0x0d: { method: 'PERMIT2_TRANSFER_FROM_BATCH', type: TransactionType.TOKEN_TRANSFER, protocol: 'Permit2', plumbing: true },
+    0x0e: { method: 'BALANCE_CHECK_ERC20', type: TransactionType.CONTRACT_INTERACTION, plumbing: true },
+};
+
+// Universal Router v2 reuses 0x10+ (NFT marketplace commands on v1.2) for Uniswap V4
+const V4_COMMANDS: Record<number, RouterCommand> = {
+    0x10: { method: 'V4_SWAP', type: TransactionType.SWAP, protocol: 'Uniswap V4' },
+    0x14: { method: 'V4_POSITION_MANAGER_CALL', type: TransactionType.CONTRACT_INTERACTION, protocol: 'Uniswap V4' },
+};
+
+const COMMAND_TYPE_MASK = 0x3f; // High bits are flags (allow revert)
+
+const UNIVERSAL_ROUTERS: Record<string, 'v1' | 'v2'> = {
+    '0xef1c6e67703c7bd7107eed8303fbe6ec2554bf6b': 'v1', // Ethereum (v1)
+    '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad': 'v1', // v1.2, most chains
+    '0x66a9893cc07d91d95644aedd05d03f95e1dba8af': 'v2', // Ethereum
+    '0x6ff5693b99212da76ad316178a184ab56d299b43': 'v2', // Base
+    '0xa51afafe0263b40edaef0df8781ea9aa03e381a3': 'v2', // Arbitrum
+};
+
+const KNOWN_TARGETS: Record<string, string> = {
+    '0xe592427a0aece92de3edee1f18e0157c05861564': 'Uniswap V3', // SwapRouter
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'Uniswap', // SwapRouter02 (V2 and V3 routes)
+    '0x2626664c2603336e57b271c5c0b26f421741e481': 'Uniswap', // SwapRouter02 (Base)
+    '0xc36442b4a4522e871399cd717abdd847ab11fe88': 'Uniswap V3', // NonfungiblePositionManager
+};
+
+const MAX_DEPTH = 3; // Multicall inside Multicall3 inside MultiSend; anything deeper is left whole
+
+interface BatchStep {
+    target: Address;
+    data: HexString;
+    value: BigIntString;
+    method: string;
+    type: TransactionType;
+    protocol?: string;
+    plumbing: boolean; // Moves funds on behalf of other steps (sweep, refund, permit pull)
+}
+
+/**
+ * Splits a batched transaction into its ordered steps: Uniswap `multicall`, Multicall3
+ * `aggregate*`, Universal Router `execute` and Safe MultiSend (via the decoded Safe calls).
+ *
+ * Logs carry no call boundaries, so each of the subject's token movements is attributed to the
+ * step whose calldata references the asset (and preferably the counterparty).
+ */
+export class BatchDecomposer {
+    /**
+     * Returns the steps in execution order, or an empty list when the transaction is a single action.
+     */
+    static decompose(tx: Transaction, flow: TokenFlow, safeCalls: SafeCall[] = []): ClassifiedAction[] {
+        const calls = safeCalls.length > 1
+            ? safeCalls.map(c => ({ ...tx, to: c.to, data: c.data, value: c.value }))
+            : [tx];
+
+        const steps = calls.flatMap(call => this.split(call, 0));
+        if (steps.length < 2) return [];
+
+        const actions: ClassifiedAction[] = steps.map((step, index) => ({
+            index,
+            type: step.type,
+            method: step.method,
+            target: step.target,
+            protocol: step.protocol,
+            incoming: [],
+            outgoing: []
+        }));
+
+        const userFlow = flow[tx.from.toLowerCase()];
+        if (!userFlow) return actions;
+
+        for (const m of userFlow.outgoing) {
+            const i = this.attribute(steps, m, true);
+            if (i >= 0) actions[i].outgoing.push(m);
+        }
+        for (const m of userFlow.incoming) {
+            const i = this.attribute(steps, m, false);
+            if (i >= 0) actions[i].incoming.push(m);
+        }
+
+        return actions;
+    }
+
+    private static split(tx: Transaction, depth: number): BatchStep[] {
+        const target = (tx.to || '').toLowerCase();
+        if (!tx.to || depth >= MAX_DEPTH) return [this.describe(tx)];
+
+        let parsed: ethers.TransactionDescription | null = null;
+        try {
+            parsed = batchInterface.parseTransaction({ data: tx.data });
+        } catch {
+            // Not a batch selector, or a collision with malformed arguments
+        }
+        if (!parsed) return [this.describe(tx)];
+
+        const nested = (to: string, data: string, value: bigint | string) =>
+            this.split({ ...tx, to: to.toLowerCase(), data: data.toLowerCase(), value: value.toString() }, depth + 1);
+
+        switch (parsed.name) {
+            case 'multicall': {
+                // Self-delegatecalls: every item runs against the router with the shared msg.value
+                const items: string[] = parsed.args[parsed.args.length - 1];
+                return items.flatMap(data => nested(target, data, '0'));
+            }
+            case 'aggregate':
+                return parsed.args[0].flatMap((c: any) => nested(c[0], c[1], '0'));
+            case 'tryAggregate':
+                return parsed.args[1].flatMap((c: any) => nested(c[0], c[1], '0'));
+            case 'aggregate3':
+                return parsed.args[0].flatMap((c: any) => nested(c[0], c[2], '0'));
+            case 'aggregate3Value':
+                return parsed.args[0].flatMap((c: any) => nested(c[0], c[3], c[2]));
+            case 'execute':
+                return this.splitCommands(tx, parsed.args[0], parsed.args[1]);
+            default:
+                return [this.describe(tx)];
+        }
+    }
+
+    private static splitCommands(tx: Transaction, commands: string, inputs: string[]): BatchStep[] {
+        const target = (tx.to || '').toLowerCase();
+        const bytes = ethers.getBytes(commands);
+        if (bytes.length === 0 || bytes.length !== inputs.length) return [this.describe(tx)];
+
+        const version = UNIVERSAL_ROUTERS[target];
+        return Array.from(bytes).map((b, i) => {
+            const command = b & COMMAND_TYPE_MASK;
+            const known = UNIVERSAL_ROUTER_COMMANDS[command] || (version === 'v2' ? V4_COMMANDS[command] : undefined);
+            return {
+                target,
+                data: inputs[i].toLowerCase(),
+                value: '0',
+                method: known?.method || `command 0x${command.toString(16).padStart(2, '0')}`,
+                type: known?.type || TransactionType.CONTRACT_INTERACTION,
+                // Forks share the command set but not the pools; only name the protocol on Uniswap's own routers
+                protocol: version ? known?.protocol || 'Uniswap' : undefined,
+                plumbing: !!known?.plumbing
+            };
+        });
+    }
+
+    private static describe(tx: Transaction): BatchStep {
+        const data = (tx.data || '0x').toLowerCase();
+        const selector = data.slice(0, 10);
+        const intent = IntentDecoder.decode(tx);
+        const known = ROUTER_STEPS[selector];
+
+        return {
+            target: (tx.to || '').toLowerCase(),
+            data,
+            value: tx.value || '0',
+            method: intent?.method || known?.method || signatureRegistry.decodeFunction(data)?.name || (data.length >= 10 ? selector : 'call'),
+            type: intent?.type || known?.type || TransactionType.CONTRACT_INTERACTION,
+            protocol: KNOWN_TARGETS[(tx.to || '').toLowerCase()],
+            plumbing: !!known?.plumbing
+        };
+    }
+
+    /**
+     * Index of the step a movement belongs to: the asset must be referenced (or, for native value,
+     * sent / wrapped / unwrapped); the counterparty and substantive steps break ties.
+     */
+    private static attribute(steps: BatchStep[], m: TokenMovement, isOut: boolean): number {
+        const asset = m.asset.toLowerCase();
+        const counterparty = (isOut ? m.to : m.from).toLowerCase();
+
+        let best = -1;
+        let bestScore = 0;
+        steps.forEach((step, i) => {
+            if (step.type === TransactionType.TOKEN_APPROVAL) return; // Approvals never move tokens
+
+            let score = 0;
+            if (m.type === 'NATIVE') {
+                const native = isOut
+                    ? BigInt(step.value) > BigInt(0) || step.type === TransactionType.WRAP
+                    : step.type === TransactionType.UNWRAP;
+                if (native) score += 2;
+            } else if (step.target === asset || step.data.includes(asset.slice(2))) {
+                score += 2;
+            }
+            if (score === 0) return;
+
+            if (step.target === counterparty || step.data.includes(counterparty.slice(2))) score += 1;
+            if (!step.plumbing) score += 1;
+
+            if (score > bestScore) {
+                best = i;
+                bestScore = score;
+            }
+        });
+        if (best >= 0) return best;
+
+        // Nothing references the asset (position manager steps, shared msg.value): first substantive step
+        return steps.findIndex(s => !s.plumbing && s.type !== TransactionType.TOKEN_APPROVAL);
+    }
+}
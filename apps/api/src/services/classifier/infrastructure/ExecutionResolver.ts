@@ -1,14 +1,20 @@
 // src/services/classifier/infrastructure/ExecutionResolver.ts
 import { Transaction, Receipt, Address, ExecutionType } from '../core/types';
 import { ProxyResolver } from './ProxyResolver';
-import { MultisigResolver } from '../resolvers/MultisigResolver';
+import { MultisigResolver, SafeCall, SafeDetails } from '../resolvers/MultisigResolver';
 import { DirectResolver } from '../resolvers/DirectResolver';
+import { AccountAbstractionResolver, AADetails } from '../resolvers/AccountAbstractionResolver';
 
 export interface ExecutionDetails {
     effectiveTo: Address;
     executionType: ExecutionType;
     isProxy: boolean;
     isMultisig: boolean;
+    isAccountAbstraction: boolean;
+    accountAbstraction?: AADetails; // ERC-4337 bundle: smart account, paymaster, actual gas cost
+    safe?: SafeDetails; // Decoded Safe execTransaction (inner calls, nonce, outcome)
+    innerCall?: SafeCall; // Wrapped call the rules should evaluate instead of the outer one (set by the engine for batches)
+    sender?: Address; // Real initiator when it differs from tx.from (smart account behind a bundler, Safe behind its executor)
     implementation?: Address;
     resolutionMethod: string;
 }
@@ -16,10 +22,11 @@ export interface ExecutionDetails {
 export class ExecutionResolver {
     private static multisigResolver = new MultisigResolver();
     private static directResolver = new DirectResolver();
+    private static aaResolver = new AccountAbstractionResolver();
 
     /**
      * Orchestrates execution resolution by running all resolvers and merging results.
-     * Specificity: PROXY_MULTISIG > MULTISIG > PROXY > DIRECT
+     * Specificity: ACCOUNT_ABSTRACTION > PROXY_MULTISIG > MULTISIG > PROXY > DIRECT
      */
     static async resolve(tx: Transaction, receipt: Receipt): Promise<ExecutionDetails> {
         const to = tx.to ? tx.to.toLowerCase() : '0x0000000000000000000000000000000000000000';
@@ -31,6 +38,7 @@ export class ExecutionResolver {
                 executionType: ExecutionType.DIRECT,
                 isProxy: false,
                 isMultisig: false,
+                isAccountAbstraction: false,
                 resolutionMethod: 'CONTRACT_CREATION'
             };
         }
@@ -38,6 +46,11 @@ export class ExecutionResolver {
         // 2. Run Resolvers (Independent)
         const proxyImpl = ProxyResolver.resolve(to, receipt);
         const multisigType = await this.multisigResolver.resolve(tx, receipt, receipt.logs);
+        const aa = this.aaResolver.detectAA(tx, receipt.logs);
+        const safe = this.multisigResolver.decodeSafe(tx, receipt.logs);
+
+        // A MultiSend batch has several candidates; the engine picks one by running the rules on each
+        const innerCall = safe?.calls.length === 1 ? safe.calls[0] : undefined;
 
         // 3. Merge Results & Determine Specificity
         const isProxy = !!proxyImpl;
@@ -45,9 +58,14 @@ export class ExecutionResolver {
 
         let finalType = ExecutionType.DIRECT;
         let resolutionMethod = 'DIRECT';
-        let effectiveTo = proxyImpl || to;
-
-        if (isProxy && isMultisig) {
+        let effectiveTo = innerCall ? innerCall.to : proxyImpl || to;
+
+        if (aa.isAccountAbstraction) {
+            // tx.to is the EntryPoint and tx.from the bundler; the smart account is the real actor.
+            // effectiveTo stays the EntryPoint: the account's inner call target is not decoded here.
+            finalType = ExecutionType.ACCOUNT_ABSTRACTION;
+            resolutionMethod = 'ACCOUNT_ABSTRACTION';
+        } else if (isProxy && isMultisig) {
             // PROXY + MULTISIG (Not in standard enum, mapped to MULTISIG with proxy flag usually, or RELAYED)
             // User requested: PROXY + MULTISIG > MULTISIG > PROXY
             // Engine might treat this as Multisig Execution via Proxy.
@@ -115,6 +133,11 @@ export class ExecutionResolver {
             executionType: finalType,
             isProxy,
             isMultisig,
+            isAccountAbstraction: aa.isAccountAbstraction,
+            accountAbstraction: aa.isAccountAbstraction ? aa : undefined,
+            safe: safe || undefined,
+            innerCall,
+            sender: aa.userOperations.length > 0 ? aa.actualSender : safe?.safe,
             implementation: proxyImpl || undefined,
             resolutionMethod
         };
@@ -0,0 +1,121 @@
+// src/services/classifier/infrastructure/IntentDecoder.ts
+import { ethers } from 'ethers';
+import { Transaction, TransactionType } from '../core/types';
+
+export interface DecodedIntent {
+    type: TransactionType;
+    method: string; // Human-readable function name, e.g. 'swapExactTokensForTokens'
+    selector: string;
+}
+
+// Function signatures whose intent is unambiguous from the selector alone.
+// Selectors are derived at load time so the table stays readable.
+const INTENT_SIGNATURES: Array<[string, TransactionType]> = [
+    // ERC20 / ERC721 / ERC1155
+    ['transfer(address,uint256)', TransactionType.TOKEN_TRANSFER],
+    ['transferFrom(address,address,uint256)', TransactionType.TOKEN_TRANSFER],
+    ['approve(address,uint256)', TransactionType.TOKEN_APPROVAL],
+    ['increaseAllowance(address,uint256)', TransactionType.TOKEN_APPROVAL],
+    ['setApprovalForAll(address,bool)', TransactionType.TOKEN_APPROVAL],
+    ['safeTransferFrom(address,address,uint256)', TransactionType.NFT_TRANSFER],
+    ['safeTransferFrom(address,address,uint256,bytes)', TransactionType.NFT_TRANSFER],
+    ['safeTransferFrom(address,address,uint256,uint256,bytes)', TransactionType.NFT_TRANSFER],
+    ['safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)', TransactionType.NFT_TRANSFER],
+    ['mint(uint256)', TransactionType.NFT_MINT],
+    ['mint(address,uint256)', TransactionType.TOKEN_MINT],
+    ['burn(uint256)', TransactionType.TOKEN_BURN],
+
+    // Uniswap V2-style routers
+    ['swapExactTokensForTokens(uint256,uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapTokensForExactTokens(uint256,uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapExactETHForTokens(uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapTokensForExactETH(uint256,uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapExactTokensForETH(uint256,uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapETHForExactTokens(uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapExactETHForTokensSupportingFeeOnTransferTokens(uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['swapExactTokensForETHSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)', TransactionType.SWAP],
+    ['addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)', TransactionType.ADD_LIQUIDITY],
+    ['addLiquidityETH(address,uint256,uint256,uint256,address,uint256)', TransactionType.ADD_LIQUIDITY],
+    ['removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)', TransactionType.REMOVE_LIQUIDITY],
+    ['removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)', TransactionType.REMOVE_LIQUIDITY],
+
+    // Uniswap V3 SwapRouter / Universal Router
+    ['exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))', TransactionType.SWAP],
+    ['exactInput((bytes,address,uint256,uint256,uint256))', TransactionType.SWAP],
+    ['exactOutputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))', TransactionType.SWAP],
+    ['exactOutput((bytes,address,uint256,uint256,uint256))', TransactionType.SWAP],
+    ['execute(bytes,bytes[],uint256)', TransactionType.SWAP],
+    ['execute(bytes,bytes[])', TransactionType.SWAP],
+
+    // Uniswap SwapRouter02 / NonfungiblePositionManager (usually inside multicall)
+    ['exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))', TransactionType.SWAP],
+    ['exactInput((bytes,address,uint256,uint256))', TransactionType.SWAP],
+    ['exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))', TransactionType.SWAP],
+    ['exactOutput((bytes,address,uint256,uint256))', TransactionType.SWAP],
+    ['swapExactTokensForTokens(uint256,uint256,address[],address)', TransactionType.SWAP],
+    ['swapTokensForExactTokens(uint256,uint256,address[],address)', TransactionType.SWAP],
+    ['wrapETH(uint256)', TransactionType.WRAP],
+    ['unwrapWETH9(uint256,address)', TransactionType.UNWRAP],
+    ['unwrapWETH9(uint256)', TransactionType.UNWRAP],
+    ['selfPermit(address,uint256,uint256,uint8,bytes32,bytes32)', TransactionType.TOKEN_APPROVAL],
+    ['mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))', TransactionType.ADD_LIQUIDITY],
+    ['increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))', TransactionType.ADD_LIQUIDITY],
+    ['decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))', TransactionType.REMOVE_LIQUIDITY],
+
+    // Aave V2/V3-style lending pools
+    ['supply(address,uint256,address,uint16)', TransactionType.LENDING_DEPOSIT],
+    ['deposit(address,uint256,address,uint16)', TransactionType.LENDING_DEPOSIT],
+    ['withdraw(address,uint256,address)', TransactionType.LENDING_WITHDRAW],
+    ['borrow(address,uint256,uint256,uint16,address)', TransactionType.LENDING_BORROW],
+    ['repay(address,uint256,uint256,address)', TransactionType.LENDING_REPAY],
+    ['liquidationCall(address,address,address,uint256,bool)', TransactionType.LENDING_LIQUIDATION],
+
+    // Staking / governance
+    ['submit(address)', TransactionType.STAKING_DEPOSIT],
+    ['requestWithdrawals(uint256[],address)', TransactionType.STAKING_WITHDRAW],
+    ['stake(uint256)', TransactionType.STAKING_DEPOSIT],
+    ['unstake(uint256)', TransactionType.STAKING_WITHDRAW],
+    ['getReward()', TransactionType.STAKING_CLAIM_REWARDS],
+    ['claimRewards()', TransactionType.STAKING_CLAIM_REWARDS],
+    ['castVote(uint256,uint8)', TransactionType.GOVERNANCE_VOTE],
+    ['castVoteWithReason(uint256,uint8,string)', TransactionType.GOVERNANCE_VOTE],
+    ['delegate(address)', TransactionType.GOVERNANCE_DELEGATION],
+
+    // Bridges
+    ['depositETH(uint32,bytes)', TransactionType.BRIDGE_DEPOSIT],
+    ['depositERC20(address,address,uint256,uint32,bytes)', TransactionType.BRIDGE_DEPOSIT],
+    ['depositTransaction(address,uint256,uint64,bool,bytes)', TransactionType.L2_DEPOSIT],
+    ['outboundTransfer(address,address,uint256,bytes)', TransactionType.BRIDGE_DEPOSIT]
+];
+
+const INTENTS = new Map<string, { type: TransactionType, method: string }>(
+    INTENT_SIGNATURES.map(([signature, type]) => [
+        ethers.id(signature).slice(0, 10),
+        { type, method: signature.slice(0, signature.indexOf('(')) }
+    ])
+);
+
+/**
+ * Recovers what a transaction *tried* to do from its calldata.
+ *
+ * Used for reverted transactions, which emit no logs for the rules to work with.
+ * Only the given call is inspected; BatchDecomposer unpacks multicalls and decodes each step with it.
+ */
+export class IntentDecoder {
+    static decode(tx: Transaction): DecodedIntent | null {
+        const data = (tx.data || '0x').toLowerCase();
+
+        if (!tx.to) return null;
+
+        if (data === '0x') {
+            return BigInt(tx.value || '0') > BigInt(0)
+                ? { type: TransactionType.NATIVE_TRANSFER, method: 'transfer', selector: '0x' }
+                : null;
+        }
+
+        const selector = data.slice(0, 10);
+        const known = INTENTS.get(selector);
+        return known ? { ...known, selector } : null;
+    }
+}
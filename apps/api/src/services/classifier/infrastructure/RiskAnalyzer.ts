@@ -0,0 +1,124 @@
+// src/services/classifier/infrastructure/RiskAnalyzer.ts
+import { Log, Address, Transaction, TokenFlow, RiskFinding, RiskSeverity } from '../core/types';
+import { Decoder } from '../utils';
+
+// Characters (after 0x) a poisoning address copies from the address it imitates
+const LOOKALIKE_PREFIX = 4;
+const LOOKALIKE_SUFFIX = 4;
+// Findings list at most this many example transfers / address pairs
+const MAX_EVIDENCE = 10;
+
+const SEVERITY_ORDER: Record<RiskSeverity, number> = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+
+interface Erc20Transfer {
+    token: Address;
+    from: Address;
+    to: Address;
+    amount: bigint;
+}
+
+export class RiskAnalyzer {
+
+    /**
+     * Pure, offline scam signals of one transaction (runs after TokenFlowAnalyzer).
+     *
+     * Works on the raw Transfer logs because the token flow drops zero-value transfers, which is
+     * exactly what spoofing transactions consist of. Dust needs token decimals, so it is checked with
+     * chain state (RiskAnalysisService).
+     *
+     * @param logs Subject's receipt logs
+     * @param subject Transaction as the rules see it (real initiator)
+     * @param flow Token flow of the subject
+     */
+    static analyze(logs: Log[], subject: Transaction, flow: TokenFlow): RiskFinding[] {
+        const sender = subject.from.toLowerCase();
+        const transfers = this.erc20Transfers(logs);
+
+        // Tokens the subject itself sent or received are its own trade (pool / router payouts), not a spoof
+        const own = flow[sender];
+        const ownTokens = new Set([...(own?.incoming || []), ...(own?.outgoing || [])].map(m => m.asset.toLowerCase()));
+
+        // Tokens moved out of an account that never signed this transaction
+        const unsolicited = transfers.filter(t => t.from !== sender && !Decoder.isZeroAddress(t.from) && !ownTokens.has(t.token));
+        const spoofed = unsolicited.filter(t => t.amount === BigInt(0));
+
+        const findings: RiskFinding[] = [];
+        if (spoofed.length > 0) {
+            findings.push({
+                kind: 'SPOOFED_TRANSFER',
+                severity: 'HIGH',
+                message: spoofed.length === 1
+                    ? `Zero-value transfer from ${spoofed[0].from} to ${spoofed[0].to} was not signed by ${spoofed[0].from} - a spoof meant to plant ${spoofed[0].to} in its history`
+                    : `${spoofed.length} zero-value transfers out of accounts that did not sign this transaction - typical address-poisoning spoof`,
+                address: spoofed[0].to,
+                evidence: this.describe(spoofed)
+            });
+        }
+
+        const lookalikes = this.lookalikes(subject, transfers, flow);
+        if (lookalikes.length > 0) {
+            // The suspicious side of a pair is the one receiving (or sending) the spoofed transfers
+            const suspicious = new Set(spoofed.flatMap(t => [t.from, t.to]));
+            const [a, b] = lookalikes[0];
+            const [fake, real] = suspicious.has(a) && !suspicious.has(b) ? [a, b] : suspicious.has(b) && !suspicious.has(a) ? [b, a] : [a, b];
+
+            findings.push({
+                kind: 'ADDRESS_POISONING',
+                severity: 'HIGH',
+                message: `Look-alike addresses: ${fake} imitates ${real} (same first ${LOOKALIKE_PREFIX} and last ${LOOKALIKE_SUFFIX} characters) - compare full addresses before sending`,
+                address: fake,
+                evidence: lookalikes.slice(0, MAX_EVIDENCE).map(([x, y]) => `${x} ~ ${y}`)
+            });
+        }
+
+        return findings.sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+    }
+
+    private static erc20Transfers(logs: Log[]): Erc20Transfer[] {
+        const transfers: Erc20Transfer[] = [];
+        for (const log of logs) {
+            const erc20 = Decoder.decodeERC20Transfer(log);
+            if (!erc20) continue;
+            transfers.push({
+                token: log.address.toLowerCase(),
+                from: String(erc20.args[0]).toLowerCase(),
+                to: String(erc20.args[1]).toLowerCase(),
+                amount: BigInt(erc20.args[2].toString())
+            });
+        }
+        return transfers;
+    }
+
+    /**
+     * Pairs of distinct participants sharing their leading and trailing characters (vanity-generated
+     * look-alikes). Leading-zero vanity addresses (protocol deployments) are ignored.
+     */
+    private static lookalikes(subject: Transaction, transfers: Erc20Transfer[], flow: TokenFlow): [Address, Address][] {
+        const participants = new Set<Address>([
+            subject.from.toLowerCase(),
+            ...(subject.to ? [subject.to.toLowerCase()] : []),
+            ...Object.keys(flow),
+            ...transfers.flatMap(t => [t.from, t.to])
+        ]);
+
+        const buckets = new Map<string, Address[]>();
+        for (const address of participants) {
+            if (!/^0x[0-9a-f]{40}$/.test(address)) continue;
+            const head = address.slice(2, 2 + LOOKALIKE_PREFIX);
+            if (/^0+$/.test(head)) continue;
+
+            const key = `${head}:${address.slice(-LOOKALIKE_SUFFIX)}`;
+            buckets.set(key, [...(buckets.get(key) || []), address]);
+        }
+
+        const pairs: [Address, Address][] = [];
+        for (const group of buckets.values()) {
+            for (let i = 1; i < group.length; i++) pairs.push([group[0], group[i]]);
+        }
+        return pairs;
+    }
+
+    private static describe(transfers: Erc20Transfer[]): string[] {
+        return transfers.slice(0, MAX_EVIDENCE).map(t => `${t.token}: ${t.from} -> ${t.to} (${t.amount.toString()})`);
+    }
+}
@@ -0,0 +1,71 @@
+// src/services/classifier/infrastructure/RulePackRegistry.ts
+import { ethers } from 'ethers';
+import { DeclarativeRule } from '../rules/declarative/DeclarativeRule';
+import { RulePack, RulePackInput, RulePackSchema } from '../rules/declarative/RulePackSchema';
+
+/**
+ * Declarative rule packs currently active in this process.
+ *
+ * The engine evaluates these next to the built-in rules. Every change bumps `version`,
+ * which tells the engine to re-sort its rules and drop cached results.
+ */
+export class RulePackRegistry {
+    private packs = new Map<string, { pack: RulePack, rules: DeclarativeRule[] }>();
+    private revision = 0;
+
+    get version(): number {
+        return this.revision;
+    }
+
+    /**
+     * Short content hash of the loaded packs ('' when none), part of the classifier version.
+     * Unlike `version` it is stable across restarts and instances.
+     */
+    fingerprint(): string {
+        const packs = this.list().sort((a, b) => a.name.localeCompare(b.name));
+        if (packs.length === 0) return '';
+        return ethers.id(JSON.stringify(packs)).slice(2, 10);
+    }
+
+    /**
+     * Replaces every loaded pack (database reload). Invalid packs throw before anything changes.
+     */
+    replaceAll(packs: RulePackInput[]): void {
+        const next = new Map<string, { pack: RulePack, rules: DeclarativeRule[] }>();
+        for (const input of packs) {
+            const pack = RulePackSchema.parse(input);
+            next.set(pack.name, this.compile(pack));
+        }
+
+        this.packs = next;
+        this.revision++;
+    }
+
+    set(input: RulePackInput): RulePack {
+        const pack = RulePackSchema.parse(input);
+        this.packs.set(pack.name, this.compile(pack));
+        this.revision++;
+        return pack;
+    }
+
+    remove(name: string): boolean {
+        const removed = this.packs.delete(name);
+        if (removed) this.revision++;
+        return removed;
+    }
+
+    rules(): DeclarativeRule[] {
+        return [...this.packs.values()].flatMap(p => p.rules);
+    }
+
+    list(): RulePack[] {
+        return [...this.packs.values()].map(p => p.pack);
+    }
+
+    private compile(pack: RulePack) {
+        return { pack, rules: pack.rules.map(r => new DeclarativeRule(pack.name, r)) };
+    }
+}
+
+// Shared instance: the engine and the database loader see the same packs
+export const rulePackRegistry = new RulePackRegistry();
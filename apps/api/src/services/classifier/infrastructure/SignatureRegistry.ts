@@ -0,0 +1,224 @@
+// src/services/classifier/infrastructure/SignatureRegistry.ts
+import { ethers } from 'ethers';
+import { Address, HexString, Log } from '../core/types';
+import bundle from '../data/signatures.json';
+
+export interface DecodedArgument {
+    name: string;
+    type: string;
+    value: any; // bigints as decimal strings, bytes / addresses as lowercase hex
+}
+
+export interface DecodedCall {
+    name: string;
+    signature: string; // e.g. transfer(address,uint256)
+    selector: HexString;
+    args: DecodedArgument[];
+    source: 'contract' | 'registry'; // Verified ABI of the called contract, or the bundled / uploaded fragments
+}
+
+export interface DecodedEvent {
+    name: string;
+    signature: string;
+    topic: HexString;
+    args: DecodedArgument[];
+    source: 'contract' | 'registry';
+}
+
+interface SignatureBundle {
+    version: string;
+    functions: Record<string, string[]>;
+    events: Record<string, string[]>;
+}
+
+/**
+ * Offline 4-byte selector and event topic lookup.
+ *
+ * Seeded from `data/signatures.json` (regenerate with `scripts/update-signatures.js`). Verified
+ * contract ABIs uploaded by admins decode their own contract exactly; their fragments are also added
+ * to the shared tables so other contracts with the same selectors benefit.
+ *
+ * A selector can collide (e.g. `mint(uint256)` vs. vault `mint`), so registry candidates are tried in
+ * order and the first that decodes and re-encodes to the same calldata wins.
+ */
+export class SignatureRegistry {
+    private functions = new Map<string, ethers.FunctionFragment[]>();
+    private events = new Map<string, ethers.EventFragment[]>();
+    private contracts = new Map<string, ethers.Interface>();
+    readonly version: string;
+
+    constructor(seed: SignatureBundle = bundle) {
+        this.version = seed.version;
+        this.addFragments([...Object.values(seed.functions).flat(), ...Object.values(seed.events).flat()]);
+    }
+
+    /**
+     * Adds function and event fragments (human-readable or JSON ABI entries); everything else is ignored.
+     */
+    addFragments(abi: ReadonlyArray<string | ethers.JsonFragment>): void {
+        for (const item of abi) {
+            let fragment: ethers.Fragment;
+            try {
+                fragment = ethers.Fragment.from(item);
+            } catch {
+                continue; // Malformed entry in an uploaded ABI
+            }
+
+            if (ethers.FunctionFragment.isFragment(fragment)) {
+                this.insert(this.functions, fragment.selector, fragment);
+            } else if (ethers.EventFragment.isFragment(fragment)) {
+                this.insert(this.events, fragment.topicHash, fragment);
+            }
+        }
+    }
+
+    /**
+     * Registers the verified ABI of a deployed contract. Throws if the ABI cannot be parsed.
+     */
+    setContractAbi(chainId: number, address: Address, abi: ReadonlyArray<string | ethers.JsonFragment>): void {
+        const iface = new ethers.Interface(abi as any);
+        this.contracts.set(this.contractKey(chainId, address), iface);
+        this.addFragments(abi);
+    }
+
+    removeContractAbi(chainId: number, address: Address): boolean {
+        return this.contracts.delete(this.contractKey(chainId, address));
+    }
+
+    clearContractAbis(): void {
+        this.contracts.clear();
+    }
+
+    hasContractAbi(chainId: number, address: Address): boolean {
+        return this.contracts.has(this.contractKey(chainId, address));
+    }
+
+    lookupFunction(selector: string): string[] {
+        return (this.functions.get(selector.toLowerCase()) || []).map(f => f.format('full'));
+    }
+
+    lookupEvent(topic: string): string[] {
+        return (this.events.get(topic.toLowerCase()) || []).map(f => f.format('full'));
+    }
+
+    /**
+     * Decodes calldata, preferring the verified ABI of `target` on `chainId`. Null when unknown.
+     */
+    decodeFunction(data: HexString, target?: Address, chainId?: number): DecodedCall | null {
+        if (!data || data.length < 10) return null;
+        const selector = data.slice(0, 10).toLowerCase();
+
+        const iface = target && chainId !== undefined ? this.contracts.get(this.contractKey(chainId, target)) : undefined;
+        const verified = iface?.getFunction(selector);
+        if (iface && verified) {
+            try {
+                return this.toCall(verified, iface.decodeFunctionData(verified, data), 'contract');
+            } catch {
+                // Proxy whose implementation changed since the upload; fall through to the registry
+            }
+        }
+
+        let fallback: DecodedCall | null = null;
+        for (const fragment of this.functions.get(selector) || []) {
+            try {
+                const coder = new ethers.Interface([fragment]);
+                const args = coder.decodeFunctionData(fragment, data);
+                const call = this.toCall(fragment, args, 'registry');
+                if (coder.encodeFunctionData(fragment, args).toLowerCase() === data.toLowerCase()) return call;
+                fallback = fallback || call; // Decodes, but with trailing bytes or non-canonical padding
+            } catch {
+                continue;
+            }
+        }
+        return fallback;
+    }
+
+    /**
+     * Decodes a log, preferring the verified ABI of the emitting contract. Null when unknown.
+     */
+    decodeEvent(log: Pick<Log, 'address' | 'topics' | 'data'>, chainId?: number): DecodedEvent | null {
+        const [topic0] = log.topics;
+        if (!topic0) return null; // Anonymous event
+
+        const iface = chainId !== undefined ? this.contracts.get(this.contractKey(chainId, log.address)) : undefined;
+        if (iface) {
+            try {
+                const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+                if (parsed) return this.toEvent(parsed.fragment, parsed.args, 'contract');
+            } catch {
+                // Fall through to the registry
+            }
+        }
+
+        // ERC20 and ERC721 Transfer share a topic; the number of indexed inputs tells them apart
+        const candidates = (this.events.get(topic0.toLowerCase()) || [])
+            .filter(f => f.inputs.filter(i => i.indexed).length === log.topics.length - 1);
+
+        for (const fragment of candidates) {
+            try {
+                const args = new ethers.Interface([fragment]).decodeEventLog(fragment, log.data, [...log.topics]);
+                return this.toEvent(fragment, args, 'registry');
+            } catch {
+                continue;
+            }
+        }
+        return null;
+    }
+
+    private insert<T extends ethers.FunctionFragment | ethers.EventFragment>(map: Map<string, T[]>, key: string, fragment: T) {
+        const entries = map.get(key) || [];
+        if (!entries.some(e => this.layoutKey(e) === this.layoutKey(fragment))) entries.push(fragment);
+        map.set(key, entries);
+    }
+
+    // Same layout as scripts/update-signatures.js: one entry per signature (events: per indexed layout)
+    private layoutKey(fragment: ethers.FunctionFragment | ethers.EventFragment) {
+        return ethers.EventFragment.isFragment(fragment)
+            ? `${fragment.format('sighash')}|${fragment.inputs.map(i => (i.indexed ? 1 : 0)).join('')}`
+            : fragment.format('sighash');
+    }
+
+    private contractKey(chainId: number, address: Address) {
+        return `${chainId}:${address.toLowerCase()}`;
+    }
+
+    private toCall(fragment: ethers.FunctionFragment, args: ethers.Result, source: DecodedCall['source']): DecodedCall {
+        return {
+            name: fragment.name,
+            signature: fragment.format('sighash'),
+            selector: fragment.selector,
+            args: this.toArgs(fragment.inputs, args),
+            source
+        };
+    }
+
+    private toEvent(fragment: ethers.EventFragment, args: ethers.Result, source: DecodedEvent['source']): DecodedEvent {
+        return {
+            name: fragment.name,
+            signature: fragment.format('sighash'),
+            topic: fragment.topicHash,
+            args: this.toArgs(fragment.inputs, args),
+            source
+        };
+    }
+
+    private toArgs(inputs: ReadonlyArray<ethers.ParamType>, values: ethers.Result): DecodedArgument[] {
+        return inputs.map((input, i) => ({
+            name: input.name || `arg${i}`,
+            type: input.format('sighash'),
+            value: this.plain(values[i])
+        }));
+    }
+
+    // JSON-safe copy: bigints become strings, nested Results become arrays
+    private plain(value: any): any {
+        if (typeof value === 'bigint') return value.toString();
+        if (typeof value === 'string') return ethers.isHexString(value) ? value.toLowerCase() : value;
+        if (value instanceof ethers.Indexed) return value.hash; // Indexed dynamic type: only the hash is logged
+        if (Array.isArray(value)) return Array.from(value, v => this.plain(v));
+        return value;
+    }
+}
+
+// Shared instance: admin ABI uploads are visible to every classification
+export const signatureRegistry = new SignatureRegistry();
@@ -45,8 +45,8 @@ export class TokenFlowAnalyzer {
             receiver: Address,
             tokenId?: string
         ) => {
-            // Dust Filter
-            if (amountVal <= DUST_THRESHOLD) return;
+            // Dust Filter (fungible only: an NFT movement is always amount 1 or a small edition count)
+            if ((type === 'NATIVE' || type === 'ERC20') && amountVal <= DUST_THRESHOLD) return;
 
             const normalizedSender = record(sender);
             const normalizedReceiver = record(receiver);
@@ -1,43 +1,63 @@
 // src/services/classifier/resolvers/AccountAbstractionResolver.ts
-import { Transaction, Receipt, Log, ExecutionType, IExecutionResolver, Address } from '../core/types';
-import { Decoder } from '../utils';
+import { Transaction, Receipt, Log, ExecutionType, IExecutionResolver, Address, BigIntString } from '../core/types';
 
 // Standard AA Signatures (ERC-4337)
 const AA_SIGNATURES = {
-    HANDLE_OPS: '0x1fad948c', // handleOps
-    HANDLE_AGGREGATED_OPS: '0x4b1d7cf5', // handleAggregatedOps
+    HANDLE_OPS: '0x1fad948c', // handleOps (v0.6)
+    HANDLE_AGGREGATED_OPS: '0x4b1d7cf5', // handleAggregatedOps (v0.6)
+    HANDLE_OPS_V07: '0x765e827f', // handleOps(PackedUserOperation[],address)
+    HANDLE_AGGREGATED_OPS_V07: '0xdbed18e0', // handleAggregatedOps(UserOpsPerAggregator[],address)
+    // UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)
+    // Identical in v0.6 and v0.7
     USER_OPERATION_EVENT: '0x49628fd147100edb3ef1d7634f6e33006d4e28293976af321d22cb2b05c751a3'
 };
 
 // Known Entry Points (v0.6, v0.7)
 // TODO: Load from ChainConfig ideally, but static fallback here for resolver isolation if needed.
 // However, resolver should ideally check Config. For now, logic relies on standard addresses.
-const KNOWN_ENTRY_POINTS = new Set([
-    '0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789', // v0.6
-    '0x0000000071727de22e5e9d8baf0edac6f37da032', // v0.7
-]);
+const KNOWN_ENTRY_POINTS: Record<string, 'v0.6' | 'v0.7'> = {
+    '0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789': 'v0.6',
+    '0x0000000071727de22e5e9d8baf0edac6f37da032': 'v0.7',
+};
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const topicToAddress = (topic: string) => `0x${topic.slice(26)}`.toLowerCase();
+const word = (data: string, index: number) => BigInt(`0x${data.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'}`);
+
+/** One decoded `UserOperationEvent`. A bundle can carry operations from several smart accounts. */
+export interface UserOperationDetails {
+    userOpHash: string;
+    sender: Address; // Smart account
+    paymaster?: Address; // Undefined when the account paid its own gas
+    nonce: BigIntString;
+    success: boolean; // False when the account's call reverted inside a successful bundle
+    actualGasCost: BigIntString; // Wei charged to the account deposit or the paymaster
+    actualGasUsed: BigIntString;
+}
 
 export interface AADetails {
     isAccountAbstraction: boolean;
     entryPoint?: Address;
+    entryPointVersion?: 'v0.6' | 'v0.7';
     bundler?: Address;
     actualSender: Address;
+    // Primary operation (the first in the bundle); all operations are listed in userOperations
+    paymaster?: Address;
+    userOpHash?: string;
+    success?: boolean;
+    actualGasCost?: BigIntString;
+    actualGasUsed?: BigIntString;
+    userOperations: UserOperationDetails[];
 }
 
 export class AccountAbstractionResolver implements IExecutionResolver {
 
     /**
      * Resolves ERC-4337 Account Abstraction Usage.
-     * Acts as a metadata resolver, doesn't force 'ACCOUNT_ABSTRACTION' type unless specificity allows.
+     * ExecutionResolver uses detectAA() directly to get the decoded operations.
      */
     async resolve(tx: Transaction, receipt: Receipt, logs: Log[]): Promise<ExecutionType> {
-        // We return ExecutionType.ACCOUNT_ABSTRACTION if it's a direct bundler call?
-        // Or strictly if the user intent was AA.
-        // User requirements say: "Act as metadata only... If AA detected via proxy... let ExecutionResolver merge."
-        // But the Interface returns `ExecutionType`.
-        // We will return `ExecutionType.ACCOUNT_ABSTRACTION` if detected. 
-        // The ExecutionResolver will handle precedence/merging if needed.
-
         const details = this.detectAA(tx, logs);
         if (details.isAccountAbstraction) {
             return ExecutionType.ACCOUNT_ABSTRACTION;
@@ -53,56 +73,70 @@ export class AccountAbstractionResolver implements IExecutionResolver {
         const input = tx.data.toLowerCase();
 
         // 1. Check direct interaction with EntryPoint
-        const isEntryPointCall = KNOWN_ENTRY_POINTS.has(to) &&
-            (input.startsWith(AA_SIGNATURES.HANDLE_OPS) || input.startsWith(AA_SIGNATURES.HANDLE_AGGREGATED_OPS));
-
-        if (isEntryPointCall) {
-            // Determine actual sender from UserOp? Hard without decoding exec data.
-            // For now, bundler is tx.from. Actual sender (User) is inside validaton logs.
-            // We'll rely on events.
-        }
+        const isEntryPointCall = !!KNOWN_ENTRY_POINTS[to] && [
+            AA_SIGNATURES.HANDLE_OPS,
+            AA_SIGNATURES.HANDLE_AGGREGATED_OPS,
+            AA_SIGNATURES.HANDLE_OPS_V07,
+            AA_SIGNATURES.HANDLE_AGGREGATED_OPS_V07
+        ].some(selector => input.startsWith(selector));
 
-        // 2. Check UserOperationEvent
-        const aaEvent = logs.find(l =>
+        // 2. Decode UserOperationEvents
+        // Event usage confirms AA even if not a direct top-level call (e.g. bundler contracts)
+        const aaEvents = logs.filter(l =>
             l.topics[0] === AA_SIGNATURES.USER_OPERATION_EVENT &&
-            KNOWN_ENTRY_POINTS.has(l.address.toLowerCase())
+            l.topics.length === 4 &&
+            !!KNOWN_ENTRY_POINTS[l.address.toLowerCase()]
         );
 
-        if (aaEvent) {
-            // Event usage confirms AA even if not a direct top-level call (e.g. batch)
-            // Extract sender from event topics? 
-            // UserOperationEvent(bytes32 userOpHash, address indexed sender, address indexed paymaster, ...)
-            // Topic 0: Sig
-            // Topic 1: userOpHash (not indexed usually?) Wait, abi says:
-            // event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed);
-            // Topics: [Sig, userOpHash, sender, paymaster]
-
-            let sender = '0x0000000000000000000000000000000000000000';
-            if (aaEvent.topics.length >= 3) {
-                sender = Decoder.normalizeAddress(aaEvent.topics[2]);
-            }
+        if (aaEvents.length > 0) {
+            const userOperations = aaEvents.map(l => this.decodeUserOperation(l));
+            const primary = userOperations[0];
+            const entryPoint = aaEvents[0].address.toLowerCase();
 
             return {
                 isAccountAbstraction: true,
-                entryPoint: aaEvent.address.toLowerCase(),
+                entryPoint,
+                entryPointVersion: KNOWN_ENTRY_POINTS[entryPoint],
                 bundler: tx.from.toLowerCase(), // The EOA that submitted the batch
-                actualSender: sender
+                actualSender: primary.sender,
+                paymaster: primary.paymaster,
+                userOpHash: primary.userOpHash,
+                success: primary.success,
+                actualGasCost: primary.actualGasCost,
+                actualGasUsed: primary.actualGasUsed,
+                userOperations
             };
         }
 
-        // 3. Fallback: If Direct EntryPoint call but event parsing failed?
+        // 3. Fallback: Direct EntryPoint call without events (e.g. the bundle itself reverted)
         if (isEntryPointCall) {
             return {
                 isAccountAbstraction: true,
                 entryPoint: to,
+                entryPointVersion: KNOWN_ENTRY_POINTS[to],
                 bundler: tx.from.toLowerCase(),
-                actualSender: '0x0000000000000000000000000000000000000000' // Unknown without event
+                actualSender: ZERO_ADDRESS, // Unknown without event
+                userOperations: []
             };
         }
 
         return {
             isAccountAbstraction: false,
-            actualSender: tx.from.toLowerCase() // Default to EOA
+            actualSender: tx.from.toLowerCase(), // Default to EOA
+            userOperations: []
+        };
+    }
+
+    private decodeUserOperation(log: Log): UserOperationDetails {
+        const paymaster = topicToAddress(log.topics[3]);
+        return {
+            userOpHash: log.topics[1].toLowerCase(),
+            sender: topicToAddress(log.topics[2]),
+            paymaster: paymaster === ZERO_ADDRESS ? undefined : paymaster,
+            nonce: word(log.data, 0).toString(),
+            success: word(log.data, 1) !== BigInt(0),
+            actualGasCost: word(log.data, 2).toString(),
+            actualGasUsed: word(log.data, 3).toString()
         };
     }
 }
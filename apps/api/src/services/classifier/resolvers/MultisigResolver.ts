@@ -1,19 +1,61 @@
-import { Transaction, Receipt, Log, ExecutionType, IExecutionResolver } from '../core/types';
+import { ethers } from 'ethers';
+import { Transaction, Receipt, Log, ExecutionType, IExecutionResolver, Address, BigIntString, HexString, TransactionType } from '../core/types';
+import { IntentDecoder } from '../infrastructure/IntentDecoder';
+import { signatureRegistry } from '../infrastructure/SignatureRegistry';
 
 const SAFE_SIGNATURES = {
     // execTransaction
     EXEC_TRANSACTION: '0x6a761202',
+    // multiSend(bytes) on MultiSend / MultiSendCallOnly
+    MULTI_SEND: '0x8d80ff0a',
     // ExecutionSuccess(bytes32 txHash, uint256 payment)
-    EXECUTION_SUCCESS: '0x442e715f626346e8c54381002da614f62bee8cf2088c564363b46925e01e4756',
-    // ExecutionFailure
-    EXECUTION_FAILURE: '0x23428b18acfb3ea64b08dc0c1d476c9b20e41946905b9dde7984e005723701f0'
+    EXECUTION_SUCCESS: '0x442e715f626346e8c54381002da614f62bee8d27386535b2521ec8540898556e',
+    // ExecutionFailure(bytes32 txHash, uint256 payment)
+    EXECUTION_FAILURE: '0x23428b18acfb3ea64b08dc0c1d296ea9c09702c09083ca5272e64d115b687d23',
+    // SafeMultiSigTransaction(...) — emitted by SafeL2 only; additionalInfo carries the nonce
+    SAFE_MULTISIG_TRANSACTION: '0x66753cd2356569ee081232e3be8909b950e0a76c1f8460c3a5e3c2be32b11bed'
 };
 
+// Bookkeeping events a Safe emits around the wrapped call; they say nothing about the action itself
+export const SAFE_EXECUTION_EVENTS = [
+    SAFE_SIGNATURES.EXECUTION_SUCCESS,
+    SAFE_SIGNATURES.EXECUTION_FAILURE,
+    SAFE_SIGNATURES.SAFE_MULTISIG_TRANSACTION
+];
+
 const ARGENT_SIGNATURES = {
     // execute(address,bytes,uint256) (common variant)
     EXECUTE: '0xb61d27f6'
 };
 
+const safeInterface = new ethers.Interface([
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)',
+    'function multiSend(bytes transactions)',
+    'event SafeMultiSigTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures, bytes additionalInfo)'
+]);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+/** One call made by a Safe (the execTransaction target, or one entry of a MultiSend batch). */
+export interface SafeCall {
+    operation: 'call' | 'delegatecall';
+    to: Address;
+    value: BigIntString;
+    data: HexString;
+    method?: string; // Function name when the selector is a known one
+    intent?: TransactionType;
+}
+
+export interface SafeDetails {
+    safe: Address;
+    executor: Address; // Owner / relayer that submitted execTransaction and paid the gas
+    nonce?: string; // From SafeMultiSigTransaction (SafeL2); undefined on L1 Safes
+    threshold?: number;
+    safeTxHash?: string;
+    success?: boolean; // ExecutionSuccess / ExecutionFailure; undefined if neither was emitted
+    payment?: BigIntString; // Gas refund the Safe paid to the executor
+    calls: SafeCall[]; // MultiSend batch unpacked, otherwise the single execTransaction call
+}
+
 export class MultisigResolver implements IExecutionResolver {
     async resolve(tx: Transaction, receipt: Receipt, logs: Log[]): Promise<ExecutionType> {
         const input = tx.data.toLowerCase();
@@ -50,8 +92,99 @@ export class MultisigResolver implements IExecutionResolver {
         // If we called a contract that used a multisig internally, does the TX count as Multisig?
         // Usually NO, unless the Sender was the Multisig (Meta Transaction / Relayer).
         // Here we focus on "Did we interact with a Multisig?"
-        // If tx.to IS the multisig, yes. 
+        // If tx.to IS the multisig, yes.
 
         return ExecutionType.UNKNOWN;
     }
+
+    /**
+     * Decodes a top-level Safe execTransaction: the wrapped call(s), the outcome and (SafeL2) the nonce.
+     * Returns null for anything else, including module executions and nested Safes.
+     */
+    public decodeSafe(tx: Transaction, logs: Log[]): SafeDetails | null {
+        const safe = tx.to?.toLowerCase();
+        if (!safe || !tx.data.toLowerCase().startsWith(SAFE_SIGNATURES.EXEC_TRANSACTION)) return null;
+
+        let call: SafeCall;
+        try {
+            const parsed = safeInterface.decodeFunctionData('execTransaction', tx.data);
+            call = {
+                operation: Number(parsed[3]) === 1 ? 'delegatecall' : 'call',
+                to: String(parsed[0]).toLowerCase(),
+                value: parsed[1].toString(),
+                data: String(parsed[2]).toLowerCase()
+            };
+        } catch {
+            return null; // Selector collision / malformed calldata
+        }
+
+        const calls = (this.unpackMultiSend(call) || [call]).map(c => {
+            const intent = IntentDecoder.decode({ ...tx, to: c.to, data: c.data, value: c.value });
+            if (intent) return { ...c, method: intent.method, intent: intent.type };
+
+            const decoded = signatureRegistry.decodeFunction(c.data);
+            return decoded ? { ...c, method: decoded.name } : c;
+        });
+
+        const details: SafeDetails = {
+            safe,
+            executor: tx.from.toLowerCase(),
+            calls
+        };
+
+        for (const log of logs) {
+            if (log.address.toLowerCase() !== safe) continue;
+            const [topic0] = log.topics;
+
+            if (topic0 === SAFE_SIGNATURES.EXECUTION_SUCCESS || topic0 === SAFE_SIGNATURES.EXECUTION_FAILURE) {
+                // txHash is indexed from Safe v1.5; earlier versions put both fields in data
+                const indexed = log.topics.length > 1;
+                const words = log.data.slice(2).match(/.{64}/g) || [];
+                details.success = topic0 === SAFE_SIGNATURES.EXECUTION_SUCCESS;
+                details.safeTxHash = indexed ? log.topics[1] : `0x${words[0]}`;
+                details.payment = BigInt(`0x${(indexed ? words[0] : words[1]) || '0'}`).toString();
+            }
+
+            if (topic0 === SAFE_SIGNATURES.SAFE_MULTISIG_TRANSACTION) {
+                try {
+                    const event = safeInterface.parseLog({ topics: log.topics as string[], data: log.data });
+                    const [nonce, , threshold] = coder.decode(['uint256', 'address', 'uint256'], event!.args.additionalInfo);
+                    details.nonce = nonce.toString();
+                    details.threshold = Number(threshold);
+                } catch {
+                    // Non-standard L2 Safe; nonce stays unknown
+                }
+            }
+        }
+
+        return details;
+    }
+
+    /**
+     * MultiSend packs each call as: operation (1 byte) | to (20) | value (32) | data length (32) | data.
+     */
+    private unpackMultiSend(call: SafeCall): SafeCall[] | null {
+        if (!call.data.startsWith(SAFE_SIGNATURES.MULTI_SEND)) return null;
+
+        try {
+            const [packed] = safeInterface.decodeFunctionData('multiSend', call.data);
+            const hex = String(packed).slice(2);
+            const calls: SafeCall[] = [];
+
+            let i = 0;
+            while (i < hex.length) {
+                const operation = parseInt(hex.slice(i, i + 2), 16);
+                const to = `0x${hex.slice(i + 2, i + 42)}`;
+                const value = BigInt(`0x${hex.slice(i + 42, i + 106)}`);
+                const length = Number(BigInt(`0x${hex.slice(i + 106, i + 170)}`));
+                const data = `0x${hex.slice(i + 170, i + 170 + length * 2)}`;
+                calls.push({ operation: operation === 1 ? 'delegatecall' : 'call', to, value: value.toString(), data });
+                i += 170 + length * 2;
+            }
+
+            return calls.length > 0 ? calls : null;
+        } catch {
+            return null;
+        }
+    }
 }
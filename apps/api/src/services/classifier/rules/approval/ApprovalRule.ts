@@ -0,0 +1,193 @@
+// src/services/classifier/rules/approval/ApprovalRule.ts
+import { ClassificationRule, RuleResult } from '../../core/Rule';
+import { ClassificationContext } from '../../core/Context';
+import { Log, TokenApproval, TransactionType } from '../../core/types';
+
+const APPROVAL_EVENTS = {
+    APPROVAL: '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925', // ERC20 (3 topics) / ERC721 (4 topics)
+    APPROVAL_FOR_ALL: '0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31',
+    PERMIT2_APPROVAL: '0xda9fa7c1b00402c17d0161b249b1ab8bbec047c5a52207b9c112deffd817036b', // Approval(owner, token, spender, amount, expiration)
+    PERMIT2_PERMIT: '0xc6a377bfc4eb120024a8ac08eef205be16b817020812c73223e81d1bdb9708ec', // Permit(owner, token, spender, amount, expiration, nonce)
+    PERMIT2_LOCKDOWN: '0x89b1add15eff56b3dfe299ad94e01f2b52fbcb80ae1a3baea6ae8c04cb2b98a4', // Lockdown(owner, token, spender)
+};
+
+const APPROVAL_SELECTORS = [
+    '0x095ea7b3', // approve(address,uint256)
+    '0x39509351', // increaseAllowance(address,uint256)
+    '0xa457c2d7', // decreaseAllowance(address,uint256)
+    '0xa22cb465', // setApprovalForAll(address,bool)
+    '0x87517c45', // Permit2 approve(address,address,uint160,uint48)
+    '0xcc53287f', // Permit2 lockdown((address,address)[])
+];
+
+// Signed approvals are often submitted by a relayer, so the owner need not be tx.from
+const PERMIT_SELECTORS = [
+    '0xd505accf', // EIP-2612 permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
+    '0x8fcbaf0c', // DAI-style permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)
+    '0x2b67b570', // Permit2 permit(owner, PermitSingle, signature)
+    '0x2a2d80d1', // Permit2 permit(owner, PermitBatch, signature)
+];
+
+// Allowances at or above 2^128 are treated as "unlimited" (covers MaxUint256 and Permit2's MaxUint160)
+const UNLIMITED_THRESHOLD = BigInt(2) ** BigInt(128);
+
+const topicToAddress = (topic: string) => `0x${topic.slice(26)}`.toLowerCase();
+const word = (data: string, index: number) => BigInt(`0x${data.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'}`);
+
+export class ApprovalRule implements ClassificationRule {
+    id = 'token_approval';
+    name = 'Token Approval / Permit';
+    priority = 85; // Approvals carry no token flow, so they never compete with flow-based rules
+
+    matches(ctx: ClassificationContext): boolean {
+        const selector = (ctx.tx.data || '').slice(0, 10).toLowerCase();
+        if (APPROVAL_SELECTORS.includes(selector) || PERMIT_SELECTORS.includes(selector)) return true;
+        return ctx.receipt.logs.some(l => Object.values(APPROVAL_EVENTS).includes(l.topics[0]));
+    }
+
+    classify(ctx: ClassificationContext): RuleResult {
+        const sender = ctx.tx.from.toLowerCase();
+        const selector = (ctx.tx.data || '').slice(0, 10).toLowerCase();
+        const isPermitCall = PERMIT_SELECTORS.includes(selector);
+        const target = ctx.tx.to?.toLowerCase();
+        const reasons: string[] = [];
+
+        // --- 1. HARD GATE: no token flow ---
+        // Router swaps emit Approval (allowance decrease on transferFrom); those belong to flow rules.
+        const flow = ctx.flow[sender];
+        if (flow && (flow.incoming.length > 0 || flow.outgoing.length > 0)) return null as any;
+
+        // --- 2. DECODE ---
+        const approvals: TokenApproval[] = [];
+        for (const log of ctx.receipt.logs) {
+            const approval = this.decode(log);
+            if (!approval) continue;
+
+            const ownedBySender = approval.owner === sender;
+            const signedPermit = isPermitCall && log.address.toLowerCase() === target;
+            if (!ownedBySender && !signedPermit) continue;
+
+            if (isPermitCall && approval.standard === 'ERC20') approval.standard = 'EIP2612';
+            approvals.push(approval);
+        }
+
+        if (approvals.length === 0) return null as any;
+
+        // --- 3. SCORING ---
+        let confidence = 0.5; // Approval event owned by the user (or a signed permit)
+        reasons.push(`Decoded ${approvals.length} allowance change(s)`);
+
+        confidence += 0.3;
+        reasons.push('No token movement (pure allowance change)');
+
+        const methodMatch = APPROVAL_SELECTORS.includes(selector) || isPermitCall;
+        if (methodMatch) {
+            confidence += 0.15;
+            reasons.push(isPermitCall ? 'Signed permit submitted' : 'Approval method selector');
+        }
+
+        for (const approval of approvals) {
+            if (approval.revoke) reasons.push(`Revoked ${approval.spender} on ${approval.token}`);
+            else if (approval.unlimited) reasons.push(`Unlimited allowance to ${approval.spender} on ${approval.token}`);
+        }
+
+        const allRevoked = approvals.every(a => a.revoke);
+        const standards = new Set(approvals.map(a => a.standard));
+        const protocol = standards.has('PERMIT2') ? 'Permit2'
+            : standards.has('EIP2612') ? 'EIP-2612 Permit'
+                : standards.has('ERC721') || standards.has('ERC721_ALL') ? 'NFT Approval'
+                    : 'ERC20 Approval';
+
+        return {
+            type: allRevoked ? TransactionType.TOKEN_REVOKE : TransactionType.TOKEN_APPROVAL,
+            confidence: Math.min(confidence, 1.0),
+            breakdown: {
+                eventMatch: 1.0,
+                methodMatch: methodMatch ? 1.0 : 0,
+                addressMatch: 0,
+                tokenFlowMatch: 1.0,
+                executionMatch: 1.0
+            },
+            protocol,
+            reasons,
+            details: { approvals }
+        };
+    }
+
+    private decode(log: Log): TokenApproval | null {
+        const [topic0] = log.topics;
+        const emitter = log.address.toLowerCase();
+
+        try {
+            if (topic0 === APPROVAL_EVENTS.APPROVAL && log.topics.length === 3) {
+                const amount = word(log.data, 0);
+                return {
+                    standard: 'ERC20',
+                    owner: topicToAddress(log.topics[1]),
+                    token: emitter,
+                    spender: topicToAddress(log.topics[2]),
+                    amount: amount.toString(),
+                    unlimited: amount >= UNLIMITED_THRESHOLD,
+                    revoke: amount === BigInt(0)
+                };
+            }
+
+            if (topic0 === APPROVAL_EVENTS.APPROVAL && log.topics.length === 4) {
+                // ERC721 single-token approval; approving the zero address clears it
+                const spender = topicToAddress(log.topics[2]);
+                return {
+                    standard: 'ERC721',
+                    owner: topicToAddress(log.topics[1]),
+                    token: emitter,
+                    spender,
+                    amount: BigInt(log.topics[3]).toString(),
+                    unlimited: false,
+                    revoke: /^0x0{40}$/.test(spender)
+                };
+            }
+
+            if (topic0 === APPROVAL_EVENTS.APPROVAL_FOR_ALL) {
+                const approved = word(log.data, 0) !== BigInt(0);
+                return {
+                    standard: 'ERC721_ALL',
+                    owner: topicToAddress(log.topics[1]),
+                    token: emitter,
+                    spender: topicToAddress(log.topics[2]),
+                    amount: approved ? '1' : '0',
+                    unlimited: approved, // Operator can move every token in the collection
+                    revoke: !approved
+                };
+            }
+
+            if (topic0 === APPROVAL_EVENTS.PERMIT2_APPROVAL || topic0 === APPROVAL_EVENTS.PERMIT2_PERMIT) {
+                const amount = word(log.data, 0);
+                return {
+                    standard: 'PERMIT2',
+                    owner: topicToAddress(log.topics[1]),
+                    token: topicToAddress(log.topics[2]),
+                    spender: topicToAddress(log.topics[3]),
+                    amount: amount.toString(),
+                    unlimited: amount >= UNLIMITED_THRESHOLD,
+                    revoke: amount === BigInt(0),
+                    expiration: Number(word(log.data, 1))
+                };
+            }
+
+            if (topic0 === APPROVAL_EVENTS.PERMIT2_LOCKDOWN) {
+                return {
+                    standard: 'PERMIT2',
+                    owner: topicToAddress(log.topics[1]),
+                    token: topicToAddress(log.topics[2]),
+                    spender: topicToAddress(log.topics[3]),
+                    amount: '0',
+                    unlimited: false,
+                    revoke: true
+                };
+            }
+        } catch {
+            // Malformed log (non-standard emitter); ignore
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,115 @@
+// src/services/classifier/rules/declarative/DeclarativeRule.ts
+import { ClassificationRule, RuleResult } from '../../core/Rule';
+import { ClassificationContext } from '../../core/Context';
+import { ConfidenceBreakdown, TokenMovement } from '../../core/types';
+import { ConfidenceSignal, DeclarativeRuleDefinition } from './RulePackSchema';
+
+/**
+ * A ClassificationRule compiled from a rule pack definition (see RulePackSchema).
+ * Ids are prefixed with the pack name so they never collide with built-in rules.
+ */
+export class DeclarativeRule implements ClassificationRule {
+    readonly id: string;
+    readonly name: string;
+    readonly priority: number;
+
+    private readonly to: Set<string>;
+    private readonly contracts: Set<string>;
+    private readonly selectors: Set<string>;
+
+    constructor(readonly pack: string, private readonly definition: DeclarativeRuleDefinition) {
+        this.id = `${pack}:${definition.id}`;
+        this.name = definition.name;
+        this.priority = definition.priority;
+        this.to = new Set(definition.match.to);
+        this.contracts = new Set(definition.match.contracts);
+        this.selectors = new Set(definition.match.selectors);
+    }
+
+    matches(ctx: ClassificationContext): boolean {
+        const { chains, confidence } = this.definition;
+        if (chains && !chains.includes(ctx.chain.chainId)) return false;
+        if (confidence.required.length === 0) return true;
+
+        const breakdown = this.score(ctx);
+        return confidence.required.every(s => breakdown[s] === 1);
+    }
+
+    classify(ctx: ClassificationContext): RuleResult {
+        const { type, protocol, confidence } = this.definition;
+        const breakdown = this.score(ctx);
+
+        let score = confidence.base;
+        for (const [signal, weight] of Object.entries(confidence.weights) as [ConfidenceSignal, number][]) {
+            score += weight * breakdown[signal];
+        }
+        score = Math.min(score, 1.0);
+
+        if (score < confidence.min) return null as any;
+
+        const met = (Object.keys(breakdown) as ConfidenceSignal[]).filter(s => breakdown[s] > 0);
+        return {
+            type,
+            confidence: score,
+            breakdown,
+            protocol,
+            reasons: [
+                `Rule pack ${this.pack}: ${this.name}`,
+                `Signals: ${met.length > 0 ? met.map(s => `${s} ${breakdown[s].toFixed(2)}`).join(', ') : 'none'}`
+            ],
+            details: { rulePack: this.pack, ruleId: this.id }
+        };
+    }
+
+    private score(ctx: ClassificationContext): ConfidenceBreakdown {
+        const { match, flow } = this.definition;
+        const to = (ctx.tx.to || '').toLowerCase();
+        const logs = ctx.receipt.logs;
+        const emitters = new Set(logs.map(l => l.address.toLowerCase()));
+
+        const executionMatch = this.to.has(to) || this.to.has(ctx.effectiveTo) ? 1 : 0;
+        const addressMatch = this.contracts.has(to) || this.contracts.has(ctx.effectiveTo) || [...emitters].some(e => this.contracts.has(e)) ? 1 : 0;
+        const methodMatch = this.selectors.has((ctx.tx.data || '').slice(0, 10).toLowerCase()) ? 1 : 0;
+
+        let eventMatch = 0;
+        if (match.events.length > 0) {
+            const topics = new Set(logs
+                .filter(l => !match.eventsFromContracts || this.contracts.has(l.address.toLowerCase()))
+                .map(l => (l.topics[0] || '').toLowerCase()));
+            eventMatch = match.events.filter(t => topics.has(t)).length / match.events.length;
+        }
+
+        return {
+            eventMatch,
+            methodMatch,
+            addressMatch,
+            tokenFlowMatch: flow && this.flowMatches(ctx) ? 1 : 0,
+            executionMatch
+        };
+    }
+
+    private flowMatches(ctx: ClassificationContext): boolean {
+        const flow = this.definition.flow!;
+        const userFlow = ctx.getUserFlow(ctx.tx.from);
+        const dust = ctx.chain.dustThreshold;
+        const meaningful = (m: TokenMovement) => m.type === 'ERC721' || m.type === 'ERC1155' || BigInt(m.amount) > dust;
+
+        const outgoing = (userFlow?.outgoing || []).filter(meaningful);
+        const incoming = (userFlow?.incoming || []).filter(meaningful);
+
+        const sideMatches = (movements: TokenMovement[], side?: NonNullable<typeof flow.outgoing>) => {
+            if (!side) return true;
+            if (movements.length < side.min) return false;
+            if (side.max !== undefined && movements.length > side.max) return false;
+            return !side.types || movements.every(m => side.types!.includes(m.type));
+        };
+
+        if (!sideMatches(outgoing, flow.outgoing) || !sideMatches(incoming, flow.incoming)) return false;
+
+        if (flow.distinctAssets) {
+            const sent = new Set(outgoing.map(m => m.asset.toLowerCase()));
+            if (incoming.some(m => sent.has(m.asset.toLowerCase()))) return false;
+        }
+        return true;
+    }
+}
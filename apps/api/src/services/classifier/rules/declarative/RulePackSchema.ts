@@ -0,0 +1,120 @@
+// src/services/classifier/rules/declarative/RulePackSchema.ts
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import { TransactionType } from '../../core/types';
+
+const address = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format').transform(a => a.toLowerCase());
+
+// Raw hash or a signature the hash is derived from, e.g. 'swap(uint256,uint256,address,bytes)'
+const selector = z.string().min(1).transform((val, ctx) => {
+    if (/^0x[a-fA-F0-9]{8}$/.test(val)) return val.toLowerCase();
+    try {
+        return ethers.FunctionFragment.from(val).selector;
+    } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a 4-byte selector or function signature: ${val}` });
+        return z.NEVER;
+    }
+});
+
+const topic = z.string().min(1).transform((val, ctx) => {
+    if (/^0x[a-fA-F0-9]{64}$/.test(val)) return val.toLowerCase();
+    try {
+        return ethers.EventFragment.from(val).topicHash;
+    } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not an event topic or event signature: ${val}` });
+        return z.NEVER;
+    }
+});
+
+const movementType = z.enum(['ERC20', 'ERC721', 'ERC1155', 'NATIVE']);
+
+const flowSide = z.object({
+    min: z.number().int().min(0).default(1), // Movements (above dust) the sender must have on this side
+    max: z.number().int().min(0).optional(),
+    types: z.array(movementType).min(1).optional() // Every movement must be one of these
+});
+
+const signal = z.enum(['eventMatch', 'methodMatch', 'addressMatch', 'tokenFlowMatch', 'executionMatch']);
+
+/**
+ * One rule. Each signal is scored 0..1 from the `match` / `flow` sections; confidence is
+ * `base` plus the weighted signals (the ConfidenceBreakdown mapping), capped at 1.
+ *
+ * - executionMatch: the transaction calls one of `match.to`
+ * - addressMatch: the transaction calls, or a log is emitted by, one of `match.contracts`
+ * - methodMatch: the calldata selector is one of `match.selectors`
+ * - eventMatch: share of `match.events` present (emitted by `match.contracts` when `eventsFromContracts`)
+ * - tokenFlowMatch: the sender's token flow satisfies `flow`
+ */
+export const DeclarativeRuleSchema = z.object({
+    id: z.string().regex(/^[a-z0-9_]+$/, 'Rule ids are lowercase snake_case').max(64),
+    name: z.string().min(1).max(100),
+    priority: z.number().int().min(1).max(99), // Built-in contract creation (100) always runs first
+    type: z.nativeEnum(TransactionType).refine(
+        t => t !== TransactionType.CONTRACT_DEPLOYMENT && t !== TransactionType.UNKNOWN && t !== TransactionType.UNCLASSIFIED_COMPLEX,
+        { message: 'Type is reserved for the engine' }
+    ),
+    protocol: z.string().min(1).max(50).optional(),
+    chains: z.array(z.number().int().positive()).min(1).optional(), // Omitted = every chain
+
+    match: z.object({
+        to: z.array(address).default([]),
+        contracts: z.array(address).default([]),
+        selectors: z.array(selector).default([]),
+        events: z.array(topic).default([]),
+        eventsFromContracts: z.boolean().default(false)
+    }).default({}),
+
+    flow: z.object({
+        outgoing: flowSide.optional(),
+        incoming: flowSide.optional(),
+        distinctAssets: z.boolean().default(false) // Nothing sent is also received (swaps, not wraps)
+    }).optional(),
+
+    confidence: z.object({
+        base: z.number().min(0).max(1).default(0),
+        weights: z.record(signal, z.number().min(0).max(1)).default({}),
+        required: z.array(signal).default([]), // Signals that must be fully met for the rule to apply
+        min: z.number().min(0.55).max(1).default(0.7) // Below this the rule abstains
+    })
+}).superRefine((rule, ctx) => {
+    const { match, confidence } = rule;
+    const configured: Record<z.infer<typeof signal>, boolean> = {
+        executionMatch: match.to.length > 0,
+        addressMatch: match.contracts.length > 0,
+        methodMatch: match.selectors.length > 0,
+        eventMatch: match.events.length > 0,
+        tokenFlowMatch: !!rule.flow
+    };
+
+    for (const s of [...Object.keys(confidence.weights), ...confidence.required] as z.infer<typeof signal>[]) {
+        if (!configured[s]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['confidence'], message: `${s} is weighted or required but has no matching criteria` });
+    }
+
+    const reachable = confidence.base + Object.values(confidence.weights).reduce((sum, w) => sum + (w || 0), 0);
+    if (reachable < confidence.min) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['confidence'], message: `Maximum confidence ${reachable.toFixed(2)} is below min ${confidence.min}` });
+    }
+    if (match.eventsFromContracts && match.contracts.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['match', 'eventsFromContracts'], message: 'Requires match.contracts' });
+    }
+});
+
+/**
+ * A named, versioned set of rules (one `rule_packs` row), e.g. all Aerodrome rules.
+ */
+export const RulePackSchema = z.object({
+    name: z.string().regex(/^[a-z0-9-]+$/, 'Pack names are lowercase kebab-case').max(64),
+    version: z.number().int().positive().default(1),
+    description: z.string().max(500).optional(),
+    rules: z.array(DeclarativeRuleSchema).min(1).max(50)
+}).superRefine((pack, ctx) => {
+    const ids = pack.rules.map(r => r.id);
+    const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+    if (duplicate) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules'], message: `Duplicate rule id: ${duplicate}` });
+});
+
+export type DeclarativeRuleDefinition = z.infer<typeof DeclarativeRuleSchema>;
+export type RulePack = z.infer<typeof RulePackSchema>;
+export type RulePackInput = z.input<typeof RulePackSchema>;
+export type ConfidenceSignal = z.infer<typeof signal>;
@@ -0,0 +1,187 @@
+// src/services/classifier/rules/dex/LiquidityRule.ts
+import { ethers } from 'ethers';
+import { ClassificationRule, RuleResult } from '../../core/Rule';
+import { ClassificationContext } from '../../core/Context';
+import { LiquidityPosition, Log, TransactionType } from '../../core/types';
+
+const LIQUIDITY_EVENTS = {
+    MINT_V2: '0x4c209b5fc8ad50758f13e2e1088ba56a560dff690a1c6fef26394f4c03821c4f', // Mint(sender, amount0, amount1)
+    BURN_V2: '0xdccd412f0b1252819cb1fd330b93224ca42612892bb3f4f789976e6d81936496', // Burn(sender, amount0, amount1, to)
+    MINT_V3: '0x7a53080ba414158be7ec69b987b5fb7d07dee101fe85488f0853ae16239d0bde', // Mint(sender, owner, tickLower, tickUpper, amount, amount0, amount1)
+    BURN_V3: '0x0c396cd989a39f4459b5fa1aed6a9a8dcdbc45908acfd67e028cd568da98982c', // Burn(owner, tickLower, tickUpper, amount, amount0, amount1)
+    INCREASE_LIQUIDITY: '0x3067048beee31b25b2f1681f88dac838c8bba36af25bfb2b7cf7473a5847e35f', // NonfungiblePositionManager
+    DECREASE_LIQUIDITY: '0x26f6a048ee9138f2c0ce266f322cb99228e8d619ae2bff30c67f8dcf9d2377b4', // NonfungiblePositionManager
+    BALANCER_POOL_BALANCE_CHANGED: '0xe5ce249087ce04f05a957192435400fd97868dba0e6a4b4c049abf8af80dae78', // Vault: PoolBalanceChanged(poolId, provider, tokens, deltas, fees)
+};
+
+const CURVE_EVENTS: Record<string, 'add' | 'remove'> = {
+    '0x26f55a85081d24974e85c6c00045d0f0453991e95873f52bff0d21af4079a768': 'add', // AddLiquidity (2 coins)
+    '0x423f6495a08fc652425cf4ed0d1f9e37e571d9b9529b1c1c23cce780b2e7df0d': 'add', // AddLiquidity (3 coins)
+    '0x7c363854ccf79623411f8995b362bce5eddff18c927edc6f5dbbb5e05819a82c': 'remove', // RemoveLiquidity (2 coins)
+    '0xa49d4cf02656aebf8c771f5a8585638a2a15ee6c97cf7205d4208ed7c1df252d': 'remove', // RemoveLiquidity (3 coins)
+    '0x9e96dd3b997a2a257eec4df9bb6eaf626e206df5f543bd963682d143300be310': 'remove', // RemoveLiquidityOne
+    '0x5ad056f2e28a8cec232015406b843668c1e36cda598127ec3b8c59b8c72773a0': 'remove', // RemoveLiquidityOne (with coin supply)
+    '0x2b5508378d7e19e0d5fa338419034731416c4f5b219a10379956f764317fd47e': 'remove', // RemoveLiquidityImbalance (2 coins)
+    '0x173599dbf9c6ca6f7c3b590df07ae98a45d74ff54065505141e7de6c46a624c2': 'remove', // RemoveLiquidityImbalance (3 coins)
+};
+
+const LIQUIDITY_SELECTORS: Record<string, 'add' | 'remove'> = {
+    '0xe8e33700': 'add', // addLiquidity (V2 router)
+    '0xf305d719': 'add', // addLiquidityETH (V2 router)
+    '0x88316456': 'add', // mint(MintParams) (V3 position manager)
+    '0x219f5d17': 'add', // increaseLiquidity(IncreaseLiquidityParams)
+    '0x0b4c7e4d': 'add', // add_liquidity(uint256[2],uint256) (Curve)
+    '0x4515cef3': 'add', // add_liquidity(uint256[3],uint256) (Curve)
+    '0xb95cac28': 'add', // joinPool (Balancer Vault)
+    '0xbaa2abde': 'remove', // removeLiquidity (V2 router)
+    '0x02751cec': 'remove', // removeLiquidityETH (V2 router)
+    '0x2195995c': 'remove', // removeLiquidityWithPermit
+    '0xded9382a': 'remove', // removeLiquidityETHWithPermit
+    '0xaf2979eb': 'remove', // removeLiquidityETHSupportingFeeOnTransferTokens
+    '0x0c49ccbe': 'remove', // decreaseLiquidity(DecreaseLiquidityParams)
+    '0x5b36389c': 'remove', // remove_liquidity(uint256,uint256[2]) (Curve)
+    '0x1a4d01d2': 'remove', // remove_liquidity_one_coin (Curve)
+    '0x8bdb3913': 'remove', // exitPool (Balancer Vault)
+};
+
+const MULTICALL_SELECTOR = '0xac9650d8'; // multicall(bytes[]) — how position manager UIs batch mint/decrease/collect
+
+// Canonical NonfungiblePositionManager deployments; forks emitting the same events are still decoded
+const POSITION_MANAGERS: Record<string, string> = {
+    '0xc36442b4a4522e871399cd717abdd847ab11fe88': 'Uniswap V3', // Ethereum, Arbitrum, Optimism, Polygon
+    '0x03a520b32c04bf3beef7beb72e919cf822ed34f1': 'Uniswap V3', // Base
+    '0x7b8a01b39d58278b5de7e48c8449c9f4f5170613': 'Uniswap V3', // BNB Chain
+    '0x46a15b0b27311cedf172ab29e4f4766fbe7f4364': 'PancakeSwap V3',
+};
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const toTick = (topic: string) => Number(BigInt.asIntN(24, BigInt(topic)));
+
+type PoolEvent = Omit<LiquidityPosition, 'tokens'>;
+
+export class LiquidityRule implements ClassificationRule {
+    id = 'dex_liquidity';
+    name = 'DEX Liquidity Provision';
+    priority = 91; // Above Swap: depositing two tokens for an LP token looks like a swap by flow alone
+
+    matches(ctx: ClassificationContext): boolean {
+        return ctx.receipt.logs.some(l => this.decodePoolEvent(l) !== null);
+    }
+
+    classify(ctx: ClassificationContext): RuleResult {
+        const sender = ctx.tx.from.toLowerCase();
+        const selector = (ctx.tx.data || '').slice(0, 10).toLowerCase();
+        const reasons: string[] = [];
+
+        // --- 1. POOL EVENTS ---
+        const poolEvents = ctx.receipt.logs.map(l => this.decodePoolEvent(l)).filter((e): e is PoolEvent => e !== null);
+        if (poolEvents.length === 0) return null as any;
+
+        // Rebalances / migrations remove then add; the final pool event is the resulting position
+        const event = poolEvents[poolEvents.length - 1];
+        const action = event.action;
+
+        let confidence = 0.5;
+        reasons.push(`${event.protocol} ${action === 'add' ? 'deposit' : 'withdrawal'} event on pool ${event.pool}`);
+
+        // V3 position manager events carry the NFT id of the position being changed
+        const managerLog = ctx.receipt.logs.find(l => l.topics[0] === (action === 'add' ? LIQUIDITY_EVENTS.INCREASE_LIQUIDITY : LIQUIDITY_EVENTS.DECREASE_LIQUIDITY));
+        if (managerLog && event.tickLower !== undefined) {
+            event.positionId = BigInt(managerLog.topics[1]).toString();
+            event.protocol = POSITION_MANAGERS[managerLog.address.toLowerCase()] || event.protocol;
+            reasons.push(`Position NFT #${event.positionId}`);
+        }
+
+        // --- 2. MANDATORY FLOW SEMANTICS ---
+        const flow = ctx.flow[sender];
+        const fungible = (type: string) => type === 'NATIVE' || type === 'ERC20';
+        const outgoing = flow ? flow.outgoing.filter(m => fungible(m.type)) : [];
+        const incoming = flow ? flow.incoming.filter(m => fungible(m.type)) : [];
+
+        // Add: underlying out, LP shares in. Remove: LP shares out (none for V3), underlying in.
+        const underlying = action === 'add' ? outgoing : incoming;
+        const shares = (action === 'add' ? incoming : outgoing).filter(m => m.type === 'ERC20');
+        if (underlying.length === 0) return null as any;
+
+        confidence += 0.3;
+        reasons.push(action === 'add' ? `Deposited ${underlying.length} asset(s)` : `Withdrew ${underlying.length} asset(s)`);
+
+        const methodMatch = LIQUIDITY_SELECTORS[selector] === action
+            || (selector === MULTICALL_SELECTOR && !!POSITION_MANAGERS[ctx.effectiveTo]);
+        if (methodMatch) {
+            confidence += 0.15;
+            reasons.push('Liquidity method selector');
+        }
+
+        if (shares.length > 0 || event.positionId) {
+            confidence += 0.05;
+            reasons.push(event.positionId ? 'Concentrated liquidity position' : `LP token ${action === 'add' ? 'received' : 'returned'}`);
+        }
+
+        const liquidity: LiquidityPosition = {
+            ...event,
+            tokens: underlying.map(m => ({ token: m.asset, amount: m.amount })),
+            lpToken: shares[0]?.asset,
+            lpAmount: shares[0]?.amount
+        };
+
+        return {
+            type: action === 'add' ? TransactionType.ADD_LIQUIDITY : TransactionType.REMOVE_LIQUIDITY,
+            confidence: Math.min(confidence, 1.0),
+            breakdown: {
+                eventMatch: 1.0,
+                methodMatch: methodMatch ? 1.0 : 0,
+                addressMatch: POSITION_MANAGERS[ctx.effectiveTo] ? 1.0 : 0,
+                tokenFlowMatch: 1.0,
+                executionMatch: 1.0
+            },
+            protocol: event.protocol,
+            reasons,
+            details: { liquidity }
+        };
+    }
+
+    private decodePoolEvent(log: Log): PoolEvent | null {
+        const [topic0] = log.topics;
+        const pool = log.address.toLowerCase();
+
+        try {
+            if (topic0 === LIQUIDITY_EVENTS.MINT_V2 && log.topics.length === 2) {
+                return { action: 'add', protocol: 'Uniswap V2', pool };
+            }
+            if (topic0 === LIQUIDITY_EVENTS.BURN_V2 && log.topics.length === 3) {
+                return { action: 'remove', protocol: 'Uniswap V2', pool };
+            }
+
+            if (topic0 === LIQUIDITY_EVENTS.MINT_V3 || topic0 === LIQUIDITY_EVENTS.BURN_V3) {
+                // Position managers call burn(0) to settle fees before collect(); that is not a withdrawal
+                const liquidityIndex = topic0 === LIQUIDITY_EVENTS.MINT_V3 ? 1 : 0;
+                const [amount] = coder.decode(['uint128'], '0x' + log.data.slice(2 + liquidityIndex * 64, 2 + (liquidityIndex + 1) * 64));
+                if (amount === BigInt(0)) return null;
+
+                return {
+                    action: topic0 === LIQUIDITY_EVENTS.MINT_V3 ? 'add' : 'remove',
+                    protocol: 'Uniswap V3',
+                    pool,
+                    tickLower: toTick(log.topics[2]),
+                    tickUpper: toTick(log.topics[3])
+                };
+            }
+
+            if (CURVE_EVENTS[topic0]) {
+                return { action: CURVE_EVENTS[topic0], protocol: 'Curve', pool };
+            }
+
+            if (topic0 === LIQUIDITY_EVENTS.BALANCER_POOL_BALANCE_CHANGED) {
+                // poolId = pool address (20 bytes) | specialization | nonce; positive deltas are joins
+                const [, deltas] = coder.decode(['address[]', 'int256[]', 'uint256[]'], log.data);
+                const joined = (deltas as bigint[]).some(d => d > BigInt(0));
+                return { action: joined ? 'add' : 'remove', protocol: 'Balancer V2', pool: `0x${log.topics[1].slice(2, 42)}` };
+            }
+        } catch {
+            // Same topic from a non-standard emitter; ignore
+        }
+
+        return null;
+    }
+}
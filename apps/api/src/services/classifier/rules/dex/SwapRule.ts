@@ -1,7 +1,9 @@
 // src/services/classifier/rules/dex/SwapRule.ts
+import { ethers } from 'ethers';
 import { ClassificationRule, RuleResult } from '../../core/Rule';
 import { ClassificationContext } from '../../core/Context';
-import { TransactionType } from '../../core/types';
+import { Log, SwapExecution, SwapHop, TransactionType } from '../../core/types';
+import { Decoder } from '../../utils';
 
 const SWAP_EVENTS = [
     '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822', // Uniswap V2: Swap
@@ -10,6 +12,16 @@ const SWAP_EVENTS = [
     '0x087e682a9db3d440875c75567c29378626c9a9415c4856b3e71783f98285559d', // 1inch Swapped
 ];
 
+// Pool events decoded into route hops
+const HOP_EVENTS = {
+    SWAP_V2: '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822', // Swap(sender, amount0In, amount1In, amount0Out, amount1Out, to)
+    SWAP_V3: '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67', // Swap(sender, recipient, amount0, amount1, sqrtPriceX96, liquidity, tick)
+    SWAP_BALANCER: '0x2170c741c41531aec20e7c107c24eecfdd15e69c9bb0a8dd37b1840b9e0b207b', // Vault: Swap(poolId, tokenIn, tokenOut, amountIn, amountOut)
+    TOKEN_EXCHANGE_CURVE: '0x8b3e96f2b889fa771c53c981b40daf005f63f637f1869f707052d15a3dd97140', // TokenExchange(buyer, sold_id, tokens_sold, bought_id, tokens_bought)
+};
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
 // Minimal amount to consider meaningful (to ignore dust)
 const MIN_SWAP_VALUE = BigInt(1000); // Very loose threshold, handles most 18-dec tokens (> 0.000...1)
 
@@ -99,6 +111,18 @@ export class SwapRule implements ClassificationRule {
 
         confidence = Math.min(1.0, Math.max(0.0, confidence));
 
+        // 4. Route: one hop per pool swap event, in execution order
+        const hops = this.decodeHops(ctx.receipt.logs);
+        if (hops.length > 0) reasons.push(`Route through ${hops.length} pool(s)`);
+
+        const swap: SwapExecution = {
+            tokenIn: outAsset,
+            amountIn: netOut[0].amount,
+            tokenOut: inAsset,
+            amountOut: netIn[0].amount,
+            hops
+        };
+
         return {
             type: TransactionType.SWAP,
             confidence,
@@ -110,7 +134,88 @@ export class SwapRule implements ClassificationRule {
                 executionMatch: 1.0
             },
             protocol: 'DEX',
-            reasons
+            reasons,
+            details: { swap }
         };
     }
+
+    /**
+     * Pool swap events with the tokens they moved. V2 / V3 / Curve events only carry amounts, so
+     * tokens are matched to the ERC20 transfers into and out of the pool with the same amount.
+     */
+    private decodeHops(logs: Log[]): SwapHop[] {
+        const transfers = logs.flatMap(l => {
+            const erc20 = Decoder.decodeERC20Transfer(l);
+            return erc20 ? [{
+                token: l.address.toLowerCase(),
+                from: String(erc20.args[0]).toLowerCase(),
+                to: String(erc20.args[1]).toLowerCase(),
+                amount: erc20.args[2].toString()
+            }] : [];
+        });
+
+        const hops: SwapHop[] = [];
+        for (const log of logs) {
+            const hop = this.decodeHop(log);
+            if (!hop) continue;
+            hops.push({
+                ...hop,
+                tokenIn: hop.tokenIn ?? transfers.find(t => t.to === hop.pool && t.amount === hop.amountIn)?.token,
+                tokenOut: hop.tokenOut ?? transfers.find(t => t.from === hop.pool && t.amount === hop.amountOut)?.token
+            });
+        }
+        return hops;
+    }
+
+    private decodeHop(log: Log): SwapHop | null {
+        const [topic0] = log.topics;
+        const pool = log.address.toLowerCase();
+
+        try {
+            if (topic0 === HOP_EVENTS.SWAP_V2) {
+                const [amount0In, amount1In, amount0Out, amount1Out] = coder.decode(['uint256', 'uint256', 'uint256', 'uint256'], log.data);
+                const zeroForOne = amount1Out > BigInt(0);
+                return {
+                    pool,
+                    protocol: 'Uniswap V2',
+                    amountIn: (zeroForOne ? amount0In : amount1In).toString(),
+                    amountOut: (zeroForOne ? amount1Out : amount0Out).toString()
+                };
+            }
+
+            if (topic0 === HOP_EVENTS.SWAP_V3) {
+                // Signed pool deltas: positive = paid into the pool
+                const [amount0, amount1] = coder.decode(['int256', 'int256'], log.data.slice(0, 2 + 128));
+                const zeroForOne = amount0 > BigInt(0);
+                return {
+                    pool,
+                    protocol: 'Uniswap V3',
+                    amountIn: (zeroForOne ? amount0 : amount1).toString(),
+                    amountOut: (zeroForOne ? -amount1 : -amount0).toString()
+                };
+            }
+
+            if (topic0 === HOP_EVENTS.SWAP_BALANCER && log.topics.length === 4) {
+                // poolId = pool address (20 bytes) | specialization | nonce
+                const [amountIn, amountOut] = coder.decode(['uint256', 'uint256'], log.data);
+                return {
+                    pool: `0x${log.topics[1].slice(2, 42)}`,
+                    protocol: 'Balancer V2',
+                    tokenIn: `0x${log.topics[2].slice(26)}`,
+                    tokenOut: `0x${log.topics[3].slice(26)}`,
+                    amountIn: amountIn.toString(),
+                    amountOut: amountOut.toString()
+                };
+            }
+
+            if (topic0 === HOP_EVENTS.TOKEN_EXCHANGE_CURVE) {
+                const [, tokensSold, , tokensBought] = coder.decode(['int128', 'uint256', 'int128', 'uint256'], log.data);
+                return { pool, protocol: 'Curve', amountIn: tokensSold.toString(), amountOut: tokensBought.toString() };
+            }
+        } catch {
+            // Same topic from a non-standard emitter; ignore
+        }
+
+        return null;
+    }
 }
@@ -11,6 +11,8 @@ const MARKETPLACE_EVENTS = [
     '0x3ee3de4684413690dee6fff1a0a4f934e643255547c92e75306e745f8cdea2d2', // LooksRare TakerBid
 ];
 
+const ZERO_ADDRESS_PATTERN = /^0x0{40}$/;
+
 export class NFTSaleRule implements ClassificationRule {
     id = 'nft_sale';
     name = 'NFT Marketplace Sale';
@@ -60,8 +62,10 @@ export class NFTSaleRule implements ClassificationRule {
         // 2. Mandatory Bidirectional Flow Gate
         if (!flow) return null as any;
 
-        const nftOut = flow.outgoing.filter(m => ['ERC721', 'ERC1155'].includes(m.type));
-        const nftIn = flow.incoming.filter(m => ['ERC721', 'ERC1155'].includes(m.type));
+        // Mints (from zero) and burns (to zero) outside a marketplace order are supply events (SupplyRule)
+        const viaMarket = marketLogs.length > 0;
+        const nftOut = flow.outgoing.filter(m => ['ERC721', 'ERC1155'].includes(m.type) && (viaMarket || !ZERO_ADDRESS_PATTERN.test(m.to)));
+        const nftIn = flow.incoming.filter(m => ['ERC721', 'ERC1155'].includes(m.type) && (viaMarket || !ZERO_ADDRESS_PATTERN.test(m.from)));
 
         // Include Native ETH in payment checks (Ignore Dust > 1000 wei)
         const paymentOut = flow.outgoing.filter(m => ['NATIVE', 'ERC20'].includes(m.type) && BigInt(m.amount) > BigInt(1000));
@@ -0,0 +1,167 @@
+// src/services/classifier/rules/staking/StakingRule.ts
+import { ClassificationRule, RuleResult } from '../../core/Rule';
+import { ClassificationContext } from '../../core/Context';
+import { TransactionType } from '../../core/types';
+
+type StakingAction = 'deposit' | 'withdraw' | 'claim';
+
+const STAKING_EVENTS: Record<string, { action: StakingAction, protocol: string }> = {
+    // Lido
+    '0x96a25c8ce0baabc1fdefd93e9ed25d8e092a3332f3aa9a41722b5697231d1d1a': { action: 'deposit', protocol: 'Lido' }, // Submitted
+    '0xf0cb471f23fb74ea44b8252eb1881a2dca546288d9f6e90d1a0e82fe0ed342ab': { action: 'withdraw', protocol: 'Lido' }, // WithdrawalRequested
+    '0x6ad26c5e238e7d002799f9a5db07e81ef14e37386ae03496d7a7ef04713e145b': { action: 'withdraw', protocol: 'Lido' }, // WithdrawalClaimed
+
+    // Rocket Pool
+    '0x7aa1a8eb998c779420645fc14513bf058edb347d95c2fc2e6845bdc22f888631': { action: 'deposit', protocol: 'Rocket Pool' }, // DepositReceived
+    '0x6155cfd0fd028b0ca77e8495a60cbe563e8bce8611f0aad6fedbdaafc05d44a2': { action: 'deposit', protocol: 'Rocket Pool' }, // rETH TokensMinted
+    '0x19783b34589160c168487dc7f9c51ae0bcefe67a47d6708fba90f6ce0366d3d1': { action: 'withdraw', protocol: 'Rocket Pool' }, // rETH TokensBurned
+
+    // Frax Ether
+    '0x29b3e86ecfd94a32218997c40b051e650e4fd8c97fc7a4d266be3f7c61c5205b': { action: 'deposit', protocol: 'Frax Ether' }, // ETHSubmitted
+
+    // Beacon chain deposit contract
+    '0x649bbc62d0e31342afea4e5cd82d4049e7e1ee912fc0889aa790803be39038c5': { action: 'deposit', protocol: 'Beacon Deposit Contract' }, // DepositEvent
+
+    // ERC-4626 vaults
+    '0xdcbc1c05240f31ff3ad067ef1ee35ce4997762752e3a095284754544f4c709d7': { action: 'deposit', protocol: 'ERC-4626 Vault' }, // Deposit(sender, owner, assets, shares)
+    '0xfbde797d201c681b91056529119e0b02407c7bb96a4a2c75c01fc9667232c8db': { action: 'withdraw', protocol: 'ERC-4626 Vault' }, // Withdraw(sender, receiver, owner, assets, shares)
+
+    // Synthetix-style StakingRewards
+    '0x9e71bc8eea02a63969f509818f2dafb9254532904319f9dbda79b67bd34a5f3d': { action: 'deposit', protocol: 'Staking Pool' }, // Staked
+    '0x7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d5': { action: 'withdraw', protocol: 'Staking Pool' }, // Withdrawn
+    '0xe2403640ba68fed3a2f88b7557551d1993f84b99bb10ff833f0cf8db0c5e0486': { action: 'claim', protocol: 'Staking Pool' }, // RewardPaid
+};
+
+// Lido pays claimed ETH through an internal call, so the claim has no log-visible inflow
+const LIDO_WITHDRAWAL_CLAIMED = '0x6ad26c5e238e7d002799f9a5db07e81ef14e37386ae03496d7a7ef04713e145b';
+
+const STAKING_SELECTORS: Record<string, StakingAction> = {
+    '0xa1903eab': 'deposit', // submit(address) (Lido)
+    '0x4dcd4547': 'deposit', // submitAndDeposit(address) (Frax)
+    '0xd0e30db0': 'deposit', // deposit() (Rocket Pool)
+    '0x22895118': 'deposit', // deposit(bytes,bytes,bytes,bytes32) (Beacon)
+    '0x6e553f65': 'deposit', // deposit(uint256,address) (ERC-4626)
+    '0x94bf804d': 'deposit', // mint(uint256,address) (ERC-4626)
+    '0xa694fc3a': 'deposit', // stake(uint256)
+    '0xb460af94': 'withdraw', // withdraw(uint256,address,address) (ERC-4626)
+    '0xba087652': 'withdraw', // redeem(uint256,address,address) (ERC-4626)
+    '0xd6681042': 'withdraw', // requestWithdrawals(uint256[],address) (Lido)
+    '0xf8444436': 'withdraw', // claimWithdrawal(uint256) (Lido)
+    '0xe3afe0a3': 'withdraw', // claimWithdrawals(uint256[],uint256[]) (Lido)
+    '0x42966c68': 'withdraw', // burn(uint256) (rETH)
+    '0x2e1a7d4d': 'withdraw', // withdraw(uint256)
+    '0xe9fad8ee': 'withdraw', // exit()
+    '0x3d18b912': 'claim', // getReward()
+};
+
+const ACTION_TYPES: Record<StakingAction, TransactionType> = {
+    deposit: TransactionType.STAKING_DEPOSIT,
+    withdraw: TransactionType.STAKING_WITHDRAW,
+    claim: TransactionType.STAKING_CLAIM_REWARDS
+};
+
+// When several staking events fire (e.g. exit() = Withdrawn + RewardPaid) the principal movement wins
+const ACTION_PRECEDENCE: StakingAction[] = ['deposit', 'withdraw', 'claim'];
+
+const MIN_STAKE_VALUE = BigInt(1000);
+
+export class StakingRule implements ClassificationRule {
+    id = 'staking_generic';
+    name = 'Staking / Liquid Staking';
+    priority = 92; // Above Swap/Lending: ETH -> stETH looks like a swap by flow alone
+
+    matches(ctx: ClassificationContext): boolean {
+        if (ctx.receipt.logs.some(l => STAKING_EVENTS[l.topics[0]])) return true;
+        return ctx.chain.stakingContracts.has(ctx.effectiveTo);
+    }
+
+    classify(ctx: ClassificationContext): RuleResult {
+        const logs = ctx.receipt.logs;
+        const reasons: string[] = [];
+        let confidence = 0.0;
+
+        // --- 1. SIGNALS ---
+        const stakingLogs = logs.filter(l => STAKING_EVENTS[l.topics[0]]);
+        const eventActions = new Set(stakingLogs.map(l => STAKING_EVENTS[l.topics[0]].action));
+        const selectorAction = STAKING_SELECTORS[(ctx.tx.data || '').slice(0, 10).toLowerCase()];
+
+        // A. Event Match (+0.35)
+        if (stakingLogs.length > 0) {
+            confidence += 0.35;
+            reasons.push(`Matched ${stakingLogs.length} staking events`);
+        }
+
+        // B. Registry Match (+0.2): target or an emitting contract is a known staking contract
+        const registryProtocol = ctx.chain.stakingContracts.get(ctx.effectiveTo)
+            || logs.map(l => ctx.chain.stakingContracts.get(l.address.toLowerCase())).find(Boolean);
+        if (registryProtocol) {
+            confidence += 0.2;
+            reasons.push(`Known staking contract (${registryProtocol})`);
+        }
+
+        // --- 2. ACTION INFERENCE ---
+        const action = ACTION_PRECEDENCE.find(a => eventActions.has(a)) || (registryProtocol ? selectorAction : undefined);
+        if (!action) return null as any;
+
+        // C. Method Match (+0.15)
+        const methodMatch = selectorAction === action;
+        if (methodMatch) {
+            confidence += 0.15;
+            reasons.push(`Staking method selector (${action})`);
+        }
+
+        // --- 3. MANDATORY FLOW SEMANTICS ---
+        const sender = ctx.tx.from.toLowerCase();
+        const flow = ctx.flow[sender];
+        const netOut = flow ? flow.outgoing.filter(a => BigInt(a.amount) > MIN_STAKE_VALUE) : [];
+        const netIn = flow ? flow.incoming.filter(a => BigInt(a.amount) > MIN_STAKE_VALUE) : [];
+        let flowMatch = 0;
+
+        if (action === 'deposit') {
+            // Native / underlying out, LST / vault shares in (beacon deposits mint nothing)
+            if (netOut.length === 0) return null as any;
+            flowMatch = 0.3;
+            reasons.push(`Staked ${netOut[0].type === 'NATIVE' ? 'native asset' : 'token'}`);
+            if (netIn.length > 0) {
+                flowMatch += 0.1;
+                reasons.push('Received liquid staking token / vault shares');
+            }
+        } else if (action === 'withdraw') {
+            if (netOut.length > 0 || netIn.length > 0) {
+                flowMatch = 0.3;
+                reasons.push(netOut.length > 0 ? 'Returned staking token / shares' : 'Received unstaked assets');
+            } else if (stakingLogs.some(l => l.topics[0] === LIDO_WITHDRAWAL_CLAIMED)) {
+                flowMatch = 0.25;
+                reasons.push('Withdrawal claim paid out internally');
+            } else {
+                return null as any;
+            }
+        } else {
+            // Claim: rewards in, nothing out
+            if (netIn.length === 0 || netOut.length > 0) return null as any;
+            flowMatch = 0.3;
+            reasons.push('Received staking rewards');
+        }
+        confidence += flowMatch;
+
+        // --- 4. FINAL GATE ---
+        if (confidence < 0.7) return null as any;
+
+        const protocol = registryProtocol
+            || STAKING_EVENTS[stakingLogs.find(l => STAKING_EVENTS[l.topics[0]].action === action)!.topics[0]].protocol;
+
+        return {
+            type: ACTION_TYPES[action],
+            confidence: Math.min(confidence, 1.0),
+            breakdown: {
+                eventMatch: stakingLogs.length > 0 ? 1.0 : 0,
+                methodMatch: methodMatch ? 1.0 : 0,
+                addressMatch: registryProtocol ? 1.0 : 0,
+                tokenFlowMatch: flowMatch > 0 ? 1.0 : 0,
+                executionMatch: 1.0
+            },
+            protocol,
+            reasons
+        };
+    }
+}
@@ -0,0 +1,78 @@
+// src/services/classifier/rules/token/SupplyRule.ts
+import { ClassificationRule, RuleResult } from '../../core/Rule';
+import { ClassificationContext } from '../../core/Context';
+import { TokenMovement, TransactionType } from '../../core/types';
+
+const ZERO_ADDRESS_PATTERN = /^0x0{40}$/;
+
+const isNft = (m: TokenMovement) => m.type === 'ERC721' || m.type === 'ERC1155';
+
+export class SupplyRule implements ClassificationRule {
+    id = 'token_supply';
+    name = 'Token Mint / Burn';
+    priority = 50; // Just above Transfer: a mint is a transfer from the zero address
+
+    matches(ctx: ClassificationContext): boolean {
+        const flow = ctx.flow[ctx.tx.from.toLowerCase()];
+        if (!flow) return false;
+        return flow.incoming.some(m => ZERO_ADDRESS_PATTERN.test(m.from))
+            || flow.outgoing.some(m => ZERO_ADDRESS_PATTERN.test(m.to));
+    }
+
+    classify(ctx: ClassificationContext): RuleResult {
+        const sender = ctx.tx.from.toLowerCase();
+        const flow = ctx.flow[sender];
+        if (!flow) return null as any;
+
+        const minted = flow.incoming.filter(m => ZERO_ADDRESS_PATTERN.test(m.from));
+        const burned = flow.outgoing.filter(m => ZERO_ADDRESS_PATTERN.test(m.to));
+        const reasons: string[] = [];
+
+        // --- 1. MINT: everything the user received came out of the zero address ---
+        if (minted.length > 0 && minted.length === flow.incoming.length) {
+            const nftMint = minted.some(isNft);
+            const paid = flow.outgoing.length > 0;
+            reasons.push(`Received ${minted.length} newly minted ${nftMint ? 'NFT(s)' : 'token(s)'}`);
+
+            // Paid ERC20 mints are usually deposits (vault shares, aTokens, LP); leave room for those rules
+            let confidence = 0.8;
+            if (paid) {
+                confidence = nftMint ? 0.7 : 0.6;
+                reasons.push('Paid for the mint');
+            }
+
+            return {
+                type: nftMint ? TransactionType.NFT_MINT : TransactionType.TOKEN_MINT,
+                confidence,
+                breakdown: {
+                    eventMatch: 1.0,
+                    methodMatch: 0,
+                    addressMatch: 0,
+                    tokenFlowMatch: 1.0,
+                    executionMatch: 1.0
+                },
+                reasons
+            };
+        }
+
+        // --- 2. BURN: tokens sent to the zero address with nothing coming back ---
+        if (burned.length > 0 && burned.length === flow.outgoing.length && flow.incoming.length === 0) {
+            reasons.push(`Burned ${burned.length} ${burned.some(isNft) ? 'NFT(s)' : 'token(s)'}`);
+
+            return {
+                type: TransactionType.TOKEN_BURN,
+                confidence: 0.8,
+                breakdown: {
+                    eventMatch: 1.0,
+                    methodMatch: 0,
+                    addressMatch: 0,
+                    tokenFlowMatch: 1.0,
+                    executionMatch: 1.0
+                },
+                reasons
+            };
+        }
+
+        return null as any;
+    }
+}
@@ -0,0 +1,91 @@
+// src/services/classifier/rules/token/WrapRule.ts
+import { ClassificationRule, RuleResult } from '../../core/Rule';
+import { ClassificationContext } from '../../core/Context';
+import { TransactionType } from '../../core/types';
+
+// WETH9 ABI, shared by WMATIC / WBNB / WAVAX and most wrapped-native contracts
+const WRAP_EVENTS = {
+    DEPOSIT: '0xe1fffcc4923d04b559f4d29a8bfc6cda04eb5b0d3c460751c2402c5c5cc9109c', // Deposit(address indexed dst, uint256 wad)
+    WITHDRAWAL: '0x7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b65', // Withdrawal(address indexed src, uint256 wad)
+};
+
+const WRAP_SELECTORS = {
+    DEPOSIT: '0xd0e30db0', // deposit()
+    WITHDRAW: '0x2e1a7d4d', // withdraw(uint256)
+};
+
+const topicToAddress = (topic: string) => `0x${topic.slice(26)}`.toLowerCase();
+
+export class WrapRule implements ClassificationRule {
+    id = 'token_wrap';
+    name = 'Wrap / Unwrap Native Token';
+    priority = 88; // Above NFT/Transfer; a plain wrap has no token flow for Swap/Lending to claim
+
+    matches(ctx: ClassificationContext): boolean {
+        const wrapped = ctx.chain.nativeTokenAddress;
+        if (wrapped === 'native') return false;
+
+        return ctx.receipt.logs.some(l =>
+            l.address.toLowerCase() === wrapped &&
+            (l.topics[0] === WRAP_EVENTS.DEPOSIT || l.topics[0] === WRAP_EVENTS.WITHDRAWAL)
+        );
+    }
+
+    classify(ctx: ClassificationContext): RuleResult {
+        const wrapped = ctx.chain.nativeTokenAddress;
+        const sender = ctx.tx.from.toLowerCase();
+        const selector = (ctx.tx.data || '').slice(0, 10).toLowerCase();
+        const reasons: string[] = [];
+
+        // Only the sender's own wrap counts: routers wrap on the user's behalf inside swaps
+        const wrapperLogs = ctx.receipt.logs.filter(l => l.address.toLowerCase() === wrapped && topicToAddress(l.topics[1] || '0x') === sender);
+        const deposit = wrapperLogs.find(l => l.topics[0] === WRAP_EVENTS.DEPOSIT);
+        const withdrawal = wrapperLogs.find(l => l.topics[0] === WRAP_EVENTS.WITHDRAWAL);
+        if (!deposit && !withdrawal) return null as any;
+
+        const isWrap = !!deposit;
+        const eventLog = (deposit || withdrawal)!;
+        const amount = BigInt(eventLog.data.slice(0, 66)).toString();
+
+        let confidence = 0.5;
+        reasons.push(isWrap ? 'Wrapped-native Deposit event' : 'Wrapped-native Withdrawal event');
+
+        // --- Flow: nothing but the native value going into the wrapper (wrap) / no token flow at all (unwrap) ---
+        const flow = ctx.flow[sender];
+        const outgoing = flow ? flow.outgoing : [];
+        const incoming = flow ? flow.incoming : [];
+
+        if (isWrap) {
+            const onlyNativeToWrapper = outgoing.length === 1 && outgoing[0].type === 'NATIVE' && outgoing[0].to === wrapped && incoming.length === 0;
+            if (!onlyNativeToWrapper) return null as any;
+        } else if (outgoing.length > 0 || incoming.length > 0) {
+            return null as any;
+        }
+        confidence += 0.3;
+        reasons.push('No other asset movement');
+
+        // Plain ETH sent to WETH hits the fallback, which deposits as well
+        const methodMatch = isWrap
+            ? selector === WRAP_SELECTORS.DEPOSIT || (ctx.tx.data || '0x') === '0x'
+            : selector === WRAP_SELECTORS.WITHDRAW;
+        if (methodMatch) {
+            confidence += 0.15;
+            reasons.push(isWrap ? 'deposit() call' : 'withdraw(uint256) call');
+        }
+
+        return {
+            type: isWrap ? TransactionType.WRAP : TransactionType.UNWRAP,
+            confidence: Math.min(confidence, 1.0),
+            breakdown: {
+                eventMatch: 1.0,
+                methodMatch: methodMatch ? 1.0 : 0,
+                addressMatch: 1.0,
+                tokenFlowMatch: 1.0,
+                executionMatch: 1.0
+            },
+            protocol: `W${ctx.chain.nativeTokenSymbol}`,
+            reasons,
+            details: { wrappedToken: wrapped, amount }
+        };
+    }
+}
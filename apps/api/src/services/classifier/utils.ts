@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
-import { Log, Address } from './core/types';
+import { Log, Address, HexString } from './core/types';
+import { signatureRegistry, DecodedCall, DecodedEvent } from './infrastructure/SignatureRegistry';
 
 export const COMMON_ABIS = {
     ERC20: [
@@ -29,60 +30,52 @@ export class Decoder {
     private static erc721Interface = new ethers.Interface(COMMON_ABIS.ERC721);
     private static erc1155Interface = new ethers.Interface(COMMON_ABIS.ERC1155);
 
-    static decodeERC20Transfer(log: Log) {
+    // Each interface also knows Approval / the other transfer variant; only the named event counts
+    private static parseEvent(iface: ethers.Interface, log: Log, ...names: string[]) {
         try {
-            return this.erc20Interface.parseLog({
+            const parsed = iface.parseLog({
                 topics: log.topics,
                 data: log.data,
             });
+            return parsed && names.includes(parsed.name) ? parsed : null;
         } catch {
             return null;
         }
     }
 
+    static decodeERC20Transfer(log: Log) {
+        return this.parseEvent(this.erc20Interface, log, 'Transfer');
+    }
+
     static decodeERC721Transfer(log: Log) {
-        try {
-            return this.erc721Interface.parseLog({
-                topics: log.topics,
-                data: log.data,
-            });
-        } catch {
-            return null;
-        }
+        return this.parseEvent(this.erc721Interface, log, 'Transfer');
     }
 
     static decodeERC1155TransferSingle(log: Log) {
-        try {
-            return this.erc1155Interface.parseLog({
-                topics: log.topics,
-                data: log.data,
-            });
-        } catch {
-            return null;
-        }
+        return this.parseEvent(this.erc1155Interface, log, 'TransferSingle');
     }
 
     static decodeERC1155Transfer(log: Log) {
-        try {
-            // Try generic parsing which handles both TransferSingle and TransferBatch if ABI knows both
-            return this.erc1155Interface.parseLog({
-                topics: log.topics,
-                data: log.data,
-            });
-        } catch {
-            return null;
-        }
+        // Handles both TransferSingle and TransferBatch
+        return this.parseEvent(this.erc1155Interface, log, 'TransferSingle', 'TransferBatch');
     }
 
     static decodeERC1155TransferBatch(log: Log) {
-        try {
-            return this.erc1155Interface.parseLog({
-                topics: log.topics,
-                data: log.data,
-            });
-        } catch {
-            return null;
-        }
+        return this.parseEvent(this.erc1155Interface, log, 'TransferBatch');
+    }
+
+    /**
+     * Any calldata, via the offline signature registry (verified contract ABI first when uploaded)
+     */
+    static decodeFunction(data: HexString, to?: Address | null, chainId?: number): DecodedCall | null {
+        return signatureRegistry.decodeFunction(data, to || undefined, chainId);
+    }
+
+    /**
+     * Any log, via the offline signature registry (verified contract ABI first when uploaded)
+     */
+    static decodeEvent(log: Log, chainId?: number): DecodedEvent | null {
+        return signatureRegistry.decodeEvent(log, chainId);
     }
 
     /**
@@ -0,0 +1,31 @@
+// src/services/fees/ArbitrumFeeStrategy.ts
+import { ethers } from 'ethers';
+import { FeeStrategy } from './types';
+import { logger } from '../../lib/logger';
+
+/**
+ * Arbitrum: receipt.gasUsed already includes the L1 calldata cost expressed in L2 gas
+ * (`gasUsedForL1` on the raw receipt), so the total is unchanged and only split.
+ */
+export class ArbitrumFeeStrategy implements FeeStrategy {
+    readonly model = 'ARBITRUM' as const;
+
+    async calculate(provider: ethers.JsonRpcProvider, _tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt) {
+        const gasPrice = receipt.gasPrice || BigInt(0);
+        const totalFee = receipt.gasUsed * gasPrice;
+
+        let gasUsedForL1 = BigInt(0);
+        try {
+            const raw = await provider.send('eth_getTransactionReceipt', [receipt.hash]);
+            if (raw?.gasUsedForL1) gasUsedForL1 = BigInt(raw.gasUsedForL1);
+        } catch (e: any) {
+            logger.warn('[Fees] Raw receipt fetch failed', { txHash: receipt.hash, error: e.message });
+        }
+
+        // Guard against malformed receipts reporting more L1 gas than total gas
+        if (gasUsedForL1 > receipt.gasUsed) gasUsedForL1 = receipt.gasUsed;
+
+        const l1DataFee = gasUsedForL1 * gasPrice;
+        return { executionFee: totalFee - l1DataFee, l1DataFee };
+    }
+}
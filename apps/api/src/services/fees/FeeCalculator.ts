@@ -0,0 +1,53 @@
+// src/services/fees/FeeCalculator.ts
+import { ethers } from 'ethers';
+import { ChainType, RollupStack, getChainConfig } from '../classifier';
+import { FeeBreakdown, FeeStrategy } from './types';
+import { L1FeeStrategy } from './L1FeeStrategy';
+import { OpStackFeeStrategy } from './OpStackFeeStrategy';
+import { ArbitrumFeeStrategy } from './ArbitrumFeeStrategy';
+
+/**
+ * Chain-aware fee accounting. Strategy is picked from ChainConfig.type
+ * (and rollupStack for L2s); unknown L2 stacks fall back to execution-only.
+ */
+export class FeeCalculator {
+    private readonly l1 = new L1FeeStrategy();
+    private readonly opStack = new OpStackFeeStrategy();
+    private readonly arbitrum = new ArbitrumFeeStrategy();
+
+    getStrategy(chainId: number): FeeStrategy {
+        const config = getChainConfig(chainId);
+        if (config.type !== ChainType.L2) return this.l1;
+
+        switch (config.rollupStack) {
+            case RollupStack.OP_STACK: return this.opStack;
+            case RollupStack.ARBITRUM: return this.arbitrum;
+            default: return this.l1;
+        }
+    }
+
+    async calculate(
+        provider: ethers.JsonRpcProvider,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        chainId: number
+    ): Promise<FeeBreakdown> {
+        const strategy = this.getStrategy(chainId);
+        const { executionFee, l1DataFee } = await strategy.calculate(provider, tx, receipt);
+
+        // EIP-4844 blob gas is billed separately from execution gas (type-3 only)
+        const blobFee = tx.type === 3 && receipt.blobGasUsed && receipt.blobGasPrice
+            ? receipt.blobGasUsed * receipt.blobGasPrice
+            : BigInt(0);
+
+        return {
+            model: strategy.model,
+            gasUsed: receipt.gasUsed,
+            gasPrice: receipt.gasPrice || BigInt(0),
+            executionFee,
+            l1DataFee,
+            blobFee,
+            totalFee: executionFee + l1DataFee + blobFee
+        };
+    }
+}
@@ -0,0 +1,14 @@
+// src/services/fees/L1FeeStrategy.ts
+import { ethers } from 'ethers';
+import { FeeStrategy } from './types';
+
+export class L1FeeStrategy implements FeeStrategy {
+    readonly model = 'L1' as const;
+
+    async calculate(_provider: ethers.JsonRpcProvider, _tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt) {
+        return {
+            executionFee: receipt.gasUsed * (receipt.gasPrice || BigInt(0)),
+            l1DataFee: BigInt(0)
+        };
+    }
+}
@@ -0,0 +1,41 @@
+// src/services/fees/OpStackFeeStrategy.ts
+import { ethers } from 'ethers';
+import { FeeStrategy } from './types';
+import { logger } from '../../lib/logger';
+
+// Predeploy on every OP Stack chain (Optimism, Base, ...)
+const GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000F';
+const GAS_PRICE_ORACLE_ABI = ['function getL1Fee(bytes _data) view returns (uint256)'];
+
+/**
+ * OP Stack: execution fee is gasUsed * effectiveGasPrice; the L1 data fee is charged
+ * on top and reported as `l1Fee` on the raw RPC receipt (ethers drops unknown fields).
+ * Falls back to the GasPriceOracle at the tx block if the node omits it.
+ */
+export class OpStackFeeStrategy implements FeeStrategy {
+    readonly model = 'OP_STACK' as const;
+
+    async calculate(provider: ethers.JsonRpcProvider, tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt) {
+        const executionFee = receipt.gasUsed * (receipt.gasPrice || BigInt(0));
+        return { executionFee, l1DataFee: await this.getL1Fee(provider, tx, receipt) };
+    }
+
+    private async getL1Fee(provider: ethers.JsonRpcProvider, tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt): Promise<bigint> {
+        try {
+            const raw = await provider.send('eth_getTransactionReceipt', [receipt.hash]);
+            if (raw?.l1Fee) return BigInt(raw.l1Fee);
+        } catch (e: any) {
+            logger.warn('[Fees] Raw receipt fetch failed', { txHash: receipt.hash, error: e.message });
+        }
+
+        try {
+            const unsigned = ethers.Transaction.from(tx).unsignedSerialized;
+            const oracle = new ethers.Contract(GAS_PRICE_ORACLE, GAS_PRICE_ORACLE_ABI, provider);
+            return BigInt(await oracle.getL1Fee(unsigned, { blockTag: receipt.blockNumber }));
+        } catch (e: any) {
+            // Deposit txs (type 0x7e) pay no L1 fee and cannot be re-serialized
+            logger.warn('[Fees] L1 fee oracle lookup failed', { txHash: receipt.hash, error: e.message });
+            return BigInt(0);
+        }
+    }
+}
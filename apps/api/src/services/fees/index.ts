@@ -0,0 +1,3 @@
+// src/services/fees/index.ts
+export { FeeCalculator } from './FeeCalculator';
+export type { FeeBreakdown, FeeModel, FeeStrategy } from './types';
@@ -0,0 +1,30 @@
+// src/services/fees/types.ts
+import { ethers } from 'ethers';
+
+export type FeeModel = 'L1' | 'OP_STACK' | 'ARBITRUM';
+
+/**
+ * Fee split in wei. Sum of the components is what the sender actually paid.
+ * - executionFee: L2 (or L1) execution gas
+ * - l1DataFee: cost of posting the tx data to L1 (rollups only)
+ * - blobFee: EIP-4844 blob gas (type-3 transactions only)
+ */
+export interface FeeBreakdown {
+    model: FeeModel;
+    gasUsed: bigint;
+    gasPrice: bigint;
+    executionFee: bigint;
+    l1DataFee: bigint;
+    blobFee: bigint;
+    totalFee: bigint;
+}
+
+export interface FeeStrategy {
+    readonly model: FeeModel;
+    /** Returns execution + L1 data components; blob fee is handled by the calculator for every model. */
+    calculate(
+        provider: ethers.JsonRpcProvider,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt
+    ): Promise<Pick<FeeBreakdown, 'executionFee' | 'l1DataFee'>>;
+}
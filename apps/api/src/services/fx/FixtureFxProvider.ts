@@ -0,0 +1,57 @@
+// src/services/fx/FixtureFxProvider.ts
+import fs from 'fs';
+import { FiatCurrency, FxQuote, FxRateProvider } from './types';
+
+/**
+ * Date-keyed rate table: { "default": { EUR: 0.92 }, "2024-03-01": { EUR: 0.9235 } }.
+ * Lookup uses the latest date on or before the requested one, then "default".
+ */
+export type FxFixture = Record<string, Partial<Record<FiatCurrency, number>>>;
+
+const DEFAULT_FIXTURE: FxFixture = {
+    default: {
+        USD: 1,
+        EUR: 0.92,
+        GBP: 0.79,
+        INR: 83.2,
+        JPY: 150.1,
+        CAD: 1.36,
+        AUD: 1.52,
+        CHF: 0.88,
+        SGD: 1.34
+    }
+};
+
+/**
+ * Offline provider for tests and air-gapped deployments. Deterministic: the same
+ * fixture always yields the same receipt (and therefore the same RECEIPT_HASH).
+ * Set FX_FIXTURE_PATH to load a JSON fixture instead of the built-in table.
+ */
+export class FixtureFxProvider implements FxRateProvider {
+    readonly name = 'Fixture';
+    private readonly fixture: FxFixture;
+    private readonly dates: string[];
+
+    constructor(fixture?: FxFixture) {
+        this.fixture = fixture || FixtureFxProvider.loadFromEnv() || DEFAULT_FIXTURE;
+        this.dates = Object.keys(this.fixture).filter(d => d !== 'default').sort();
+    }
+
+    async getUsdRate(currency: FiatCurrency, date: string): Promise<FxQuote> {
+        for (let i = this.dates.length - 1; i >= 0; i--) {
+            const day = this.dates[i];
+            const rate = this.fixture[day][currency];
+            if (day <= date && rate) return { rate, rateDate: day };
+        }
+
+        const fallback = this.fixture.default?.[currency];
+        if (!fallback) throw new Error(`Fixture has no rate for ${currency}`);
+        return { rate: fallback, rateDate: date };
+    }
+
+    private static loadFromEnv(): FxFixture | null {
+        const fixturePath = process.env.FX_FIXTURE_PATH;
+        if (!fixturePath) return null;
+        return JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+    }
+}
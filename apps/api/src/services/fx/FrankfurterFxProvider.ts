@@ -0,0 +1,24 @@
+// src/services/fx/FrankfurterFxProvider.ts
+import axios from 'axios';
+import { FiatCurrency, FxQuote, FxRateProvider } from './types';
+
+/**
+ * European Central Bank reference rates via the Frankfurter API (no key required).
+ * Rates are daily; requests for non-publishing days resolve to the previous business day.
+ */
+export class FrankfurterFxProvider implements FxRateProvider {
+    readonly name = 'ECB (Frankfurter)';
+    private readonly baseUrl = process.env.FX_API_URL || 'https://api.frankfurter.app';
+
+    async getUsdRate(currency: FiatCurrency, date: string): Promise<FxQuote> {
+        const response = await axios.get(`${this.baseUrl}/${date}`, {
+            params: { from: 'USD', to: currency },
+            timeout: 5000
+        });
+
+        const rate = response.data?.rates?.[currency];
+        if (!rate) throw new Error(`Rate for ${currency} not found in Frankfurter response`);
+
+        return { rate: Number(rate), rateDate: response.data.date || date };
+    }
+}
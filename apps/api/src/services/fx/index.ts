@@ -0,0 +1,12 @@
+// src/services/fx/index.ts
+export { FrankfurterFxProvider } from './FrankfurterFxProvider';
+export { FixtureFxProvider } from './FixtureFxProvider';
+export type { FxFixture } from './FixtureFxProvider';
+export {
+    SUPPORTED_CURRENCIES,
+    BASE_CURRENCY,
+    CURRENCY_SYMBOLS,
+    CURRENCY_DECIMALS,
+    isSupportedCurrency
+} from './types';
+export type { FiatCurrency, FxQuote, FxRateProvider } from './types';
@@ -0,0 +1,39 @@
+// src/services/fx/types.ts
+
+// ISO 4217 codes accepted on bill requests and templates.
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'JPY', 'CAD', 'AUD', 'CHF', 'SGD'] as const;
+export type FiatCurrency = typeof SUPPORTED_CURRENCIES[number];
+
+export const BASE_CURRENCY: FiatCurrency = 'USD';
+
+export const CURRENCY_SYMBOLS: Record<FiatCurrency, string> = {
+    USD: '$',
+    EUR: '€',
+    GBP: '£',
+    INR: '₹',
+    JPY: '¥',
+    CAD: 'CA$',
+    AUD: 'A$',
+    CHF: 'CHF ',
+    SGD: 'S$'
+};
+
+// Minor units per ISO 4217 (JPY has none)
+export const CURRENCY_DECIMALS: Partial<Record<FiatCurrency, number>> = {
+    JPY: 0
+};
+
+export function isSupportedCurrency(value: string): value is FiatCurrency {
+    return (SUPPORTED_CURRENCIES as readonly string[]).includes(value);
+}
+
+/** One unit of USD expressed in `currency`, as published for `rateDate`. */
+export interface FxQuote {
+    rate: number;
+    rateDate: string; // YYYY-MM-DD the provider actually published (may precede the requested date on weekends/holidays)
+}
+
+export interface FxRateProvider {
+    readonly name: string;
+    getUsdRate(currency: FiatCurrency, date: string): Promise<FxQuote>;
+}
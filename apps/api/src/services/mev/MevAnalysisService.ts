@@ -0,0 +1,270 @@
+// src/services/mev/MevAnalysisService.ts
+import { ethers } from 'ethers';
+import { createComponentLogger } from '../../lib/logger';
+import { getChainConfig } from '../classifier';
+import { MevAnalysis, MevFinding, PoolSwap } from './types';
+
+const mevLogger = createComponentLogger('MevAnalysis');
+
+// Nearest swaps on each side of the user's that are checked for a common actor
+const MAX_CANDIDATES = parseInt(process.env.MEV_MAX_CANDIDATES || '5', 10);
+// Pools of a multi-hop route that are analyzed
+const MAX_POOLS = 4;
+
+const SWAP_V2_TOPIC = ethers.id('Swap(address,uint256,uint256,uint256,uint256,address)');
+const SWAP_V3_TOPIC = ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24)');
+const SYNC_V2_TOPIC = ethers.id('Sync(uint112,uint112)');
+
+const POOL_ABI = [
+    'function token0() view returns (address)',
+    'function token1() view returns (address)'
+];
+// slot0() layouts differ between V3 forks; only the leading sqrtPriceX96 word is read
+const SLOT0_SELECTOR = ethers.id('slot0()').slice(0, 10);
+
+const Q96 = 2 ** 96;
+const BPS = 10000;
+
+interface Sender {
+    from: string;
+    to?: string;
+}
+
+/**
+ * Sandwich and back-run detection for swaps on Uniswap V2 / V3 style pools.
+ *
+ * The other Swap events of the user's pools in the same block are ordered by position. A swap in the
+ * user's direction before it and one in the opposite direction after it, sent by the same account or
+ * through the same (non-router) contract, is a sandwich. The loss is estimated from the price move of
+ * the front-run leg alone: without it the user would have traded at the pre-front-run price.
+ *
+ * Prices come from the logs (V2 Sync reserves, V3 sqrtPriceX96), so only the pool's opening V3 price
+ * needs historical state. Heuristic by nature: it reports what the block shows, not intent.
+ */
+export class MevAnalysisService {
+    private readonly coder = ethers.AbiCoder.defaultAbiCoder();
+
+    /**
+     * Findings for the user's pools, or null when the transaction has no V2 / V3 swap.
+     */
+    async analyze(
+        provider: ethers.JsonRpcProvider,
+        chainId: number,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt
+    ): Promise<MevAnalysis | null> {
+        const pools = [...new Set(receipt.logs
+            .filter(l => l.topics[0] === SWAP_V2_TOPIC || l.topics[0] === SWAP_V3_TOPIC)
+            .map(l => l.address.toLowerCase()))]
+            .slice(0, MAX_POOLS);
+        if (pools.length === 0) return null;
+
+        const blockLogs = await provider.getLogs({
+            blockHash: receipt.blockHash,
+            address: pools,
+            topics: [[SWAP_V2_TOPIC, SWAP_V3_TOPIC, SYNC_V2_TOPIC]]
+        });
+
+        const findings: MevFinding[] = [];
+        for (const pool of pools) {
+            const logs = blockLogs
+                .filter(l => l.address.toLowerCase() === pool)
+                .sort((a, b) => a.transactionIndex - b.transactionIndex || a.index - b.index);
+            try {
+                const finding = await this.analyzePool(provider, chainId, tx, receipt, this.decodeSwaps(pool, logs));
+                if (finding) findings.push(finding);
+            } catch (err: any) {
+                mevLogger.warn('Pool analysis failed', { chainId, pool, txHash: receipt.hash, error: err.message });
+            }
+        }
+
+        return { analyzedPools: pools.length, findings };
+    }
+
+    private async analyzePool(
+        provider: ethers.JsonRpcProvider,
+        chainId: number,
+        tx: ethers.TransactionResponse,
+        receipt: ethers.TransactionReceipt,
+        swaps: PoolSwap[]
+    ): Promise<MevFinding | null> {
+        const victim = swaps.find(s => s.txHash === receipt.hash.toLowerCase());
+        if (!victim) return null;
+
+        // Closest candidates first
+        const fronts = swaps
+            .filter(s => s.txIndex < victim.txIndex && s.zeroForOne === victim.zeroForOne)
+            .slice(-MAX_CANDIDATES)
+            .reverse();
+        const backs = swaps
+            .filter(s => s.txIndex > victim.txIndex && s.zeroForOne !== victim.zeroForOne)
+            .slice(0, MAX_CANDIDATES);
+        if (backs.length === 0) return null;
+
+        const senders = await this.senders(provider, [...fronts, ...backs]);
+        const user: Sender = { from: tx.from.toLowerCase(), to: tx.to?.toLowerCase() };
+        const routers = getChainConfig(chainId).knownRouters;
+
+        // Contracts ordinary users also call (routers, the user's own entry point) are no evidence
+        const isBotContract = (to?: string) => !!to && to !== user.to && !routers.has(to);
+
+        for (const front of fronts) {
+            const a = senders.get(front.txHash);
+            if (!a || a.from === user.from) continue;
+
+            for (const back of backs) {
+                const b = senders.get(back.txHash);
+                if (!b) continue;
+
+                const sameSender = a.from === b.from;
+                const sameContract = a.to === b.to && isBotContract(a.to);
+                if (!sameSender && !sameContract) continue;
+
+                const loss = await this.estimateLoss(provider, receipt.blockNumber, front, victim);
+                return {
+                    pattern: 'SANDWICH',
+                    pool: victim.pool,
+                    model: victim.model,
+                    attacker: a.from,
+                    attackerContract: sameContract ? a.to : undefined,
+                    frontRunTx: front.txHash,
+                    backRunTx: back.txHash,
+                    tokenOut: await this.tokenOut(provider, victim),
+                    amountOut: victim.amountOut.toString(),
+                    ...loss
+                };
+            }
+        }
+
+        // Back-run: the very next transaction reverses the user's trade on this pool through a bot contract
+        const next = swaps.find(s => s.txIndex > victim.txIndex);
+        const b = next ? senders.get(next.txHash) : undefined;
+        if (next && b && next.txIndex === victim.txIndex + 1 && next.zeroForOne !== victim.zeroForOne
+            && b.from !== user.from && isBotContract(b.to)) {
+            return {
+                pattern: 'BACK_RUN',
+                pool: victim.pool,
+                model: victim.model,
+                attacker: b.from,
+                attackerContract: b.to,
+                backRunTx: next.txHash,
+                tokenOut: await this.tokenOut(provider, victim),
+                amountOut: victim.amountOut.toString()
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Swaps of one pool in block order, with the mid price around each (token1 per token0).
+     * V2 prices come from the Sync the pair emits right before each Swap; V3 swaps only log the
+     * price after, so the price before is the previous swap's (unknown for the block's first).
+     */
+    private decodeSwaps(pool: string, logs: ethers.Log[]): PoolSwap[] {
+        const swaps: PoolSwap[] = [];
+        let sync: ethers.Log | undefined;
+        let price: number | undefined;
+
+        for (const log of logs) {
+            if (log.topics[0] === SYNC_V2_TOPIC) {
+                sync = log;
+                continue;
+            }
+
+            const base = { pool, txHash: log.transactionHash.toLowerCase(), txIndex: log.transactionIndex, logIndex: log.index };
+            let swap: PoolSwap | null;
+            if (log.topics[0] === SWAP_V2_TOPIC) {
+                const [a0In, a1In, a0Out, a1Out] = this.coder.decode(['uint256', 'uint256', 'uint256', 'uint256'], log.data).map(v => BigInt(v));
+                const zeroForOne = a1Out > BigInt(0);
+                swap = { ...base, model: 'UNISWAP_V2', zeroForOne, amountIn: zeroForOne ? a0In : a1In, amountOut: zeroForOne ? a1Out : a0Out };
+
+                if (sync && sync.transactionHash === log.transactionHash) {
+                    const [r0, r1] = this.coder.decode(['uint112', 'uint112'], sync.data).map(v => BigInt(v));
+                    swap.priceAfter = this.ratio(r1, r0);
+                    swap.priceBefore = this.ratio(r1 - a1In + a1Out, r0 - a0In + a0Out);
+                }
+            } else {
+                const [amount0, amount1, sqrtPriceX96] = this.coder.decode(['int256', 'int256', 'uint160', 'uint128', 'int24'], log.data).map(v => BigInt(v));
+                const zeroForOne = amount0 > BigInt(0);
+                swap = {
+                    ...base,
+                    model: 'UNISWAP_V3',
+                    zeroForOne,
+                    amountIn: zeroForOne ? amount0 : amount1,
+                    amountOut: zeroForOne ? -amount1 : -amount0,
+                    priceBefore: price,
+                    priceAfter: (Number(sqrtPriceX96) / Q96) ** 2
+                };
+            }
+
+            sync = undefined;
+            if (swap.amountIn <= BigInt(0) || swap.amountOut <= BigInt(0)) continue;
+            swaps.push(swap);
+            price = swap.priceAfter;
+        }
+        return swaps;
+    }
+
+    /**
+     * Output the victim would have received had the pool stayed at the front-run's starting price.
+     * Output per unit of input scales with the price for token0 -> token1 and with its inverse otherwise.
+     */
+    private async estimateLoss(
+        provider: ethers.JsonRpcProvider,
+        blockNumber: number,
+        front: PoolSwap,
+        victim: PoolSwap
+    ): Promise<Pick<MevFinding, 'lossAmount' | 'lossBps'>> {
+        const before = front.priceBefore ?? (front.model === 'UNISWAP_V3' ? await this.openingPrice(provider, front.pool, blockNumber) : undefined);
+        const after = front.priceAfter;
+        if (!before || !after) return {};
+
+        const ratio = victim.zeroForOne ? before / after : after / before;
+        if (!Number.isFinite(ratio) || ratio <= 1) return {};
+
+        return {
+            lossAmount: BigInt(Math.floor(Number(victim.amountOut) * (ratio - 1))).toString(),
+            lossBps: Math.round((1 - 1 / ratio) * BPS)
+        };
+    }
+
+    /** V3 price at the end of the previous block (needs historical state; undefined on pruned nodes). */
+    private async openingPrice(provider: ethers.JsonRpcProvider, pool: string, blockNumber: number): Promise<number | undefined> {
+        try {
+            const raw = await provider.call({ to: pool, data: SLOT0_SELECTOR, blockTag: blockNumber - 1 });
+            return (Number(BigInt(ethers.dataSlice(raw, 0, 32))) / Q96) ** 2;
+        } catch (err: any) {
+            mevLogger.debug('Opening price lookup failed', { pool, blockNumber, error: err.message });
+            return undefined;
+        }
+    }
+
+    private async tokenOut(provider: ethers.JsonRpcProvider, swap: PoolSwap): Promise<string | undefined> {
+        try {
+            const pool = new ethers.Contract(swap.pool, POOL_ABI, provider);
+            const token: string = swap.zeroForOne ? await pool.token1() : await pool.token0();
+            return token.toLowerCase();
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async senders(provider: ethers.JsonRpcProvider, swaps: PoolSwap[]): Promise<Map<string, Sender>> {
+        const hashes = [...new Set(swaps.map(s => s.txHash))];
+        const senders = new Map<string, Sender>();
+        await Promise.all(hashes.map(async hash => {
+            try {
+                const t = await provider.getTransaction(hash);
+                if (t) senders.set(hash, { from: t.from.toLowerCase(), to: t.to?.toLowerCase() });
+            } catch (err: any) {
+                mevLogger.debug('Neighbour transaction lookup failed', { txHash: hash, error: err.message });
+            }
+        }));
+        return senders;
+    }
+
+    private ratio(numerator: bigint, denominator: bigint): number | undefined {
+        return denominator > BigInt(0) && numerator > BigInt(0) ? Number(numerator) / Number(denominator) : undefined;
+    }
+}
@@ -0,0 +1,7 @@
+// src/services/mev/index.ts
+import { MevAnalysisService } from './MevAnalysisService';
+
+export { MevAnalysisService } from './MevAnalysisService';
+export type { MevAnalysis, MevFinding, MevPattern, PoolModel, PoolSwap } from './types';
+
+export const mevAnalysis = new MevAnalysisService();
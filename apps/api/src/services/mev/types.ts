@@ -0,0 +1,43 @@
+// src/services/mev/types.ts
+
+export type MevPattern = 'SANDWICH' | 'BACK_RUN';
+
+export type PoolModel = 'UNISWAP_V2' | 'UNISWAP_V3';
+
+/** One Swap event of a constant-product (V2) or concentrated-liquidity (V3) pool. */
+export interface PoolSwap {
+    pool: string;
+    model: PoolModel;
+    txHash: string;
+    txIndex: number;
+    logIndex: number;
+    zeroForOne: boolean; // token0 in, token1 out
+    amountIn: bigint;
+    amountOut: bigint;
+    priceBefore?: number; // Mid price (token1 per token0) before / after this swap
+    priceAfter?: number;
+}
+
+/**
+ * MEV around one of the user's swaps.
+ * - SANDWICH: same actor swapped the same way right before and the opposite way right after
+ * - BACK_RUN: the next swap on the pool reversed the user's price impact (arbitrage, no direct loss)
+ */
+export interface MevFinding {
+    pattern: MevPattern;
+    pool: string;
+    model: PoolModel;
+    attacker: string; // Sender of the attacking transaction(s)
+    attackerContract?: string; // Bot contract both legs called
+    frontRunTx?: string;
+    backRunTx: string;
+    tokenOut?: string; // User's output token on this pool
+    amountOut: string; // What the user received from the pool (raw units)
+    lossAmount?: string; // Estimated output lost to the front-run (raw units of tokenOut)
+    lossBps?: number; // Loss as a share of the output without the front-run
+}
+
+export interface MevAnalysis {
+    analyzedPools: number; // User's V2 / V3 pools in this transaction
+    findings: MevFinding[];
+}
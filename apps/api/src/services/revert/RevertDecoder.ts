@@ -0,0 +1,99 @@
+// src/services/revert/RevertDecoder.ts
+import { ethers } from 'ethers';
+import { RevertReason } from './types';
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+// Solidity panic codes (docs.soliditylang.org, "Panic via assert and Error via require")
+const PANIC_CODES: Record<number, string> = {
+    0x00: 'Generic compiler panic',
+    0x01: 'Assertion failed',
+    0x11: 'Arithmetic overflow or underflow',
+    0x12: 'Division or modulo by zero',
+    0x21: 'Invalid enum value',
+    0x22: 'Corrupted storage byte array',
+    0x31: 'pop() on an empty array',
+    0x32: 'Array index out of bounds',
+    0x41: 'Out of memory',
+    0x51: 'Call to an uninitialized function'
+};
+
+// Widely deployed custom errors (OpenZeppelin 5, Uniswap Universal Router, Permit2)
+const KNOWN_ERRORS: Array<[string, string]> = [
+    ['ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)', 'Insufficient token balance'],
+    ['ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)', 'Insufficient token allowance'],
+    ['ERC20InvalidReceiver(address receiver)', 'Invalid token receiver'],
+    ['ERC20InvalidSender(address sender)', 'Invalid token sender'],
+    ['ERC721NonexistentToken(uint256 tokenId)', 'NFT does not exist'],
+    ['ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)', 'Sender does not own the NFT'],
+    ['ERC721InsufficientApproval(address operator, uint256 tokenId)', 'Not approved to transfer the NFT'],
+    ['ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)', 'Insufficient token balance'],
+    ['OwnableUnauthorizedAccount(address account)', 'Caller is not the owner'],
+    ['AccessControlUnauthorizedAccount(address account, bytes32 neededRole)', 'Caller is missing a required role'],
+    ['EnforcedPause()', 'Contract is paused'],
+    ['ReentrancyGuardReentrantCall()', 'Reentrant call blocked'],
+    ['SafeERC20FailedOperation(address token)', 'Token transfer failed'],
+    ['AddressInsufficientBalance(address account)', 'Insufficient native balance'],
+    ['FailedInnerCall()', 'Inner call failed'],
+    ['V2TooLittleReceived()', 'Slippage: too little received'],
+    ['V2TooMuchRequested()', 'Slippage: too much requested'],
+    ['V3TooLittleReceived()', 'Slippage: too little received'],
+    ['V3TooMuchRequested()', 'Slippage: too much requested'],
+    ['TransactionDeadlinePassed()', 'Transaction deadline passed'],
+    ['InsufficientETH()', 'Insufficient ETH sent'],
+    ['InsufficientToken()', 'Insufficient token amount'],
+    ['ExecutionFailed(uint256 commandIndex, bytes message)', 'Router command failed'],
+    ['AllowanceExpired(uint256 deadline)', 'Permit2 allowance expired'],
+    ['InsufficientAllowance(uint256 amount)', 'Insufficient Permit2 allowance'],
+    ['SignatureExpired(uint256 signatureDeadline)', 'Signature expired'],
+    ['InvalidNonce()', 'Invalid nonce']
+];
+
+const knownErrors = new ethers.Interface(KNOWN_ERRORS.map(([signature]) => `error ${signature}`));
+const descriptions = new Map<string, string>(
+    KNOWN_ERRORS.map(([signature, description]) => [ethers.ErrorFragment.from(`error ${signature}`).selector, description])
+);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+/**
+ * Decode revert data into a receipt-ready reason. Never throws: malformed data degrades to `raw`.
+ */
+export function decodeRevertData(data: string | null | undefined): RevertReason {
+    if (!data || data === '0x') {
+        return { kind: 'empty', message: 'Reverted without a reason' };
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const body = '0x' + data.slice(10);
+
+    try {
+        if (selector === ERROR_SELECTOR) {
+            const [message] = coder.decode(['string'], body);
+            return { kind: 'error', message: String(message), selector, signature: 'Error(string)', args: [String(message)], data };
+        }
+
+        if (selector === PANIC_SELECTOR) {
+            const [code] = coder.decode(['uint256'], body);
+            const hex = `0x${code.toString(16).padStart(2, '0')}`;
+            const meaning = PANIC_CODES[Number(code)] || 'Unknown panic code';
+            return { kind: 'panic', message: `Panic ${hex}: ${meaning}`, selector, signature: 'Panic(uint256)', args: [hex], data };
+        }
+
+        const parsed = knownErrors.parseError(data);
+        if (parsed) {
+            return {
+                kind: 'custom',
+                message: `${descriptions.get(parsed.selector) || parsed.name} (${parsed.name})`,
+                selector,
+                signature: parsed.signature,
+                args: parsed.args.map(arg => String(arg)),
+                data
+            };
+        }
+    } catch {
+        // Selector matched but the body is malformed; fall through to raw
+    }
+
+    return { kind: 'raw', message: `Reverted with unrecognized error ${selector}`, selector, data };
+}
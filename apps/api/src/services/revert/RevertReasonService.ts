@@ -0,0 +1,79 @@
+// src/services/revert/RevertReasonService.ts
+import { ethers } from 'ethers';
+import { createComponentLogger } from '../../lib/logger';
+import { decodeRevertData } from './RevertDecoder';
+import { RevertReason } from './types';
+
+const revertLogger = createComponentLogger('RevertReason');
+
+/**
+ * Recovers why a transaction reverted.
+ *
+ * 1. `debug_traceTransaction` (top call only) gives the exact revert output where the node supports it.
+ * 2. Otherwise the call is replayed with `eth_call` on the parent block's state. This ignores
+ *    earlier transactions in the same block, so state-dependent reverts may not reproduce.
+ */
+export class RevertReasonService {
+    async getReason(provider: ethers.JsonRpcProvider, tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt): Promise<RevertReason> {
+        const outOfGas = receipt.gasUsed >= tx.gasLimit;
+
+        const traced = await this.fromTrace(provider, tx.hash);
+        if (traced) return traced;
+
+        try {
+            await provider.call({
+                from: tx.from,
+                to: tx.to,
+                data: tx.data,
+                value: tx.value,
+                gasLimit: tx.gasLimit,
+                blockTag: Math.max(receipt.blockNumber - 1, 0)
+            });
+
+            // Replay succeeded: the revert depended on state changed earlier in the block
+            return outOfGas
+                ? { kind: 'out_of_gas', message: 'Out of gas', source: 'replay' }
+                : { kind: 'unavailable', message: 'Reverted (reason not reproducible on replay)', source: 'replay' };
+        } catch (err: any) {
+            const data = this.extractRevertData(err);
+            if (data === null) {
+                revertLogger.debug('Replay failed without revert data', { txHash: tx.hash, error: err.message });
+                return outOfGas
+                    ? { kind: 'out_of_gas', message: 'Out of gas', source: 'replay' }
+                    : { kind: 'unavailable', message: 'Reverted (reason unavailable)', source: 'replay' };
+            }
+
+            const reason = decodeRevertData(data);
+            if (reason.kind === 'empty' && outOfGas) {
+                return { kind: 'out_of_gas', message: 'Out of gas', source: 'replay' };
+            }
+            return { ...reason, source: 'replay' };
+        }
+    }
+
+    private async fromTrace(provider: ethers.JsonRpcProvider, txHash: string): Promise<RevertReason | null> {
+        try {
+            const trace = await provider.send('debug_traceTransaction', [txHash, { tracer: 'callTracer', tracerConfig: { onlyTopCall: true } }]);
+            if (!trace || !trace.error) return null;
+
+            if (/out of gas/i.test(trace.error)) {
+                return { kind: 'out_of_gas', message: 'Out of gas', source: 'trace' };
+            }
+            return { ...decodeRevertData(trace.output), source: 'trace' };
+        } catch {
+            // Most public RPCs do not expose the debug namespace
+            return null;
+        }
+    }
+
+    /**
+     * ethers surfaces revert bytes as `err.data` (CALL_EXCEPTION); some nodes nest them in `err.info.error.data`.
+     */
+    private extractRevertData(err: any): string | null {
+        const candidates = [err?.data, err?.info?.error?.data, err?.error?.data];
+        for (const candidate of candidates) {
+            if (typeof candidate === 'string' && ethers.isHexString(candidate)) return candidate;
+        }
+        return null;
+    }
+}
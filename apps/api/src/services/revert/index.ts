@@ -0,0 +1,8 @@
+// src/services/revert/index.ts
+import { RevertReasonService } from './RevertReasonService';
+
+export { RevertReasonService } from './RevertReasonService';
+export { decodeRevertData } from './RevertDecoder';
+export type { RevertKind, RevertReason } from './types';
+
+export const revertReasons = new RevertReasonService();
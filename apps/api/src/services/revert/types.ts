@@ -0,0 +1,21 @@
+// src/services/revert/types.ts
+
+/**
+ * How a revert reason was obtained:
+ * - error / panic / custom: decoded from revert data
+ * - raw: revert data present but the selector is unknown
+ * - out_of_gas: no revert data and the transaction used its whole gas limit
+ * - empty: reverted without data (`revert()` / `require(cond)` without message)
+ * - unavailable: the node could not replay the transaction
+ */
+export type RevertKind = 'error' | 'panic' | 'custom' | 'raw' | 'out_of_gas' | 'empty' | 'unavailable';
+
+export interface RevertReason {
+    kind: RevertKind;
+    message: string; // Human-readable reason shown on the receipt
+    selector?: string; // 4-byte selector of the revert data
+    signature?: string; // e.g. 'ERC20InsufficientBalance(address,uint256,uint256)'
+    args?: string[]; // Decoded arguments, stringified
+    data?: string; // Raw revert data
+    source?: 'trace' | 'replay'; // debug_traceTransaction output or eth_call at the parent block
+}
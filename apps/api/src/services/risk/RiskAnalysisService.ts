@@ -0,0 +1,242 @@
+// src/services/risk/RiskAnalysisService.ts
+import { ethers } from 'ethers';
+import { supabase } from '../../lib/supabase';
+import { createComponentLogger } from '../../lib/logger';
+import { getChainConfig } from '../classifier';
+import type { ClassificationResult, RiskFinding, RiskSeverity, TokenApproval } from '../classifier';
+import { contractAbis } from '../signatures';
+import { SupportedTokenRow } from './types';
+
+const riskLogger = createComponentLogger('RiskAnalysis');
+
+const CACHE_TTL_MS = parseInt(process.env.SUPPORTED_TOKENS_TTL_MS || '300000', 10);
+// Accounts with at most this many sent transactions (at the approval block) count as fresh
+const FRESH_EOA_MAX_NONCE = parseInt(process.env.RISK_FRESH_EOA_MAX_NONCE || '3', 10);
+// Token contracts whose symbol is read per transaction (poisoning batches can touch hundreds)
+const MAX_TOKENS_CHECKED = 10;
+
+const SEVERITY_ORDER: Record<RiskSeverity, number> = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const SYMBOL_ABI = ['function symbol() view returns (string)'];
+const DECIMALS_ABI = ['function decimals() view returns (uint8)'];
+const NATIVE_DECIMALS = BigInt(18);
+// Findings list at most this many example transfers
+const MAX_EVIDENCE = 10;
+
+// Characters impersonators substitute into symbols (Cyrillic / Greek capitals, digit zero)
+const CONFUSABLES: Record<string, string> = {
+    'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T', 'У': 'Y', 'Х': 'X',
+    'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+    '0': 'O'
+};
+
+/**
+ * Scam signals that need chain state, added to the engine's offline findings (RiskAnalyzer):
+ * - unsolicited dust transfers (the dust threshold depends on each token's decimals)
+ * - unlisted tokens using the symbol of a `supported_tokens` entry of the same chain, or disguising a
+ *   listed / native symbol with look-alike characters on any chain
+ * - approvals to accounts with no code and almost no history
+ *
+ * Reads are made at the transaction's block, so the same transaction yields the same findings.
+ * Lookup failures skip the check rather than fail classification.
+ */
+export class RiskAnalysisService {
+    private symbols = new Map<number, Map<string, string>>(); // Chain -> normalized symbol -> listed symbol
+    private addresses = new Set<string>(); // `${chainId}:${address}`
+    private loadedAt = 0;
+    private refreshing: Promise<void> | null = null;
+
+    /**
+     * Every finding for a classified transaction: the engine's offline ones plus the chain-state
+     * checks, most severe first.
+     */
+    async analyze(
+        provider: ethers.JsonRpcProvider,
+        chainId: number,
+        result: ClassificationResult,
+        receipt: ethers.TransactionReceipt
+    ): Promise<RiskFinding[]> {
+        await this.ensureLoaded();
+
+        const [dust, impersonations, freshSpenders] = await Promise.all([
+            this.findDust(provider, chainId, result, receipt),
+            this.findImpersonations(provider, chainId, receipt),
+            this.findFreshSpenders(provider, (result.details?.approvals || []) as TokenApproval[], receipt.blockNumber)
+        ]);
+        return [...(result.risks || []), ...dust, ...impersonations, ...freshSpenders]
+            .sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+    }
+
+    /**
+     * Reload the listed tokens. Concurrent callers share one query.
+     */
+    async refresh(): Promise<void> {
+        if (this.refreshing) return this.refreshing;
+
+        this.refreshing = (async () => {
+            try {
+                const { data, error } = await supabase
+                    .from('supported_tokens')
+                    .select('*')
+                    .eq('is_active', true);
+                if (error) throw new Error(error.message);
+
+                const rows = (data || []) as SupportedTokenRow[];
+                const symbols = new Map<number, Map<string, string>>();
+                for (const r of rows) {
+                    if (!symbols.has(r.chain_id)) symbols.set(r.chain_id, new Map());
+                    symbols.get(r.chain_id)!.set(this.normalize(r.symbol), r.symbol.toUpperCase());
+                }
+                this.symbols = symbols;
+                this.addresses = new Set(rows.map(r => `${r.chain_id}:${r.address.toLowerCase()}`));
+                this.loadedAt = Date.now();
+            } catch (err: any) {
+                // Keep the previous list; retry on the next ensureLoaded
+                this.loadedAt = Date.now() - CACHE_TTL_MS / 2;
+                riskLogger.warn('Supported token refresh failed', { error: err.message });
+            } finally {
+                this.refreshing = null;
+            }
+        })();
+
+        return this.refreshing;
+    }
+
+    async ensureLoaded(): Promise<void> {
+        if (Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+        await this.refresh();
+    }
+
+    /**
+     * Transfers out of accounts that did not sign the transaction, at or below the chain's dust threshold.
+     * The threshold is native (18-decimal) units, so it is scaled to each token's decimals: 0.0001 ETH
+     * becomes 0.0001 USDC. Tokens the subject sent or received itself are its own trade and skipped.
+     */
+    private async findDust(provider: ethers.JsonRpcProvider, chainId: number, result: ClassificationResult, receipt: ethers.TransactionReceipt): Promise<RiskFinding[]> {
+        const subject = String(result.details?.sender || receipt.from).toLowerCase();
+        const transfers = receipt.logs
+            .filter(l => l.topics[0] === TRANSFER_TOPIC && l.topics.length === 3 && l.data.length >= 66)
+            .map(l => ({
+                token: l.address.toLowerCase(),
+                from: `0x${l.topics[1].slice(26)}`.toLowerCase(),
+                to: `0x${l.topics[2].slice(26)}`.toLowerCase(),
+                amount: BigInt(ethers.dataSlice(l.data, 0, 32))
+            }));
+
+        const ownTokens = new Set(transfers.filter(t => t.from === subject || t.to === subject).map(t => t.token));
+        const candidates = transfers.filter(t => t.from !== subject && t.from !== ethers.ZeroAddress
+            && t.amount > BigInt(0) && !ownTokens.has(t.token));
+        const tokens = [...new Set(candidates.map(t => t.token))].slice(0, MAX_TOKENS_CHECKED);
+
+        const nativeDust = getChainConfig(chainId).dustThreshold;
+        const thresholds = new Map<string, bigint>();
+        await Promise.all(tokens.map(async token => {
+            try {
+                const decimals = BigInt(await new ethers.Contract(token, DECIMALS_ABI, provider).decimals({ blockTag: receipt.blockNumber }));
+                thresholds.set(token, nativeDust * BigInt(10) ** decimals / BigInt(10) ** NATIVE_DECIMALS);
+            } catch {
+                // No decimals: the token's scale is unknown
+            }
+        }));
+
+        const dust = candidates.filter(t => t.amount <= (thresholds.get(t.token) ?? BigInt(0)));
+        if (dust.length === 0) return [];
+
+        return [{
+            kind: 'DUST_TRANSFER',
+            severity: 'MEDIUM',
+            message: dust.length === 1
+                ? `Dust transfer from ${dust[0].from} to ${dust[0].to} - do not copy addresses from this transaction`
+                : `${dust.length} dust transfers - do not copy addresses from this transaction`,
+            address: dust[0].from,
+            evidence: dust.slice(0, MAX_EVIDENCE).map(t => `${t.token}: ${t.from} -> ${t.to} (${t.amount.toString()})`)
+        }];
+    }
+
+    /**
+     * Exact copies of a symbol listed on this chain are MEDIUM (could be a bridged copy); copies
+     * disguised with look-alike characters are HIGH. Listings only hold one address per symbol, so on
+     * chains without a listing for a symbol an exact copy is usually the canonical token and not flagged.
+     */
+    private async findImpersonations(provider: ethers.JsonRpcProvider, chainId: number, receipt: ethers.TransactionReceipt): Promise<RiskFinding[]> {
+        const chain = getChainConfig(chainId);
+        const native: [string, string] = [this.normalize(chain.nativeTokenSymbol), chain.nativeTokenSymbol.toUpperCase()];
+        const chainListed = new Map([...(this.symbols.get(chainId) || []), native]);
+        // Disguised copies are flagged whatever chain the symbol is listed on
+        const listed = new Map([...[...this.symbols.values()].flatMap(m => [...m]), native]);
+
+        const tokens = [...new Set(receipt.logs
+            .filter(l => l.topics[0] === TRANSFER_TOPIC && l.topics.length === 3)
+            .map(l => l.address.toLowerCase()))]
+            .filter(t => !this.isVerified(chainId, t, chain.nativeTokenAddress))
+            .slice(0, MAX_TOKENS_CHECKED);
+
+        const findings = await Promise.all(tokens.map(async (token): Promise<RiskFinding | null> => {
+            let symbol: string;
+            try {
+                symbol = await new ethers.Contract(token, SYMBOL_ABI, provider).symbol({ blockTag: receipt.blockNumber });
+            } catch {
+                return null; // No (string) symbol: nothing to impersonate with
+            }
+
+            const copied = listed.get(this.normalize(symbol));
+            if (!copied) return null;
+
+            const disguised = symbol.trim().toUpperCase() !== copied;
+            if (!disguised && !chainListed.has(this.normalize(symbol))) return null;
+            return {
+                kind: 'IMPERSONATION_TOKEN',
+                severity: disguised ? 'HIGH' : 'MEDIUM',
+                message: disguised
+                    ? `Token ${token} disguises its symbol "${symbol}" as ${copied} with look-alike characters - it is not the listed ${copied}`
+                    : `Token ${token} uses the symbol ${copied} but is not the listed ${copied} contract - verify the token address`,
+                address: token,
+                evidence: [`symbol: ${JSON.stringify(symbol)}`]
+            };
+        }));
+
+        return findings.filter((f): f is RiskFinding => f !== null);
+    }
+
+    private async findFreshSpenders(provider: ethers.JsonRpcProvider, approvals: TokenApproval[], blockNumber: number): Promise<RiskFinding[]> {
+        const spenders = [...new Set(approvals.filter(a => !a.revoke).map(a => a.spender.toLowerCase()))];
+
+        const findings = await Promise.all(spenders.map(async (spender): Promise<RiskFinding | null> => {
+            try {
+                const [code, nonce] = await Promise.all([
+                    provider.getCode(spender, blockNumber),
+                    provider.getTransactionCount(spender, blockNumber)
+                ]);
+                if (code !== '0x' || nonce > FRESH_EOA_MAX_NONCE) return null;
+
+                return {
+                    kind: 'APPROVAL_TO_FRESH_EOA',
+                    severity: 'HIGH',
+                    message: `Allowance granted to ${spender}, an account with no code and ${nonce} prior transaction(s) - approvals to fresh wallets are a common drainer pattern`,
+                    address: spender,
+                    evidence: [`nonce at block ${blockNumber}: ${nonce}`]
+                };
+            } catch (err: any) {
+                riskLogger.debug('Spender lookup failed', { spender, error: err.message });
+                return null;
+            }
+        }));
+
+        return findings.filter((f): f is RiskFinding => f !== null);
+    }
+
+    /** Listed on this chain, wrapped native, or an admin-uploaded verified ABI on this chain. */
+    private isVerified(chainId: number, token: string, wrappedNative: string): boolean {
+        return this.addresses.has(`${chainId}:${token}`)
+            || token === wrappedNative
+            || contractAbis.list().some(c => c.chainId === chainId && c.address === token);
+    }
+
+    private normalize(symbol: string): string {
+        return [...symbol.normalize('NFKC').toUpperCase()]
+            .map(c => CONFUSABLES[c] ?? c)
+            .join('')
+            .replace(/[^A-Z0-9]/g, '');
+    }
+}
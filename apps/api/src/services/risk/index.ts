@@ -0,0 +1,8 @@
+// src/services/risk/index.ts
+import { RiskAnalysisService } from './RiskAnalysisService';
+
+export { RiskAnalysisService } from './RiskAnalysisService';
+export type { SupportedTokenRow } from './types';
+
+// Shared instance: the listed-token cache is process-wide
+export const riskAnalysis = new RiskAnalysisService();
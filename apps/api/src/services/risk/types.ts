@@ -0,0 +1,12 @@
+// src/services/risk/types.ts
+
+/** `supported_tokens` row (listed tokens whose symbols impersonators copy). */
+export interface SupportedTokenRow {
+    symbol: string;
+    address: string;
+    chain_id: number; // Chain the listed address lives on
+    name: string;
+    decimals: number;
+    is_native: boolean | null;
+    is_active: boolean | null;
+}
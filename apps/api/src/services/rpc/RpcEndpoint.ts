@@ -0,0 +1,155 @@
+// src/services/rpc/RpcEndpoint.ts
+import { ethers } from 'ethers';
+import { CircuitState, RpcEndpointHealth } from './types';
+
+const TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || '10000', 10);
+const CIRCUIT_FAILURES = parseInt(process.env.RPC_CIRCUIT_FAILURES || '3', 10);
+const CIRCUIT_COOLDOWN_MS = parseInt(process.env.RPC_CIRCUIT_COOLDOWN_MS || '30000', 10);
+
+const WINDOW_SIZE = 20;
+const MIN_SAMPLES = 10;
+const MAX_ERROR_RATE = 0.5;
+const LATENCY_ALPHA = 0.3;
+const UNKNOWN_LATENCY_MS = 300; // Untried endpoints rank like an average one
+
+// Provider-side throttling arrives as a JSON-RPC error, not a transport failure
+const RATE_LIMIT_CODES = new Set([-32005, 429]);
+
+/**
+ * One RPC URL with its own health record and circuit breaker.
+ * Shared by every pool that lists the URL, so health survives registry refreshes.
+ */
+export class RpcEndpoint {
+    readonly url: string;
+    readonly label: string;
+
+    private provider: ethers.JsonRpcProvider;
+    private failureWindow: boolean[] = []; // Last WINDOW_SIZE calls (true = success)
+    private latencyEwma: number | null = null;
+    private consecutiveFailures = 0;
+    private circuit: CircuitState = 'closed';
+    private circuitOpenUntil = 0;
+    private trialInFlight = false;
+
+    private totalRequests = 0;
+    private totalFailures = 0;
+    private lastError: string | null = null;
+    private lastErrorAt: number | null = null;
+    private lastSuccessAt: number | null = null;
+
+    constructor(url: string, network: ethers.Network) {
+        this.url = url;
+        // Never expose API keys embedded in the path (Alchemy/Infura style)
+        this.label = url.replace(/\/(v\d+)\/[A-Za-z0-9_-]{16,}/, '/$1/***');
+
+        const request = new ethers.FetchRequest(url);
+        request.timeout = TIMEOUT_MS;
+        this.provider = new ethers.JsonRpcProvider(request, network, { staticNetwork: network, batchMaxCount: 1 });
+    }
+
+    /**
+     * Closed: always. Open: only once the cooldown has passed (moves to half-open).
+     * Half-open: a single trial request at a time.
+     */
+    isAvailable(now = Date.now()): boolean {
+        if (this.circuit === 'open' && now >= this.circuitOpenUntil) {
+            this.circuit = 'half_open';
+        }
+        if (this.circuit === 'half_open') return !this.trialInFlight;
+        return this.circuit === 'closed';
+    }
+
+    get openUntil(): number {
+        return this.circuitOpenUntil;
+    }
+
+    get score(): number {
+        const latency = this.latencyEwma ?? UNKNOWN_LATENCY_MS;
+        return Math.round(latency * (1 + 4 * this.errorRate));
+    }
+
+    get errorRate(): number {
+        if (this.failureWindow.length === 0) return 0;
+        return this.failureWindow.filter(ok => !ok).length / this.failureWindow.length;
+    }
+
+    /**
+     * Send one JSON-RPC payload. Transport errors, timeouts and rate-limit
+     * responses count against the endpoint and are thrown to the caller.
+     */
+    async send(payload: ethers.JsonRpcPayload): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+        const isTrial = this.circuit === 'half_open';
+        if (isTrial) this.trialInFlight = true;
+
+        const started = Date.now();
+        try {
+            const results = await this.provider._send(payload) as Array<ethers.JsonRpcResult | ethers.JsonRpcError>;
+
+            const limited = results.find(r => 'error' in r && RATE_LIMIT_CODES.has(r.error.code));
+            if (limited && 'error' in limited) {
+                throw new Error(`Rate limited: ${limited.error.message || limited.error.code}`);
+            }
+
+            this.recordSuccess(Date.now() - started);
+            return results;
+        } catch (err: any) {
+            this.recordFailure(err);
+            throw err;
+        } finally {
+            if (isTrial) this.trialInFlight = false;
+        }
+    }
+
+    snapshot(): RpcEndpointHealth {
+        this.isAvailable(); // Settle open -> half_open before reporting
+        return {
+            url: this.label,
+            circuit: this.circuit,
+            openUntil: this.circuit === 'open' ? new Date(this.circuitOpenUntil).toISOString() : null,
+            score: this.score,
+            latencyMs: this.latencyEwma === null ? null : Math.round(this.latencyEwma),
+            errorRate: Number(this.errorRate.toFixed(3)),
+            consecutiveFailures: this.consecutiveFailures,
+            totalRequests: this.totalRequests,
+            totalFailures: this.totalFailures,
+            lastError: this.lastError,
+            lastErrorAt: this.lastErrorAt ? new Date(this.lastErrorAt).toISOString() : null,
+            lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : null
+        };
+    }
+
+    private recordSuccess(latencyMs: number) {
+        this.totalRequests++;
+        this.pushOutcome(true);
+        this.latencyEwma = this.latencyEwma === null
+            ? latencyMs
+            : LATENCY_ALPHA * latencyMs + (1 - LATENCY_ALPHA) * this.latencyEwma;
+        this.consecutiveFailures = 0;
+        this.lastSuccessAt = Date.now();
+
+        if (this.circuit === 'half_open') {
+            this.circuit = 'closed';
+            this.failureWindow = []; // Fresh start after recovery
+        }
+    }
+
+    private recordFailure(err: any) {
+        this.totalRequests++;
+        this.totalFailures++;
+        this.pushOutcome(false);
+        this.consecutiveFailures++;
+        this.lastError = String(err?.shortMessage || err?.message || err).slice(0, 200);
+        this.lastErrorAt = Date.now();
+
+        const tooManyErrors = this.failureWindow.length >= MIN_SAMPLES && this.errorRate > MAX_ERROR_RATE;
+        if (this.circuit === 'half_open' || this.consecutiveFailures >= CIRCUIT_FAILURES || tooManyErrors) {
+            this.circuit = 'open';
+            this.circuitOpenUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+        }
+    }
+
+    private pushOutcome(success: boolean) {
+        this.failureWindow.push(success);
+        if (this.failureWindow.length > WINDOW_SIZE) this.failureWindow.shift();
+    }
+}
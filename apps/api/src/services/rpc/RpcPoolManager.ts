@@ -0,0 +1,60 @@
+// src/services/rpc/RpcPoolManager.ts
+import { ethers } from 'ethers';
+import { chainRegistry } from '../chains';
+import { RpcEndpoint } from './RpcEndpoint';
+import { RpcPoolProvider } from './RpcPoolProvider';
+import { RpcPoolHealth } from './types';
+
+const DEFAULT_QUORUM = parseInt(process.env.RPC_QUORUM || '1', 10);
+
+/**
+ * One RpcPoolProvider per chain, built from the chain registry's endpoint list.
+ * A pool is rebuilt when the registry's URLs change; endpoint health is kept per URL.
+ */
+export class RpcPoolManager {
+    private pools = new Map<number, { signature: string, provider: RpcPoolProvider }>();
+    private endpoints = new Map<string, RpcEndpoint>();
+
+    getProvider(chainId: number): RpcPoolProvider {
+        const urls = chainRegistry.getRpcUrls(chainId);
+        const signature = urls.join('|');
+
+        const existing = this.pools.get(chainId);
+        if (existing && existing.signature === signature) return existing.provider;
+
+        const network = ethers.Network.from(chainId);
+        const endpoints = urls.map(url => {
+            const key = `${chainId}|${url}`;
+            let endpoint = this.endpoints.get(key);
+            if (!endpoint) {
+                endpoint = new RpcEndpoint(url, network);
+                this.endpoints.set(key, endpoint);
+            }
+            return endpoint;
+        });
+
+        const provider = new RpcPoolProvider(chainId, endpoints, network);
+        this.pools.set(chainId, { signature, provider });
+        return provider;
+    }
+
+    /**
+     * Number of endpoints that must agree on critical reads (1 = no quorum), capped at the
+     * endpoints the chain has so a global RPC_QUORUM cannot make single-RPC chains unreadable.
+     */
+    getQuorum(chainId: number): number {
+        const quorum = chainRegistry.get(chainId)?.rpcQuorum ?? DEFAULT_QUORUM;
+        return Math.max(1, Math.min(quorum, chainRegistry.getRpcUrls(chainId).length));
+    }
+
+    getHealth(): RpcPoolHealth[] {
+        return [...this.pools.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([chainId, pool]) => ({
+                chainId,
+                chainName: chainRegistry.getName(chainId),
+                quorum: this.getQuorum(chainId),
+                endpoints: pool.provider.endpoints.map(e => e.snapshot())
+            }));
+    }
+}
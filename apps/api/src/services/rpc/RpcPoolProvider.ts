@@ -0,0 +1,125 @@
+// src/services/rpc/RpcPoolProvider.ts
+import { ethers } from 'ethers';
+import { RpcEndpoint } from './RpcEndpoint';
+import { RpcQuorumError } from './types';
+
+const MAX_ATTEMPTS = parseInt(process.env.RPC_MAX_ATTEMPTS || '3', 10);
+
+// A lagging node answers null for data it has not indexed yet; ask the next endpoint
+const RETRY_ON_NULL = new Set(['eth_getTransactionReceipt', 'eth_getTransactionByHash', 'eth_getBlockByNumber', 'eth_getBlockByHash']);
+
+/**
+ * Drop-in `JsonRpcProvider` backed by several endpoints.
+ *
+ * Every request goes to the best-scoring endpoint whose circuit is not open and fails over
+ * (up to RPC_MAX_ATTEMPTS) on transport errors, timeouts and rate limits. Requests are not
+ * batched, so scoring and failover are per call.
+ */
+export class RpcPoolProvider extends ethers.JsonRpcProvider {
+    readonly chainId: number;
+    readonly endpoints: RpcEndpoint[];
+    private nextId = 1;
+
+    constructor(chainId: number, endpoints: RpcEndpoint[], network: ethers.Network) {
+        super(endpoints[0].url, network, { staticNetwork: network, batchMaxCount: 1 });
+        this.chainId = chainId;
+        this.endpoints = endpoints;
+    }
+
+    async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+        // batchMaxCount = 1, so this is always a single request
+        const request = Array.isArray(payload) ? payload[0] : payload;
+        const candidates = this.rankEndpoints().slice(0, Math.max(MAX_ATTEMPTS, 1));
+
+        let lastError: any = null;
+        let nullResult: Array<ethers.JsonRpcResult> | null = null;
+
+        for (const endpoint of candidates) {
+            try {
+                const results = await endpoint.send(request) as Array<ethers.JsonRpcResult>;
+                const first = results[0];
+                if (RETRY_ON_NULL.has(request.method) && first && 'result' in first && first.result === null) {
+                    nullResult = nullResult || results;
+                    continue;
+                }
+                return results;
+            } catch (err) {
+                lastError = err;
+            }
+        }
+
+        if (nullResult) return nullResult;
+        throw lastError || new Error(`No RPC endpoint available for chain ${this.chainId}`);
+    }
+
+    /**
+     * Receipt that at least `quorum` endpoints agree on (block hash, status, gas used, log count).
+     * Returns null only if the agreeing endpoints all report the transaction as unknown.
+     */
+    async getReceiptWithQuorum(txHash: string, quorum: number): Promise<{ blockHash: string, blockNumber: number, status: number } | null> {
+        const receipt = await this.quorumRead('eth_getTransactionReceipt', [txHash], quorum, (r: any) =>
+            r ? `${r.blockHash}:${r.status}:${r.gasUsed}:${r.logs?.length ?? 0}` : 'null'
+        );
+        if (!receipt) return null;
+        return { blockHash: receipt.blockHash, blockNumber: Number(receipt.blockNumber), status: Number(receipt.status) };
+    }
+
+    /**
+     * Canonical block hash at `blockNumber` as agreed by `quorum` endpoints (null if not yet visible).
+     */
+    async getBlockHashWithQuorum(blockNumber: number, quorum: number): Promise<string | null> {
+        const block = await this.quorumRead('eth_getBlockByNumber', [ethers.toQuantity(blockNumber), false], quorum, (b: any) =>
+            b ? String(b.hash).toLowerCase() : 'null'
+        );
+        return block ? String(block.hash) : null;
+    }
+
+    /**
+     * Ask every available endpoint and return the result `quorum` of them agree on.
+     */
+    private async quorumRead(method: string, params: any[], quorum: number, key: (result: any) => string): Promise<any> {
+        const endpoints = this.rankEndpoints();
+        if (quorum <= 1) {
+            const [result] = await this._send({ method, params, id: this.nextId++, jsonrpc: '2.0' });
+            return result.result;
+        }
+
+        const responses = await Promise.allSettled(endpoints.map(endpoint =>
+            endpoint.send({ method, params, id: this.nextId++, jsonrpc: '2.0' })
+        ));
+
+        const votes = new Map<string, { count: number, result: any }>();
+        let responded = 0;
+        for (const response of responses) {
+            if (response.status !== 'fulfilled') continue;
+            const first = response.value[0];
+            if (!first || 'error' in first) continue;
+            responded++;
+            const vote = key(first.result);
+            const entry = votes.get(vote) || { count: 0, result: first.result };
+            entry.count++;
+            votes.set(vote, entry);
+        }
+
+        const best = [...votes.values()].sort((a, b) => b.count - a.count)[0];
+        if (!best || best.count < quorum) {
+            throw new RpcQuorumError(method, quorum, best?.count || 0, responded);
+        }
+        return best.result;
+    }
+
+    /**
+     * Available endpoints by score; if every circuit is open, the ones recovering soonest.
+     */
+    private rankEndpoints(): RpcEndpoint[] {
+        const now = Date.now();
+        const available = this.endpoints
+            .map((endpoint, index) => ({ endpoint, index }))
+            .filter(({ endpoint }) => endpoint.isAvailable(now))
+            .sort((a, b) => a.endpoint.score - b.endpoint.score || a.index - b.index)
+            .map(({ endpoint }) => endpoint);
+
+        if (available.length > 0) return available;
+        return [...this.endpoints].sort((a, b) => a.openUntil - b.openUntil);
+    }
+}
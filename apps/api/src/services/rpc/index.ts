@@ -0,0 +1,10 @@
+// src/services/rpc/index.ts
+import { RpcPoolManager } from './RpcPoolManager';
+
+export { RpcPoolManager } from './RpcPoolManager';
+export { RpcPoolProvider } from './RpcPoolProvider';
+export { RpcQuorumError } from './types';
+export type { CircuitState, RpcEndpointHealth, RpcPoolHealth } from './types';
+
+// Shared instance: endpoint health and circuit breakers are process-wide
+export const rpcPools = new RpcPoolManager();
@@ -0,0 +1,33 @@
+// src/services/rpc/types.ts
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/** Public view of one endpoint (URL credentials redacted). */
+export interface RpcEndpointHealth {
+    url: string;
+    circuit: CircuitState;
+    openUntil: string | null;
+    score: number; // Lower is better (latency weighted by recent error rate)
+    latencyMs: number | null; // EWMA of successful calls
+    errorRate: number; // Over the rolling window
+    consecutiveFailures: number;
+    totalRequests: number;
+    totalFailures: number;
+    lastError: string | null;
+    lastErrorAt: string | null;
+    lastSuccessAt: string | null;
+}
+
+export interface RpcPoolHealth {
+    chainId: number;
+    chainName: string;
+    quorum: number;
+    endpoints: RpcEndpointHealth[];
+}
+
+export class RpcQuorumError extends Error {
+    constructor(public method: string, public required: number, public agreeing: number, public responded: number) {
+        super(`RPC quorum not reached for ${method}: ${agreeing}/${required} agreeing (${responded} responded)`);
+        this.name = 'RpcQuorumError';
+    }
+}
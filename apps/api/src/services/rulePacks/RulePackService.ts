@@ -0,0 +1,132 @@
+// src/services/rulePacks/RulePackService.ts
+import { supabase } from '../../lib/supabase';
+import { createComponentLogger } from '../../lib/logger';
+import { rulePackRegistry, RulePack, RulePackInput, RulePackSchema } from '../classifier';
+import { RulePackRow, StoredRulePack } from './types';
+
+const packLogger = createComponentLogger('RulePacks');
+
+const CACHE_TTL_MS = parseInt(process.env.RULE_PACK_TTL_MS || '60000', 10);
+
+/**
+ * Declarative classifier rule packs stored in `rule_packs`.
+ *
+ * Active rows are validated and loaded into the classifier's rulePackRegistry; the engine picks
+ * up every reload on its next classification. Admin writes reload immediately, other instances
+ * within the cache TTL (BillService awaits ensureLoaded before classifying).
+ */
+export class RulePackService {
+    private stored: StoredRulePack[] = [];
+    private loadedAt = 0;
+    private refreshing: Promise<void> | null = null;
+
+    list(): StoredRulePack[] {
+        return [...this.stored];
+    }
+
+    get(name: string): StoredRulePack | undefined {
+        return this.stored.find(p => p.name === name);
+    }
+
+    /**
+     * Reload from the `rule_packs` table. Concurrent callers share one query.
+     */
+    async refresh(): Promise<void> {
+        if (this.refreshing) return this.refreshing;
+
+        this.refreshing = (async () => {
+            try {
+                const { data, error } = await supabase.from('rule_packs').select('*').order('name');
+                if (error) throw new Error(error.message);
+
+                const rows = ((data || []) as RulePackRow[]).map(row => ({ row, parsed: RulePackSchema.safeParse(row.definition) }));
+                for (const { row, parsed } of rows) {
+                    if (!parsed.success) packLogger.warn('Skipping invalid rule pack', { name: row.name, issues: parsed.error.issues.map(i => i.message) });
+                }
+
+                rulePackRegistry.replaceAll(rows
+                    .filter(({ row, parsed }) => row.is_active && parsed.success)
+                    .map(({ parsed }) => parsed.data!));
+
+                this.stored = rows.map(({ row, parsed }) => parsed.success
+                    ? this.toStored(row, parsed.data)
+                    : this.toStored(row, undefined, parsed.error.issues.map(i => i.message).join('; ')));
+                this.loadedAt = Date.now();
+                packLogger.debug('Rule packs loaded', { packs: rulePackRegistry.list().length, rules: rulePackRegistry.rules().length });
+            } catch (err: any) {
+                // Keep evaluating the previous packs; retry on the next ensureLoaded
+                this.loadedAt = Date.now() - CACHE_TTL_MS / 2;
+                packLogger.warn('Rule pack refresh failed', { error: err.message });
+            } finally {
+                this.refreshing = null;
+            }
+        })();
+
+        return this.refreshing;
+    }
+
+    /**
+     * Await a first load (cheap no-op when the cache is fresh).
+     */
+    async ensureLoaded(): Promise<void> {
+        if (Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+        await this.refresh();
+    }
+
+    /**
+     * Create or replace a pack (validated first; a rejected pack never reaches the table).
+     */
+    async save(input: RulePackInput, updatedBy?: string): Promise<StoredRulePack> {
+        const pack = RulePackSchema.parse(input);
+
+        const { data, error } = await supabase
+            .from('rule_packs')
+            .upsert({
+                name: pack.name,
+                version: pack.version,
+                description: pack.description || null,
+                definition: input,
+                is_active: true,
+                updated_by: updatedBy || null,
+                updated_at: new Date().toISOString()
+            }, { onConflict: 'name' })
+            .select()
+            .single();
+
+        if (error) throw new Error(`Rule pack save failed: ${error.message}`);
+
+        await this.refresh();
+        return this.toStored(data as RulePackRow, pack);
+    }
+
+    /**
+     * Stop evaluating a pack. The row is kept so the pack can be re-enabled by saving it again.
+     */
+    async deactivate(name: string, updatedBy?: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('rule_packs')
+            .update({ is_active: false, updated_by: updatedBy || null, updated_at: new Date().toISOString() })
+            .eq('name', name)
+            .select('id');
+
+        if (error) throw new Error(`Rule pack deactivation failed: ${error.message}`);
+
+        await this.refresh();
+        return (data || []).length > 0;
+    }
+
+    private toStored(row: RulePackRow, pack?: RulePack, error?: string): StoredRulePack {
+        return {
+            name: row.name,
+            version: row.version,
+            description: row.description || undefined,
+            isActive: row.is_active,
+            loaded: rulePackRegistry.list().some(p => p.name === row.name),
+            rules: pack ? pack.rules.map(r => `${pack.name}:${r.id}`) : [],
+            definition: row.definition,
+            error,
+            updatedBy: row.updated_by || undefined,
+            updatedAt: row.updated_at
+        };
+    }
+}
@@ -0,0 +1,8 @@
+// src/services/rulePacks/index.ts
+import { RulePackService } from './RulePackService';
+
+export { RulePackService } from './RulePackService';
+export type { RulePackRow, StoredRulePack } from './types';
+
+// Shared instance: keeps the classifier's rule pack registry in sync with the database
+export const rulePacks = new RulePackService();
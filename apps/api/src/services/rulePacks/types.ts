@@ -0,0 +1,29 @@
+// src/services/rulePacks/types.ts
+import type { RulePack } from '../classifier';
+
+/** Row shape of the `rule_packs` table. */
+export interface RulePackRow {
+    id: string;
+    name: string;
+    version: number;
+    description: string | null;
+    definition: any;
+    is_active: boolean;
+    updated_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Admin view of a stored pack. `error` is set when the stored definition no longer validates. */
+export interface StoredRulePack {
+    name: string;
+    version: number;
+    description?: string;
+    isActive: boolean;
+    loaded: boolean; // Currently evaluated by the classifier
+    rules: string[]; // Rule ids
+    definition: RulePack | any;
+    error?: string;
+    updatedBy?: string;
+    updatedAt: string;
+}
@@ -0,0 +1,151 @@
+// src/services/signatures/ContractAbiService.ts
+import { ethers } from 'ethers';
+import { supabase } from '../../lib/supabase';
+import { createComponentLogger } from '../../lib/logger';
+import { signatureRegistry } from '../classifier/infrastructure/SignatureRegistry';
+import { ContractAbi, ContractAbiInput, ContractAbiRow, ContractAbiSchema, ContractAbiSummary } from './types';
+
+const abiLogger = createComponentLogger('ContractAbis');
+
+const CACHE_TTL_MS = parseInt(process.env.CONTRACT_ABI_TTL_MS || '300000', 10);
+
+/**
+ * Admin-uploaded verified contract ABIs (`contract_abis` table).
+ *
+ * The classifier decodes synchronously from the shared signatureRegistry; this service keeps the
+ * registry's per-contract ABIs in sync with the table. Admin writes refresh immediately, other
+ * instances pick them up within the cache TTL (BillService awaits ensureLoaded before classifying).
+ */
+export class ContractAbiService {
+    private summaries: ContractAbiSummary[] = [];
+    private loadedAt = 0;
+    private refreshing: Promise<void> | null = null;
+
+    list(): ContractAbiSummary[] {
+        return [...this.summaries];
+    }
+
+    /**
+     * Full uploaded ABI, or null when none is stored for the contract.
+     */
+    async get(chainId: number, address: string): Promise<ContractAbi | null> {
+        const { data, error } = await supabase
+            .from('contract_abis')
+            .select('*')
+            .eq('chain_id', chainId)
+            .eq('address', address.toLowerCase())
+            .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        if (!data) return null;
+
+        const row = data as ContractAbiRow;
+        return {
+            chainId: row.chain_id,
+            address: row.address,
+            name: row.name || undefined,
+            abi: row.abi,
+            source: row.source || undefined
+        };
+    }
+
+    /**
+     * Reload every uploaded ABI into the signature registry. Concurrent callers share one query.
+     */
+    async refresh(): Promise<void> {
+        if (this.refreshing) return this.refreshing;
+
+        this.refreshing = (async () => {
+            try {
+                const { data, error } = await supabase.from('contract_abis').select('*');
+                if (error) throw new Error(error.message);
+
+                const summaries: ContractAbiSummary[] = [];
+                signatureRegistry.clearContractAbis();
+
+                for (const row of (data || []) as ContractAbiRow[]) {
+                    try {
+                        signatureRegistry.setContractAbi(row.chain_id, row.address, row.abi);
+                        summaries.push(this.toSummary(row));
+                    } catch (err: any) {
+                        abiLogger.warn('Skipping invalid contract ABI', { chainId: row.chain_id, address: row.address, error: err.message });
+                    }
+                }
+
+                this.summaries = summaries.sort((a, b) => a.chainId - b.chainId || a.address.localeCompare(b.address));
+                this.loadedAt = Date.now();
+                abiLogger.debug('Contract ABIs loaded', { contracts: summaries.length });
+            } catch (err: any) {
+                // Keep decoding with the previous set; retry on the next ensureLoaded
+                this.loadedAt = Date.now() - CACHE_TTL_MS / 2;
+                abiLogger.warn('Contract ABI refresh failed', { error: err.message });
+            } finally {
+                this.refreshing = null;
+            }
+        })();
+
+        return this.refreshing;
+    }
+
+    /**
+     * Await a first load (cheap no-op when the cache is fresh).
+     */
+    async ensureLoaded(): Promise<void> {
+        if (Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+        await this.refresh();
+    }
+
+    /**
+     * Create or replace the ABI of a contract.
+     */
+    async save(input: ContractAbiInput, uploadedBy?: string): Promise<ContractAbiSummary> {
+        const contract = ContractAbiSchema.parse(input);
+
+        const { data, error } = await supabase
+            .from('contract_abis')
+            .upsert({
+                chain_id: contract.chainId,
+                address: contract.address,
+                name: contract.name || null,
+                abi: contract.abi,
+                source: contract.source || null,
+                uploaded_by: uploadedBy || null,
+                updated_at: new Date().toISOString()
+            }, { onConflict: 'chain_id,address' })
+            .select()
+            .single();
+
+        if (error) throw new Error(`Contract ABI save failed: ${error.message}`);
+
+        await this.refresh();
+        return this.toSummary(data as ContractAbiRow);
+    }
+
+    async remove(chainId: number, address: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('contract_abis')
+            .delete()
+            .eq('chain_id', chainId)
+            .eq('address', address.toLowerCase())
+            .select('id');
+
+        if (error) throw new Error(`Contract ABI delete failed: ${error.message}`);
+
+        await this.refresh();
+        return (data || []).length > 0;
+    }
+
+    private toSummary(row: ContractAbiRow): ContractAbiSummary {
+        const iface = new ethers.Interface(row.abi);
+        return {
+            chainId: row.chain_id,
+            address: row.address,
+            name: row.name || undefined,
+            source: row.source || undefined,
+            functions: iface.fragments.filter(f => f.type === 'function').length,
+            events: iface.fragments.filter(f => f.type === 'event').length,
+            uploadedBy: row.uploaded_by || undefined,
+            updatedAt: row.updated_at
+        };
+    }
+}
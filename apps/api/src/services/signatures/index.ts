@@ -0,0 +1,9 @@
+// src/services/signatures/index.ts
+import { ContractAbiService } from './ContractAbiService';
+
+export { ContractAbiService } from './ContractAbiService';
+export { ContractAbiSchema } from './types';
+export type { ContractAbi, ContractAbiInput, ContractAbiRow, ContractAbiSummary } from './types';
+
+// Shared instance: loads uploaded ABIs into the classifier's signature registry
+export const contractAbis = new ContractAbiService();
@@ -0,0 +1,64 @@
+// src/services/signatures/types.ts
+import { z } from 'zod';
+import { ethers } from 'ethers';
+
+const address = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format').transform(a => a.toLowerCase());
+
+// Etherscan's getabi returns the ABI as a JSON string; accept it as-is
+const abi = z.preprocess(
+    val => {
+        if (typeof val !== 'string') return val;
+        try {
+            return JSON.parse(val);
+        } catch {
+            return val;
+        }
+    },
+    z.array(z.record(z.any())).min(1).max(5000)
+).refine(entries => {
+    try {
+        const iface = new ethers.Interface(entries);
+        return iface.fragments.some(f => f.type === 'function' || f.type === 'event');
+    } catch {
+        return false;
+    }
+}, { message: 'ABI must be a valid JSON ABI with at least one function or event' });
+
+/**
+ * Verified ABI of one deployed contract (`contract_abis` row).
+ */
+export const ContractAbiSchema = z.object({
+    chainId: z.number().int().positive(),
+    address,
+    name: z.string().min(1).max(100).optional(),
+    abi,
+    source: z.string().max(100).optional() // e.g. 'etherscan', 'audit'
+});
+
+export type ContractAbi = z.infer<typeof ContractAbiSchema>;
+export type ContractAbiInput = z.input<typeof ContractAbiSchema>;
+
+/** Row shape of the `contract_abis` table. */
+export interface ContractAbiRow {
+    id: string;
+    chain_id: number;
+    address: string;
+    name: string | null;
+    abi: any;
+    source: string | null;
+    uploaded_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Listing entry: the ABI itself is omitted. */
+export interface ContractAbiSummary {
+    chainId: number;
+    address: string;
+    name?: string;
+    source?: string;
+    functions: number;
+    events: number;
+    uploadedBy?: string;
+    updatedAt: string;
+}
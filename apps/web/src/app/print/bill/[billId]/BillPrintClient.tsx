@@ -143,6 +143,10 @@ export default function BillPrintClient() {
     if (error) return <div className="p-8 text-center text-red-500">Error: {error}</div>;
     if (!data) return null;
 
+    // Reporting currency: older bills have no CURRENCY and render in USD
+    const isFiat = !!data.CURRENCY && data.CURRENCY !== 'USD';
+    const fiat = (value?: string) => `${data.CURRENCY_SYMBOL || ''}${value ?? ''}`;
+
     return (
         <div className="page">
             {/* SCREEN ONLY: Print Hint & Button */}
@@ -258,10 +262,17 @@ export default function BillPrintClient() {
 
                                 {/* STATUS BAR */}
                                 <div className="status-bar" style={{ justifyContent: 'space-between', alignItems: 'center' }}>
-                                    <div className="status-badge" style={{ background: '#ecfdf5', color: '#065f46', borderColor: 'rgba(16, 185, 129, 0.2)' }}>
-                                        <span style={{ marginRight: '4px' }}>✅</span>
-                                        <span>CONFIRMED</span>
-                                    </div>
+                                    {data.STATUS_CONFIRMED ? (
+                                        <div className="status-badge" style={{ background: '#ecfdf5', color: '#065f46', borderColor: 'rgba(16, 185, 129, 0.2)' }}>
+                                            <span style={{ marginRight: '4px' }}>✅</span>
+                                            <span>CONFIRMED</span>
+                                        </div>
+                                    ) : (
+                                        <div className="status-badge failed">
+                                            <span style={{ marginRight: '4px' }}>❌</span>
+                                            <span>{data.STATUS}</span>
+                                        </div>
+                                    )}
 
                                     <div className="flex items-center gap-2 text-sm font-bold text-gray-700">
                                         <span style={{ fontSize: '16px' }}>{data.CHAIN_ICON}</span>
@@ -295,6 +306,35 @@ export default function BillPrintClient() {
 
 
 
+                                {/* FAILURE REASON */}
+                                {data.HAS_FAILED_REASON && data.FAILED_REASON && (
+                                    <div className="summary-box" style={{ marginBottom: '16px', borderColor: 'rgba(239, 68, 68, 0.3)' }}>
+                                        <div className="summary-row total amount-negative" style={{ marginTop: 0, border: 'none', paddingTop: 0 }}>
+                                            Transaction Failed
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Intended Action</span>
+                                            <span className="font-medium">{data.FAILED_REASON.intendedAction}</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Reason</span>
+                                            <span className="font-medium amount-negative">{data.FAILED_REASON.message}</span>
+                                        </div>
+                                        {data.FAILED_REASON.signature && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Error</span>
+                                                <span className="font-mono">{data.FAILED_REASON.signature}</span>
+                                            </div>
+                                        )}
+                                        {data.FAILED_REASON.kind === 'raw' && data.FAILED_REASON.selector && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Error Selector</span>
+                                                <span className="font-mono">{data.FAILED_REASON.selector}</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
                                 {/* KEY METRICS */}
                                 <div className="grid-4">
                                     <div className="data-group">
@@ -310,6 +350,12 @@ export default function BillPrintClient() {
                                         <div className="uppercase-label">Transaction Hash</div>
                                         <div className="data-value mono text-accent break-all">{data.TRANSACTION_HASH}</div>
                                     </div>
+                                    {data.METHOD_SIGNATURE && (
+                                        <div className="data-group" style={{ gridColumn: 'span 4' }}>
+                                            <div className="uppercase-label">Function</div>
+                                            <div className="data-value mono break-all">{data.METHOD_SIGNATURE}</div>
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* PARTICIPANTS */}
@@ -344,6 +390,184 @@ export default function BillPrintClient() {
                                     </div>
                                 </div>
 
+                                {data.PERSPECTIVE_ADDRESS && (
+                                    <div className="text-xs text-secondary" style={{ marginBottom: '16px' }}>
+                                        Receipt perspective: <span className="font-mono break-all">{data.PERSPECTIVE_ADDRESS}</span>
+                                        {data.PERSPECTIVE_IS_PARTICIPANT === false && ' (not a participant; sender view shown)'}
+                                    </div>
+                                )}
+
+                                {/* SMART ACCOUNT (ERC-4337) */}
+                                {data.HAS_ACCOUNT_ABSTRACTION && data.ACCOUNT_ABSTRACTION && (
+                                    <div className="summary-box" style={{ marginBottom: '16px' }}>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Smart Account</span>
+                                            <span className="font-mono break-all">{data.ACCOUNT_ABSTRACTION.smartAccount}</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Bundler</span>
+                                            <span className="font-mono break-all">{data.ACCOUNT_ABSTRACTION.bundler}</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">EntryPoint</span>
+                                            <span className="font-mono break-all">
+                                                {data.ACCOUNT_ABSTRACTION.entryPoint}{data.ACCOUNT_ABSTRACTION.entryPointVersion && ` (${data.ACCOUNT_ABSTRACTION.entryPointVersion})`}
+                                            </span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">UserOp Hash</span>
+                                            <span className="font-mono break-all">{data.ACCOUNT_ABSTRACTION.userOpHash}</span>
+                                        </div>
+                                        {data.ACCOUNT_ABSTRACTION.bundleSize > 1 && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Bundle</span>
+                                                <span>{data.ACCOUNT_ABSTRACTION.bundleSize} user operations</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* SAFE MULTISIG */}
+                                {data.HAS_SAFE && data.SAFE && (
+                                    <div className="summary-box" style={{ marginBottom: '16px' }}>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Safe</span>
+                                            <span className="font-mono break-all">{data.SAFE.address}</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Executor</span>
+                                            <span className="font-mono break-all">{data.SAFE.executor}</span>
+                                        </div>
+                                        {data.SAFE.nonce !== undefined && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Nonce</span>
+                                                <span className="font-mono">{data.SAFE.nonce}</span>
+                                            </div>
+                                        )}
+                                        {data.SAFE.threshold !== undefined && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Threshold</span>
+                                                <span>{data.SAFE.threshold} signature(s)</span>
+                                            </div>
+                                        )}
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Outcome</span>
+                                            <span className={data.SAFE.outcome === 'ExecutionSuccess' ? 'amount-positive' : data.SAFE.outcome === 'ExecutionFailure' ? 'amount-negative' : ''}>
+                                                {data.SAFE.outcome}
+                                            </span>
+                                        </div>
+                                        {data.SAFE.safeTxHash && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Safe Tx Hash</span>
+                                                <span className="font-mono break-all">{data.SAFE.safeTxHash}</span>
+                                            </div>
+                                        )}
+                                        {data.SAFE.calls.map((call, i) => (
+                                            <div key={i} className="summary-row">
+                                                <span className="text-secondary">{data.SAFE!.calls.length > 1 ? `Call ${i + 1}` : 'Call'}</span>
+                                                <span className="font-mono break-all">
+                                                    {call.method}{call.operation === 'delegatecall' && ' (delegatecall)'} → {call.to}
+                                                    {call.value !== '0' && ` · ${call.value} ${data.CHAIN_SYMBOL}`}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* LINKED BRIDGE TRANSFER */}
+                                {data.HAS_LINKED_TRANSFER && data.LINKED_TRANSFER && (
+                                    <div className="summary-box" style={{ marginBottom: '16px' }}>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Bridge</span>
+                                            <span>{data.LINKED_TRANSFER.protocol}</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">{data.LINKED_TRANSFER.direction === 'OUTBOUND' ? 'Destination' : 'Source'}</span>
+                                            <span>{data.LINKED_TRANSFER.counterpartChain} ({data.LINKED_TRANSFER.counterpartChainId})</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Status</span>
+                                            <span className={data.LINKED_TRANSFER.status === 'COMPLETED' ? 'amount-positive' : data.LINKED_TRANSFER.status === 'FAILED' || data.LINKED_TRANSFER.status === 'EXPIRED' ? 'amount-negative' : ''}>
+                                                {data.LINKED_TRANSFER.statusLabel}
+                                            </span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Message ID</span>
+                                            <span className="font-mono break-all">{data.LINKED_TRANSFER.messageId}</span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Counterpart Tx</span>
+                                            {data.LINKED_TRANSFER.counterpartTxHash ? (
+                                                data.LINKED_TRANSFER.counterpartExplorerUrl ? (
+                                                    <a href={data.LINKED_TRANSFER.counterpartExplorerUrl} target="_blank" rel="noopener noreferrer" className="font-mono break-all" style={{ color: 'inherit' }}>
+                                                        {data.LINKED_TRANSFER.counterpartTxHash}
+                                                    </a>
+                                                ) : (
+                                                    <span className="font-mono break-all">{data.LINKED_TRANSFER.counterpartTxHash}</span>
+                                                )
+                                            ) : (
+                                                <span>Not found yet</span>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* MEV ANALYSIS (swaps) */}
+                                {data.HAS_MEV_ANALYSIS && data.MEV_ANALYSIS && (
+                                    <div className="summary-box" style={{ marginBottom: '16px' }}>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">MEV Analysis</span>
+                                            <span className={data.MEV_ANALYSIS.verdict === 'SANDWICHED' ? 'amount-negative' : data.MEV_ANALYSIS.verdict === 'NONE' ? 'amount-positive' : ''}>
+                                                {data.MEV_ANALYSIS.verdictLabel}
+                                            </span>
+                                        </div>
+                                        <div className="summary-row">
+                                            <span className="text-secondary">Pools Checked</span>
+                                            <span>{data.MEV_ANALYSIS.analyzedPools}</span>
+                                        </div>
+                                        {data.MEV_ANALYSIS.totalLossUsd !== undefined && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Estimated Loss</span>
+                                                <span className="font-mono amount-negative">
+                                                    {isFiat ? fiat(data.MEV_ANALYSIS.totalLossFiat) : `$${data.MEV_ANALYSIS.totalLossUsd}`}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {data.MEV_ANALYSIS.findings.map((finding, i) => (
+                                            <div key={i}>
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">{finding.label}</span>
+                                                    <span className="font-mono break-all">{finding.poolLabel} {finding.pool}</span>
+                                                </div>
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Attacker</span>
+                                                    <span className="font-mono break-all">
+                                                        {finding.attacker}{finding.attackerContract && ` via ${finding.attackerContract}`}
+                                                    </span>
+                                                </div>
+                                                {finding.frontRunTx && (
+                                                    <div className="summary-row">
+                                                        <span className="text-secondary">Front-run Tx</span>
+                                                        <span className="font-mono break-all">{finding.frontRunTx}</span>
+                                                    </div>
+                                                )}
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Back-run Tx</span>
+                                                    <span className="font-mono break-all">{finding.backRunTx}</span>
+                                                </div>
+                                                {finding.lossAmount && (
+                                                    <div className="summary-row">
+                                                        <span className="text-secondary">Lost Output</span>
+                                                        <span className="font-mono amount-negative">
+                                                            {finding.lossAmount} {finding.tokenOutSymbol}{finding.lossPercent && ` (${finding.lossPercent})`}
+                                                        </span>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
                                 {/* REST OF CONTENT... (Internal TXs, Token Movements, etc.) */}
                                 {data.HAS_INTERNAL_TXS && (
                                     <div className="table-container">
@@ -377,6 +601,46 @@ export default function BillPrintClient() {
                                 )
                                 }
 
+                                {/* BATCH ACTIONS */}
+                                {data.HAS_ACTIONS && data.ACTIONS && (
+                                    <div className="table-container">
+                                        <div className="section-title">🧩 Actions</div>
+                                        <table style={{ width: '100%' }}>
+                                            <thead>
+                                                <tr>
+                                                    <th style={{ width: '6%' }}>#</th>
+                                                    <th style={{ width: '24%' }}>Action</th>
+                                                    <th style={{ width: '35%' }}>Method / Protocol</th>
+                                                    <th className="text-right" style={{ width: '35%' }}>Assets</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {data.ACTIONS.map((action) => (
+                                                    <tr key={action.step}>
+                                                        <td><span className="text-secondary">{action.step}</span></td>
+                                                        <td><span className="font-medium">{action.label}</span></td>
+                                                        <td>
+                                                            <span className="font-mono text-secondary">{action.method}</span>
+                                                            {action.protocol && <span className="text-secondary"> · {action.protocol}</span>}
+                                                        </td>
+                                                        <td className="text-right">
+                                                            {action.tokensOut.map((t, i) => (
+                                                                <div key={`out-${i}`} className="font-mono amount-negative">-{t.amount} {t.tokenSymbol}</div>
+                                                            ))}
+                                                            {action.tokensIn.map((t, i) => (
+                                                                <div key={`in-${i}`} className="font-mono amount-positive">+{t.amount} {t.tokenSymbol}</div>
+                                                            ))}
+                                                            {action.tokensOut.length === 0 && action.tokensIn.length === 0 && (
+                                                                <span className="text-secondary">-</span>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
                                 {/* LINE ITEMS */}
                                 <div className="table-container">
                                     <div className="section-title">📊 Token Movements</div>
@@ -409,7 +673,7 @@ export default function BillPrintClient() {
                                                     <td><span className="font-mono text-secondary">{item.toShort}</span></td>
                                                     <td className="text-right font-mono">{item.amountFormatted}</td>
                                                     <td className={`text-right font-mono ${item.isIn ? 'amount-positive' : ''}`}>
-                                                        {item.usdValue}
+                                                        {isFiat ? fiat(item.fiatValue) : item.usdValue}
                                                     </td>
                                                 </tr>
                                             ))}
@@ -417,6 +681,147 @@ export default function BillPrintClient() {
                                     </table>
                                 </div>
 
+                                {/* SWAP DETAILS */}
+                                {data.HAS_SWAP_DETAILS && data.SWAP_DETAILS && (
+                                    <div className="table-container">
+                                        <div className="section-title">🔀 Swap Details</div>
+                                        <div className="summary-box">
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Route</span>
+                                                <span className="font-medium">{data.SWAP_DETAILS.route}</span>
+                                            </div>
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Execution Price</span>
+                                                <span className="font-mono">{data.SWAP_DETAILS.executionPrice} ({data.SWAP_DETAILS.executionPriceInverse})</span>
+                                            </div>
+                                            {data.SWAP_DETAILS.oraclePrice && (
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Oracle Price</span>
+                                                    <span className="font-mono">{data.SWAP_DETAILS.oraclePrice}</span>
+                                                </div>
+                                            )}
+                                            {data.SWAP_DETAILS.priceDifference && (
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Vs Oracle</span>
+                                                    <span className={`font-mono ${data.SWAP_DETAILS.priceDifference.startsWith('-') ? 'amount-negative' : 'amount-positive'}`}>
+                                                        {data.SWAP_DETAILS.priceDifference}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {data.SWAP_DETAILS.slippageCostUsd !== undefined && (
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Slippage Cost</span>
+                                                    <span className="font-mono amount-negative">
+                                                        {isFiat ? fiat(data.SWAP_DETAILS.slippageCostFiat) : `$${data.SWAP_DETAILS.slippageCostUsd}`}
+                                                    </span>
+                                                </div>
+                                            )}
+                                        </div>
+                                        {data.SWAP_DETAILS.hops.length > 0 && (
+                                            <table>
+                                                <thead>
+                                                    <tr>
+                                                        <th style={{ width: '6%' }}>#</th>
+                                                        <th style={{ width: '34%' }}>Pool</th>
+                                                        <th style={{ width: '35%' }}>In → Out</th>
+                                                        <th className="text-right" style={{ width: '25%' }}>Fee</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {data.SWAP_DETAILS.hops.map((hop) => (
+                                                        <tr key={hop.step}>
+                                                            <td className="text-secondary">{hop.step}</td>
+                                                            <td>
+                                                                <div className="font-medium">{hop.protocol}</div>
+                                                                <div className="font-mono text-secondary break-all" style={{ fontSize: '10px' }}>{hop.pool}</div>
+                                                            </td>
+                                                            <td className="font-mono">{hop.amountIn} {hop.tokenInSymbol} → {hop.amountOut} {hop.tokenOutSymbol}</td>
+                                                            <td className="text-right font-mono">
+                                                                {hop.feeTier ?? '-'}
+                                                                {hop.fee && <div className="text-secondary" style={{ fontSize: '10px' }}>{hop.fee} {hop.feeSymbol}</div>}
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* LIQUIDITY */}
+                                {data.HAS_LIQUIDITY && data.LIQUIDITY && (
+                                    <div className="table-container">
+                                        <div className="section-title">💧 {data.LIQUIDITY.action === 'add' ? 'Liquidity Added' : 'Liquidity Removed'}</div>
+                                        <div className="summary-box">
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Protocol</span>
+                                                <span className="font-medium">{data.LIQUIDITY.protocol}</span>
+                                            </div>
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Pool</span>
+                                                <span className="font-mono break-all">{data.LIQUIDITY.pool}</span>
+                                            </div>
+                                            {data.LIQUIDITY.positionId && (
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Position</span>
+                                                    <span className="font-mono">#{data.LIQUIDITY.positionId}</span>
+                                                </div>
+                                            )}
+                                            {data.LIQUIDITY.tickLower !== undefined && data.LIQUIDITY.tickUpper !== undefined && (
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">Tick Range</span>
+                                                    <span className="font-mono">{data.LIQUIDITY.tickLower} to {data.LIQUIDITY.tickUpper}</span>
+                                                </div>
+                                            )}
+                                            {data.LIQUIDITY.tokens.map((t, idx) => (
+                                                <div className="summary-row" key={idx}>
+                                                    <span className="text-secondary">{t.tokenSymbol}</span>
+                                                    <span className={`font-mono ${data.LIQUIDITY!.action === 'add' ? 'amount-negative' : 'amount-positive'}`}>
+                                                        {data.LIQUIDITY!.action === 'add' ? '-' : '+'}{t.amount}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                            {data.LIQUIDITY.lpSymbol && data.LIQUIDITY.lpAmount && (
+                                                <div className="summary-row">
+                                                    <span className="text-secondary">LP Token ({data.LIQUIDITY.lpSymbol})</span>
+                                                    <span className="font-mono">{data.LIQUIDITY.action === 'add' ? '+' : '-'}{data.LIQUIDITY.lpAmount}</span>
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* APPROVALS */}
+                                {data.HAS_APPROVALS && data.APPROVALS && (
+                                    <div className="table-container">
+                                        <div className="section-title">🔑 Approvals</div>
+                                        <table>
+                                            <thead>
+                                                <tr>
+                                                    <th style={{ width: '12%' }}>Action</th>
+                                                    <th style={{ width: '20%' }}>Token</th>
+                                                    <th style={{ width: '48%' }}>Spender</th>
+                                                    <th className="text-right" style={{ width: '20%' }}>Allowance</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {data.APPROVALS.map((approval, idx) => (
+                                                    <tr key={idx}>
+                                                        <td>
+                                                            <span className={`direction-badge ${approval.revoke ? 'direction-in' : 'direction-out'}`}>
+                                                                {approval.revoke ? 'REVOKE' : 'GRANT'}
+                                                            </span>
+                                                        </td>
+                                                        <td><span className="font-medium">{approval.tokenSymbol}</span></td>
+                                                        <td><span className="font-mono text-secondary break-all">{approval.spender}</span></td>
+                                                        <td className={`text-right font-mono ${approval.unlimited ? 'amount-negative' : ''}`}>{approval.amount}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
                                 {/* FINANCIAL SUMMARY & HISTORIC VALUE */}
                                 <div className="grid-2">
                                     {/* Transaction Fees */}
@@ -432,13 +837,41 @@ export default function BillPrintClient() {
                                             <span className="text-secondary">Gas Used</span>
                                             <span className="font-mono">{data.GAS_USED}</span>
                                         </div>
+                                        {data.HAS_FEE_BREAKDOWN && data.FEE_BREAKDOWN?.map((line) => (
+                                            <div className="summary-row" key={line.key}>
+                                                <span className="text-secondary">{line.label}</span>
+                                                <span className="font-mono">{line.amount} {data.CHAIN_SYMBOL} ({isFiat ? fiat(line.amountFiat) : `$${line.amountUsd}`})</span>
+                                            </div>
+                                        ))}
+                                        {data.ACCOUNT_ABSTRACTION && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">User Operation Gas</span>
+                                                <span className="font-mono">
+                                                    {data.ACCOUNT_ABSTRACTION.actualGasCost} {data.CHAIN_SYMBOL} ({isFiat ? fiat(data.ACCOUNT_ABSTRACTION.actualGasCostFiat) : `$${data.ACCOUNT_ABSTRACTION.actualGasCostUsd}`}) · {data.ACCOUNT_ABSTRACTION.actualGasUsed} gas
+                                                </span>
+                                            </div>
+                                        )}
+                                        {data.ACCOUNT_ABSTRACTION?.sponsored && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Gas Sponsored By</span>
+                                                <span className="font-mono amount-positive break-all">Paymaster {data.ACCOUNT_ABSTRACTION.paymaster}</span>
+                                            </div>
+                                        )}
+                                        {data.GAS_BURNED_ON_FAILURE && (
+                                            <div className="summary-row">
+                                                <span className="text-secondary">Gas Burned on Failure</span>
+                                                <span className="font-mono amount-negative">
+                                                    {data.GAS_BURNED_ON_FAILURE.amount} {data.CHAIN_SYMBOL} ({isFiat ? fiat(data.GAS_BURNED_ON_FAILURE.amountFiat) : `$${data.GAS_BURNED_ON_FAILURE.amountUsd}`}) · {data.GAS_BURNED_ON_FAILURE.gasUsed} / {data.GAS_BURNED_ON_FAILURE.gasLimit} gas
+                                                </span>
+                                            </div>
+                                        )}
                                         <div className="summary-row">
                                             <span className="text-secondary">Total Fee</span>
                                             <span className="font-mono">{data.TOTAL_FEE} {data.CHAIN_SYMBOL}</span>
                                         </div>
                                         <div className="summary-row" style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px dashed var(--color-border)' }}>
-                                            <span className="font-medium">Cost in USD</span>
-                                            <span className="font-mono">${data.TOTAL_FEE_USD}</span>
+                                            <span className="font-medium">Cost in {isFiat ? data.CURRENCY : 'USD'}</span>
+                                            <span className="font-mono">{isFiat ? fiat(data.TOTAL_FEE_FIAT) : `$${data.TOTAL_FEE_USD}`}</span>
                                         </div>
                                     </div>
 
@@ -449,16 +882,16 @@ export default function BillPrintClient() {
                                         </div>
                                         <div className="summary-row">
                                             <span className="text-secondary">Total Received</span>
-                                            <span className="font-mono">${data.TOTAL_IN_USD}</span>
+                                            <span className="font-mono">{isFiat ? fiat(data.TOTAL_IN_FIAT) : `$${data.TOTAL_IN_USD}`}</span>
                                         </div>
                                         <div className="summary-row">
                                             <span className="text-secondary">Total Sent</span>
-                                            <span className="font-mono">${data.TOTAL_OUT_USD}</span>
+                                            <span className="font-mono">{isFiat ? fiat(data.TOTAL_OUT_FIAT) : `$${data.TOTAL_OUT_USD}`}</span>
                                         </div>
                                         <div className="summary-row" style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px dashed var(--color-border)' }}>
                                             <span className="font-medium">Net Change</span>
                                             <span className={`font-mono ${data.NET_CHANGE_POSITIVE ? 'amount-positive' : 'amount-negative'}`}>
-                                                {data.NET_CHANGE_SIGN}${data.NET_CHANGE_USD}
+                                                {data.NET_CHANGE_SIGN}{isFiat ? fiat(data.NET_CHANGE_FIAT) : `$${data.NET_CHANGE_USD}`}
                                             </span>
                                         </div>
                                     </div>
@@ -474,13 +907,23 @@ export default function BillPrintClient() {
                                                     <div className="uppercase-label">Data Source</div>
                                                     <div className="data-value" style={{ fontSize: '11px' }}>{data.PRICE_SOURCE}</div>
                                                 </div>
+                                                {isFiat && (
+                                                    <div className="data-group">
+                                                        <div className="uppercase-label">FX Rate</div>
+                                                        <div className="data-value" style={{ fontSize: '11px' }}>
+                                                            1 USD = {data.FX_RATE} {data.CURRENCY} ({data.FX_SOURCE}, {data.FX_RATE_DATE})
+                                                        </div>
+                                                    </div>
+                                                )}
                                                 <div className="data-group">
                                                     <div className="uppercase-label">AI Confidence</div>
                                                     <div className="data-value" style={{ fontSize: '11px' }}>{data.CONFIDENCE}%</div>
                                                 </div>
                                                 <div className="data-group">
                                                     <div className="uppercase-label">Method</div>
-                                                    <div className="data-value" style={{ fontSize: '11px' }}>{data.CLASSIFICATION_METHOD}</div>
+                                                    <div className="data-value" style={{ fontSize: '11px' }}>
+                                                        {data.CLASSIFICATION_METHOD}{data.CLASSIFIER_VERSION && ` (v${data.CLASSIFIER_VERSION})`}
+                                                    </div>
                                                 </div>
                                                 <div className="data-group">
                                                     <div className="uppercase-label">Reorg Check</div>
@@ -20,6 +20,7 @@ export interface TokenItemViewModel {
     toShort: string;
     amountFormatted: string;
     usdValue: string;
+    fiatValue?: string;
 }
 
 export interface InternalTxViewModel {
@@ -32,9 +33,174 @@ export interface InternalTxViewModel {
     isError: boolean;
 }
 
+export interface FeeLineViewModel {
+    key: 'execution' | 'l1_data' | 'blob';
+    label: string;
+    amount: string;
+    amountUsd: string;
+    amountFiat?: string;
+}
+
+export interface FailedReasonViewModel {
+    kind: 'error' | 'panic' | 'custom' | 'raw' | 'out_of_gas' | 'empty' | 'unavailable';
+    message: string;
+    selector?: string;
+    signature?: string;
+    args?: string[];
+    source?: 'trace' | 'replay';
+    intendedAction: string;
+}
+
+export interface GasBurnedViewModel {
+    amount: string;
+    amountUsd: string;
+    amountFiat?: string;
+    gasUsed: string;
+    gasLimit: string;
+}
+
+export interface ApprovalViewModel {
+    standard: 'ERC20' | 'EIP2612' | 'ERC721' | 'ERC721_ALL' | 'PERMIT2';
+    token: string;
+    tokenSymbol: string;
+    spender: string;
+    amount: string;
+    unlimited: boolean;
+    revoke: boolean;
+    spenderIsContract: boolean;
+    expiresAt?: string;
+}
+
+export interface AccountAbstractionViewModel {
+    smartAccount: string;
+    entryPoint: string;
+    entryPointVersion?: string;
+    bundler: string;
+    userOpHash: string;
+    success: boolean;
+    paymaster?: string;
+    sponsored: boolean;
+    actualGasUsed: string;
+    actualGasCost: string;
+    actualGasCostUsd: string;
+    actualGasCostFiat?: string;
+    bundleSize: number;
+}
+
+export interface ActionViewModel {
+    step: number;
+    type: string;
+    label: string;
+    method: string;
+    target: string;
+    protocol?: string;
+    tokensIn: { tokenSymbol: string, amount: string }[];
+    tokensOut: { tokenSymbol: string, amount: string }[];
+}
+
+export interface SafeViewModel {
+    address: string;
+    executor: string;
+    nonce?: string;
+    threshold?: number;
+    safeTxHash?: string;
+    outcome: 'ExecutionSuccess' | 'ExecutionFailure' | 'Unknown';
+    payment?: string;
+    calls: { to: string, operation: 'call' | 'delegatecall', value: string, method: string, action?: string }[];
+}
+
+export interface RiskFindingViewModel {
+    kind: 'SPOOFED_TRANSFER' | 'DUST_TRANSFER' | 'ADDRESS_POISONING' | 'IMPERSONATION_TOKEN' | 'APPROVAL_TO_FRESH_EOA';
+    severity: 'LOW' | 'MEDIUM' | 'HIGH';
+    message: string;
+    address?: string;
+}
+
+export interface LinkedTransferViewModel {
+    protocol: string;
+    direction: 'OUTBOUND' | 'INBOUND';
+    messageId: string;
+    counterpartChainId: number;
+    counterpartChain: string;
+    counterpartTxHash?: string;
+    counterpartExplorerUrl?: string;
+    status: 'PENDING' | 'PENDING_PROOF' | 'PENDING_FINALIZATION' | 'COMPLETED' | 'FAILED' | 'EXPIRED' | 'UNKNOWN';
+    statusLabel: string;
+}
+
+export interface MevFindingViewModel {
+    pattern: 'SANDWICH' | 'BACK_RUN';
+    label: string;
+    pool: string;
+    poolLabel: string;
+    attacker: string;
+    attackerContract?: string;
+    frontRunTx?: string;
+    backRunTx: string;
+    tokenOut?: string;
+    tokenOutSymbol?: string;
+    lossAmount?: string;
+    lossUsd?: string;
+    lossFiat?: string;
+    lossPercent?: string;
+}
+
+export interface MevAnalysisViewModel {
+    verdict: 'SANDWICHED' | 'BACK_RUN' | 'NONE';
+    verdictLabel: string;
+    analyzedPools: number;
+    findings: MevFindingViewModel[];
+    totalLossUsd?: string;
+    totalLossFiat?: string;
+}
+
+export interface SwapHopViewModel {
+    step: number;
+    pool: string;
+    protocol: string;
+    tokenInSymbol: string;
+    amountIn: string;
+    tokenOutSymbol: string;
+    amountOut: string;
+    feeTier?: string;
+    fee?: string;
+    feeSymbol?: string;
+}
+
+export interface SwapDetailsViewModel {
+    tokenIn: string;
+    tokenInSymbol: string;
+    amountIn: string;
+    tokenOut: string;
+    tokenOutSymbol: string;
+    amountOut: string;
+    route: string;
+    hops: SwapHopViewModel[];
+    executionPrice: string;
+    executionPriceInverse: string;
+    oraclePrice?: string;
+    priceDifference?: string;
+    slippageCostUsd?: string;
+    slippageCostFiat?: string;
+}
+
+export interface LiquidityViewModel {
+    action: 'add' | 'remove';
+    protocol: string;
+    pool: string;
+    tokens: { token: string, tokenSymbol: string, amount: string }[];
+    lpToken?: string;
+    lpSymbol?: string;
+    lpAmount?: string;
+    positionId?: string;
+    tickLower?: number;
+    tickUpper?: number;
+}
+
 export interface BillViewModel {
     BILL_ID: string;
     BILL_VERSION: string;
+    CLASSIFIER_VERSION?: string;
     GENERATED_AT: string;
     STATUS: string;
     STATUS_CONFIRMED: boolean;
@@ -64,6 +230,7 @@ export interface BillViewModel {
     IS_SMART_ACCOUNT: boolean;
     ENVELOPE_LABEL: string;
     PROTOCOL_TAG?: string;
+    METHOD_SIGNATURE?: string;
 
     // Participants
     FROM_ADDRESS: string;
@@ -84,6 +251,42 @@ export interface BillViewModel {
     GAS_PRICE_GWEI: string;
     TOTAL_FEE: string;
     TOTAL_FEE_USD: string;
+    FEE_MODEL?: 'L1' | 'OP_STACK' | 'ARBITRUM';
+    FEE_BREAKDOWN?: FeeLineViewModel[];
+    HAS_FEE_BREAKDOWN?: boolean;
+
+    // Failed transactions (STATUS = 'FAILED')
+    FAILED_REASON?: FailedReasonViewModel;
+    HAS_FAILED_REASON?: boolean;
+    GAS_BURNED_ON_FAILURE?: GasBurnedViewModel;
+
+    // Allowance changes (approve / permit / Permit2)
+    APPROVALS?: ApprovalViewModel[];
+    HAS_APPROVALS?: boolean;
+
+    // ERC-4337 user operation
+    ACCOUNT_ABSTRACTION?: AccountAbstractionViewModel;
+    HAS_ACCOUNT_ABSTRACTION?: boolean;
+
+    // Batched transaction, step by step
+    ACTIONS?: ActionViewModel[];
+    HAS_ACTIONS?: boolean;
+
+    // Safe multisig execution
+    SAFE?: SafeViewModel;
+    HAS_SAFE?: boolean;
+
+    // Cross-chain bridge transfer (counterpart receipt on the other chain)
+    LINKED_TRANSFER?: LinkedTransferViewModel;
+    HAS_LINKED_TRANSFER?: boolean;
+    MEV_ANALYSIS?: MevAnalysisViewModel;
+    HAS_MEV_ANALYSIS?: boolean;
+
+    // Pool deposit / withdrawal
+    LIQUIDITY?: LiquidityViewModel;
+    HAS_LIQUIDITY?: boolean;
+    SWAP_DETAILS?: SwapDetailsViewModel;
+    HAS_SWAP_DETAILS?: boolean;
 
     // Enterprise Classification Extras
     CONFIDENCE_LEVEL: 'Confirmed' | 'High' | 'Likely' | 'Complex';
@@ -91,6 +294,8 @@ export interface BillViewModel {
     SECONDARY_ACTIONS: string[];
     EXECUTION_TYPE_LABEL: string;
     RISK_WARNINGS: string[];
+    RISK_FINDINGS?: RiskFindingViewModel[]; // Same findings as the first RISK_WARNINGS entries, with severity
+    HAS_RISK_FINDINGS?: boolean;
 
     // Totals
     TOTAL_IN_USD: string;
@@ -101,6 +306,22 @@ export interface BillViewModel {
     NET_CHANGE_SIGN: string;
     NET_CHANGE_POSITIVE: boolean;
 
+    // Perspective (whose receipt this is)
+    PERSPECTIVE_ADDRESS?: string;
+    PERSPECTIVE_IS_PARTICIPANT?: boolean;
+    FEE_PAID_BY_PERSPECTIVE?: boolean;
+
+    // Reporting Currency (historical FX on the tx date)
+    CURRENCY?: string;
+    CURRENCY_SYMBOL?: string;
+    FX_RATE?: string;
+    FX_SOURCE?: string;
+    FX_RATE_DATE?: string;
+    TOTAL_FEE_FIAT?: string;
+    TOTAL_IN_FIAT?: string;
+    TOTAL_OUT_FIAT?: string;
+    NET_CHANGE_FIAT?: string;
+
     // Audit
     RPC_PROVIDER: string;
     CONFIDENCE_PERCENT: number;
@@ -368,7 +368,7 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ token }) => {
 
                         <div>
                             <label className="block text-sm text-gray-400 mb-2">Events to Subscribe</label>
-                            <div className="flex gap-2">
+                            <div className="flex flex-wrap gap-2">
                                 <label className="flex items-center gap-2 px-3 py-2 bg-black/30 rounded border border-blue-500/50 text-blue-200 text-sm cursor-pointer">
                                     <input
                                         type="checkbox"
@@ -397,6 +397,76 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ token }) => {
                                     />
                                     bill.failed
                                 </label>
+                                <label className="flex items-center gap-2 px-3 py-2 bg-black/30 rounded border border-amber-500/50 text-amber-200 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={events.includes('bill.reorged')}
+                                        onChange={() => {
+                                            if (events.includes('bill.reorged')) {
+                                                setEvents(events.filter(e => e !== 'bill.reorged'));
+                                            } else {
+                                                setEvents([...events, 'bill.reorged']);
+                                            }
+                                        }}
+                                    />
+                                    bill.reorged
+                                </label>
+                                <label className="flex items-center gap-2 px-3 py-2 bg-black/30 rounded border border-indigo-500/50 text-indigo-200 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={events.includes('batch.completed')}
+                                        onChange={() => {
+                                            if (events.includes('batch.completed')) {
+                                                setEvents(events.filter(e => e !== 'batch.completed'));
+                                            } else {
+                                                setEvents([...events, 'batch.completed']);
+                                            }
+                                        }}
+                                    />
+                                    batch.completed
+                                </label>
+                                <label className="flex items-center gap-2 px-3 py-2 bg-black/30 rounded border border-emerald-500/50 text-emerald-200 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={events.includes('statement.completed')}
+                                        onChange={() => {
+                                            if (events.includes('statement.completed')) {
+                                                setEvents(events.filter(e => e !== 'statement.completed'));
+                                            } else {
+                                                setEvents([...events, 'statement.completed']);
+                                            }
+                                        }}
+                                    />
+                                    statement.completed
+                                </label>
+                                <label className="flex items-center gap-2 px-3 py-2 bg-black/30 rounded border border-rose-500/50 text-rose-200 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={events.includes('statement.failed')}
+                                        onChange={() => {
+                                            if (events.includes('statement.failed')) {
+                                                setEvents(events.filter(e => e !== 'statement.failed'));
+                                            } else {
+                                                setEvents([...events, 'statement.failed']);
+                                            }
+                                        }}
+                                    />
+                                    statement.failed
+                                </label>
+                                <label className="flex items-center gap-2 px-3 py-2 bg-black/30 rounded border border-purple-500/50 text-purple-200 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={events.includes('bill.reclassified')}
+                                        onChange={() => {
+                                            if (events.includes('bill.reclassified')) {
+                                                setEvents(events.filter(e => e !== 'bill.reclassified'));
+                                            } else {
+                                                setEvents([...events, 'bill.reclassified']);
+                                            }
+                                        }}
+                                    />
+                                    bill.reclassified
+                                </label>
                             </div>
                         </div>
 
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- BILL BATCHES MIGRATION
+-- ============================================================================
+-- PURPOSE: Group many bill_jobs under one batch id for bulk generation
+-- VERSION: 011
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, no changes to existing tables
+-- ============================================================================
+
+-- Batch header (one per POST /api/v1/pdfs/batch)
+CREATE TABLE IF NOT EXISTS bill_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id),
+    status TEXT DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    total_items INT NOT NULL CHECK (total_items > 0),
+    completed_count INT DEFAULT 0,
+    failed_count INT DEFAULT 0,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Batch membership. bill_jobs is unique per (tx_hash, chain_id), so a job
+-- can belong to several batches; membership lives here instead of on the job.
+CREATE TABLE IF NOT EXISTS bill_batch_items (
+    batch_id UUID NOT NULL REFERENCES bill_batches(id) ON DELETE CASCADE,
+    position INT NOT NULL,
+    job_id UUID NOT NULL REFERENCES bill_jobs(id) ON DELETE CASCADE,
+    tx_hash TEXT NOT NULL,
+    chain_id INT NOT NULL,
+    PRIMARY KEY (batch_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_batches_api_key ON bill_batches(api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_batch_items_job ON bill_batch_items(job_id);
+
+ALTER TABLE bill_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_batch_items ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS bill_batches_updated_at ON bill_batches;
+CREATE TRIGGER bill_batches_updated_at BEFORE UPDATE ON bill_batches FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+-- Documentation comments
+COMMENT ON TABLE bill_batches IS
+    'Bulk bill generation requests. Progress is derived from the linked bill_jobs; counts are snapshotted on completion.';
+
+COMMENT ON COLUMN bill_batches.status IS
+    'processing=at least one job pending/processing, completed=every job reached completed or failed';
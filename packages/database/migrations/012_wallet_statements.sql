@@ -0,0 +1,81 @@
+-- ============================================================================
+-- WALLET STATEMENTS MIGRATION
+-- ============================================================================
+-- PURPOSE: Period statements (address + chains + date range) as a queue job type
+-- VERSION: 012
+-- DATE: 2026-10-18
+-- SAFETY: Backward compatible, job_type defaults to 'bill' for existing rows
+-- ============================================================================
+
+-- Job type discriminator. Statement jobs store their STATEMENT_ID in tx_hash
+-- with chain_id = 0, so idx_jobs_tx_chain keeps them idempotent as well.
+ALTER TABLE bill_jobs
+ADD COLUMN IF NOT EXISTS job_type TEXT NOT NULL DEFAULT 'bill' CHECK (job_type IN ('bill', 'statement'));
+
+-- Statement records (mirrors bills: JSON + keccak256 receipt hash)
+CREATE TABLE IF NOT EXISTS statements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    statement_id TEXT NOT NULL UNIQUE,
+    api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    address VARCHAR(42) NOT NULL,
+    chain_ids INT[] NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    statement_json JSONB,
+    receipt_hash TEXT,
+    hash_algo TEXT DEFAULT 'keccak256',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT statements_address_lowercase_chk CHECK (address = LOWER(address)),
+    CONSTRAINT statements_period_chk CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_statements_address ON statements(address, period_start DESC);
+CREATE INDEX IF NOT EXISTS idx_statements_api_key ON statements(api_key_id);
+
+ALTER TABLE statements ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS statements_updated_at ON statements;
+CREATE TRIGGER statements_updated_at BEFORE UPDATE ON statements FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+-- Claim RPC now returns job_type so the worker can route the job.
+-- Return type changes require DROP before CREATE.
+DROP FUNCTION IF EXISTS claim_next_bill_job_v2();
+
+CREATE OR REPLACE FUNCTION claim_next_bill_job_v2()
+RETURNS TABLE (id UUID, tx_hash TEXT, chain_id INT, metadata JSONB, api_key_id UUID, job_type TEXT)
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+    v_job_id UUID;
+BEGIN
+    SELECT bill_jobs.id INTO v_job_id
+    FROM bill_jobs
+    WHERE status = 'pending'
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF v_job_id IS NOT NULL THEN
+        UPDATE bill_jobs
+        SET status = 'processing',
+            started_at = NOW(),
+            heartbeat_at = NOW(),
+            updated_at = NOW(),
+            wait_time_ms = EXTRACT(EPOCH FROM (NOW() - created_at)) * 1000
+        WHERE bill_jobs.id = v_job_id;
+
+        RETURN QUERY
+            SELECT bill_jobs.id, bill_jobs.tx_hash, bill_jobs.chain_id,
+                   bill_jobs.metadata, bill_jobs.api_key_id, bill_jobs.job_type
+            FROM bill_jobs
+            WHERE bill_jobs.id = v_job_id;
+    END IF;
+END;
+$$;
+
+-- Documentation comments
+COMMENT ON COLUMN bill_jobs.job_type IS
+    'bill=single transaction receipt (tx_hash, chain_id), statement=wallet statement (tx_hash holds STATEMENT_ID, chain_id=0, params in metadata)';
+
+COMMENT ON TABLE statements IS
+    'Wallet period statements. receipt_hash is computed with the same canonical keccak256 scheme as bills.';
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- BILL REPORTING CURRENCY MIGRATION
+-- ============================================================================
+-- PURPOSE: Fiat reporting currency per bill (historical FX on the tx date)
+-- VERSION: 013
+-- DATE: 2026-10-18
+-- SAFETY: Backward compatible, currency defaults to 'USD' for existing rows
+-- ============================================================================
+
+-- 1. Template default (applied when a request omits `currency`)
+ALTER TABLE receipt_templates
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- 2. Bills: one record per (tx, chain, currency). Non-USD BILL_IDs carry a -{CCY} suffix.
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE bills DROP CONSTRAINT IF EXISTS bills_tx_chain_unique;
+ALTER TABLE bills DROP CONSTRAINT IF EXISTS bills_tx_chain_currency_unique;
+ALTER TABLE bills ADD CONSTRAINT bills_tx_chain_currency_unique UNIQUE (tx_hash, chain_id, currency);
+
+-- 3. Jobs: currency is part of job idempotency
+ALTER TABLE bill_jobs
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+DROP INDEX IF EXISTS idx_jobs_tx_chain;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_tx_chain ON bill_jobs(tx_hash, chain_id, currency);
+
+-- 4. Claim RPC now returns currency so the worker generates the right variant.
+-- Return type changes require DROP before CREATE.
+DROP FUNCTION IF EXISTS claim_next_bill_job_v2();
+
+CREATE OR REPLACE FUNCTION claim_next_bill_job_v2()
+RETURNS TABLE (id UUID, tx_hash TEXT, chain_id INT, metadata JSONB, api_key_id UUID, job_type TEXT, currency TEXT)
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+    v_job_id UUID;
+BEGIN
+    SELECT bill_jobs.id INTO v_job_id
+    FROM bill_jobs
+    WHERE status = 'pending'
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF v_job_id IS NOT NULL THEN
+        UPDATE bill_jobs
+        SET status = 'processing',
+            started_at = NOW(),
+            heartbeat_at = NOW(),
+            updated_at = NOW(),
+            wait_time_ms = EXTRACT(EPOCH FROM (NOW() - created_at)) * 1000
+        WHERE bill_jobs.id = v_job_id;
+
+        RETURN QUERY
+            SELECT bill_jobs.id, bill_jobs.tx_hash, bill_jobs.chain_id,
+                   bill_jobs.metadata, bill_jobs.api_key_id, bill_jobs.job_type, bill_jobs.currency
+            FROM bill_jobs
+            WHERE bill_jobs.id = v_job_id;
+    END IF;
+END;
+$$;
+
+-- Documentation comments
+COMMENT ON COLUMN receipt_templates.currency IS
+    'Default ISO 4217 reporting currency for bills created with this API key';
+
+COMMENT ON COLUMN bills.currency IS
+    'ISO 4217 reporting currency. *_USD fields in bill_json stay canonical; *_FIAT fields use the historical FX rate on the tx date';
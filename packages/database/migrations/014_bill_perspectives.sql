@@ -0,0 +1,30 @@
+-- ============================================================================
+-- PERSPECTIVE-SPECIFIC RECEIPTS MIGRATION
+-- ============================================================================
+-- PURPOSE: Several receipts per transaction, keyed by the perspective address
+-- VERSION: 014
+-- DATE: 2026-10-18
+-- SAFETY: Backward compatible, existing rows become the default ('') perspective
+-- ============================================================================
+
+-- '' = default perspective (transaction sender), otherwise the lowercase wallet
+-- the receipt was built for. Explicit perspectives append -{address} to BILL_ID.
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS perspective TEXT NOT NULL DEFAULT '' CHECK (perspective = '' OR perspective ~ '^0x[0-9a-f]{40}$');
+
+ALTER TABLE bills DROP CONSTRAINT IF EXISTS bills_tx_chain_currency_unique;
+ALTER TABLE bills DROP CONSTRAINT IF EXISTS bills_tx_chain_currency_perspective_unique;
+ALTER TABLE bills ADD CONSTRAINT bills_tx_chain_currency_perspective_unique UNIQUE (tx_hash, chain_id, currency, perspective);
+
+ALTER TABLE bill_jobs
+ADD COLUMN IF NOT EXISTS perspective TEXT NOT NULL DEFAULT '' CHECK (perspective = '' OR perspective ~ '^0x[0-9a-f]{40}$');
+
+DROP INDEX IF EXISTS idx_jobs_tx_chain;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_tx_chain ON bill_jobs(tx_hash, chain_id, currency, perspective);
+
+-- Documentation comments
+COMMENT ON COLUMN bills.perspective IS
+    'Receipt perspective: empty for the sender (default), else the lowercase wallet whose IN/OUT view and net change the bill shows';
+
+COMMENT ON COLUMN bill_jobs.perspective IS
+    'Perspective key of the requested receipt (same semantics as bills.perspective)';
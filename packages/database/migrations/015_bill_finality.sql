@@ -0,0 +1,55 @@
+-- ============================================================================
+-- BILL FINALITY & REORG TRACKING MIGRATION
+-- ============================================================================
+-- PURPOSE: Record the block each bill was built from and re-issue bills on reorg
+-- VERSION: 015
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, existing bills have no block_hash and are not tracked
+-- ============================================================================
+
+-- Source block of the bill. FinalityTrackerService rechecks rows with
+-- finalized = FALSE until the block is finalityDepth deep on its chain.
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS block_number BIGINT;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS block_hash TEXT;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS confirmations INT;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS finalized BOOLEAN DEFAULT FALSE;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMPTZ;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS finality_checked_at TIMESTAMPTZ;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS reorg_count INT DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bills_unfinalized ON bills(finality_checked_at NULLS FIRST)
+    WHERE finalized = FALSE AND block_hash IS NOT NULL;
+
+-- Supersession log: one row per detected reorg of a bill.
+-- bill_id is the superseded receipt; new_bill_id is NULL when the tx was dropped.
+CREATE TABLE IF NOT EXISTS bill_reorgs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bill_id TEXT NOT NULL,
+    new_bill_id TEXT,
+    tx_hash TEXT NOT NULL,
+    chain_id INT NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    perspective TEXT NOT NULL DEFAULT '',
+    old_block_number BIGINT NOT NULL,
+    old_block_hash TEXT NOT NULL,
+    old_receipt_hash TEXT,
+    canonical_block_hash TEXT,
+    new_block_hash TEXT,
+    dropped BOOLEAN DEFAULT FALSE,
+    detected_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_reorgs_bill ON bill_reorgs(bill_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_reorgs_tx ON bill_reorgs(tx_hash, chain_id);
+
+ALTER TABLE bill_reorgs ENABLE ROW LEVEL SECURITY;
+
+-- Documentation comments
+COMMENT ON COLUMN bills.block_hash IS
+    'Hash of the block the bill was built from; compared against the canonical chain until finalized';
+
+COMMENT ON COLUMN bills.finalized IS
+    'TRUE once the source block is at least the chain finalityDepth deep with an unchanged hash';
+
+COMMENT ON TABLE bill_reorgs IS
+    'Bills superseded by a chain reorganization. A bill.reorged webhook is dispatched for every row.';
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- CHAIN REGISTRY MIGRATION
+-- ============================================================================
+-- PURPOSE: Make `chains` the runtime chain registry (admin-managed, no deploy)
+-- VERSION: 016
+-- DATE: 2026-10-18
+-- SAFETY: Backward compatible, existing rows stay active with empty config_json
+-- ============================================================================
+
+-- Deactivated chains are kept so historical bills still resolve names/explorers
+ALTER TABLE chains ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Display names shown on receipts (seed used short names)
+UPDATE chains SET name = 'Ethereum Mainnet' WHERE chain_id = 1 AND name = 'Ethereum';
+UPDATE chains SET name = 'Base Mainnet' WHERE chain_id = 8453 AND name = 'Base';
+UPDATE chains SET name = 'Arbitrum One' WHERE chain_id = 42161 AND name = 'Arbitrum';
+UPDATE chains SET name = 'BNB Smart Chain' WHERE chain_id = 56 AND name = 'BSC';
+UPDATE chains SET name = 'Avalanche C-Chain' WHERE chain_id = 43114 AND name = 'Avalanche';
+
+-- Documentation comments
+COMMENT ON COLUMN chains.config_json IS
+    'ChainRegistryService definition fields beyond the columns (rpcUrls, alchemyNetwork, blockscoutUrl, pricing ids, type, rollupStack, finalityDepth, dustThreshold, entryPoint, protocol registries). Merged over the built-in definition for shipped chains.';
+
+COMMENT ON COLUMN chains.is_active IS
+    'FALSE = new bills for this chain are rejected; row kept for history';
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- CONTRACT ABI REGISTRY MIGRATION
+-- ============================================================================
+-- PURPOSE: Admin-uploaded verified contract ABIs for exact method/event decoding
+-- VERSION: 017
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, decoding falls back to the bundled signature registry
+-- ============================================================================
+
+-- One verified ABI per deployed contract. Loaded into the classifier's
+-- signature registry by ContractAbiService; writes go through the admin API.
+CREATE TABLE IF NOT EXISTS contract_abis (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chain_id INT NOT NULL,
+    address TEXT NOT NULL CHECK (address ~ '^0x[0-9a-f]{40}$'),
+    name TEXT,
+    abi JSONB NOT NULL,
+    source TEXT,
+    uploaded_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (chain_id, address)
+);
+
+ALTER TABLE contract_abis ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS contract_abis_updated_at ON contract_abis;
+CREATE TRIGGER contract_abis_updated_at BEFORE UPDATE ON contract_abis FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+-- Documentation comments
+COMMENT ON TABLE contract_abis IS
+    'Verified contract ABIs. Calls to and logs from (chain_id, address) decode with this ABI before the bundled selector registry.';
+
+COMMENT ON COLUMN contract_abis.source IS
+    'Where the ABI came from (e.g. Etherscan verified source, audit report); informational';
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- DECLARATIVE RULE PACKS MIGRATION
+-- ============================================================================
+-- PURPOSE: Classifier rules defined as data, hot-reloaded without a deploy
+-- VERSION: 018
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, the built-in rules keep running without any packs
+-- ============================================================================
+
+-- One row per pack (e.g. 'aerodrome'); definition is validated by RulePackSchema
+-- on write and again on every load, invalid rows are skipped.
+CREATE TABLE IF NOT EXISTS rule_packs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE CHECK (name ~ '^[a-z0-9-]+$'),
+    version INT NOT NULL DEFAULT 1,
+    description TEXT,
+    definition JSONB NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE rule_packs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS rule_packs_updated_at ON rule_packs;
+CREATE TRIGGER rule_packs_updated_at BEFORE UPDATE ON rule_packs FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+-- Documentation comments
+COMMENT ON TABLE rule_packs IS
+    'Declarative classifier rules (known selectors / topics / addresses, token-flow shape, confidence weights). Loaded next to the built-in rules.';
+
+COMMENT ON COLUMN rule_packs.is_active IS
+    'FALSE = pack is no longer evaluated; row kept so it can be re-enabled';
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- CLASSIFICATION STORE & RECLASSIFICATION MIGRATION
+-- ============================================================================
+-- PURPOSE: Persist classifier results per version and rerun the classifier over stored bills
+-- VERSION: 019
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, existing bills have no classifier_version and count as outdated
+-- ============================================================================
+
+-- Classifier output per transaction and classifier version (engine release + rule pack hash).
+-- A new version never reads rows written by an older one.
+CREATE TABLE IF NOT EXISTS classifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chain_id INT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    classifier_version TEXT NOT NULL,
+    functional_type TEXT NOT NULL,
+    protocol TEXT,
+    confidence NUMERIC(4, 3) NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT classifications_tx_version_unique UNIQUE (chain_id, tx_hash, classifier_version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classifications_tx ON classifications(tx_hash, chain_id);
+
+-- Version that produced each bill's TYPE / PROTOCOL_TAG
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS classifier_version TEXT;
+
+-- Admin-triggered reruns of the classifier over stored bills.
+-- report lists every bill whose TYPE or PROTOCOL_TAG changed (and per-bill errors).
+CREATE TABLE IF NOT EXISTS reclassification_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED')),
+    classifier_version TEXT, -- Version the bills were compared against (set when processing starts)
+    filters JSONB NOT NULL DEFAULT '{}',
+    reissue BOOLEAN NOT NULL DEFAULT FALSE,
+    requested_by TEXT,
+    total INT DEFAULT 0,
+    processed INT DEFAULT 0,
+    changed INT DEFAULT 0,
+    reissued INT DEFAULT 0,
+    failed INT DEFAULT 0,
+    report JSONB NOT NULL DEFAULT '[]',
+    error TEXT,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reclassification_jobs_status ON reclassification_jobs(status, created_at);
+
+ALTER TABLE classifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reclassification_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS reclassification_jobs_updated_at ON reclassification_jobs;
+CREATE TRIGGER reclassification_jobs_updated_at BEFORE UPDATE ON reclassification_jobs FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+-- Documentation comments
+COMMENT ON TABLE classifications IS
+    'Persistent classifier cache keyed by (chain_id, tx_hash, classifier_version). Rows are deleted when a reorg changes the receipt.';
+
+COMMENT ON COLUMN bills.classifier_version IS
+    'Classifier version that produced bill_json TYPE / PROTOCOL_TAG; NULL for bills issued before versioning';
+
+COMMENT ON TABLE reclassification_jobs IS
+    'Reruns of the classifier over stored bills with a diff report; reissue = regenerate the receipts that changed';
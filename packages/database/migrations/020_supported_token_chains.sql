@@ -0,0 +1,16 @@
+-- ============================================================================
+-- SUPPORTED TOKEN CHAINS MIGRATION
+-- ============================================================================
+-- PURPOSE: Record which chain each listed token address lives on
+-- VERSION: 020
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, existing rows are the Base contribution tokens
+-- ============================================================================
+
+-- Listed addresses are only meaningful on their own chain: the impersonation check
+-- compares a token's symbol with the listings of the receipt's chain only.
+ALTER TABLE supported_tokens ADD COLUMN IF NOT EXISTS chain_id INT NOT NULL DEFAULT 8453;
+
+-- Documentation comments
+COMMENT ON COLUMN supported_tokens.chain_id IS
+    'Chain of the listed address; symbol copies are only flagged as impersonation on this chain';
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- JOB PDF STORED MIGRATION
+-- ============================================================================
+-- PURPOSE: Record whether a job's server-rendered PDF reached storage
+-- VERSION: 021
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, existing jobs read as not stored
+-- ============================================================================
+
+-- PDF render/upload failures do not fail the job (the print route works from JSON),
+-- so job status only returns a PDF URL when this flag is set.
+ALTER TABLE bill_jobs ADD COLUMN IF NOT EXISTS pdf_stored BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Documentation comments
+COMMENT ON COLUMN bill_jobs.pdf_stored IS
+    'Server-rendered PDF was uploaded as {bill_id}.pdf; job status omits pdfUrl otherwise';
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- RECLASSIFICATION CURSOR MIGRATION
+-- ============================================================================
+-- PURPOSE: Let reclassification jobs continue past their bill limit
+-- VERSION: 022
+-- DATE: 2026-10-18
+-- SAFETY: Additive only, existing jobs have no cursor
+-- ============================================================================
+
+-- Last BILL_ID a job selected when its limit cut the selection short.
+-- A follow-up job passes it as the `after` filter.
+ALTER TABLE reclassification_jobs ADD COLUMN IF NOT EXISTS next_cursor TEXT;
+
+-- Documentation comments
+COMMENT ON COLUMN reclassification_jobs.next_cursor IS
+    'BILL_ID to pass as filters.after to continue; NULL when every matching bill was selected';
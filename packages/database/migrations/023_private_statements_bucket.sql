@@ -0,0 +1,21 @@
+-- ============================================================================
+-- PRIVATE STATEMENTS BUCKET MIGRATION
+-- ============================================================================
+-- PURPOSE: Move wallet statement files out of the public receipts bucket
+-- VERSION: 023
+-- DATE: 2026-10-18
+-- SAFETY: Removes public STMT- objects; regenerate affected statements to restore their files
+-- ============================================================================
+
+-- Statement IDs are derivable from a wallet address and period, so statement files must not
+-- be publicly readable. The API serves them only to the API keys that requested them.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('statements', 'statements', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Statements written before this migration sit in the public bucket
+DELETE FROM storage.objects
+WHERE bucket_id = 'receipts' AND name LIKE 'STMT-%';
+
+-- Their jobs no longer have a stored PDF
+UPDATE bill_jobs SET pdf_stored = FALSE WHERE job_type = 'statement';
@@ -41,7 +41,8 @@ CREATE TABLE IF NOT EXISTS chains (
     chain_id INT NOT NULL UNIQUE,
     explorer_url TEXT,
     currency_symbol VARCHAR(10) DEFAULT 'ETH',
-    config_json JSONB DEFAULT '{}',
+    config_json JSONB DEFAULT '{}', -- ChainRegistryService fields beyond the columns (RPCs, pricing ids, rollup model, ...)
+    is_active BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE = new bills rejected, row kept for history
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -49,13 +50,13 @@ CREATE TABLE IF NOT EXISTS chains (
 -- Seed Initial Chains (Idempotent)
 INSERT INTO chains (name, chain_id, explorer_url, currency_symbol)
 VALUES 
-    ('Ethereum', 1, 'https://etherscan.io', 'ETH'),
-    ('Base', 8453, 'https://basescan.org', 'ETH'),
+    ('Ethereum Mainnet', 1, 'https://etherscan.io', 'ETH'),
+    ('Base Mainnet', 8453, 'https://basescan.org', 'ETH'),
     ('Optimism', 10, 'https://optimistic.etherscan.io', 'ETH'),
-    ('Arbitrum', 42161, 'https://arbiscan.io', 'ETH'),
+    ('Arbitrum One', 42161, 'https://arbiscan.io', 'ETH'),
     ('Polygon', 137, 'https://polygonscan.com', 'MATIC'),
-    ('BSC', 56, 'https://bscscan.com', 'BNB'),
-    ('Avalanche', 43114, 'https://snowtrace.io', 'AVAX'),
+    ('BNB Smart Chain', 56, 'https://bscscan.com', 'BNB'),
+    ('Avalanche C-Chain', 43114, 'https://snowtrace.io', 'AVAX'),
     ('Base Sepolia', 84532, 'https://sepolia.basescan.org', 'ETH'),
     ('Sepolia', 11155111, 'https://sepolia.etherscan.io', 'ETH')
 ON CONFLICT (chain_id) DO UPDATE SET
@@ -81,6 +82,7 @@ CREATE TABLE IF NOT EXISTS ad_profiles (
 CREATE TABLE IF NOT EXISTS supported_tokens (
     symbol VARCHAR(10) PRIMARY KEY,
     address VARCHAR(42) NOT NULL UNIQUE,
+    chain_id INT NOT NULL DEFAULT 8453, -- Chain the listed address lives on
     name VARCHAR(50) NOT NULL,
     decimals INT NOT NULL DEFAULT 18,
     is_native BOOLEAN DEFAULT FALSE,
@@ -89,6 +91,33 @@ CREATE TABLE IF NOT EXISTS supported_tokens (
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- 2.4 CONTRACT ABIS (Verified ABIs for exact method / event decoding)
+CREATE TABLE IF NOT EXISTS contract_abis (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chain_id INT NOT NULL,
+    address TEXT NOT NULL CHECK (address ~ '^0x[0-9a-f]{40}$'),
+    name TEXT,
+    abi JSONB NOT NULL, -- JSON ABI array; loaded into the classifier signature registry
+    source TEXT, -- e.g. 'etherscan', 'audit'; informational
+    uploaded_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (chain_id, address)
+);
+
+-- 2.5 RULE PACKS (Declarative classifier rules, hot-reloaded)
+CREATE TABLE IF NOT EXISTS rule_packs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE CHECK (name ~ '^[a-z0-9-]+$'),
+    version INT NOT NULL DEFAULT 1,
+    description TEXT,
+    definition JSONB NOT NULL, -- RulePackSchema document
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- -----------------------------------------------------------------------------
 -- 3. SAAS CORE (Identity & Monetization)
 -- -----------------------------------------------------------------------------
@@ -287,12 +316,22 @@ CREATE TABLE IF NOT EXISTS bills (
     receipt_hash TEXT,
     hash_algo TEXT DEFAULT 'keccak256',
     status TEXT DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'COMPLETED', 'FAILED')),
+    currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'), -- Reporting currency (non-USD BILL_IDs end in -{CCY})
+    perspective TEXT NOT NULL DEFAULT '' CHECK (perspective = '' OR perspective ~ '^0x[0-9a-f]{40}$'), -- '' = sender, else wallet (BILL_ID ends in -{address})
+    block_number BIGINT,
+    block_hash TEXT, -- Source block; rechecked by the finality tracker until finalized
+    confirmations INT,
+    finalized BOOLEAN DEFAULT FALSE,
+    finalized_at TIMESTAMPTZ,
+    finality_checked_at TIMESTAMPTZ,
+    reorg_count INT DEFAULT 0,
+    classifier_version TEXT, -- Classifier (engine + rule packs) that produced TYPE / PROTOCOL_TAG
     expires_at TIMESTAMPTZ,
     is_deleted BOOLEAN DEFAULT FALSE,
     deleted_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
-    CONSTRAINT bills_tx_chain_unique UNIQUE (tx_hash, chain_id)
+    CONSTRAINT bills_tx_chain_currency_perspective_unique UNIQUE (tx_hash, chain_id, currency, perspective)
 );
 
 CREATE INDEX IF NOT EXISTS idx_bills_tx_hash ON bills(tx_hash, chain_id);
@@ -300,6 +339,45 @@ CREATE INDEX IF NOT EXISTS idx_bills_user_id ON bills(user_id);
 CREATE INDEX IF NOT EXISTS idx_bills_user_created ON bills(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_bills_expires ON bills(expires_at);
 CREATE INDEX IF NOT EXISTS idx_bills_api_key ON bills(api_key_id);
+CREATE INDEX IF NOT EXISTS idx_bills_unfinalized ON bills(finality_checked_at NULLS FIRST)
+    WHERE finalized = FALSE AND block_hash IS NOT NULL;
+
+-- 4.5 BILL REORGS (Bills superseded by a chain reorganization)
+CREATE TABLE IF NOT EXISTS bill_reorgs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bill_id TEXT NOT NULL, -- Superseded receipt
+    new_bill_id TEXT, -- NULL when the transaction was dropped
+    tx_hash TEXT NOT NULL,
+    chain_id INT NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    perspective TEXT NOT NULL DEFAULT '',
+    old_block_number BIGINT NOT NULL,
+    old_block_hash TEXT NOT NULL,
+    old_receipt_hash TEXT,
+    canonical_block_hash TEXT,
+    new_block_hash TEXT,
+    dropped BOOLEAN DEFAULT FALSE,
+    detected_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_reorgs_bill ON bill_reorgs(bill_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_reorgs_tx ON bill_reorgs(tx_hash, chain_id);
+
+-- 4.6 CLASSIFICATIONS (Persistent classifier cache, one row per classifier version)
+CREATE TABLE IF NOT EXISTS classifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chain_id INT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    classifier_version TEXT NOT NULL,
+    functional_type TEXT NOT NULL,
+    protocol TEXT,
+    confidence NUMERIC(4, 3) NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT classifications_tx_version_unique UNIQUE (chain_id, tx_hash, classifier_version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classifications_tx ON classifications(tx_hash, chain_id);
 
 -- -----------------------------------------------------------------------------
 -- 5. ASYNC & QUEUE SYSTEMS
@@ -356,6 +434,7 @@ CREATE TABLE IF NOT EXISTS receipt_templates (
     accent_color TEXT CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
     footer_text TEXT,
     font_variant TEXT DEFAULT 'inter',
+    currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'), -- Default reporting currency
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -366,7 +445,10 @@ CREATE TABLE IF NOT EXISTS bill_jobs (
     tx_hash TEXT NOT NULL,
     chain_id INT NOT NULL,
     status TEXT CHECK (status IN ('pending', 'processing', 'completed', 'failed')) DEFAULT 'pending',
+    job_type TEXT NOT NULL DEFAULT 'bill' CHECK (job_type IN ('bill', 'statement')), -- statement: tx_hash = STATEMENT_ID, chain_id = 0
     bill_id TEXT,
+    currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+    perspective TEXT NOT NULL DEFAULT '' CHECK (perspective = '' OR perspective ~ '^0x[0-9a-f]{40}$'),
     error TEXT,
     api_key_id UUID REFERENCES api_keys(id),
     user_id UUID REFERENCES users(id),
@@ -379,11 +461,12 @@ CREATE TABLE IF NOT EXISTS bill_jobs (
     wait_time_ms INT,
     processing_time_ms INT,
     cache_hit BOOLEAN DEFAULT FALSE,
+    pdf_stored BOOLEAN NOT NULL DEFAULT FALSE, -- Server-rendered PDF uploaded to the receipts bucket
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
-CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_tx_chain ON bill_jobs(tx_hash, chain_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_tx_chain ON bill_jobs(tx_hash, chain_id, currency, perspective);
 CREATE INDEX IF NOT EXISTS idx_jobs_priority ON bill_jobs(status, priority DESC, created_at ASC);
 
 -- 5.5 PENDING CONTRIBUTIONS
@@ -398,6 +481,78 @@ CREATE TABLE IF NOT EXISTS pending_contributions (
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- 5.6 / 5.7 BILL BATCHES (Bulk Generation)
+CREATE TABLE IF NOT EXISTS bill_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id),
+    status TEXT DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    total_items INT NOT NULL CHECK (total_items > 0),
+    completed_count INT DEFAULT 0,
+    failed_count INT DEFAULT 0,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Membership table: bill_jobs is unique per (tx_hash, chain_id, currency, perspective), so one job can serve many batches
+CREATE TABLE IF NOT EXISTS bill_batch_items (
+    batch_id UUID NOT NULL REFERENCES bill_batches(id) ON DELETE CASCADE,
+    position INT NOT NULL,
+    job_id UUID NOT NULL REFERENCES bill_jobs(id) ON DELETE CASCADE,
+    tx_hash TEXT NOT NULL,
+    chain_id INT NOT NULL,
+    PRIMARY KEY (batch_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_batches_api_key ON bill_batches(api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_batch_items_job ON bill_batch_items(job_id);
+
+-- 5.8 STATEMENTS (Wallet Period Statements)
+CREATE TABLE IF NOT EXISTS statements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    statement_id TEXT NOT NULL UNIQUE,
+    api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    address VARCHAR(42) NOT NULL,
+    chain_ids INT[] NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    statement_json JSONB,
+    receipt_hash TEXT,
+    hash_algo TEXT DEFAULT 'keccak256',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT statements_address_lowercase_chk CHECK (address = LOWER(address)),
+    CONSTRAINT statements_period_chk CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_statements_address ON statements(address, period_start DESC);
+CREATE INDEX IF NOT EXISTS idx_statements_api_key ON statements(api_key_id);
+
+-- 5.9 RECLASSIFICATION JOBS (Classifier reruns over stored bills)
+CREATE TABLE IF NOT EXISTS reclassification_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED')),
+    classifier_version TEXT, -- Version the bills were compared against
+    filters JSONB NOT NULL DEFAULT '{}',
+    reissue BOOLEAN NOT NULL DEFAULT FALSE,
+    requested_by TEXT,
+    total INT DEFAULT 0,
+    processed INT DEFAULT 0,
+    changed INT DEFAULT 0,
+    reissued INT DEFAULT 0,
+    failed INT DEFAULT 0,
+    report JSONB NOT NULL DEFAULT '[]', -- Changed TYPE / PROTOCOL_TAG per bill
+    error TEXT,
+    next_cursor TEXT, -- BILL_ID to continue from when the limit cut the selection short
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reclassification_jobs_status ON reclassification_jobs(status, created_at);
+
 -- -----------------------------------------------------------------------------
 -- 6. OBSERVABILITY & ANALYTICS
 -- -----------------------------------------------------------------------------
@@ -550,11 +705,19 @@ ALTER TABLE usage_aggregates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE api_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bill_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_batch_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE statements ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_reorgs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE classifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reclassification_jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE receipt_templates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contract_abis ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rule_packs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ad_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE contributors ENABLE ROW LEVEL SECURITY;
@@ -598,7 +761,7 @@ CREATE POLICY "Service Master Keys" ON api_keys FOR ALL USING (auth.role() = 'se
 
 -- 9.1 ATOMIC JOB CLAIM
 CREATE OR REPLACE FUNCTION claim_next_bill_job_v2()
-RETURNS TABLE (id UUID, tx_hash TEXT, chain_id INT, metadata JSONB, api_key_id UUID) 
+RETURNS TABLE (id UUID, tx_hash TEXT, chain_id INT, metadata JSONB, api_key_id UUID, job_type TEXT, currency TEXT) 
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
     v_job_id UUID;
@@ -621,7 +784,7 @@ BEGIN
         
         RETURN QUERY 
             SELECT bill_jobs.id, bill_jobs.tx_hash, bill_jobs.chain_id, 
-                   bill_jobs.metadata, bill_jobs.api_key_id 
+                   bill_jobs.metadata, bill_jobs.api_key_id, bill_jobs.job_type, bill_jobs.currency
             FROM bill_jobs 
             WHERE bill_jobs.id = v_job_id;
     END IF;
@@ -676,10 +839,15 @@ $$;
 -- 10. TRIGGERS
 -- -----------------------------------------------------------------------------
 CREATE TRIGGER chains_updated_at BEFORE UPDATE ON chains FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+CREATE TRIGGER contract_abis_updated_at BEFORE UPDATE ON contract_abis FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+CREATE TRIGGER rule_packs_updated_at BEFORE UPDATE ON rule_packs FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 CREATE TRIGGER api_keys_updated_at BEFORE UPDATE ON api_keys FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 CREATE TRIGGER bills_updated_at BEFORE UPDATE ON bills FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 CREATE TRIGGER webhooks_updated_at BEFORE UPDATE ON webhooks FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 CREATE TRIGGER bill_jobs_updated_at BEFORE UPDATE ON bill_jobs FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+CREATE TRIGGER bill_batches_updated_at BEFORE UPDATE ON bill_batches FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+CREATE TRIGGER statements_updated_at BEFORE UPDATE ON statements FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+CREATE TRIGGER reclassification_jobs_updated_at BEFORE UPDATE ON reclassification_jobs FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 
 -- -----------------------------------------------------------------------------
 -- 11. EMAIL TEMPLATES
@@ -18,9 +18,9 @@ async function detectDrift() {
 
     // Canonical expectations from master_schema.sql
     const expectedTables = [
-        'chains', 'ad_profiles', 'supported_tokens', 'plans', 'api_keys',
-        'users', 'contributors', 'contributor_events', 'bills', 'webhooks',
-        'webhook_events', 'receipt_templates', 'bill_jobs', 'pending_contributions',
+        'chains', 'contract_abis', 'rule_packs', 'ad_profiles', 'supported_tokens', 'plans', 'api_keys',
+        'users', 'contributors', 'contributor_events', 'bills', 'bill_reorgs', 'classifications', 'webhooks',
+        'webhook_events', 'receipt_templates', 'bill_jobs', 'bill_batches', 'bill_batch_items', 'statements', 'reclassification_jobs', 'pending_contributions',
         'api_usage', 'api_usage_aggregates', 'api_logs', 'audit_logs'
     ];
 